@@ -7,6 +7,7 @@ import { ThemeProvider } from "@/components/theme-provider";
 import QueryPage from "@/pages/query";
 import Dashboard from "@/pages/dashboard";
 import AdminPermissions from "@/pages/admin-permissions";
+import Login from "@/pages/login";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -15,6 +16,7 @@ function Router() {
       <Route path="/" component={QueryPage} />
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/admin/permissions" component={AdminPermissions} />
+      <Route path="/login" component={Login} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import { KeyRound, Loader2, Send } from 'lucide-react';
+
+export type AccessRequestScope =
+  | { type: 'tableAccess'; table: string; categories: string[] }
+  | { type: 'column'; table: string; column: string };
+
+export interface AccessRequest {
+  id: string;
+  userId: string;
+  username: string;
+  question: string;
+  blockedReason: string;
+  scope: AccessRequestScope;
+  comment?: string;
+  status: 'pending' | 'approved' | 'denied';
+  createdAt: string;
+  decidedAt?: string;
+  decidedBy?: { userId?: string; username?: string };
+  decisionComment?: string;
+  grantedCategory?: string;
+}
+
+export function describeAccessScope(scope: AccessRequestScope): string {
+  return scope.type === 'tableAccess'
+    ? `${scope.categories.join(' or ')} data (${scope.table})`
+    : `${scope.column} column of ${scope.table}`;
+}
+
+export const ACCESS_REQUEST_BADGES: Record<AccessRequest['status'], 'secondary' | 'default' | 'destructive'> = {
+  pending: 'secondary',
+  approved: 'default',
+  denied: 'destructive',
+};
+
+/**
+ * "Request access" action shown with a permission-denied answer
+ */
+export function RequestAccessButton({ blockId, onRequested }: { blockId: string; onRequested?: (request: AccessRequest) => void }) {
+  const [open, setOpen] = useState(false);
+  const [comment, setComment] = useState('');
+  const [sending, setSending] = useState(false);
+  const [request, setRequest] = useState<AccessRequest | null>(null);
+  const { toast } = useToast();
+
+  const submit = async () => {
+    try {
+      setSending(true);
+      const response = await fetch('/api/access-requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ blockId, comment: comment.trim() || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to request access');
+      setRequest(data.request);
+      setOpen(false);
+      onRequested?.(data.request);
+      toast({ title: 'Access requested', description: `An administrator will review your request for ${describeAccessScope(data.request.scope)}.` });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to request access', variant: 'destructive' });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (request) {
+    return (
+      <p className="text-sm text-muted-foreground" data-testid="text-access-requested">
+        Access requested for {describeAccessScope(request.scope)}. You'll see the outcome under Access Requests.
+      </p>
+    );
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" data-testid="button-request-access">
+          <KeyRound className="h-4 w-4" />
+          Request access
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3">
+        <p className="text-sm">Ask an administrator for the access this question needs.</p>
+        <Textarea
+          rows={3}
+          placeholder="Why do you need it? (optional)"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          data-testid="input-access-request-comment"
+        />
+        <div className="flex justify-end">
+          <Button size="sm" onClick={submit} disabled={sending} data-testid="button-send-access-request">
+            {sending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+            Send request
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * Header menu listing the signed-in user's access requests and their outcomes
+ */
+export function MyAccessRequests({ refreshKey, className }: { refreshKey?: number; className?: string }) {
+  const [requests, setRequests] = useState<AccessRequest[]>([]);
+
+  const fetchRequests = async () => {
+    try {
+      const response = await fetch('/api/access-requests');
+      if (!response.ok) return;
+      const data = await response.json();
+      setRequests(data.requests || []);
+    } catch (error) {
+      console.error('[access-requests] Failed to fetch:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchRequests();
+  }, [refreshKey]);
+
+  if (requests.length === 0) return null;
+  const pending = requests.filter(request => request.status === 'pending').length;
+
+  return (
+    <Popover onOpenChange={(open) => open && fetchRequests()}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className={className} data-testid="button-my-access-requests" title="Your access requests">
+          <KeyRound className="h-4 w-4" />
+          Access Requests
+          {pending > 0 && <Badge variant="secondary" className="ml-1">{pending}</Badge>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 max-h-96 overflow-y-auto space-y-3" align="end">
+        {requests.map((request) => (
+          <div key={request.id} className="border rounded-lg p-3 space-y-1 text-sm" data-testid={`my-access-request-${request.id}`}>
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{describeAccessScope(request.scope)}</span>
+              <Badge variant={ACCESS_REQUEST_BADGES[request.status]}>{request.status}</Badge>
+            </div>
+            <p className="text-muted-foreground">"{request.question}"</p>
+            {request.decisionComment && (
+              <p data-testid={`text-access-decision-${request.id}`}>
+                {request.decidedBy?.username ?? 'Administrator'}: {request.decisionComment}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Requested {new Date(request.createdAt).toLocaleString()}
+              {request.decidedAt && ` · ${request.status} ${new Date(request.decidedAt).toLocaleString()}`}
+            </p>
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react';
+import { Link, useLocation } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { KeyRound, Loader2, LogIn, LogOut, UserCircle } from 'lucide-react';
+
+interface AuthState {
+  identity: { userId: string; username?: string; source: 'token' | 'session' } | null;
+  authRequired: boolean;
+  hasLocalAccount: boolean;
+}
+
+function ChangePasswordDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) {
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    }
+  }, [open]);
+
+  const save = async () => {
+    if (newPassword !== confirmPassword) {
+      toast({ title: 'Error', description: 'The new passwords do not match', variant: 'destructive' });
+      return;
+    }
+    try {
+      setSaving(true);
+      const response = await fetch('/api/auth/password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currentPassword, newPassword }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to change password');
+      onOpenChange(false);
+      toast({ title: 'Password changed' });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to change password', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Change password</DialogTitle>
+          <DialogDescription>Enter your current password and choose a new one.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="current-password">Current password</Label>
+            <Input id="current-password" type="password" autoComplete="current-password" value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)} data-testid="input-current-password" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="account-new-password">New password</Label>
+            <Input id="account-new-password" type="password" autoComplete="new-password" value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)} data-testid="input-new-password" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="account-confirm-password">Confirm new password</Label>
+            <Input id="account-confirm-password" type="password" autoComplete="new-password" value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)} data-testid="input-confirm-password" />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button onClick={save} disabled={saving || !currentPassword || !newPassword} data-testid="button-save-password">
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Change password
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Header menu for the signed-in user: change a local account's password and sign out.
+ * Shows a sign-in link when nobody is signed in and the server requires it.
+ */
+export function AccountMenu({ className }: { className?: string }) {
+  const [auth, setAuth] = useState<AuthState | null>(null);
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [, setLocation] = useLocation();
+
+  useEffect(() => {
+    fetch('/api/auth/me')
+      .then(response => response.json())
+      .then(setAuth)
+      .catch(error => console.error('[account] Failed to fetch identity:', error));
+  }, []);
+
+  const signOut = async () => {
+    await fetch('/api/auth/session', { method: 'DELETE' });
+    setLocation('/login');
+  };
+
+  if (!auth) return null;
+
+  if (!auth.identity) {
+    if (!auth.authRequired) return null;
+    return (
+      <Link href="/login">
+        <Button variant="ghost" size="sm" className={className} data-testid="link-sign-in">
+          <LogIn className="h-4 w-4" />
+          Sign in
+        </Button>
+      </Link>
+    );
+  }
+
+  // Signed in through the parent app's token; it owns sign-out
+  if (auth.identity.source !== 'session') return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className={className} data-testid="button-account-menu">
+            <UserCircle className="h-4 w-4" />
+            {auth.identity.username ?? auth.identity.userId}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Signed in as {auth.identity.username ?? auth.identity.userId}</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {auth.hasLocalAccount && (
+            <DropdownMenuItem onSelect={() => setChangingPassword(true)} data-testid="menu-change-password">
+              <KeyRound className="h-4 w-4 mr-2" />
+              Change password
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={signOut} data-testid="menu-sign-out">
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign out
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <ChangePasswordDialog open={changingPassword} onOpenChange={setChangingPassword} />
+    </>
+  );
+}
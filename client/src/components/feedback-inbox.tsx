@@ -0,0 +1,344 @@
+import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { GoldenCaseDialog, GoldenCaseSource, PromotedGoldenCase } from '@/components/golden-case-dialog';
+import { AlertCircle, FlaskConical, Inbox, Loader2, Save, ThumbsDown, ThumbsUp } from 'lucide-react';
+
+type TriageStatus = 'new' | 'investigating' | 'fixed' | 'wont_fix';
+
+interface LinkedQueryLog {
+  timestamp: string;
+  requestId: string;
+  route: string;
+  userId?: string;
+  tenantId?: string;
+  rowCount: number | null;
+  timings: { llmMs: number | null; sqlMs: number | null; totalMs: number };
+  selectedTables?: string[];
+  confidence?: string;
+  filters?: { planningArea?: string | null; scenarioId?: string | null; plant?: string | null };
+  error?: { stage: string; message: string };
+}
+
+export interface FeedbackItem {
+  id: number;
+  requestId?: string;
+  userId?: string;
+  question: string;
+  sql: string;
+  feedback: 'up' | 'down';
+  timestamp: string;
+  comment?: string;
+  triage: {
+    status: TriageStatus;
+    notes?: string;
+    correctedSql?: string;
+    updatedBy?: string;
+    updatedAt?: string;
+  };
+  queryLog?: LinkedQueryLog;
+}
+
+interface FeedbackInboxData {
+  entries: FeedbackItem[];
+  counts: Record<TriageStatus, number>;
+}
+
+export const TRIAGE_STATUSES: Array<{ value: TriageStatus; label: string }> = [
+  { value: 'new', label: 'New' },
+  { value: 'investigating', label: 'Investigating' },
+  { value: 'fixed', label: 'Fixed' },
+  { value: 'wont_fix', label: "Won't fix" },
+];
+
+const TRIAGE_BADGES: Record<TriageStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  new: 'destructive',
+  investigating: 'secondary',
+  fixed: 'default',
+  wont_fix: 'outline',
+};
+
+function triageLabel(status: TriageStatus): string {
+  return TRIAGE_STATUSES.find(s => s.value === status)?.label ?? status;
+}
+
+function describeFilters(filters: LinkedQueryLog['filters']): string {
+  const parts = [
+    filters?.planningArea && `planning area ${filters.planningArea}`,
+    filters?.scenarioId && `scenario ${filters.scenarioId}`,
+    filters?.plant && `plant ${filters.plant}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
+function LinkedRequest({ queryLog, requestId }: { queryLog?: LinkedQueryLog; requestId?: string }) {
+  if (!requestId) {
+    return <p className="text-sm text-muted-foreground">Given before feedback was linked to requests.</p>;
+  }
+  if (!queryLog) {
+    return <p className="text-sm text-muted-foreground">Request {requestId} is older than the 7-day log window.</p>;
+  }
+
+  const rows: Array<[string, string]> = [
+    ['Request', queryLog.requestId],
+    ['Asked', new Date(queryLog.timestamp).toLocaleString()],
+    ['User', queryLog.userId ?? 'anonymous'],
+    ['Route', queryLog.route],
+    ['Timings', `total ${queryLog.timings.totalMs}ms · LLM ${queryLog.timings.llmMs ?? '—'}ms · SQL ${queryLog.timings.sqlMs ?? '—'}ms`],
+    ['Rows', queryLog.rowCount === null ? '—' : String(queryLog.rowCount)],
+    ['Tables', queryLog.selectedTables?.length ? `${queryLog.selectedTables.join(', ')} (${queryLog.confidence ?? 'unknown'} confidence)` : 'unknown'],
+    ['Filters', describeFilters(queryLog.filters)],
+  ];
+  if (queryLog.tenantId) rows.push(['Tenant', queryLog.tenantId]);
+  if (queryLog.error) rows.push(['Error', `${queryLog.error.stage}: ${queryLog.error.message}`]);
+
+  return (
+    <dl className="grid grid-cols-[6rem_1fr] gap-x-3 gap-y-1 text-sm" data-testid="feedback-linked-request">
+      {rows.map(([label, value]) => (
+        <div key={label} className="contents">
+          <dt className="text-muted-foreground">{label}</dt>
+          <dd className="break-words">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function FeedbackDetail({ item, promotedAs, onSaved, onPromote }: {
+  item: FeedbackItem;
+  promotedAs?: string; // Id of the golden case made from this item
+  onSaved: () => void;
+  onPromote: () => void;
+}) {
+  const [status, setStatus] = useState<TriageStatus>(item.triage.status);
+  const [notes, setNotes] = useState(item.triage.notes ?? '');
+  const [correctedSql, setCorrectedSql] = useState(item.triage.correctedSql ?? '');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setStatus(item.triage.status);
+    setNotes(item.triage.notes ?? '');
+    setCorrectedSql(item.triage.correctedSql ?? '');
+  }, [item.id]);
+
+  const save = async () => {
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/admin/feedback/${item.id}/triage`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, notes, correctedSql }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save triage');
+      toast({ title: 'Triage saved', description: `Marked as ${triageLabel(status).toLowerCase()}` });
+      onSaved();
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-5" data-testid={`feedback-detail-${item.id}`}>
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          {item.feedback === 'up'
+            ? <ThumbsUp className="h-4 w-4 text-green-500" />
+            : <ThumbsDown className="h-4 w-4 text-red-500" />}
+          <p className="font-medium">{item.question}</p>
+        </div>
+        {item.comment && <p className="text-sm">"{item.comment}"</p>}
+        <p className="text-xs text-muted-foreground">{new Date(item.timestamp).toLocaleString()}</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>SQL shown to the user</Label>
+        <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto whitespace-pre-wrap">{item.sql}</pre>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Request</Label>
+        <LinkedRequest queryLog={item.queryLog} requestId={item.requestId} />
+      </div>
+
+      <div className="space-y-3 pt-4 border-t">
+        <div className="space-y-2">
+          <Label>Status</Label>
+          <Select value={status} onValueChange={(value) => setStatus(value as TriageStatus)}>
+            <SelectTrigger className="w-48" data-testid="select-triage-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRIAGE_STATUSES.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="triage-notes">Notes</Label>
+          <Textarea id="triage-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} data-testid="input-triage-notes" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="triage-sql">Corrected SQL (optional)</Label>
+          <Textarea
+            id="triage-sql"
+            className="font-mono text-xs"
+            value={correctedSql}
+            onChange={(e) => setCorrectedSql(e.target.value)}
+            rows={6}
+            placeholder="The query that should have been generated"
+            data-testid="input-triage-corrected-sql"
+          />
+        </div>
+        {item.triage.updatedAt && (
+          <p className="text-xs text-muted-foreground">
+            Last triaged {new Date(item.triage.updatedAt).toLocaleString()}{item.triage.updatedBy && ` by ${item.triage.updatedBy}`}
+          </p>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <Button onClick={save} disabled={saving} data-testid="button-save-triage">
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save Triage
+          </Button>
+          {promotedAs ? (
+            <Badge variant="outline" data-testid="text-golden-case-id">Golden case: {promotedAs}</Badge>
+          ) : (
+            <Button variant="outline" onClick={onPromote} data-testid="button-promote-golden-case">
+              <FlaskConical className="h-4 w-4 mr-2" />
+              Promote to golden case
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Admin inbox for user feedback: filter by triage status and rating, see the linked
+ * request, record a status, notes and corrected SQL, and promote an item to a golden case
+ */
+export function FeedbackInbox() {
+  const [status, setStatus] = useState<TriageStatus | 'all'>('new');
+  const [rating, setRating] = useState<'up' | 'down' | 'all'>('down');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [promoteSource, setPromoteSource] = useState<GoldenCaseSource | null>(null);
+
+  const params = new URLSearchParams();
+  if (status !== 'all') params.set('status', status);
+  if (rating !== 'all') params.set('feedback', rating);
+  const queryKey = [`/api/admin/feedback?${params.toString()}`];
+  const { data, isLoading, error } = useQuery<FeedbackInboxData>({ queryKey });
+  const { data: goldenCases } = useQuery<{ cases: PromotedGoldenCase[] }>({ queryKey: ['/api/admin/golden-cases'] });
+
+  const selected = data?.entries.find(entry => entry.id === selectedId) ?? data?.entries[0];
+  const total = data ? Object.values(data.counts).reduce((a, b) => a + b, 0) : 0;
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>
+          {String(error.message).startsWith('403') ? 'Administrator access is required to triage feedback.' : 'Failed to load feedback.'}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-4" data-testid="feedback-inbox">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          <Button variant={status === 'all' ? 'default' : 'outline'} size="sm" onClick={() => setStatus('all')} data-testid="filter-triage-all">
+            All <Badge variant="secondary" className="ml-2">{total}</Badge>
+          </Button>
+          {TRIAGE_STATUSES.map(({ value, label }) => (
+            <Button
+              key={value}
+              variant={status === value ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setStatus(value)}
+              data-testid={`filter-triage-${value}`}
+            >
+              {label} <Badge variant="secondary" className="ml-2">{data?.counts[value] ?? 0}</Badge>
+            </Button>
+          ))}
+        </div>
+        <Select value={rating} onValueChange={(value) => setRating(value as typeof rating)}>
+          <SelectTrigger className="w-40" data-testid="select-feedback-rating">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="down">Thumbs down</SelectItem>
+            <SelectItem value="up">Thumbs up</SelectItem>
+            <SelectItem value="all">All ratings</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-5">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Feedback</CardTitle>
+            <CardDescription>Newest first</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2 max-h-[70vh] overflow-y-auto">
+            {isLoading ? (
+              <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />
+            ) : !data || data.entries.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <Inbox className="h-8 w-8 mx-auto mb-2" />
+                <p className="text-sm">No feedback matches these filters</p>
+              </div>
+            ) : (
+              data.entries.map(entry => (
+                <button
+                  key={entry.id}
+                  className={`w-full text-left border rounded-lg p-3 text-sm hover:bg-muted/50 ${selected?.id === entry.id ? 'border-primary bg-muted/50' : ''}`}
+                  onClick={() => setSelectedId(entry.id)}
+                  data-testid={`feedback-item-${entry.id}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium truncate">{entry.question}</span>
+                    <Badge variant={TRIAGE_BADGES[entry.triage.status]}>{triageLabel(entry.triage.status)}</Badge>
+                  </div>
+                  {entry.comment && <p className="text-muted-foreground truncate">"{entry.comment}"</p>}
+                  <p className="text-xs text-muted-foreground">{new Date(entry.timestamp).toLocaleString()}</p>
+                </button>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-3">
+          <CardContent className="pt-6">
+            {selected ? (
+              <FeedbackDetail
+                item={selected}
+                promotedAs={goldenCases?.cases.find(c => c.source.type === 'feedback' && c.source.id === String(selected.id))?.id}
+                onSaved={() => queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/admin/feedback') })}
+                onPromote={() => setPromoteSource({ type: 'feedback', id: String(selected.id) })}
+              />
+            ) : (
+              <p className="text-center py-12 text-muted-foreground">Select feedback to triage it</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <GoldenCaseDialog source={promoteSource} onOpenChange={(open) => !open && setPromoteSource(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState, useEffect } from 'react';
+import { queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+export interface GoldenCaseSource {
+  type: 'feedback' | 'failed_query';
+  id: string;
+}
+
+interface GoldenCaseDraft {
+  id: string;
+  question: string;
+  description: string;
+  filters?: { planningArea?: string | null; scenarioId?: string | null; plant?: string | null };
+  publishDate?: string;
+  expected?: number | string;
+  sqlMustContain?: string[];
+  sqlMustNotContain?: string[];
+  source: GoldenCaseSource;
+  generatedSql?: string | null;
+  correctedSql?: string;
+}
+
+export interface PromotedGoldenCase {
+  id: string;
+  source: GoldenCaseSource & { promotedBy?: string; promotedAt: string };
+}
+
+function toLines(values: string[] | undefined): string {
+  return (values ?? []).join('\n');
+}
+
+function fromLines(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+/**
+ * Review and save a regression case for tests/golden, prefilled by the server from a
+ * feedback item or failed query
+ */
+export function GoldenCaseDialog({ source, onOpenChange }: { source: GoldenCaseSource | null; onOpenChange: (open: boolean) => void }) {
+  const [draft, setDraft] = useState<GoldenCaseDraft | null>(null);
+  const [mustContain, setMustContain] = useState('');
+  const [mustNotContain, setMustNotContain] = useState('');
+  const [expected, setExpected] = useState('');
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setDraft(null);
+    setLoadError(null);
+    if (!source) return;
+    fetch(`/api/admin/golden-cases/draft?source=${source.type}&id=${encodeURIComponent(source.id)}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to prepare the golden case');
+        setDraft(data.draft);
+        setMustContain(toLines(data.draft.sqlMustContain));
+        setMustNotContain(toLines(data.draft.sqlMustNotContain));
+        setExpected(data.draft.expected !== undefined ? String(data.draft.expected) : '');
+      })
+      .catch(error => setLoadError(error.message));
+  }, [source?.type, source?.id]);
+
+  const update = (changes: Partial<GoldenCaseDraft>) => setDraft(current => (current ? { ...current, ...changes } : current));
+  const updateFilter = (field: 'planningArea' | 'scenarioId' | 'plant', value: string) =>
+    update({ filters: { ...draft?.filters, [field]: value || null } });
+
+  const save = async () => {
+    if (!draft) return;
+    const sqlMustContain = fromLines(mustContain);
+    const sqlMustNotContain = fromLines(mustNotContain);
+    const expectedValue = expected.trim() === '' ? undefined : Number.isNaN(Number(expected)) ? expected.trim() : Number(expected);
+    if (expectedValue === undefined && sqlMustContain.length === 0 && sqlMustNotContain.length === 0) {
+      toast({ title: 'Error', description: 'Add an expected value or at least one SQL assertion', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { generatedSql: _generated, correctedSql: _corrected, ...goldenCase } = draft;
+      const response = await fetch('/api/admin/golden-cases', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...goldenCase,
+          publishDate: goldenCase.publishDate || undefined,
+          expected: expectedValue,
+          sqlMustContain,
+          sqlMustNotContain,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save the golden case');
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/golden-cases'] });
+      toast({ title: 'Golden case saved', description: `${data.goldenCase.id} was added to tests/golden/promoted_cases.json` });
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={source !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Promote to golden case</DialogTitle>
+          <DialogDescription>
+            Saved cases run with the jobs report tests (tests/golden/run-jobs-report-tests.ts), so the fix stays fixed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadError ? (
+          <p className="text-sm text-destructive">{loadError}</p>
+        ) : !draft ? (
+          <Loader2 className="h-6 w-6 animate-spin mx-auto text-muted-foreground" />
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="golden-id">Id</Label>
+                <Input id="golden-id" value={draft.id} onChange={(e) => update({ id: e.target.value })} data-testid="input-golden-id" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="golden-publish-date">Publish date</Label>
+                <Input
+                  id="golden-publish-date"
+                  value={draft.publishDate ?? ''}
+                  onChange={(e) => update({ publishDate: e.target.value })}
+                  placeholder="YYYY-MM-DD"
+                  data-testid="input-golden-publish-date"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="golden-question">Question</Label>
+              <Textarea id="golden-question" rows={2} value={draft.question} onChange={(e) => update({ question: e.target.value })} data-testid="input-golden-question" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="golden-description">Description</Label>
+              <Input id="golden-description" value={draft.description} onChange={(e) => update({ description: e.target.value })} data-testid="input-golden-description" />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {(['planningArea', 'scenarioId', 'plant'] as const).map(field => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`golden-${field}`}>{field === 'planningArea' ? 'Planning area' : field === 'scenarioId' ? 'Scenario' : 'Plant'}</Label>
+                  <Input
+                    id={`golden-${field}`}
+                    value={draft.filters?.[field] ?? ''}
+                    onChange={(e) => updateFilter(field, e.target.value)}
+                    placeholder="Any"
+                    data-testid={`input-golden-${field}`}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="golden-must-contain">SQL must contain (one per line)</Label>
+                <Textarea id="golden-must-contain" className="font-mono text-xs" rows={4} value={mustContain}
+                  onChange={(e) => setMustContain(e.target.value)} data-testid="input-golden-must-contain" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="golden-must-not-contain">SQL must not contain (one per line)</Label>
+                <Textarea id="golden-must-not-contain" className="font-mono text-xs" rows={4} value={mustNotContain}
+                  onChange={(e) => setMustNotContain(e.target.value)} data-testid="input-golden-must-not-contain" />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="golden-expected">Expected value in the answer (optional)</Label>
+              <Input id="golden-expected" value={expected} onChange={(e) => setExpected(e.target.value)} data-testid="input-golden-expected" />
+            </div>
+            {(draft.correctedSql || draft.generatedSql) && (
+              <div className="space-y-2">
+                <Label>{draft.correctedSql ? 'Corrected SQL' : 'Generated SQL'}</Label>
+                <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto whitespace-pre-wrap">{draft.correctedSql || draft.generatedSql}</pre>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={save} disabled={saving || !draft} data-testid="button-save-golden-case">
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save golden case
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,6 +7,23 @@ interface DevUser {
 
 const STORAGE_KEY = 'query-insight-dev-user';
 
+// Development sign-in: the server sets a signed session cookie for the chosen user
+async function signIn(user: DevUser | null) {
+  try {
+    if (user) {
+      await fetch('/api/auth/dev-login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: user.userId }),
+      });
+    } else {
+      await fetch('/api/auth/session', { method: 'DELETE' });
+    }
+  } catch (e) {
+    console.error('[dev-user] Failed to update session:', e);
+  }
+}
+
 export function useDevUser() {
   const [devUser, setDevUserState] = useState<DevUser | null>(null);
   const [users, setUsers] = useState<DevUser[]>([]);
@@ -21,7 +38,9 @@ export function useDevUser() {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
       try {
-        setDevUserState(JSON.parse(stored));
+        const user = JSON.parse(stored);
+        setDevUserState(user);
+        signIn(user);
       } catch (e) {
         console.error('[dev-user] Failed to parse stored user:', e);
       }
@@ -32,7 +51,7 @@ export function useDevUser() {
 
   const fetchUsers = async () => {
     try {
-      const response = await fetch('/api/admin/users');
+      const response = await fetch('/api/auth/dev-users');
       const data = await response.json();
       const userList = (data.users || []).map((u: any) => ({
         userId: u.userId,
@@ -48,6 +67,7 @@ export function useDevUser() {
 
   const setDevUser = useCallback((user: DevUser | null) => {
     setDevUserState(user);
+    signIn(user);
     if (user) {
       localStorage.setItem(STORAGE_KEY, JSON.stringify(user));
     } else {
@@ -57,6 +77,7 @@ export function useDevUser() {
 
   const clearDevUser = useCallback(() => {
     setDevUserState(null);
+    signIn(null);
     localStorage.removeItem(STORAGE_KEY);
   }, []);
 
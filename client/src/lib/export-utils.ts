@@ -34,7 +34,7 @@ export function exportToExcel(data: any[], filename: string = 'query-results.xls
 /**
  * Trigger file download in browser
  */
-function downloadFile(blob: Blob, filename: string) {
+export function downloadFile(blob: Blob, filename: string) {
   const link = document.createElement('a');
   const url = URL.createObjectURL(blob);
   
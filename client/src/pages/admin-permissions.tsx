@@ -5,54 +5,1625 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Loader2, Plus, Trash2, Save, Users, Shield, ArrowLeft, RefreshCw } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, Plus, Trash2, Save, Users, Shield, ArrowLeft, RefreshCw, Ban, UsersRound, History, Search, Table2, Play, Download, Upload, KeyRound, Check, X, Clock } from 'lucide-react';
 import { Link } from 'wouter';
 import { ThemeToggle } from '@/components/theme-toggle';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/export-utils';
+import { AccessRequest, ACCESS_REQUEST_BADGES, describeAccessScope } from '@/components/access-requests';
 
-interface UserPermissions {
+type TableAccess = string; // Table access category name
+
+interface TableAccessCategory {
+  name: string;
+  description?: string;
+  tables: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ColumnRule {
+  table: string; // Table name without schema, or '*' for every table
+  column: string;
+  action: 'hide' | 'mask';
+}
+
+type GrantType = 'planningArea' | 'scenario' | 'plant' | 'tableAccess';
+
+// Time-bounded addition to a user's allowed values
+interface PermissionGrant {
+  type: GrantType;
+  value: string;
+  startsAt?: string | null;
+  expiresAt?: string | null;
+}
+
+// Scopes shared by users and groups
+interface PermissionScope {
+  allowedPlanningAreas: string[] | null;
+  allowedScenarios: string[] | null;
+  allowedPlants: string[] | null;
+  allowedTableAccess: TableAccess[] | null;
+  deniedPlanningAreas?: string[] | null;
+  deniedScenarios?: string[] | null;
+  deniedPlants?: string[] | null;
+  deniedTableAccess?: TableAccess[] | null;
+  maxRows?: number | null;
+  columnRules?: ColumnRule[] | null;
+}
+
+interface UserPermissions extends PermissionScope {
   userId: string;
   username: string;
   email?: string;
   isAdmin: boolean;
-  allowedPlanningAreas: string[] | null;
-  allowedScenarios: string[] | null;
-  allowedPlants: string[] | null;
-  allowedTableAccess: ('Sales' | 'Revenue')[] | null;
+  groupIds?: string[] | null;
+  grants?: PermissionGrant[] | null;
   createdAt: string;
   updatedAt: string;
 }
 
+interface PermissionGroup extends PermissionScope {
+  groupId: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Merged user + group permissions; an empty allowed list means nothing is allowed
+interface EffectivePermissions extends UserPermissions {
+  deniedPlanningAreas: string[];
+  deniedScenarios: string[];
+  deniedPlants: string[];
+  deniedTableAccess: TableAccess[];
+  groups: Array<{ groupId: string; name: string }>;
+  activeGrants: PermissionGrant[];
+}
+
+interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: { userId?: string; username?: string };
+  action: 'create' | 'update' | 'delete';
+  entityType: 'user' | 'group' | 'category' | 'account' | 'feedback' | 'golden_case';
+  entityId: string;
+  entityName?: string;
+  changes: Array<{ field: string; before: unknown; after: unknown }>;
+  note?: string;
+}
+
+interface LocalAccount {
+  userId: string;
+  username: string;
+  mustChangePassword: boolean;
+  passwordChangedAt?: string;
+  lastLoginAt?: string;
+  createdAt: string;
+}
+
+interface UpcomingExpiration {
+  userId: string;
+  username: string;
+  grant: PermissionGrant;
+  status: 'scheduled' | 'active' | 'expired';
+}
+
+interface PermissionPreview {
+  stage: 'generation' | 'validation' | 'permissions' | 'complete';
+  allowed: boolean;
+  error?: string;
+  generatedSql?: string;
+  validatedSql?: string;
+  permissionSql?: string;
+  finalSql?: string;
+  rowLimit: number;
+  permissionFilters: string[];
+  globalFilters: string[];
+  columnMasking?: { masked: string[]; hidden: string[] };
+  blockedReason?: string;
+  blockedTable?: string;
+  inaccessibleTables: string[];
+  sample?: { rows: Record<string, unknown>[]; rowCount: number; error?: string };
+}
+
+interface ImportPlan {
+  added: Array<{ userId: string; username: string }>;
+  changed: Array<{ userId: string; username: string; changes: Array<{ field: string; before: unknown; after: unknown }> }>;
+  removed: Array<{ userId: string; username: string }>;
+  unchanged: number;
+  errors: Array<{ row: number; userId?: string; message: string }>;
+}
+
 interface FilterOptions {
   planningAreas: string[];
   scenarios: string[];
   plants: string[];
 }
 
-const TABLE_ACCESS_OPTIONS = ['Sales', 'Revenue'] as const;
+type ScopeListField = 'allowedPlanningAreas' | 'allowedScenarios' | 'allowedPlants' | 'allowedTableAccess';
+type DenyListField = 'deniedPlanningAreas' | 'deniedScenarios' | 'deniedPlants' | 'deniedTableAccess';
+
+const ALL_TABLES = '*';
+
+const SCOPE_SECTIONS: Array<{
+  title: string;
+  field: ScopeListField;
+  deniedField: DenyListField;
+  options: keyof FilterOptions | 'tableAccess';
+  idPrefix: string;
+  testId: string;
+  toggleTestId: string;
+  allLabel: string;
+}> = [
+  { title: 'Planning Areas', field: 'allowedPlanningAreas', deniedField: 'deniedPlanningAreas', options: 'planningAreas', idPrefix: 'pa', testId: 'planning-area', toggleTestId: 'planning-areas', allLabel: 'All planning areas allowed' },
+  { title: 'Scenarios', field: 'allowedScenarios', deniedField: 'deniedScenarios', options: 'scenarios', idPrefix: 'sc', testId: 'scenario', toggleTestId: 'scenarios', allLabel: 'All scenarios allowed' },
+  { title: 'Plants', field: 'allowedPlants', deniedField: 'deniedPlants', options: 'plants', idPrefix: 'pl', testId: 'plant', toggleTestId: 'plants', allLabel: 'All plants allowed' },
+  { title: 'Table Access', field: 'allowedTableAccess', deniedField: 'deniedTableAccess', options: 'tableAccess', idPrefix: 'ta', testId: 'table', toggleTestId: 'tables', allLabel: 'All table access categories allowed' },
+];
+
+function ScopeEditor({
+  scope,
+  onChange,
+  filterOptions,
+  tableAccessOptions,
+  allLabelSuffix,
+}: {
+  scope: PermissionScope;
+  onChange: (patch: Partial<PermissionScope>) => void;
+  filterOptions: FilterOptions;
+  tableAccessOptions: string[];
+  allLabelSuffix?: string;
+}) {
+  const toggleArrayItem = (field: ScopeListField, value: string) => {
+    const currentArray = scope[field] as string[] | null;
+    let newArray: string[] | null;
+
+    if (currentArray === null) {
+      newArray = [value];
+    } else if (currentArray.includes(value)) {
+      newArray = currentArray.filter(v => v !== value);
+      if (newArray.length === 0) newArray = null;
+    } else {
+      newArray = [...currentArray, value];
+    }
+
+    onChange({ [field]: newArray });
+  };
+
+  const toggleDenied = (field: DenyListField, value: string) => {
+    const current = (scope[field] as string[] | null | undefined) || [];
+    const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+    onChange({ [field]: next.length > 0 ? next : null });
+  };
+
+  const isItemSelected = (field: ScopeListField, value: string): boolean => {
+    const arr = scope[field] as string[] | null;
+    return arr === null || arr.includes(value);
+  };
+
+  const toggleAllAccess = (field: ScopeListField) => {
+    const isCurrentlyAll = scope[field] === null;
+    onChange({ [field]: isCurrentlyAll ? [] : null });
+  };
+
+  return (
+    <>
+      {SCOPE_SECTIONS.map((section) => {
+        const values: string[] = section.options === 'tableAccess' ? tableAccessOptions : filterOptions[section.options];
+        const denied = (scope[section.deniedField] as string[] | null | undefined) || [];
+        return (
+          <div key={section.field} className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="font-medium">{section.title}</Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => toggleAllAccess(section.field)}
+                data-testid={`button-toggle-all-${section.toggleTestId}`}
+              >
+                {scope[section.field] === null ? 'Restrict' : 'Allow All'}
+              </Button>
+            </div>
+            <div className={`border rounded-lg p-3 space-y-2 ${section.options === 'tableAccess' ? '' : 'max-h-48 overflow-y-auto'}`}>
+              {values.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Loading...</p>
+              ) : (
+                values.map((value) => (
+                  <div key={value} className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`${section.idPrefix}-${value}`}
+                        checked={isItemSelected(section.field, value)}
+                        onCheckedChange={() => toggleArrayItem(section.field, value)}
+                        disabled={scope[section.field] === null}
+                        data-testid={`checkbox-${section.testId}-${value}`}
+                      />
+                      <Label
+                        htmlFor={`${section.idPrefix}-${value}`}
+                        className={`text-sm ${denied.includes(value) ? 'line-through text-destructive' : ''}`}
+                      >
+                        {value}
+                      </Label>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className={`h-6 w-6 ${denied.includes(value) ? 'text-destructive' : 'text-muted-foreground'}`}
+                      onClick={() => toggleDenied(section.deniedField, value)}
+                      title={denied.includes(value) ? 'Remove deny' : 'Deny (overrides any group or allowed value)'}
+                      data-testid={`button-deny-${section.testId}-${value}`}
+                    >
+                      <Ban className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+            {scope[section.field] === null && (
+              <p className="text-xs text-muted-foreground">{section.allLabel}{allLabelSuffix}</p>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="space-y-3">
+        <Label htmlFor="maxRows" className="font-medium">Rows per Page</Label>
+        <Input
+          id="maxRows"
+          type="number"
+          min={1}
+          max={1000}
+          placeholder="Policy default"
+          value={scope.maxRows ?? ''}
+          onChange={(e) => {
+            const value = parseInt(e.target.value, 10);
+            onChange({ maxRows: Number.isNaN(value) ? null : Math.min(Math.max(value, 1), 1000) });
+          }}
+          data-testid="input-max-rows"
+        />
+        <p className="text-xs text-muted-foreground">
+          Row limit for each page of query results. Leave empty to use the policy default.
+        </p>
+      </div>
+    </>
+  );
+}
+
+function ColumnRulesEditor({
+  rules,
+  onChange,
+  tableColumns,
+}: {
+  rules: ColumnRule[];
+  onChange: (rules: ColumnRule[] | null) => void;
+  tableColumns: Record<string, string[]>;
+}) {
+  const [ruleTable, setRuleTable] = useState('');
+  const [ruleColumn, setRuleColumn] = useState('');
+  const [ruleAction, setRuleAction] = useState<ColumnRule['action']>('mask');
+
+  const ruleColumnOptions = ruleTable === ALL_TABLES
+    ? Array.from(new Set(Object.values(tableColumns).flat())).sort()
+    : tableColumns[ruleTable] || [];
+
+  const addColumnRule = () => {
+    if (!ruleTable || !ruleColumn) return;
+    const others = rules.filter(rule => !(rule.table === ruleTable && rule.column === ruleColumn));
+    onChange([...others, { table: ruleTable, column: ruleColumn, action: ruleAction }]);
+    setRuleColumn('');
+  };
+
+  const removeColumnRule = (index: number) => {
+    const remaining = rules.filter((_, i) => i !== index);
+    onChange(remaining.length > 0 ? remaining : null);
+  };
+
+  return (
+    <div className="space-y-3 md:col-span-2">
+      <Label className="font-medium">Column Rules</Label>
+      <div className="border rounded-lg p-3 space-y-2" data-testid="column-rules">
+        {rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No column rules - all columns visible</p>
+        ) : (
+          rules.map((rule, index) => (
+            <div key={`${rule.table}-${rule.column}`} className="flex items-center justify-between text-sm" data-testid={`column-rule-${index}`}>
+              <span>
+                <span className="font-medium">{rule.table === ALL_TABLES ? 'All tables' : rule.table}</span>.{rule.column}
+              </span>
+              <div className="flex items-center gap-2">
+                <Badge variant={rule.action === 'hide' ? 'destructive' : 'secondary'}>
+                  {rule.action === 'hide' ? 'Hidden' : 'Masked'}
+                </Badge>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive hover:text-destructive"
+                  onClick={() => removeColumnRule(index)}
+                  data-testid={`button-remove-column-rule-${index}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={ruleTable} onValueChange={(value) => { setRuleTable(value); setRuleColumn(''); }}>
+          <SelectTrigger className="w-64" data-testid="select-rule-table">
+            <SelectValue placeholder="Table" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TABLES}>All tables</SelectItem>
+            {Object.keys(tableColumns).sort().map((table) => (
+              <SelectItem key={table} value={table}>{table}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={ruleColumn} onValueChange={setRuleColumn} disabled={!ruleTable}>
+          <SelectTrigger className="w-56" data-testid="select-rule-column">
+            <SelectValue placeholder="Column" />
+          </SelectTrigger>
+          <SelectContent>
+            {ruleColumnOptions.map((column) => (
+              <SelectItem key={column} value={column}>{column}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={ruleAction} onValueChange={(value) => setRuleAction(value as ColumnRule['action'])}>
+          <SelectTrigger className="w-32" data-testid="select-rule-action">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="mask">Mask</SelectItem>
+            <SelectItem value="hide">Hide</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={addColumnRule} disabled={!ruleTable || !ruleColumn} data-testid="button-add-column-rule">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Hidden columns can't be queried at all. Masked columns can be selected but show {'****'} and can't be used to filter or sort.
+      </p>
+    </div>
+  );
+}
+
+const GRANT_TYPES: Array<{ type: GrantType; label: string }> = [
+  { type: 'planningArea', label: 'Planning Area' },
+  { type: 'scenario', label: 'Scenario' },
+  { type: 'plant', label: 'Plant' },
+  { type: 'tableAccess', label: 'Table Access' },
+];
+
+function grantTypeLabel(type: GrantType): string {
+  return GRANT_TYPES.find(option => option.type === type)?.label ?? type;
+}
+
+function grantStatus(grant: PermissionGrant, now: number = Date.now()): UpcomingExpiration['status'] {
+  if (grant.expiresAt && new Date(grant.expiresAt).getTime() <= now) return 'expired';
+  if (grant.startsAt && new Date(grant.startsAt).getTime() > now) return 'scheduled';
+  return 'active';
+}
+
+function describeGrantWindow(grant: PermissionGrant): string {
+  const start = grant.startsAt ? `from ${new Date(grant.startsAt).toLocaleString()}` : '';
+  const end = grant.expiresAt ? `until ${new Date(grant.expiresAt).toLocaleString()}` : 'no expiry';
+  return [start, end].filter(Boolean).join(' ');
+}
+
+const GRANT_STATUS_BADGES: Record<UpcomingExpiration['status'], 'default' | 'secondary' | 'destructive'> = {
+  active: 'default',
+  scheduled: 'secondary',
+  expired: 'destructive',
+};
+
+function GrantsEditor({
+  grants,
+  onChange,
+  options,
+}: {
+  grants: PermissionGrant[];
+  onChange: (grants: PermissionGrant[] | null) => void;
+  options: Record<GrantType, string[]>;
+}) {
+  const [grantType, setGrantType] = useState<GrantType>('plant');
+  const [grantValue, setGrantValue] = useState('');
+  const [startsAt, setStartsAt] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+
+  const invalidWindow = !!startsAt && !!expiresAt && new Date(startsAt) >= new Date(expiresAt);
+
+  const addGrant = () => {
+    if (!grantValue || invalidWindow) return;
+    onChange([...grants, {
+      type: grantType,
+      value: grantValue,
+      startsAt: startsAt ? new Date(startsAt).toISOString() : null,
+      expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+    }]);
+    setGrantValue('');
+  };
+
+  const removeGrant = (index: number) => {
+    const remaining = grants.filter((_, i) => i !== index);
+    onChange(remaining.length > 0 ? remaining : null);
+  };
+
+  return (
+    <div className="space-y-3 md:col-span-2">
+      <Label className="font-medium">Temporary Grants</Label>
+      <div className="border rounded-lg p-3 space-y-2" data-testid="permission-grants">
+        {grants.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No temporary grants</p>
+        ) : (
+          grants.map((grant, index) => {
+            const status = grantStatus(grant);
+            return (
+              <div key={`${grant.type}-${grant.value}-${grant.startsAt}-${grant.expiresAt}`} className="flex items-center justify-between gap-2 text-sm" data-testid={`grant-${index}`}>
+                <span>
+                  <span className="text-muted-foreground">{grantTypeLabel(grant.type)}:</span>{' '}
+                  <span className="font-medium">{grant.value}</span>{' '}
+                  <span className="text-muted-foreground">{describeGrantWindow(grant)}</span>
+                </span>
+                <div className="flex items-center gap-2">
+                  <Badge variant={GRANT_STATUS_BADGES[status]}>{status}</Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive hover:text-destructive"
+                    onClick={() => removeGrant(index)}
+                    data-testid={`button-remove-grant-${index}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+      <div className="flex flex-wrap items-end gap-2">
+        <Select value={grantType} onValueChange={(value) => { setGrantType(value as GrantType); setGrantValue(''); }}>
+          <SelectTrigger className="w-40" data-testid="select-grant-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {GRANT_TYPES.map(({ type, label }) => (
+              <SelectItem key={type} value={type}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={grantValue} onValueChange={setGrantValue}>
+          <SelectTrigger className="w-56" data-testid="select-grant-value">
+            <SelectValue placeholder="Value" />
+          </SelectTrigger>
+          <SelectContent>
+            {options[grantType].map((value) => (
+              <SelectItem key={value} value={value}>{value}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="space-y-1">
+          <Label htmlFor="grant-starts" className="text-xs text-muted-foreground">Starts (optional)</Label>
+          <Input id="grant-starts" type="datetime-local" className="w-52" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} data-testid="input-grant-starts" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="grant-expires" className="text-xs text-muted-foreground">Expires (optional)</Label>
+          <Input id="grant-expires" type="datetime-local" className="w-52" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} data-testid="input-grant-expires" />
+        </div>
+        <Button variant="outline" size="sm" onClick={addGrant} disabled={!grantValue || invalidWindow} data-testid="button-add-grant">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Grant
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {invalidWindow
+          ? 'The expiry must be after the start.'
+          : 'Grants add a value to a restricted list while they are active; a list that allows everything already includes it. Denies still win. Expired grants are removed automatically and the removal is audited.'}
+      </p>
+    </div>
+  );
+}
+
+function UpcomingExpirations({ refreshKey, onSelectUser }: { refreshKey: unknown; onSelectUser: (userId: string) => void }) {
+  const [expirations, setExpirations] = useState<UpcomingExpiration[]>([]);
+
+  useEffect(() => {
+    fetch('/api/admin/permission-grants/expiring?days=14')
+      .then(response => (response.ok ? response.json() : { expirations: [] }))
+      .then(data => setExpirations(data.expirations || []))
+      .catch(() => setExpirations([]));
+  }, [refreshKey]);
+
+  if (expirations.length === 0) return null;
+
+  return (
+    <Card data-testid="card-upcoming-expirations">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Expiring Soon
+        </CardTitle>
+        <CardDescription>Temporary grants ending in the next 14 days</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {expirations.map(({ userId, username, grant, status }, index) => (
+          <button
+            key={`${userId}-${index}`}
+            className="w-full text-left border rounded-lg p-2 text-sm hover:bg-muted/50"
+            onClick={() => onSelectUser(userId)}
+            data-testid={`expiring-grant-${index}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{username}</span>
+              {status === 'scheduled' && <Badge variant="secondary">scheduled</Badge>}
+            </div>
+            <div className="text-muted-foreground">
+              {grantTypeLabel(grant.type)} {grant.value} · expires {new Date(grant.expiresAt!).toLocaleString()}
+            </div>
+          </button>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function describeScope(allowed: string[] | null, denied: string[]): string {
+  if (allowed === null) {
+    return denied.length > 0 ? `All except ${denied.join(', ')}` : 'All';
+  }
+  return allowed.length > 0 ? allowed.join(', ') : 'None';
+}
+
+function EffectiveAccess({ effective }: { effective: EffectivePermissions }) {
+  const rows: Array<[string, string]> = effective.isAdmin
+    ? [['Access', 'Administrator - no restrictions']]
+    : [
+        ['Groups', effective.groups.length > 0 ? effective.groups.map(g => g.name).join(', ') : 'None'],
+        ['Planning Areas', describeScope(effective.allowedPlanningAreas, effective.deniedPlanningAreas)],
+        ['Scenarios', describeScope(effective.allowedScenarios, effective.deniedScenarios)],
+        ['Plants', describeScope(effective.allowedPlants, effective.deniedPlants)],
+        ['Table Access', describeScope(effective.allowedTableAccess, [])],
+        ['Temporary Grants', effective.activeGrants.map(g => `${grantTypeLabel(g.type)} ${g.value}${g.expiresAt ? ` (until ${new Date(g.expiresAt).toLocaleString()})` : ''}`).join(', ') || 'None active'],
+        ['Column Rules', (effective.columnRules || []).map(r => `${r.table === ALL_TABLES ? 'All tables' : r.table}.${r.column} (${r.action === 'hide' ? 'hidden' : 'masked'})`).join(', ') || 'None'],
+        ['Rows per Page', effective.maxRows ? String(effective.maxRows) : 'Policy default'],
+      ];
+
+  return (
+    <div className="border rounded-lg p-4 bg-muted/30 space-y-2" data-testid="effective-permissions">
+      <div className="flex items-center justify-between">
+        <Label className="font-medium">Effective Access</Label>
+        <span className="text-xs text-muted-foreground">Saved permissions merged with groups; denies win</span>
+      </div>
+      {rows.map(([label, value]) => (
+        <div key={label} className="grid grid-cols-3 gap-2 text-sm">
+          <span className="text-muted-foreground">{label}</span>
+          <span className="col-span-2" data-testid={`effective-${label.toLowerCase().replace(/\s+/g, '-')}`}>{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TableAccessCategories({
+  categories,
+  tables,
+  onChanged,
+}: {
+  categories: TableAccessCategory[];
+  tables: string[];
+  onChanged: () => void;
+}) {
+  const [selected, setSelected] = useState<TableAccessCategory | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [showNewDialog, setShowNewDialog] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const { toast } = useToast();
+
+  // Tables the category already lists but the schema doesn't (yet) know about stay visible
+  const tableOptions = selected
+    ? Array.from(new Set([...tables, ...selected.tables])).sort()
+    : tables;
+
+  const toggleTable = (table: string) => {
+    if (!selected) return;
+    const next = selected.tables.includes(table)
+      ? selected.tables.filter(t => t !== table)
+      : [...selected.tables, table];
+    setSelected({ ...selected, tables: next });
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) {
+      toast({ title: 'Error', description: 'Category name is required', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch('/api/admin/table-access-categories', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName.trim(), description: newDescription.trim() || undefined, tables: [] }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to create category');
+
+      setSelected(data.category);
+      setNewName('');
+      setNewDescription('');
+      setShowNewDialog(false);
+      onChanged();
+      toast({ title: 'Success', description: 'Category created - now choose its tables' });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/admin/table-access-categories/${encodeURIComponent(selected.name)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(selected),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save category');
+
+      setSelected(data.category);
+      onChanged();
+      toast({ title: 'Success', description: 'Category saved successfully' });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    if (!confirm(`Delete the ${name} category? Users and groups granted it lose that grant, and its tables become open to everyone unless another category covers them.`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/table-access-categories/${encodeURIComponent(name)}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete category');
+
+      if (selected?.name === name) setSelected(null);
+      onChanged();
+      toast({ title: 'Success', description: 'Category deleted successfully' });
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to delete category', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="lg:col-span-1">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              <Table2 className="h-5 w-5" />
+              Categories
+            </CardTitle>
+            <Dialog open={showNewDialog} onOpenChange={setShowNewDialog}>
+              <DialogTrigger asChild>
+                <Button size="sm" data-testid="button-add-category">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Category
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add Table Access Category</DialogTitle>
+                  <DialogDescription>
+                    Tables in a category can only be queried by users and groups granted it.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 py-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="categoryName">Name</Label>
+                    <Input
+                      id="categoryName"
+                      value={newName}
+                      onChange={(e) => setNewName(e.target.value)}
+                      placeholder="e.g. Procurement"
+                      data-testid="input-new-category-name"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="categoryDescription">Description (optional)</Label>
+                    <Input
+                      id="categoryDescription"
+                      value={newDescription}
+                      onChange={(e) => setNewDescription(e.target.value)}
+                      placeholder="What data these tables hold"
+                      data-testid="input-new-category-description"
+                    />
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setShowNewDialog(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleCreate} disabled={saving} data-testid="button-create-category">
+                    {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Create Category
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {categories.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No categories - every table is open to all users.</p>
+          ) : (
+            <div className="space-y-2">
+              {categories.map((category) => (
+                <div
+                  key={category.name}
+                  className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+                    selected?.name === category.name ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                  }`}
+                  onClick={() => setSelected({ ...category })}
+                  data-testid={`category-item-${category.name}`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="font-medium">{category.name}</div>
+                      {category.description && <div className="text-sm text-muted-foreground">{category.description}</div>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{category.tables.length} tables</Badge>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(category.name);
+                        }}
+                        data-testid={`button-delete-category-${category.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle>Tables</CardTitle>
+          <CardDescription>
+            {selected ? `Tables in the ${selected.name} category` : 'Select a category to choose its tables'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!selected ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Table2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>Select a category from the list to manage its tables</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="categoryDescriptionEdit">Description</Label>
+                <Input
+                  id="categoryDescriptionEdit"
+                  value={selected.description || ''}
+                  onChange={(e) => setSelected({ ...selected, description: e.target.value || undefined })}
+                  data-testid="input-category-description"
+                />
+              </div>
+              <div className="border rounded-lg p-3 grid grid-cols-1 md:grid-cols-2 gap-2 max-h-96 overflow-y-auto">
+                {tableOptions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Loading...</p>
+                ) : (
+                  tableOptions.map((table) => (
+                    <div key={table} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`cat-${table}`}
+                        checked={selected.tables.includes(table)}
+                        onCheckedChange={() => toggleTable(table)}
+                        data-testid={`checkbox-category-table-${table}`}
+                      />
+                      <Label htmlFor={`cat-${table}`} className="text-sm">{table}</Label>
+                    </div>
+                  ))
+                )}
+              </div>
+              <div className="flex justify-end pt-4 border-t">
+                <Button onClick={handleSave} disabled={saving} data-testid="button-save-category">
+                  {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                  Save Category
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+const AUDIT_ENTITY_LABELS: Record<AuditEntry['entityType'], string> = {
+  user: 'User',
+  group: 'Group',
+  category: 'Table access category',
+  account: 'Local account',
+  feedback: 'Feedback',
+  golden_case: 'Golden case',
+};
+
+function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) return 'unset';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return value.map(v => (typeof v === 'object' ? JSON.stringify(v) : String(v))).join(', ');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function PreviewSql({ label, sql, testId }: { label: string; sql?: string; testId: string }) {
+  if (!sql) return null;
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <pre className="text-xs font-mono bg-background border rounded p-2 whitespace-pre-wrap break-all" data-testid={testId}>{sql}</pre>
+    </div>
+  );
+}
+
+// Temporary password for the admin to hand over; the user replaces it at first sign-in
+function generateTemporaryPassword(): string {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789';
+  const bytes = crypto.getRandomValues(new Uint8Array(14));
+  return Array.from(bytes, byte => alphabet[byte % alphabet.length]).join('');
+}
+
+function LocalAccountPanel({ userId, username }: { userId: string; username: string }) {
+  const [account, setAccount] = useState<LocalAccount | null | undefined>(undefined);
+  const [accountUsername, setAccountUsername] = useState(username);
+  const [password, setPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchAccount = async () => {
+    try {
+      const response = await fetch('/api/admin/accounts');
+      const data = await response.json();
+      setAccount((data.accounts || []).find((a: LocalAccount) => a.userId === userId) ?? null);
+    } catch (error) {
+      console.error('Failed to fetch local accounts:', error);
+      setAccount(null);
+    }
+  };
+
+  useEffect(() => {
+    fetchAccount();
+  }, [userId]);
+
+  const submit = async (url: string, body: object, success: string) => {
+    try {
+      setSaving(true);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Request failed');
+      setAccount(data.account);
+      setPassword('');
+      toast({ title: success, description: 'The user must choose a new password when they sign in.' });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!account || !confirm(`Delete the local account ${account.username}? ${username} will no longer be able to sign in with a password.`)) return;
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/admin/accounts/${encodeURIComponent(userId)}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error((await response.json()).error || 'Failed to delete account');
+      setAccount(null);
+      toast({ title: 'Local account deleted' });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (account === undefined) return null;
+
+  return (
+    <div className="space-y-3 pt-4 border-t" data-testid="local-account">
+      <div>
+        <Label className="text-base font-semibold flex items-center gap-2">
+          <KeyRound className="h-4 w-4" />
+          Local Account
+        </Label>
+        <p className="text-sm text-muted-foreground">
+          {account
+            ? <>Signs in as <span className="font-medium">{account.username}</span>
+                {' · '}{account.lastLoginAt ? `last sign-in ${new Date(account.lastLoginAt).toLocaleString()}` : 'never signed in'}
+                {account.mustChangePassword && <Badge variant="secondary" className="ml-2">must change password</Badge>}</>
+            : 'Lets this user sign in with a username and password when the app runs outside the parent application.'}
+        </p>
+      </div>
+      <div className="flex flex-wrap items-end gap-2">
+        {!account && (
+          <div className="space-y-1">
+            <Label htmlFor="account-username" className="text-xs">Username</Label>
+            <Input
+              id="account-username"
+              className="w-48"
+              value={accountUsername}
+              onChange={(e) => setAccountUsername(e.target.value)}
+              data-testid="input-account-username"
+            />
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label htmlFor="account-password" className="text-xs">{account ? 'New temporary password' : 'Temporary password'}</Label>
+          <div className="flex gap-1">
+            <Input
+              id="account-password"
+              className="w-48 font-mono"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              data-testid="input-account-password"
+            />
+            <Button variant="outline" size="sm" className="h-10" onClick={() => setPassword(generateTemporaryPassword())} data-testid="button-generate-password">
+              Generate
+            </Button>
+          </div>
+        </div>
+        {account ? (
+          <>
+            <Button
+              onClick={() => submit(`/api/admin/accounts/${encodeURIComponent(userId)}/reset-password`, { password }, 'Password reset')}
+              disabled={saving || !password}
+              data-testid="button-reset-password"
+            >
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Reset Password
+            </Button>
+            <Button variant="ghost" size="icon" onClick={handleDelete} disabled={saving} data-testid="button-delete-account">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </>
+        ) : (
+          <Button
+            onClick={() => submit('/api/admin/accounts', { userId, username: accountUsername, password }, 'Local account created')}
+            disabled={saving || !password || !accountUsername.trim()}
+            data-testid="button-create-account"
+          >
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create Account
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PermissionPreviewPanel({ userId, username }: { userId: string; username: string }) {
+  const [mode, setMode] = useState<'question' | 'sql'>('question');
+  const [input, setInput] = useState('');
+  const [includeRows, setIncludeRows] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [preview, setPreview] = useState<PermissionPreview | null>(null);
+  const { toast } = useToast();
+
+  const runPreview = async () => {
+    if (!input.trim()) return;
+    try {
+      setRunning(true);
+      const response = await fetch(`/api/admin/permissions/${encodeURIComponent(userId)}/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ [mode]: input, includeRows }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to run preview');
+      setPreview(data.preview);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to run preview', variant: 'destructive' });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const sampleColumns = preview?.sample?.rows.length ? Object.keys(preview.sample.rows[0]) : [];
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3" data-testid="permission-preview">
+      <div className="flex items-center justify-between">
+        <Label className="font-medium">Test as this user</Label>
+        <span className="text-xs text-muted-foreground">Uses saved permissions; not logged as {username}</span>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={mode} onValueChange={(value) => setMode(value as 'question' | 'sql')}>
+          <SelectTrigger className="w-36" data-testid="select-preview-mode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="question">Question</SelectItem>
+            <SelectItem value="sql">Raw SQL</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="previewIncludeRows"
+            checked={includeRows}
+            onCheckedChange={(checked) => setIncludeRows(checked === true)}
+            data-testid="checkbox-preview-rows"
+          />
+          <Label htmlFor="previewIncludeRows" className="text-sm">Include sample rows</Label>
+        </div>
+      </div>
+      <Textarea
+        rows={mode === 'sql' ? 5 : 2}
+        className={mode === 'sql' ? 'font-mono text-xs' : undefined}
+        placeholder={mode === 'sql' ? 'SELECT TOP 10 * FROM publish.DASHt_Planning' : 'Which jobs are late this week?'}
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        data-testid="input-preview"
+      />
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={runPreview} disabled={running || !input.trim()} data-testid="button-run-preview">
+          {running ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+          Run Preview
+        </Button>
+      </div>
+
+      {preview && (
+        <div className="space-y-3 pt-2 border-t" data-testid="preview-result">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant={preview.allowed ? 'default' : 'destructive'} data-testid="badge-preview-status">
+              {preview.allowed ? 'Allowed' : preview.stage === 'permissions' ? 'Blocked' : 'Failed'}
+            </Badge>
+            <span className="text-muted-foreground">Row limit {preview.rowLimit}</span>
+          </div>
+          {(preview.error || preview.blockedReason) && (
+            <p className="text-sm text-destructive" data-testid="text-preview-error">
+              {preview.error || preview.blockedReason}
+              {preview.blockedTable && ` (table ${preview.blockedTable})`}
+            </p>
+          )}
+          <PreviewSql label="Generated SQL" sql={preview.generatedSql} testId="preview-generated-sql" />
+          <PreviewSql label="Validated SQL" sql={preview.validatedSql} testId="preview-validated-sql" />
+          <PreviewSql label="After permissions and filters" sql={preview.finalSql} testId="preview-final-sql" />
+          <div className="grid grid-cols-3 gap-2 text-sm">
+            <span className="text-muted-foreground">Permission filters</span>
+            <span className="col-span-2" data-testid="preview-permission-filters">{preview.permissionFilters.join('; ') || 'None'}</span>
+            <span className="text-muted-foreground">Global filters</span>
+            <span className="col-span-2" data-testid="preview-global-filters">{preview.globalFilters.join('; ') || 'None'}</span>
+            <span className="text-muted-foreground">Masked / hidden</span>
+            <span className="col-span-2" data-testid="preview-column-masking">
+              {[...(preview.columnMasking?.masked || []).map(c => `${c} (masked)`), ...(preview.columnMasking?.hidden || []).map(c => `${c} (hidden)`)].join(', ') || 'None'}
+            </span>
+            <span className="text-muted-foreground">Blocked tables</span>
+            <span className="col-span-2" data-testid="preview-blocked-tables">{preview.inaccessibleTables.join(', ') || 'None'}</span>
+          </div>
+          {preview.sample && (
+            <div className="space-y-1" data-testid="preview-sample">
+              <Label className="text-xs text-muted-foreground">Sample rows ({preview.sample.rowCount})</Label>
+              {preview.sample.error ? (
+                <p className="text-sm text-destructive">{preview.sample.error}</p>
+              ) : sampleColumns.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No rows returned</p>
+              ) : (
+                <div className="overflow-x-auto border rounded">
+                  <table className="text-xs w-full">
+                    <thead>
+                      <tr className="bg-muted/50">
+                        {sampleColumns.map(column => <th key={column} className="text-left font-medium px-2 py-1">{column}</th>)}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.sample.rows.map((row, i) => (
+                        <tr key={i} className="border-t">
+                          {sampleColumns.map(column => <td key={column} className="px-2 py-1 whitespace-nowrap">{row[column] == null ? '' : typeof row[column] === 'object' ? JSON.stringify(row[column]) : String(row[column])}</td>)}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [userFilter, setUserFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const { toast } = useToast();
+
+  const fetchAudit = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams();
+      if (userFilter.trim()) params.set('user', userFilter.trim());
+      if (fromDate) params.set('from', fromDate);
+      if (toDate) params.set('to', toDate);
+      const response = await fetch(`/api/admin/audit?${params.toString()}`);
+      if (!response.ok) throw new Error('Failed to fetch audit log');
+      const data = await response.json();
+      setEntries(data.entries || []);
+      setTotal(data.total || 0);
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to fetch audit log', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAudit();
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Audit Log
+        </CardTitle>
+        <CardDescription>Every change made to users and groups, newest first</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="auditUser" className="text-xs">User or group</Label>
+            <Input
+              id="auditUser"
+              className="w-56"
+              placeholder="Changed by or changed"
+              value={userFilter}
+              onChange={(e) => setUserFilter(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && fetchAudit()}
+              data-testid="input-audit-user"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="auditFrom" className="text-xs">From</Label>
+            <Input id="auditFrom" type="date" className="w-40" value={fromDate} onChange={(e) => setFromDate(e.target.value)} data-testid="input-audit-from" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="auditTo" className="text-xs">To</Label>
+            <Input id="auditTo" type="date" className="w-40" value={toDate} onChange={(e) => setToDate(e.target.value)} data-testid="input-audit-to" />
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchAudit} disabled={loading} data-testid="button-audit-search">
+            {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+            Search
+          </Button>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">{loading ? 'Loading...' : 'No audit entries match these filters'}</p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">Showing {entries.length} of {total}</p>
+            {entries.map((entry) => (
+              <div key={entry.id} className="border rounded-lg p-3 space-y-2" data-testid={`audit-entry-${entry.id}`}>
+                <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={entry.action === 'delete' ? 'destructive' : entry.action === 'create' ? 'default' : 'secondary'}>
+                      {entry.action}
+                    </Badge>
+                    <span className="font-medium">{AUDIT_ENTITY_LABELS[entry.entityType]} {entry.entityName ?? entry.entityId}</span>
+                  </div>
+                  <span className="text-muted-foreground">
+                    {entry.actor.username ?? entry.actor.userId ?? 'anonymous (development)'} · {new Date(entry.timestamp).toLocaleString()}
+                  </span>
+                </div>
+                {entry.note && <p className="text-sm text-muted-foreground" data-testid={`audit-note-${entry.id}`}>{entry.note}</p>}
+                {entry.action === 'update' && entry.changes.length > 0 && (
+                  <div className="text-xs font-mono space-y-1">
+                    {entry.changes.map((change) => (
+                      <div key={change.field} className="grid grid-cols-[10rem_1fr] gap-2">
+                        <span className="text-muted-foreground">{change.field}</span>
+                        <span>
+                          <span className="line-through text-destructive">{formatAuditValue(change.before)}</span>
+                          {' → '}
+                          <span className="text-green-600 dark:text-green-400">{formatAuditValue(change.after)}</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function AccessRequestQueue({ onApproved }: { onApproved: (userId: string) => void }) {
+  const [requests, setRequests] = useState<AccessRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [categoryChoices, setCategoryChoices] = useState<Record<string, string>>({});
+  const [deciding, setDeciding] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchRequests = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/admin/access-requests');
+      if (!response.ok) throw new Error('Failed to fetch access requests');
+      const data = await response.json();
+      setRequests(data.requests || []);
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to fetch access requests', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRequests();
+  }, []);
+
+  const decide = async (request: AccessRequest, status: 'approved' | 'denied') => {
+    try {
+      setDeciding(request.id);
+      const response = await fetch(`/api/admin/access-requests/${encodeURIComponent(request.id)}/decision`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status,
+          comment: comments[request.id]?.trim() || undefined,
+          category: request.scope.type === 'tableAccess' ? categoryChoices[request.id] : undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to decide access request');
+      toast({
+        title: status === 'approved' ? 'Access granted' : 'Request denied',
+        description: data.warning || `${request.username}: ${describeAccessScope(request.scope)}`,
+        variant: data.warning ? 'destructive' : undefined,
+      });
+      fetchRequests();
+      if (status === 'approved') onApproved(request.userId);
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to decide access request', variant: 'destructive' });
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  const pending = requests.filter(request => request.status === 'pending');
+  const decided = requests.filter(request => request.status !== 'pending');
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Access Requests
+            </CardTitle>
+            <CardDescription>Requests from users whose questions were blocked by their permissions</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchRequests} disabled={loading} data-testid="button-refresh-access-requests">
+            {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pending.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">{loading ? 'Loading...' : 'No pending access requests'}</p>
+        ) : (
+          pending.map((request) => (
+            <div key={request.id} className="border rounded-lg p-4 space-y-3" data-testid={`access-request-${request.id}`}>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-medium">{request.username} · {describeAccessScope(request.scope)}</span>
+                <span className="text-xs text-muted-foreground">{new Date(request.createdAt).toLocaleString()}</span>
+              </div>
+              <div className="text-sm space-y-1">
+                <p><span className="text-muted-foreground">Question:</span> "{request.question}"</p>
+                <p><span className="text-muted-foreground">Blocked:</span> {request.blockedReason}</p>
+                {request.comment && <p><span className="text-muted-foreground">Reason given:</span> {request.comment}</p>}
+              </div>
+              <div className="flex flex-wrap items-center gap-3">
+                {request.scope.type === 'tableAccess' && request.scope.categories.length > 1 && (
+                  <Select
+                    value={categoryChoices[request.id] ?? request.scope.categories[0]}
+                    onValueChange={(value) => setCategoryChoices({ ...categoryChoices, [request.id]: value })}
+                  >
+                    <SelectTrigger className="w-44" data-testid={`select-access-category-${request.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {request.scope.categories.map((category) => (
+                        <SelectItem key={category} value={category}>Grant {category}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Input
+                  className="flex-1 min-w-48"
+                  placeholder="Comment for the requester (optional)"
+                  value={comments[request.id] || ''}
+                  onChange={(e) => setComments({ ...comments, [request.id]: e.target.value })}
+                  data-testid={`input-access-comment-${request.id}`}
+                />
+                <Button size="sm" onClick={() => decide(request, 'approved')} disabled={deciding === request.id} data-testid={`button-approve-${request.id}`}>
+                  <Check className="h-4 w-4 mr-2" />
+                  Approve
+                </Button>
+                <Button size="sm" variant="destructive" onClick={() => decide(request, 'denied')} disabled={deciding === request.id} data-testid={`button-deny-${request.id}`}>
+                  <X className="h-4 w-4 mr-2" />
+                  Deny
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+
+        {decided.length > 0 && (
+          <div className="space-y-2 pt-4 border-t">
+            <Label className="text-xs text-muted-foreground">Decided</Label>
+            {decided.map((request) => (
+              <div key={request.id} className="flex flex-wrap items-center justify-between gap-2 text-sm" data-testid={`access-request-decided-${request.id}`}>
+                <span>
+                  {request.username} · {request.grantedCategory ? `${request.grantedCategory} data (${request.scope.table})` : describeAccessScope(request.scope)}
+                  {request.decisionComment && <span className="text-muted-foreground"> · {request.decisionComment}</span>}
+                </span>
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  {request.decidedBy?.username ?? request.decidedBy?.userId ?? 'anonymous (development)'}
+                  <Badge variant={ACCESS_REQUEST_BADGES[request.status]}>{request.status}</Badge>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PermissionsImportExport({ onImported }: { onImported: () => void }) {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<{ name: string; content: string; format: 'csv' | 'json' } | null>(null);
+  const [removeMissing, setRemoveMissing] = useState(false);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    try {
+      const response = await fetch(`/api/admin/permissions/export?format=${format}`);
+      if (!response.ok) throw new Error('Failed to export permissions');
+      downloadFile(await response.blob(), `user-permissions-${new Date().toISOString().slice(0, 10)}.${format}`);
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to export permissions', variant: 'destructive' });
+    }
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    setPlan(null);
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+    const format = selected.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+    setFile({ name: selected.name, content: await selected.text(), format });
+  };
+
+  const submitImport = async (dryRun: boolean) => {
+    if (!file) return;
+    try {
+      setBusy(true);
+      const response = await fetch('/api/admin/permissions/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: file.content, format: file.format, dryRun, removeMissing }),
+      });
+      const data = await response.json();
+      if (data.plan) setPlan(data.plan);
+      if (!response.ok) throw new Error(data.error || 'Failed to import permissions');
+      if (!dryRun) {
+        const { added, changed, removed } = data.plan as ImportPlan;
+        toast({ title: 'Import applied', description: `${added.length} added, ${changed.length} changed, ${removed.length} removed` });
+        setOpen(false);
+        setFile(null);
+        setPlan(null);
+        onImported();
+      }
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to import permissions', variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changeCount = plan ? plan.added.length + plan.changed.length + plan.removed.length : 0;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" data-testid="button-export-permissions">
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          <DropdownMenuItem onClick={() => handleExport('csv')} data-testid="menu-export-permissions-csv">Export as CSV</DropdownMenuItem>
+          <DropdownMenuItem onClick={() => handleExport('json')} data-testid="menu-export-permissions-json">Export as JSON</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) { setFile(null); setPlan(null); } }}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm" data-testid="button-import-permissions">
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import User Permissions</DialogTitle>
+            <DialogDescription>
+              Upload a CSV or JSON file in the export format. Check it first to see what would change; nothing is saved unless the whole file is valid.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <Input
+              type="file"
+              accept=".csv,.json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              data-testid="input-import-file"
+            />
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="importRemoveMissing"
+                checked={removeMissing}
+                onCheckedChange={(checked) => { setRemoveMissing(checked === true); setPlan(null); }}
+                data-testid="checkbox-import-remove-missing"
+              />
+              <Label htmlFor="importRemoveMissing">Remove users that aren't in the file</Label>
+            </div>
+
+            {plan && (
+              <div className="border rounded-lg p-3 space-y-3 max-h-80 overflow-y-auto text-sm" data-testid="import-plan">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="default">{plan.added.length} added</Badge>
+                  <Badge variant="secondary">{plan.changed.length} changed</Badge>
+                  <Badge variant={plan.removed.length > 0 ? 'destructive' : 'outline'}>{plan.removed.length} removed</Badge>
+                  <Badge variant="outline">{plan.unchanged} unchanged</Badge>
+                </div>
+                {plan.errors.length > 0 && (
+                  <div className="space-y-1" data-testid="import-errors">
+                    {plan.errors.map((issue, i) => (
+                      <p key={i} className="text-destructive">
+                        {issue.row > 0 ? `Row ${issue.row}` : 'File'}{issue.userId ? ` (${issue.userId})` : ''}: {issue.message}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {plan.added.map((user) => (
+                  <p key={user.userId} data-testid={`import-added-${user.userId}`}>+ {user.username}</p>
+                ))}
+                {plan.changed.map((user) => (
+                  <div key={user.userId} data-testid={`import-changed-${user.userId}`}>
+                    <p>~ {user.username}</p>
+                    {user.changes.map((change) => (
+                      <p key={change.field} className="text-xs font-mono pl-4">
+                        <span className="text-muted-foreground">{change.field}</span>{' '}
+                        <span className="line-through text-destructive">{formatAuditValue(change.before)}</span>
+                        {' → '}
+                        <span className="text-green-600 dark:text-green-400">{formatAuditValue(change.after)}</span>
+                      </p>
+                    ))}
+                  </div>
+                ))}
+                {plan.removed.map((user) => (
+                  <p key={user.userId} className="text-destructive" data-testid={`import-removed-${user.userId}`}>- {user.username}</p>
+                ))}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => submitImport(true)} disabled={!file || busy} data-testid="button-check-import">
+              {busy && !plan && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Check File
+            </Button>
+            <Button
+              onClick={() => submitImport(false)}
+              disabled={!plan || plan.errors.length > 0 || changeCount === 0 || busy}
+              data-testid="button-apply-import"
+            >
+              {busy && plan && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Apply Import
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
 
 export default function AdminPermissions() {
   const [users, setUsers] = useState<UserPermissions[]>([]);
+  const [groups, setGroups] = useState<PermissionGroup[]>([]);
   const [selectedUser, setSelectedUser] = useState<UserPermissions | null>(null);
+  const [selectedGroup, setSelectedGroup] = useState<PermissionGroup | null>(null);
+  const [effective, setEffective] = useState<EffectivePermissions | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [filterOptions, setFilterOptions] = useState<FilterOptions>({ 
-    planningAreas: [], 
-    scenarios: [], 
-    plants: [] 
+  const [filterOptions, setFilterOptions] = useState<FilterOptions>({
+    planningAreas: [],
+    scenarios: [],
+    plants: []
   });
   const [showNewUserDialog, setShowNewUserDialog] = useState(false);
   const [newUsername, setNewUsername] = useState('');
   const [newEmail, setNewEmail] = useState('');
   const [newIsAdmin, setNewIsAdmin] = useState(false);
+  const [showNewGroupDialog, setShowNewGroupDialog] = useState(false);
+  const [newGroupName, setNewGroupName] = useState('');
+  const [newGroupDescription, setNewGroupDescription] = useState('');
+  const [tableColumns, setTableColumns] = useState<Record<string, string[]>>({});
+  const [categories, setCategories] = useState<TableAccessCategory[]>([]);
   const { toast } = useToast();
 
   useEffect(() => {
     fetchUsers();
+    fetchGroups();
+    fetchCategories();
     fetchFilterOptions();
+    fetchTableColumns();
   }, []);
 
+  const fetchCategories = async () => {
+    try {
+      const response = await fetch('/api/admin/table-access-categories');
+      const data = await response.json();
+      setCategories(data.categories || []);
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to fetch table access categories', variant: 'destructive' });
+    }
+  };
+
   const fetchUsers = async () => {
     try {
       setLoading(true);
@@ -66,11 +1637,32 @@ export default function AdminPermissions() {
     }
   };
 
+  const fetchGroups = async () => {
+    try {
+      const response = await fetch('/api/admin/groups');
+      const data = await response.json();
+      setGroups(data.groups || []);
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to fetch groups', variant: 'destructive' });
+    }
+  };
+
+  const fetchEffective = async (userId: string) => {
+    try {
+      const response = await fetch(`/api/admin/permissions/${userId}/effective`);
+      if (!response.ok) throw new Error('Failed to fetch effective permissions');
+      const data = await response.json();
+      setEffective(data.effective);
+    } catch (error) {
+      setEffective(null);
+    }
+  };
+
   const fetchFilterOptions = async () => {
     try {
       const response = await fetch('/api/filter-options');
       const data = await response.json();
-      const scenarioIds = (data.scenarios || []).map((s: any) => 
+      const scenarioIds = (data.scenarios || []).map((s: any) =>
         typeof s === 'string' ? s : s.id
       );
       setFilterOptions({
@@ -83,8 +1675,56 @@ export default function AdminPermissions() {
     }
   };
 
+  const fetchTableColumns = async () => {
+    try {
+      const response = await fetch('/api/schema/all');
+      const data = await response.json();
+      const columns: Record<string, string[]> = {};
+      for (const [tableName, schema] of Object.entries<any>(data.tables || {})) {
+        columns[tableName.replace(/^publish\./i, '')] = (schema.columns || []).map((c: any) => c.columnName);
+      }
+      setTableColumns(columns);
+    } catch (error) {
+      console.error('Failed to fetch table schemas:', error);
+    }
+  };
+
   const handleSelectUser = (user: UserPermissions) => {
+    setSelectedGroup(null);
     setSelectedUser({ ...user });
+    setEffective(null);
+    fetchEffective(user.userId);
+  };
+
+  // Reload users after an approval changed one, replacing the editor copy if it's open
+  const handleAccessApproved = async (userId: string) => {
+    fetchUsers();
+    if (selectedUser?.userId !== userId) return;
+    try {
+      const response = await fetch(`/api/admin/permissions/${encodeURIComponent(userId)}`);
+      const data = await response.json();
+      if (data.permissions) handleSelectUser(data.permissions);
+    } catch (error) {
+      setSelectedUser(null);
+    }
+  };
+
+  const handleSelectGroup = (group: PermissionGroup) => {
+    setSelectedUser(null);
+    setEffective(null);
+    setSelectedGroup({ ...group });
+  };
+
+  const updateScope = (patch: Partial<PermissionScope>) => {
+    if (selectedUser) setSelectedUser({ ...selectedUser, ...patch });
+    if (selectedGroup) setSelectedGroup({ ...selectedGroup, ...patch });
+  };
+
+  const toggleGroupMembership = (groupId: string) => {
+    if (!selectedUser) return;
+    const current = selectedUser.groupIds || [];
+    const next = current.includes(groupId) ? current.filter(id => id !== groupId) : [...current, groupId];
+    setSelectedUser({ ...selectedUser, groupIds: next.length > 0 ? next : null });
   };
 
   const handleCreateUser = async () => {
@@ -129,6 +1769,47 @@ export default function AdminPermissions() {
     }
   };
 
+  const handleCreateGroup = async () => {
+    if (!newGroupName.trim()) {
+      toast({ title: 'Error', description: 'Group name is required', variant: 'destructive' });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch('/api/admin/groups', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          groupId: crypto.randomUUID(),
+          name: newGroupName.trim(),
+          description: newGroupDescription.trim() || undefined,
+          allowedPlanningAreas: null,
+          allowedScenarios: null,
+          allowedPlants: null,
+          allowedTableAccess: null,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create group');
+      }
+
+      const data = await response.json();
+      setGroups([...groups, data.group]);
+      setNewGroupName('');
+      setNewGroupDescription('');
+      setShowNewGroupDialog(false);
+      handleSelectGroup(data.group);
+      toast({ title: 'Success', description: 'Group created successfully' });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleSavePermissions = async () => {
     if (!selectedUser) return;
 
@@ -141,14 +1822,43 @@ export default function AdminPermissions() {
       });
 
       if (!response.ok) {
-        throw new Error('Failed to save permissions');
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save permissions');
       }
 
       const data = await response.json();
       setUsers(users.map(u => u.userId === selectedUser.userId ? data.permissions : u));
+      setSelectedUser({ ...data.permissions });
+      fetchEffective(selectedUser.userId);
       toast({ title: 'Success', description: 'Permissions saved successfully' });
-    } catch (error) {
-      toast({ title: 'Error', description: 'Failed to save permissions', variant: 'destructive' });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message || 'Failed to save permissions', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveGroup = async () => {
+    if (!selectedGroup) return;
+
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/admin/groups/${selectedGroup.groupId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(selectedGroup),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save group');
+      }
+
+      const data = await response.json();
+      setGroups(groups.map(g => g.groupId === selectedGroup.groupId ? data.group : g));
+      toast({ title: 'Success', description: 'Group saved successfully' });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
     } finally {
       setSaving(false);
     }
@@ -160,10 +1870,11 @@ export default function AdminPermissions() {
     try {
       const response = await fetch(`/api/admin/permissions/${userId}`, { method: 'DELETE' });
       if (!response.ok) throw new Error('Failed to delete user');
-      
+
       setUsers(users.filter(u => u.userId !== userId));
       if (selectedUser?.userId === userId) {
         setSelectedUser(null);
+        setEffective(null);
       }
       toast({ title: 'Success', description: 'User deleted successfully' });
     } catch (error) {
@@ -171,43 +1882,30 @@ export default function AdminPermissions() {
     }
   };
 
-  const toggleArrayItem = (
-    field: 'allowedPlanningAreas' | 'allowedScenarios' | 'allowedPlants' | 'allowedTableAccess',
-    value: string
-  ) => {
-    if (!selectedUser) return;
+  const handleDeleteGroup = async (groupId: string) => {
+    if (!confirm('Delete this group? Its members lose the access it granted.')) return;
 
-    const currentArray = selectedUser[field] as string[] | null;
-    let newArray: string[] | null;
+    try {
+      const response = await fetch(`/api/admin/groups/${groupId}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete group');
 
-    if (currentArray === null) {
-      newArray = [value];
-    } else if (currentArray.includes(value)) {
-      newArray = currentArray.filter(v => v !== value);
-      if (newArray.length === 0) newArray = null;
-    } else {
-      newArray = [...currentArray, value];
+      setGroups(groups.filter(g => g.groupId !== groupId));
+      if (selectedGroup?.groupId === groupId) {
+        setSelectedGroup(null);
+      }
+      // Memberships were removed on the server
+      fetchUsers();
+      if (selectedUser) {
+        setSelectedUser({ ...selectedUser, groupIds: (selectedUser.groupIds || []).filter(id => id !== groupId) });
+        fetchEffective(selectedUser.userId);
+      }
+      toast({ title: 'Success', description: 'Group deleted successfully' });
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to delete group', variant: 'destructive' });
     }
-
-    setSelectedUser({ ...selectedUser, [field]: newArray } as UserPermissions);
   };
 
-  const isItemSelected = (
-    field: 'allowedPlanningAreas' | 'allowedScenarios' | 'allowedPlants' | 'allowedTableAccess',
-    value: string
-  ): boolean => {
-    if (!selectedUser) return false;
-    const arr = selectedUser[field] as string[] | null;
-    return arr === null || arr.includes(value);
-  };
-
-  const toggleAllAccess = (
-    field: 'allowedPlanningAreas' | 'allowedScenarios' | 'allowedPlants' | 'allowedTableAccess'
-  ) => {
-    if (!selectedUser) return;
-    const isCurrentlyAll = selectedUser[field] === null;
-    setSelectedUser({ ...selectedUser, [field]: isCurrentlyAll ? [] : null });
-  };
+  const editingScope: PermissionScope | null = selectedUser || selectedGroup;
 
   return (
     <div className="min-h-screen bg-background" data-testid="admin-permissions-page">
@@ -225,11 +1923,12 @@ export default function AdminPermissions() {
                 <Shield className="h-8 w-8" />
                 User Permissions
               </h1>
-              <p className="text-muted-foreground">Manage user access to planning areas, scenarios, plants, and tables</p>
+              <p className="text-muted-foreground">Manage user and group access to planning areas, scenarios, plants, and tables</p>
             </div>
           </div>
           <div className="flex items-center gap-2">
-            <Button variant="outline" size="sm" onClick={fetchUsers} data-testid="button-refresh">
+            <PermissionsImportExport onImported={fetchUsers} />
+            <Button variant="outline" size="sm" onClick={() => { fetchUsers(); fetchGroups(); }} data-testid="button-refresh">
               <RefreshCw className="h-4 w-4 mr-2" />
               Refresh
             </Button>
@@ -237,305 +1936,416 @@ export default function AdminPermissions() {
           </div>
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          <Card className="lg:col-span-1">
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <CardTitle className="flex items-center gap-2">
-                  <Users className="h-5 w-5" />
-                  Users
-                </CardTitle>
-                <Dialog open={showNewUserDialog} onOpenChange={setShowNewUserDialog}>
-                  <DialogTrigger asChild>
-                    <Button size="sm" data-testid="button-add-user">
-                      <Plus className="h-4 w-4 mr-2" />
-                      Add User
-                    </Button>
-                  </DialogTrigger>
-                  <DialogContent>
-                    <DialogHeader>
-                      <DialogTitle>Add New User</DialogTitle>
-                      <DialogDescription>
-                        Create a new user with default permissions (all access).
-                      </DialogDescription>
-                    </DialogHeader>
-                    <div className="space-y-4 py-4">
-                      <div className="space-y-2">
-                        <Label htmlFor="username">Username</Label>
-                        <Input
-                          id="username"
-                          value={newUsername}
-                          onChange={(e) => setNewUsername(e.target.value)}
-                          placeholder="Enter username"
-                          data-testid="input-new-username"
-                        />
+        <Tabs defaultValue="permissions">
+          <TabsList className="mb-6">
+            <TabsTrigger value="permissions" className="gap-2" data-testid="tab-permissions">
+              <Shield className="h-4 w-4" />
+              Permissions
+            </TabsTrigger>
+            <TabsTrigger value="table-access" className="gap-2" data-testid="tab-table-access">
+              <Table2 className="h-4 w-4" />
+              Table Access
+            </TabsTrigger>
+            <TabsTrigger value="access-requests" className="gap-2" data-testid="tab-access-requests">
+              <KeyRound className="h-4 w-4" />
+              Access Requests
+            </TabsTrigger>
+            <TabsTrigger value="audit" className="gap-2" data-testid="tab-audit">
+              <History className="h-4 w-4" />
+              Audit
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="permissions">
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-1 space-y-6">
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="flex items-center gap-2">
+                        <Users className="h-5 w-5" />
+                        Users
+                      </CardTitle>
+                      <Dialog open={showNewUserDialog} onOpenChange={setShowNewUserDialog}>
+                        <DialogTrigger asChild>
+                          <Button size="sm" data-testid="button-add-user">
+                            <Plus className="h-4 w-4 mr-2" />
+                            Add User
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent>
+                          <DialogHeader>
+                            <DialogTitle>Add New User</DialogTitle>
+                            <DialogDescription>
+                              Create a new user with default permissions (all access).
+                            </DialogDescription>
+                          </DialogHeader>
+                          <div className="space-y-4 py-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="username">Username</Label>
+                              <Input
+                                id="username"
+                                value={newUsername}
+                                onChange={(e) => setNewUsername(e.target.value)}
+                                placeholder="Enter username"
+                                data-testid="input-new-username"
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="email">Email (optional)</Label>
+                              <Input
+                                id="email"
+                                type="email"
+                                value={newEmail}
+                                onChange={(e) => setNewEmail(e.target.value)}
+                                placeholder="Enter email"
+                                data-testid="input-new-email"
+                              />
+                            </div>
+                            <div className="flex items-center space-x-2">
+                              <Checkbox
+                                id="isAdmin"
+                                checked={newIsAdmin}
+                                onCheckedChange={(checked) => setNewIsAdmin(!!checked)}
+                                data-testid="checkbox-new-admin"
+                              />
+                              <Label htmlFor="isAdmin">Administrator</Label>
+                            </div>
+                          </div>
+                          <DialogFooter>
+                            <Button variant="outline" onClick={() => setShowNewUserDialog(false)}>
+                              Cancel
+                            </Button>
+                            <Button onClick={handleCreateUser} disabled={saving} data-testid="button-create-user">
+                              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                              Create User
+                            </Button>
+                          </DialogFooter>
+                        </DialogContent>
+                      </Dialog>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {loading ? (
+                      <div className="flex items-center justify-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin" />
                       </div>
+                    ) : users.length === 0 ? (
+                      <p className="text-muted-foreground text-center py-8">No users found. Add a user to get started.</p>
+                    ) : (
                       <div className="space-y-2">
-                        <Label htmlFor="email">Email (optional)</Label>
-                        <Input
-                          id="email"
-                          type="email"
-                          value={newEmail}
-                          onChange={(e) => setNewEmail(e.target.value)}
-                          placeholder="Enter email"
-                          data-testid="input-new-email"
-                        />
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <Checkbox
-                          id="isAdmin"
-                          checked={newIsAdmin}
-                          onCheckedChange={(checked) => setNewIsAdmin(!!checked)}
-                          data-testid="checkbox-new-admin"
-                        />
-                        <Label htmlFor="isAdmin">Administrator</Label>
-                      </div>
-                    </div>
-                    <DialogFooter>
-                      <Button variant="outline" onClick={() => setShowNewUserDialog(false)}>
-                        Cancel
-                      </Button>
-                      <Button onClick={handleCreateUser} disabled={saving} data-testid="button-create-user">
-                        {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
-                        Create User
-                      </Button>
-                    </DialogFooter>
-                  </DialogContent>
-                </Dialog>
-              </div>
-            </CardHeader>
-            <CardContent>
-              {loading ? (
-                <div className="flex items-center justify-center py-8">
-                  <Loader2 className="h-6 w-6 animate-spin" />
-                </div>
-              ) : users.length === 0 ? (
-                <p className="text-muted-foreground text-center py-8">No users found. Add a user to get started.</p>
-              ) : (
-                <div className="space-y-2">
-                  {users.map((user) => (
-                    <div
-                      key={user.userId}
-                      className={`p-3 rounded-lg border cursor-pointer transition-colors ${
-                        selectedUser?.userId === user.userId
-                          ? 'border-primary bg-primary/5'
-                          : 'hover:bg-muted/50'
-                      }`}
-                      onClick={() => handleSelectUser(user)}
-                      data-testid={`user-item-${user.userId}`}
-                    >
-                      <div className="flex items-center justify-between">
-                        <div>
-                          <div className="font-medium">{user.username}</div>
-                          {user.email && <div className="text-sm text-muted-foreground">{user.email}</div>}
-                        </div>
-                        <div className="flex items-center gap-2">
-                          {user.isAdmin && <Badge variant="secondary">Admin</Badge>}
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-8 w-8 text-destructive hover:text-destructive"
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              handleDeleteUser(user.userId);
-                            }}
-                            data-testid={`button-delete-${user.userId}`}
+                        {users.map((user) => (
+                          <div
+                            key={user.userId}
+                            className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+                              selectedUser?.userId === user.userId
+                                ? 'border-primary bg-primary/5'
+                                : 'hover:bg-muted/50'
+                            }`}
+                            onClick={() => handleSelectUser(user)}
+                            data-testid={`user-item-${user.userId}`}
                           >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <div className="font-medium">{user.username}</div>
+                                {user.email && <div className="text-sm text-muted-foreground">{user.email}</div>}
+                              </div>
+                              <div className="flex items-center gap-2">
+                                {user.isAdmin && <Badge variant="secondary">Admin</Badge>}
+                                {(user.groupIds || []).length > 0 && (
+                                  <Badge variant="outline">{(user.groupIds || []).length} group{(user.groupIds || []).length === 1 ? '' : 's'}</Badge>
+                                )}
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8 text-destructive hover:text-destructive"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleDeleteUser(user.userId);
+                                  }}
+                                  data-testid={`button-delete-${user.userId}`}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </div>
+                          </div>
+                        ))}
                       </div>
-                    </div>
-                  ))}
-                </div>
-              )}
-            </CardContent>
-          </Card>
-
-          <Card className="lg:col-span-2">
-            <CardHeader>
-              <CardTitle>Permissions</CardTitle>
-              <CardDescription>
-                {selectedUser
-                  ? `Editing permissions for ${selectedUser.username}`
-                  : 'Select a user to edit their permissions'}
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              {!selectedUser ? (
-                <div className="text-center py-12 text-muted-foreground">
-                  <Shield className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                  <p>Select a user from the list to manage their permissions</p>
-                </div>
-              ) : (
-                <div className="space-y-6">
-                  <div className="flex items-center space-x-2 pb-4 border-b">
-                    <Checkbox
-                      id="adminToggle"
-                      checked={selectedUser.isAdmin}
-                      onCheckedChange={(checked) =>
-                        setSelectedUser({ ...selectedUser, isAdmin: !!checked })
-                      }
-                      data-testid="checkbox-admin-toggle"
-                    />
-                    <Label htmlFor="adminToggle" className="font-medium">
-                      Administrator (full access to all features)
-                    </Label>
-                  </div>
+                    )}
+                  </CardContent>
+                </Card>
 
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <Label className="font-medium">Planning Areas</Label>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => toggleAllAccess('allowedPlanningAreas')}
-                          data-testid="button-toggle-all-planning-areas"
-                        >
-                          {selectedUser.allowedPlanningAreas === null ? 'Restrict' : 'Allow All'}
-                        </Button>
-                      </div>
-                      <div className="border rounded-lg p-3 max-h-48 overflow-y-auto space-y-2">
-                        {filterOptions.planningAreas.length === 0 ? (
-                          <p className="text-sm text-muted-foreground">Loading...</p>
-                        ) : (
-                          filterOptions.planningAreas.map((area) => (
-                            <div key={area} className="flex items-center space-x-2">
-                              <Checkbox
-                                id={`pa-${area}`}
-                                checked={isItemSelected('allowedPlanningAreas', area)}
-                                onCheckedChange={() => toggleArrayItem('allowedPlanningAreas', area)}
-                                disabled={selectedUser.allowedPlanningAreas === null}
-                                data-testid={`checkbox-planning-area-${area}`}
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="flex items-center gap-2">
+                        <UsersRound className="h-5 w-5" />
+                        Groups
+                      </CardTitle>
+                      <Dialog open={showNewGroupDialog} onOpenChange={setShowNewGroupDialog}>
+                        <DialogTrigger asChild>
+                          <Button size="sm" data-testid="button-add-group">
+                            <Plus className="h-4 w-4 mr-2" />
+                            Add Group
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent>
+                          <DialogHeader>
+                            <DialogTitle>Add New Group</DialogTitle>
+                            <DialogDescription>
+                              Members inherit the group's scopes in addition to their own.
+                            </DialogDescription>
+                          </DialogHeader>
+                          <div className="space-y-4 py-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="groupName">Name</Label>
+                              <Input
+                                id="groupName"
+                                value={newGroupName}
+                                onChange={(e) => setNewGroupName(e.target.value)}
+                                placeholder="e.g. Plant A Planners"
+                                data-testid="input-new-group-name"
                               />
-                              <Label htmlFor={`pa-${area}`} className="text-sm">{area}</Label>
                             </div>
-                          ))
-                        )}
-                      </div>
-                      {selectedUser.allowedPlanningAreas === null && (
-                        <p className="text-xs text-muted-foreground">All planning areas allowed</p>
-                      )}
-                    </div>
-
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <Label className="font-medium">Scenarios</Label>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => toggleAllAccess('allowedScenarios')}
-                          data-testid="button-toggle-all-scenarios"
-                        >
-                          {selectedUser.allowedScenarios === null ? 'Restrict' : 'Allow All'}
-                        </Button>
-                      </div>
-                      <div className="border rounded-lg p-3 max-h-48 overflow-y-auto space-y-2">
-                        {filterOptions.scenarios.length === 0 ? (
-                          <p className="text-sm text-muted-foreground">Loading...</p>
-                        ) : (
-                          filterOptions.scenarios.map((scenario) => (
-                            <div key={scenario} className="flex items-center space-x-2">
-                              <Checkbox
-                                id={`sc-${scenario}`}
-                                checked={isItemSelected('allowedScenarios', scenario)}
-                                onCheckedChange={() => toggleArrayItem('allowedScenarios', scenario)}
-                                disabled={selectedUser.allowedScenarios === null}
-                                data-testid={`checkbox-scenario-${scenario}`}
+                            <div className="space-y-2">
+                              <Label htmlFor="groupDescription">Description (optional)</Label>
+                              <Input
+                                id="groupDescription"
+                                value={newGroupDescription}
+                                onChange={(e) => setNewGroupDescription(e.target.value)}
+                                placeholder="Who this group is for"
+                                data-testid="input-new-group-description"
                               />
-                              <Label htmlFor={`sc-${scenario}`} className="text-sm">{scenario}</Label>
                             </div>
-                          ))
-                        )}
+                          </div>
+                          <DialogFooter>
+                            <Button variant="outline" onClick={() => setShowNewGroupDialog(false)}>
+                              Cancel
+                            </Button>
+                            <Button onClick={handleCreateGroup} disabled={saving} data-testid="button-create-group">
+                              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                              Create Group
+                            </Button>
+                          </DialogFooter>
+                        </DialogContent>
+                      </Dialog>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {groups.length === 0 ? (
+                      <p className="text-muted-foreground text-center py-8">No groups yet. Groups let members share scopes.</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {groups.map((group) => (
+                          <div
+                            key={group.groupId}
+                            className={`p-3 rounded-lg border cursor-pointer transition-colors ${
+                              selectedGroup?.groupId === group.groupId
+                                ? 'border-primary bg-primary/5'
+                                : 'hover:bg-muted/50'
+                            }`}
+                            onClick={() => handleSelectGroup(group)}
+                            data-testid={`group-item-${group.groupId}`}
+                          >
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <div className="font-medium">{group.name}</div>
+                                {group.description && <div className="text-sm text-muted-foreground">{group.description}</div>}
+                              </div>
+                              <div className="flex items-center gap-2">
+                                <Badge variant="outline">
+                                  {users.filter(u => u.groupIds?.includes(group.groupId)).length} members
+                                </Badge>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8 text-destructive hover:text-destructive"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleDeleteGroup(group.groupId);
+                                  }}
+                                  data-testid={`button-delete-group-${group.groupId}`}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            </div>
+                          </div>
+                        ))}
                       </div>
-                      {selectedUser.allowedScenarios === null && (
-                        <p className="text-xs text-muted-foreground">All scenarios allowed</p>
-                      )}
+                    )}
+                  </CardContent>
+                </Card>
+
+                <UpcomingExpirations
+                  refreshKey={users}
+                  onSelectUser={(userId) => {
+                    const user = users.find(u => u.userId === userId);
+                    if (user) handleSelectUser(user);
+                  }}
+                />
+              </div>
+
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle>Permissions</CardTitle>
+                  <CardDescription>
+                    {selectedUser
+                      ? `Editing permissions for ${selectedUser.username}`
+                      : selectedGroup
+                        ? `Editing group ${selectedGroup.name}`
+                        : 'Select a user or group to edit their permissions'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {!editingScope ? (
+                    <div className="text-center py-12 text-muted-foreground">
+                      <Shield className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                      <p>Select a user or group from the list to manage permissions</p>
                     </div>
+                  ) : (
+                    <div className="space-y-6">
+                      {selectedUser && (
+                        <div className="space-y-4 pb-4 border-b">
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              id="adminToggle"
+                              checked={selectedUser.isAdmin}
+                              onCheckedChange={(checked) =>
+                                setSelectedUser({ ...selectedUser, isAdmin: !!checked })
+                              }
+                              data-testid="checkbox-admin-toggle"
+                            />
+                            <Label htmlFor="adminToggle" className="font-medium">
+                              Administrator (full access to all features)
+                            </Label>
+                          </div>
+                          <div className="space-y-2">
+                            <Label className="font-medium">Groups</Label>
+                            {groups.length === 0 ? (
+                              <p className="text-sm text-muted-foreground">No groups defined</p>
+                            ) : (
+                              <div className="flex flex-wrap gap-4">
+                                {groups.map((group) => (
+                                  <div key={group.groupId} className="flex items-center space-x-2">
+                                    <Checkbox
+                                      id={`grp-${group.groupId}`}
+                                      checked={(selectedUser.groupIds || []).includes(group.groupId)}
+                                      onCheckedChange={() => toggleGroupMembership(group.groupId)}
+                                      data-testid={`checkbox-group-${group.groupId}`}
+                                    />
+                                    <Label htmlFor={`grp-${group.groupId}`} className="text-sm">{group.name}</Label>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                      )}
 
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <Label className="font-medium">Plants</Label>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => toggleAllAccess('allowedPlants')}
-                          data-testid="button-toggle-all-plants"
-                        >
-                          {selectedUser.allowedPlants === null ? 'Restrict' : 'Allow All'}
-                        </Button>
-                      </div>
-                      <div className="border rounded-lg p-3 max-h-48 overflow-y-auto space-y-2">
-                        {filterOptions.plants.length === 0 ? (
-                          <p className="text-sm text-muted-foreground">Loading...</p>
-                        ) : (
-                          filterOptions.plants.map((plant) => (
-                            <div key={plant} className="flex items-center space-x-2">
-                              <Checkbox
-                                id={`pl-${plant}`}
-                                checked={isItemSelected('allowedPlants', plant)}
-                                onCheckedChange={() => toggleArrayItem('allowedPlants', plant)}
-                                disabled={selectedUser.allowedPlants === null}
-                                data-testid={`checkbox-plant-${plant}`}
-                              />
-                              <Label htmlFor={`pl-${plant}`} className="text-sm">{plant}</Label>
-                            </div>
-                          ))
+                      {selectedGroup && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pb-4 border-b">
+                          <div className="space-y-2">
+                            <Label htmlFor="groupNameEdit">Name</Label>
+                            <Input
+                              id="groupNameEdit"
+                              value={selectedGroup.name}
+                              onChange={(e) => setSelectedGroup({ ...selectedGroup, name: e.target.value })}
+                              data-testid="input-group-name"
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="groupDescriptionEdit">Description</Label>
+                            <Input
+                              id="groupDescriptionEdit"
+                              value={selectedGroup.description || ''}
+                              onChange={(e) => setSelectedGroup({ ...selectedGroup, description: e.target.value || undefined })}
+                              data-testid="input-group-description"
+                            />
+                          </div>
+                        </div>
+                      )}
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <ScopeEditor
+                          scope={editingScope}
+                          onChange={updateScope}
+                          filterOptions={filterOptions}
+                          tableAccessOptions={categories.map(category => category.name)}
+                          allLabelSuffix={selectedUser && (selectedUser.groupIds || []).length > 0 ? ' (or inherited from groups)' : undefined}
+                        />
+                        <ColumnRulesEditor
+                          rules={editingScope.columnRules || []}
+                          onChange={(columnRules) => updateScope({ columnRules })}
+                          tableColumns={tableColumns}
+                        />
+                        {selectedUser && (
+                          <GrantsEditor
+                            grants={selectedUser.grants || []}
+                            onChange={(grants) => setSelectedUser({ ...selectedUser, grants })}
+                            options={{
+                              planningArea: filterOptions.planningAreas,
+                              scenario: filterOptions.scenarios,
+                              plant: filterOptions.plants,
+                              tableAccess: categories.map(category => category.name),
+                            }}
+                          />
                         )}
                       </div>
-                      {selectedUser.allowedPlants === null && (
-                        <p className="text-xs text-muted-foreground">All plants allowed</p>
+
+                      {selectedUser && effective && <EffectiveAccess effective={effective} />}
+
+                      {selectedUser && (
+                        <PermissionPreviewPanel key={selectedUser.userId} userId={selectedUser.userId} username={selectedUser.username} />
+                      )}
+
+                      {selectedUser && (
+                        <LocalAccountPanel key={`account-${selectedUser.userId}`} userId={selectedUser.userId} username={selectedUser.username} />
                       )}
-                    </div>
 
-                    <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <Label className="font-medium">Table Access</Label>
+                      <div className="flex justify-end pt-4 border-t">
                         <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => toggleAllAccess('allowedTableAccess')}
-                          data-testid="button-toggle-all-tables"
+                          onClick={selectedUser ? handleSavePermissions : handleSaveGroup}
+                          disabled={saving}
+                          data-testid={selectedUser ? 'button-save-permissions' : 'button-save-group'}
                         >
-                          {selectedUser.allowedTableAccess === null ? 'Restrict' : 'Allow All'}
+                          {saving ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <Save className="h-4 w-4 mr-2" />
+                          )}
+                          {selectedUser ? 'Save Permissions' : 'Save Group'}
                         </Button>
                       </div>
-                      <div className="border rounded-lg p-3 space-y-2">
-                        {TABLE_ACCESS_OPTIONS.map((table) => (
-                          <div key={table} className="flex items-center space-x-2">
-                            <Checkbox
-                              id={`ta-${table}`}
-                              checked={isItemSelected('allowedTableAccess', table)}
-                              onCheckedChange={() => toggleArrayItem('allowedTableAccess', table)}
-                              disabled={selectedUser.allowedTableAccess === null}
-                              data-testid={`checkbox-table-${table}`}
-                            />
-                            <Label htmlFor={`ta-${table}`} className="text-sm">{table} Tables</Label>
-                          </div>
-                        ))}
-                      </div>
-                      {selectedUser.allowedTableAccess === null && (
-                        <p className="text-xs text-muted-foreground">All tables allowed</p>
-                      )}
                     </div>
-                  </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
 
-                  <div className="flex justify-end pt-4 border-t">
-                    <Button onClick={handleSavePermissions} disabled={saving} data-testid="button-save-permissions">
-                      {saving ? (
-                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                      ) : (
-                        <Save className="h-4 w-4 mr-2" />
-                      )}
-                      Save Permissions
-                    </Button>
-                  </div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        </div>
+          <TabsContent value="table-access">
+            <TableAccessCategories
+              categories={categories}
+              tables={Object.keys(tableColumns).sort()}
+              onChanged={() => {
+                fetchCategories();
+                // Deleting a category removes it from users and groups
+                fetchUsers();
+                fetchGroups();
+              }}
+            />
+          </TabsContent>
+
+          <TabsContent value="access-requests">
+            <AccessRequestQueue onApproved={handleAccessApproved} />
+          </TabsContent>
+
+          <TabsContent value="audit">
+            <AuditLog />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
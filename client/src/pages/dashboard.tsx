@@ -1,10 +1,23 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Link, useLocation } from "wouter";
 import { 
   Activity, 
@@ -25,11 +38,58 @@ import {
   LayoutDashboard,
   BarChart3,
   Table,
-  Loader2
+  Loader2,
+  Inbox,
+  FlaskConical
 } from "lucide-react";
+import { FeedbackInbox } from "@/components/feedback-inbox";
+import { GoldenCaseDialog, GoldenCaseSource } from "@/components/golden-case-dialog";
 import { usePinnedDashboard, PinnedItem, PinnedQueryResult } from "@/hooks/usePinnedDashboard";
 import { useToast } from "@/hooks/use-toast";
 
+interface Percentiles {
+  p50: number | null;
+  p90: number | null;
+  p99: number | null;
+}
+
+type LatencyDimension = 'table' | 'confidence' | 'user' | 'tenant' | 'route';
+
+interface LatencyBreakdownRow extends Percentiles {
+  key: string;
+  label: string;
+  count: number;
+  errorCount: number;
+  averageMs: number;
+}
+
+interface LatencyAnalytics {
+  percentiles: { totalMs: Percentiles; llmMs: Percentiles; sqlMs: Percentiles };
+  bucketMinutes: number;
+  overTime: Array<Percentiles & { start: string; count: number; errorCount: number }>;
+  breakdowns: Record<LatencyDimension, LatencyBreakdownRow[]>;
+}
+
+type LlmUsageDimension = 'byStage' | 'byUser' | 'byModel' | 'byDay';
+
+interface LlmUsageRow {
+  key: string;
+  label: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+interface LlmUsageAnalytics extends Record<LlmUsageDimension, LlmUsageRow[]> {
+  calls: number;
+  totalTokens: number;
+  costUsd: number;
+  unpricedCalls: number;
+  budget: { dailyBudgetUsd: number | null; action: 'degrade' | 'block'; usersOverBudget: number };
+}
+
 interface AnalyticsData {
   summary: {
     totalQueries: number;
@@ -44,12 +104,15 @@ interface AnalyticsData {
   topErrors: Array<{ message: string; count: number; lastOccurred: string }>;
   recentQueries: Array<{
     timestamp: string;
+    requestId: string;
     question: string;
     success: boolean;
     latency: number;
     rowCount: number | null;
     error?: string;
   }>;
+  latency: LatencyAnalytics;
+  llmUsage: LlmUsageAnalytics;
 }
 
 interface FeedbackStats {
@@ -190,20 +253,610 @@ function PinnedQueryCard({
   );
 }
 
+const TIME_RANGES = [
+  { minutes: 60, label: 'Last hour' },
+  { minutes: 360, label: 'Last 6 hours' },
+  { minutes: 1440, label: 'Last 24 hours' },
+  { minutes: 10080, label: 'Last 7 days' },
+];
+
+const LATENCY_DIMENSIONS: Array<{ value: LatencyDimension; label: string }> = [
+  { value: 'table', label: 'Selected table' },
+  { value: 'confidence', label: 'Classifier confidence' },
+  { value: 'user', label: 'User' },
+  { value: 'tenant', label: 'Tenant' },
+  { value: 'route', label: 'Route (stream vs standard)' },
+];
+
+const PERCENTILE_COLORS = {
+  p50: 'hsl(142, 71%, 45%)',
+  p90: 'hsl(38, 92%, 50%)',
+  p99: 'hsl(0, 84%, 60%)',
+};
+
+const LLM_USAGE_DIMENSIONS: Array<{ value: LlmUsageDimension; label: string }> = [
+  { value: 'byStage', label: 'Stage' },
+  { value: 'byUser', label: 'User' },
+  { value: 'byModel', label: 'Model' },
+  { value: 'byDay', label: 'Day (UTC)' },
+];
+
+function formatUsd(value: number): string {
+  return value > 0 && value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+function formatMs(value: number | null): string {
+  return value === null ? '—' : `${value}ms`;
+}
+
+function formatBucket(start: string, bucketMinutes: number): string {
+  const date = new Date(start);
+  return bucketMinutes >= 1440
+    ? date.toLocaleDateString()
+    : bucketMinutes >= 180
+      ? date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+      : date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function LatencyPercentilesCard({ latency }: { latency: LatencyAnalytics }) {
+  const stages: Array<{ label: string; values: Percentiles }> = [
+    { label: 'Total', values: latency.percentiles.totalMs },
+    { label: 'LLM generation', values: latency.percentiles.llmMs },
+    { label: 'SQL execution', values: latency.percentiles.sqlMs },
+  ];
+  const chartData = latency.overTime.map(bucket => ({
+    time: formatBucket(bucket.start, latency.bucketMinutes),
+    p50: bucket.p50,
+    p90: bucket.p90,
+    p99: bucket.p99,
+  }));
+
+  return (
+    <Card data-testid="card-latency-percentiles">
+      <CardHeader>
+        <CardTitle>Latency Percentiles</CardTitle>
+        <CardDescription>
+          p50/p90/p99 for each stage, and total time per {latency.bucketMinutes >= 60 ? `${latency.bucketMinutes / 60}h` : `${latency.bucketMinutes}m`} bucket
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-4 gap-2 text-sm">
+          <span />
+          <span className="font-medium text-muted-foreground">p50</span>
+          <span className="font-medium text-muted-foreground">p90</span>
+          <span className="font-medium text-muted-foreground">p99</span>
+          {stages.map(({ label, values }) => (
+            <div key={label} className="contents" data-testid={`latency-percentiles-${label.split(' ')[0].toLowerCase()}`}>
+              <span className="font-medium">{label}</span>
+              <span>{formatMs(values.p50)}</span>
+              <span>{formatMs(values.p90)}</span>
+              <span className="font-bold">{formatMs(values.p99)}</span>
+            </div>
+          ))}
+        </div>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis dataKey="time" tick={{ fontSize: 11 }} minTickGap={24} />
+              <YAxis tick={{ fontSize: 11 }} unit="ms" width={70} />
+              <Tooltip formatter={(value: number) => `${value}ms`} />
+              <Legend />
+              {(['p50', 'p90', 'p99'] as const).map(key => (
+                <Line key={key} type="monotone" dataKey={key} stroke={PERCENTILE_COLORS[key]} dot={false} strokeWidth={2} />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function LatencyBreakdownCard({ breakdowns }: { breakdowns: LatencyAnalytics['breakdowns'] }) {
+  const [dimension, setDimension] = useState<LatencyDimension>('table');
+  const rows = breakdowns[dimension];
+
+  return (
+    <Card data-testid="card-latency-breakdown">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Latency Breakdown</CardTitle>
+          <CardDescription>Total time percentiles by {LATENCY_DIMENSIONS.find(d => d.value === dimension)?.label.toLowerCase()}</CardDescription>
+        </div>
+        <Select value={dimension} onValueChange={(value) => setDimension(value as LatencyDimension)}>
+          <SelectTrigger className="w-56" data-testid="select-latency-dimension">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LATENCY_DIMENSIONS.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rows.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <TrendingUp className="h-8 w-8 mx-auto mb-2" />
+            <p className="text-sm">No queries in the selected time range</p>
+          </div>
+        ) : (
+          <>
+            <div style={{ height: Math.max(160, rows.length * 36) }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={rows} layout="vertical" margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis type="number" tick={{ fontSize: 11 }} unit="ms" />
+                  <YAxis type="category" dataKey="label" tick={{ fontSize: 11 }} width={160} />
+                  <Tooltip formatter={(value: number) => `${value}ms`} />
+                  <Legend />
+                  {(['p50', 'p90', 'p99'] as const).map(key => (
+                    <Bar key={key} dataKey={key} fill={PERCENTILE_COLORS[key]} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="space-y-1 text-sm">
+              {rows.map(row => (
+                <div key={row.key} className="flex items-center justify-between gap-3" data-testid={`latency-breakdown-${row.key}`}>
+                  <span className="truncate" title={row.key}>{row.label}</span>
+                  <span className="text-muted-foreground whitespace-nowrap">
+                    {row.count} queries{row.errorCount > 0 && `, ${row.errorCount} failed`} · avg {row.averageMs}ms · p99 {formatMs(row.p99)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function LlmCostCard({ usage }: { usage: LlmUsageAnalytics }) {
+  const [dimension, setDimension] = useState<LlmUsageDimension>('byStage');
+  const rows = usage[dimension];
+  const { dailyBudgetUsd, action, usersOverBudget } = usage.budget;
+
+  return (
+    <Card data-testid="card-llm-cost">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>LLM Cost</CardTitle>
+          <CardDescription>
+            {dailyBudgetUsd === null
+              ? 'Token usage and cost of OpenAI calls. No daily budget is set.'
+              : `Daily budget ${formatUsd(dailyBudgetUsd)} per user (${action === 'block' ? 'blocks' : 'degrades'} when used up)${usersOverBudget > 0 ? ` · ${usersOverBudget} over budget today` : ''}`}
+          </CardDescription>
+        </div>
+        <Select value={dimension} onValueChange={(value) => setDimension(value as LlmUsageDimension)}>
+          <SelectTrigger className="w-40" data-testid="select-llm-usage-dimension">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LLM_USAGE_DIMENSIONS.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          <div>
+            <p className="text-muted-foreground">Cost</p>
+            <p className="text-2xl font-bold" data-testid="text-llm-cost">{formatUsd(usage.costUsd)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Tokens</p>
+            <p className="text-2xl font-bold">{usage.totalTokens.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Calls</p>
+            <p className="text-2xl font-bold">{usage.calls.toLocaleString()}</p>
+          </div>
+        </div>
+        {usage.unpricedCalls > 0 && (
+          <p className="text-xs text-amber-600">{usage.unpricedCalls} calls used models missing from the price table and are not costed</p>
+        )}
+        {rows.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Zap className="h-8 w-8 mx-auto mb-2" />
+            <p className="text-sm">No LLM calls in the selected time range</p>
+          </div>
+        ) : (
+          <>
+            <div style={{ height: Math.max(160, rows.length * 32) }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={rows} layout="vertical" margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis type="number" tick={{ fontSize: 11 }} tickFormatter={(value: number) => formatUsd(value)} />
+                  <YAxis type="category" dataKey="label" tick={{ fontSize: 11 }} width={160} />
+                  <Tooltip formatter={(value: number) => formatUsd(value)} />
+                  <Bar dataKey="costUsd" name="Cost" fill="hsl(221, 83%, 53%)" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="space-y-1 text-sm">
+              {rows.map(row => (
+                <div key={row.key} className="flex items-center justify-between gap-3" data-testid={`llm-usage-${row.key}`}>
+                  <span className="truncate" title={row.key}>{row.label}</span>
+                  <span className="text-muted-foreground whitespace-nowrap">
+                    {row.calls} calls · {row.promptTokens.toLocaleString()} in / {row.completionTokens.toLocaleString()} out · {formatUsd(row.costUsd)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Analytics tab: summary cards, latency, LLM cost and recent activity (administrators only)
+ */
+function AnalyticsTab({ data, feedbackStats, timeRange, onTimeRangeChange, onPromote }: {
+  data: AnalyticsData;
+  feedbackStats?: FeedbackStats;
+  timeRange: number;
+  onTimeRangeChange: (minutes: number) => void;
+  onPromote: (source: GoldenCaseSource) => void;
+}) {
+  const { summary, errorBreakdown, performanceOverTime, topErrors, recentQueries, latency, llmUsage } = data;
+  const timeRangeLabel = TIME_RANGES.find(range => range.minutes === timeRange)?.label ?? `Last ${timeRange} minutes`;
+  const successRate = summary.totalQueries > 0 
+    ? ((summary.successfulQueries / summary.totalQueries) * 100).toFixed(1) 
+    : '0.0';
+
+  return (
+    <>
+      <div className="flex justify-end mb-4">
+        <Select value={String(timeRange)} onValueChange={(value) => onTimeRangeChange(Number(value))}>
+          <SelectTrigger className="w-44" data-testid="select-analytics-time-range">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TIME_RANGES.map(range => (
+              <SelectItem key={range.minutes} value={String(range.minutes)}>{range.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4 mb-8">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Queries</CardTitle>
+            <Activity className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary.totalQueries}</div>
+            <p className="text-xs text-muted-foreground">{timeRangeLabel}</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Success Rate</CardTitle>
+            <CheckCircle2 className="h-4 w-4 text-green-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{successRate}%</div>
+            <p className="text-xs text-muted-foreground">
+              {summary.successfulQueries} / {summary.totalQueries} queries
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Avg Latency</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary.averageLatency}ms</div>
+            <p className="text-xs text-muted-foreground">Total request time</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Failed Queries</CardTitle>
+            <XCircle className="h-4 w-4 text-red-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary.failedQueries}</div>
+            <p className="text-xs text-muted-foreground">Validation or execution errors</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">User Feedback</CardTitle>
+            <div className="flex gap-1">
+              <ThumbsUp className="h-4 w-4 text-green-500" />
+              <ThumbsDown className="h-4 w-4 text-red-500" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-1">
+                <ThumbsUp className="h-4 w-4 text-green-500" />
+                <span className="text-xl font-bold text-green-600">{feedbackStats?.positive || 0}</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <ThumbsDown className="h-4 w-4 text-red-500" />
+                <span className="text-xl font-bold text-red-600">{feedbackStats?.negative || 0}</span>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">{feedbackStats?.total || 0} total responses</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2 mb-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Performance Breakdown</CardTitle>
+            <CardDescription>Average time spent in each stage</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Zap className="h-4 w-4 text-blue-500" />
+                  <span className="text-sm font-medium">LLM Generation</span>
+                </div>
+                <span className="text-sm font-bold">{summary.averageLlmMs}ms</span>
+              </div>
+              <div className="w-full bg-secondary rounded-full h-2">
+                <div 
+                  className="bg-blue-500 h-2 rounded-full" 
+                  style={{ 
+                    width: `${summary.averageLatency > 0 ? (summary.averageLlmMs / summary.averageLatency * 100) : 0}%` 
+                  }}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Database className="h-4 w-4 text-green-500" />
+                  <span className="text-sm font-medium">SQL Execution</span>
+                </div>
+                <span className="text-sm font-bold">{summary.averageSqlMs}ms</span>
+              </div>
+              <div className="w-full bg-secondary rounded-full h-2">
+                <div 
+                  className="bg-green-500 h-2 rounded-full" 
+                  style={{ 
+                    width: `${summary.averageLatency > 0 ? (summary.averageSqlMs / summary.averageLatency * 100) : 0}%` 
+                  }}
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Error Breakdown</CardTitle>
+            <CardDescription>Errors by stage</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {errorBreakdown.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <CheckCircle2 className="h-8 w-8 mx-auto mb-2 text-green-500" />
+                <p className="text-sm">No errors in the selected time range</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {errorBreakdown.map((error) => (
+                  <div key={error.stage} className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={error.stage === 'validation' ? 'destructive' : 'secondary'}>
+                        {error.stage}
+                      </Badge>
+                      <span className="text-sm">{error.count} errors</span>
+                    </div>
+                    <span className="text-sm font-medium">{error.percentage.toFixed(1)}%</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2 mb-8">
+        <LatencyPercentilesCard latency={latency} />
+        <LatencyBreakdownCard breakdowns={latency.breakdowns} />
+      </div>
+
+      <div className="mb-8">
+        <LlmCostCard usage={llmUsage} />
+      </div>
+
+      <Tabs defaultValue="recent" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="recent" data-testid="tab-recent-queries">Recent Queries</TabsTrigger>
+          <TabsTrigger value="errors" data-testid="tab-top-errors">Top Errors</TabsTrigger>
+          <TabsTrigger value="performance" data-testid="tab-performance">Performance Timeline</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="recent" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent Query Activity</CardTitle>
+              <CardDescription>Latest 20 queries with status and performance</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {recentQueries.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <Activity className="h-8 w-8 mx-auto mb-2" />
+                  <p className="text-sm">No queries in the selected time range</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {recentQueries.map((query, index) => (
+                    <div 
+                      key={index} 
+                      className="flex items-start gap-3 p-3 rounded-lg border bg-card hover:bg-accent/50 transition-colors"
+                      data-testid={`recent-query-${index}`}
+                    >
+                      {query.success ? (
+                        <CheckCircle2 className="h-5 w-5 text-green-500 mt-0.5 flex-shrink-0" />
+                      ) : (
+                        <XCircle className="h-5 w-5 text-red-500 mt-0.5 flex-shrink-0" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{query.question}</p>
+                        <div className="flex items-center gap-3 mt-1">
+                          <span className="text-xs text-muted-foreground">
+                            {new Date(query.timestamp).toLocaleTimeString()}
+                          </span>
+                          <span className="text-xs text-muted-foreground">{query.latency}ms</span>
+                          {query.success && query.rowCount !== null && (
+                            <span className="text-xs text-muted-foreground">{query.rowCount} rows</span>
+                          )}
+                        </div>
+                        {query.error && (
+                          <p className="text-xs text-red-500 mt-1 line-clamp-2">{query.error}</p>
+                        )}
+                      </div>
+                      {!query.success && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="flex-shrink-0"
+                          onClick={() => onPromote({ type: 'failed_query', id: query.requestId })}
+                          data-testid={`button-promote-query-${index}`}
+                        >
+                          <FlaskConical className="h-4 w-4 mr-1" />
+                          Golden case
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="errors" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Most Common Errors</CardTitle>
+              <CardDescription>Top 10 error messages by frequency</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {topErrors.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <CheckCircle2 className="h-8 w-8 mx-auto mb-2 text-green-500" />
+                  <p className="text-sm">No errors in the selected time range</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {topErrors.map((error, index) => (
+                    <div 
+                      key={index} 
+                      className="p-3 rounded-lg border bg-card"
+                      data-testid={`top-error-${index}`}
+                    >
+                      <div className="flex items-start gap-3">
+                        <Badge variant="destructive" className="mt-0.5">{error.count}</Badge>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium break-words">{error.message}</p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Last occurred: {new Date(error.lastOccurred).toLocaleString()}
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="performance" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Performance Timeline</CardTitle>
+              <CardDescription>Last 50 successful queries</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {performanceOverTime.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <TrendingUp className="h-8 w-8 mx-auto mb-2" />
+                  <p className="text-sm">No successful queries in the selected time range</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {performanceOverTime.slice().reverse().map((entry, index) => (
+                    <div 
+                      key={index} 
+                      className="flex items-center gap-3"
+                      data-testid={`performance-entry-${index}`}
+                    >
+                      <span className="text-xs text-muted-foreground w-20 flex-shrink-0">
+                        {new Date(entry.timestamp).toLocaleTimeString()}
+                      </span>
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="text-xs font-medium w-20">Total: {entry.latency}ms</span>
+                          <div className="flex-1 bg-secondary rounded-full h-2 overflow-hidden">
+                            <div className="flex h-full">
+                              <div 
+                                className="bg-blue-500" 
+                                style={{ width: `${(entry.llmMs / entry.latency) * 100}%` }}
+                                title={`LLM: ${entry.llmMs}ms`}
+                              />
+                              <div 
+                                className="bg-green-500" 
+                                style={{ width: `${(entry.sqlMs / entry.latency) * 100}%` }}
+                                title={`SQL: ${entry.sqlMs}ms`}
+                              />
+                            </div>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                          <span>LLM: {entry.llmMs}ms</span>
+                          <span>SQL: {entry.sqlMs}ms</span>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </>
+  );
+}
+
 export default function Dashboard() {
   const [activeTab, setActiveTab] = useState("my-dashboard");
   const [rerunningId, setRerunningId] = useState<string | null>(null);
   const { pinnedItems, removePinnedItem, updatePinnedItemResult } = usePinnedDashboard();
   const { toast } = useToast();
+  const [timeRange, setTimeRange] = useState(1440);
+  const [promoteSource, setPromoteSource] = useState<GoldenCaseSource | null>(null);
   
   const { data, isLoading, error } = useQuery<AnalyticsData>({
-    queryKey: ['/api/analytics'],
-    refetchInterval: 10000, // Refresh every 10 seconds
+    queryKey: [`/api/admin/analytics?timeRange=${timeRange}`],
+    // Refresh every 10 seconds, but stop polling once the server has said no
+    refetchInterval: (query) => (query.state.error ? false : 10000),
+    placeholderData: keepPreviousData, // Keep the page up while a new range loads
   });
 
   const { data: feedbackStats } = useQuery<FeedbackStats>({
-    queryKey: ['/api/feedback/stats'],
-    refetchInterval: 10000,
+    queryKey: ['/api/admin/feedback/stats'],
+    refetchInterval: (query) => (query.state.error ? false : 10000),
   });
 
   const handleRerunQuery = async (item: PinnedItem) => {
@@ -253,7 +906,10 @@ export default function Dashboard() {
     );
   }
 
-  if (error || !data) {
+  // Analytics are for administrators; everyone else still gets their pinned queries and feedback
+  const analyticsForbidden = Boolean(error && String(error.message).startsWith('403'));
+
+  if (!analyticsForbidden && (error || !data)) {
     return (
       <div className="min-h-screen bg-background p-8">
         <Alert variant="destructive">
@@ -266,11 +922,6 @@ export default function Dashboard() {
     );
   }
 
-  const { summary, errorBreakdown, performanceOverTime, topErrors, recentQueries } = data;
-  const successRate = summary.totalQueries > 0 
-    ? ((summary.successfulQueries / summary.totalQueries) * 100).toFixed(1) 
-    : '0.0';
-
   return (
     <div className="min-h-screen bg-background">
       <div className="border-b">
@@ -304,6 +955,10 @@ export default function Dashboard() {
               <Activity className="h-4 w-4" />
               Analytics
             </TabsTrigger>
+            <TabsTrigger value="feedback" className="gap-2" data-testid="tab-feedback-inbox">
+              <Inbox className="h-4 w-4" />
+              Feedback
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="my-dashboard" className="mt-6">
@@ -341,299 +996,31 @@ export default function Dashboard() {
           </TabsContent>
 
           <TabsContent value="analytics" className="mt-6">
-        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4 mb-8">
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Total Queries</CardTitle>
-              <Activity className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{summary.totalQueries}</div>
-              <p className="text-xs text-muted-foreground">Last 24 hours</p>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Success Rate</CardTitle>
-              <CheckCircle2 className="h-4 w-4 text-green-500" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{successRate}%</div>
-              <p className="text-xs text-muted-foreground">
-                {summary.successfulQueries} / {summary.totalQueries} queries
-              </p>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Avg Latency</CardTitle>
-              <Clock className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{summary.averageLatency}ms</div>
-              <p className="text-xs text-muted-foreground">Total request time</p>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Failed Queries</CardTitle>
-              <XCircle className="h-4 w-4 text-red-500" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{summary.failedQueries}</div>
-              <p className="text-xs text-muted-foreground">Validation or execution errors</p>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">User Feedback</CardTitle>
-              <div className="flex gap-1">
-                <ThumbsUp className="h-4 w-4 text-green-500" />
-                <ThumbsDown className="h-4 w-4 text-red-500" />
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="flex items-center gap-4">
-                <div className="flex items-center gap-1">
-                  <ThumbsUp className="h-4 w-4 text-green-500" />
-                  <span className="text-xl font-bold text-green-600">{feedbackStats?.positive || 0}</span>
-                </div>
-                <div className="flex items-center gap-1">
-                  <ThumbsDown className="h-4 w-4 text-red-500" />
-                  <span className="text-xl font-bold text-red-600">{feedbackStats?.negative || 0}</span>
-                </div>
-              </div>
-              <p className="text-xs text-muted-foreground mt-1">{feedbackStats?.total || 0} total responses</p>
-            </CardContent>
-          </Card>
-        </div>
-
-        <div className="grid gap-6 md:grid-cols-2 mb-8">
-          <Card>
-            <CardHeader>
-              <CardTitle>Performance Breakdown</CardTitle>
-              <CardDescription>Average time spent in each stage</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <Zap className="h-4 w-4 text-blue-500" />
-                    <span className="text-sm font-medium">LLM Generation</span>
-                  </div>
-                  <span className="text-sm font-bold">{summary.averageLlmMs}ms</span>
-                </div>
-                <div className="w-full bg-secondary rounded-full h-2">
-                  <div 
-                    className="bg-blue-500 h-2 rounded-full" 
-                    style={{ 
-                      width: `${summary.averageLatency > 0 ? (summary.averageLlmMs / summary.averageLatency * 100) : 0}%` 
-                    }}
-                  />
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <Database className="h-4 w-4 text-green-500" />
-                    <span className="text-sm font-medium">SQL Execution</span>
-                  </div>
-                  <span className="text-sm font-bold">{summary.averageSqlMs}ms</span>
-                </div>
-                <div className="w-full bg-secondary rounded-full h-2">
-                  <div 
-                    className="bg-green-500 h-2 rounded-full" 
-                    style={{ 
-                      width: `${summary.averageLatency > 0 ? (summary.averageSqlMs / summary.averageLatency * 100) : 0}%` 
-                    }}
-                  />
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader>
-              <CardTitle>Error Breakdown</CardTitle>
-              <CardDescription>Errors by stage</CardDescription>
-            </CardHeader>
-            <CardContent>
-              {errorBreakdown.length === 0 ? (
-                <div className="text-center py-8 text-muted-foreground">
-                  <CheckCircle2 className="h-8 w-8 mx-auto mb-2 text-green-500" />
-                  <p className="text-sm">No errors in the selected time range</p>
-                </div>
-              ) : (
-                <div className="space-y-3">
-                  {errorBreakdown.map((error) => (
-                    <div key={error.stage} className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <Badge variant={error.stage === 'validation' ? 'destructive' : 'secondary'}>
-                          {error.stage}
-                        </Badge>
-                        <span className="text-sm">{error.count} errors</span>
-                      </div>
-                      <span className="text-sm font-medium">{error.percentage.toFixed(1)}%</span>
-                    </div>
-                  ))}
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        </div>
-
-        <Tabs defaultValue="recent" className="space-y-4">
-          <TabsList>
-            <TabsTrigger value="recent" data-testid="tab-recent-queries">Recent Queries</TabsTrigger>
-            <TabsTrigger value="errors" data-testid="tab-top-errors">Top Errors</TabsTrigger>
-            <TabsTrigger value="performance" data-testid="tab-performance">Performance Timeline</TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="recent" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle>Recent Query Activity</CardTitle>
-                <CardDescription>Latest 20 queries with status and performance</CardDescription>
-              </CardHeader>
-              <CardContent>
-                {recentQueries.length === 0 ? (
-                  <div className="text-center py-8 text-muted-foreground">
-                    <Activity className="h-8 w-8 mx-auto mb-2" />
-                    <p className="text-sm">No queries in the selected time range</p>
-                  </div>
-                ) : (
-                  <div className="space-y-3">
-                    {recentQueries.map((query, index) => (
-                      <div 
-                        key={index} 
-                        className="flex items-start gap-3 p-3 rounded-lg border bg-card hover:bg-accent/50 transition-colors"
-                        data-testid={`recent-query-${index}`}
-                      >
-                        {query.success ? (
-                          <CheckCircle2 className="h-5 w-5 text-green-500 mt-0.5 flex-shrink-0" />
-                        ) : (
-                          <XCircle className="h-5 w-5 text-red-500 mt-0.5 flex-shrink-0" />
-                        )}
-                        <div className="flex-1 min-w-0">
-                          <p className="text-sm font-medium truncate">{query.question}</p>
-                          <div className="flex items-center gap-3 mt-1">
-                            <span className="text-xs text-muted-foreground">
-                              {new Date(query.timestamp).toLocaleTimeString()}
-                            </span>
-                            <span className="text-xs text-muted-foreground">{query.latency}ms</span>
-                            {query.success && query.rowCount !== null && (
-                              <span className="text-xs text-muted-foreground">{query.rowCount} rows</span>
-                            )}
-                          </div>
-                          {query.error && (
-                            <p className="text-xs text-red-500 mt-1 line-clamp-2">{query.error}</p>
-                          )}
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          </TabsContent>
-
-          <TabsContent value="errors" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle>Most Common Errors</CardTitle>
-                <CardDescription>Top 10 error messages by frequency</CardDescription>
-              </CardHeader>
-              <CardContent>
-                {topErrors.length === 0 ? (
-                  <div className="text-center py-8 text-muted-foreground">
-                    <CheckCircle2 className="h-8 w-8 mx-auto mb-2 text-green-500" />
-                    <p className="text-sm">No errors in the selected time range</p>
-                  </div>
-                ) : (
-                  <div className="space-y-3">
-                    {topErrors.map((error, index) => (
-                      <div 
-                        key={index} 
-                        className="p-3 rounded-lg border bg-card"
-                        data-testid={`top-error-${index}`}
-                      >
-                        <div className="flex items-start gap-3">
-                          <Badge variant="destructive" className="mt-0.5">{error.count}</Badge>
-                          <div className="flex-1 min-w-0">
-                            <p className="text-sm font-medium break-words">{error.message}</p>
-                            <p className="text-xs text-muted-foreground mt-1">
-                              Last occurred: {new Date(error.lastOccurred).toLocaleString()}
-                            </p>
-                          </div>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+            {data ? (
+              <AnalyticsTab
+                data={data}
+                feedbackStats={feedbackStats}
+                timeRange={timeRange}
+                onTimeRangeChange={setTimeRange}
+                onPromote={setPromoteSource}
+              />
+            ) : (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription data-testid="text-analytics-admin-required">
+                  Administrator access is required to view analytics.
+                </AlertDescription>
+              </Alert>
+            )}
           </TabsContent>
 
-          <TabsContent value="performance" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle>Performance Timeline</CardTitle>
-                <CardDescription>Last 50 successful queries</CardDescription>
-              </CardHeader>
-              <CardContent>
-                {performanceOverTime.length === 0 ? (
-                  <div className="text-center py-8 text-muted-foreground">
-                    <TrendingUp className="h-8 w-8 mx-auto mb-2" />
-                    <p className="text-sm">No successful queries in the selected time range</p>
-                  </div>
-                ) : (
-                  <div className="space-y-3">
-                    {performanceOverTime.slice().reverse().map((entry, index) => (
-                      <div 
-                        key={index} 
-                        className="flex items-center gap-3"
-                        data-testid={`performance-entry-${index}`}
-                      >
-                        <span className="text-xs text-muted-foreground w-20 flex-shrink-0">
-                          {new Date(entry.timestamp).toLocaleTimeString()}
-                        </span>
-                        <div className="flex-1">
-                          <div className="flex items-center gap-2 mb-1">
-                            <span className="text-xs font-medium w-20">Total: {entry.latency}ms</span>
-                            <div className="flex-1 bg-secondary rounded-full h-2 overflow-hidden">
-                              <div className="flex h-full">
-                                <div 
-                                  className="bg-blue-500" 
-                                  style={{ width: `${(entry.llmMs / entry.latency) * 100}%` }}
-                                  title={`LLM: ${entry.llmMs}ms`}
-                                />
-                                <div 
-                                  className="bg-green-500" 
-                                  style={{ width: `${(entry.sqlMs / entry.latency) * 100}%` }}
-                                  title={`SQL: ${entry.sqlMs}ms`}
-                                />
-                              </div>
-                            </div>
-                          </div>
-                          <div className="flex items-center gap-3 text-xs text-muted-foreground">
-                            <span>LLM: {entry.llmMs}ms</span>
-                            <span>SQL: {entry.sqlMs}ms</span>
-                          </div>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          </TabsContent>
-        </Tabs>
+          <TabsContent value="feedback" className="mt-6">
+            <FeedbackInbox />
           </TabsContent>
         </Tabs>
       </div>
+
+      <GoldenCaseDialog source={promoteSource} onOpenChange={(open) => !open && setPromoteSource(null)} />
     </div>
   );
 }
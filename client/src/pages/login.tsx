@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, LogIn } from 'lucide-react';
+
+export default function Login() {
+  const [, setLocation] = useLocation();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [mustChangePassword, setMustChangePassword] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mustChangePassword && newPassword !== confirmPassword) {
+      setError('The new passwords do not match');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password, newPassword: mustChangePassword ? newPassword : undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        if (data.mustChangePassword) setMustChangePassword(true);
+        setError(data.error || 'Sign-in failed');
+        return;
+      }
+      setLocation('/');
+    } catch (err: any) {
+      setError(err.message || 'Sign-in failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gradient-to-br from-background via-background to-accent/10">
+      <Card className="w-full max-w-sm mx-4">
+        <CardHeader>
+          <img src="/logo.svg" alt="AI Analytics" className="h-10 w-fit mb-2" />
+          <CardTitle>Sign in</CardTitle>
+          <CardDescription>
+            {mustChangePassword
+              ? 'Your password was set by an administrator. Choose a new one to continue.'
+              : 'Use the account your administrator created for you.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={submit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                disabled={mustChangePassword}
+                data-testid="input-login-username"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">{mustChangePassword ? 'Current password' : 'Password'}</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={mustChangePassword}
+                data-testid="input-login-password"
+              />
+            </div>
+            {mustChangePassword && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="new-password">New password</Label>
+                  <Input
+                    id="new-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    data-testid="input-login-new-password"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirm-password">Confirm new password</Label>
+                  <Input
+                    id="confirm-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    data-testid="input-login-confirm-password"
+                  />
+                </div>
+              </>
+            )}
+            {error && (
+              <Alert variant="destructive" data-testid="text-login-error">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <Button type="submit" className="w-full gap-2" disabled={submitting || !username || !password} data-testid="button-login">
+              {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogIn className="h-4 w-4" />}
+              {mustChangePassword ? 'Change password and sign in' : 'Sign in'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,14 +3,14 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, AlertCircle, Sparkles, ChevronDown, ChevronUp, Database, XCircle, Download, ThumbsUp, ThumbsDown, BarChart3, Heart, Trash2, Lightbulb, MessageSquare, ArrowUp, Pin, HelpCircle, Copy, Check, TableProperties } from 'lucide-react';
+import { Loader2, AlertCircle, Sparkles, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, Database, XCircle, Download, ThumbsUp, ThumbsDown, BarChart3, Heart, Trash2, Lightbulb, MessageSquare, ArrowUp, Pin, HelpCircle, Copy, Check, TableProperties } from 'lucide-react';
 import { Link } from 'wouter';
 import { ThemeToggle } from '@/components/theme-toggle';
 import { ResultChart } from '@/components/result-chart';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { exportToCSV, exportToExcel } from '@/lib/export-utils';
 import { detectDateTimeColumns, formatCellValue } from '@/lib/date-formatter';
 import type { QuickQuestion } from '@/config/quickQuestions';
@@ -21,6 +21,8 @@ import { usePinnedDashboard, PinnedQueryFilters, PinnedQueryResult } from '@/hoo
 import { useSimulatedToday, getSimulatedTodaySync, fetchSimulatedToday } from '@/hooks/useSimulatedToday';
 import { useToast } from '@/hooks/use-toast';
 import { useDevUser } from '@/hooks/useDevUser';
+import { RequestAccessButton, MyAccessRequests } from '@/components/access-requests';
+import { AccountMenu } from '@/components/account-menu';
 import { useTour, type TourStep } from '@/hooks/useTour';
 import { TourOverlay } from '@/components/TourOverlay';
 
@@ -68,6 +70,7 @@ function formatTableName(fullTableName: string): string {
 }
 
 interface QueryResult {
+  requestId?: string; // Links feedback to the server's query log entry
   answer: string;
   sql: string;
   rows: any[];
@@ -79,6 +82,17 @@ interface QueryResult {
     after: string | null;
   };
   dataLastUpdated?: string | null;
+  pagination?: ResultPagination;
+  appliedFilters?: string[];
+  budgetNotice?: string; // Set when the user's daily LLM budget is used up
+}
+
+// Server-side paging state for a result (pages are fetched through /api/ask/page)
+interface ResultPagination {
+  resultId: string;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
 }
 
 interface SemanticCatalog {
@@ -98,20 +112,32 @@ const MOCK_DATA = [
   { job_id: 'J005', job_name: 'Packaging', status: 'On Hold', due_date: '2023-11-30', quantity: 200, plant: 'Plant B' },
 ];
 
-// Scenario option type with ID, name, and type
+// Scenario option type with ID, name, type, and latest publish date
 interface ScenarioOption {
   id: string;
   name: string;
   type: string;
+  publishDate?: string | null;
 }
 
-// Filter options type
+// Filter options type (limited to values the signed-in user can query)
 interface FilterOptions {
   planningAreas: string[];
   scenarios: ScenarioOption[];
   plants: string[];
 }
 
+// Scenarios grouped by type, in the order the server returned them
+function groupScenariosByType(scenarios: ScenarioOption[]): Array<[string, ScenarioOption[]]> {
+  const groups = new Map<string, ScenarioOption[]>();
+  for (const scenario of scenarios) {
+    const type = scenario.type || 'Other';
+    if (!groups.has(type)) groups.set(type, []);
+    groups.get(type)!.push(scenario);
+  }
+  return Array.from(groups.entries());
+}
+
 // Tour steps for onboarding new users
 const TOUR_STEPS: TourStep[] = [
   {
@@ -147,6 +173,8 @@ export default function QueryPage() {
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<QueryResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [blockedQueryId, setBlockedQueryId] = useState<string | null>(null); // Set when a query is permission-denied
+  const [accessRequestsKey, setAccessRequestsKey] = useState(0);
   const [faqQuestions, setFaqQuestions] = useState<QuickQuestion[]>([]);
   const [showData, setShowData] = useState(true);
   const [showSql, setShowSql] = useState(false);
@@ -168,6 +196,7 @@ export default function QueryPage() {
   const [sqlCopied, setSqlCopied] = useState(false);
   const [streamingAnswer, setStreamingAnswer] = useState('');
   const [streamingStatus, setStreamingStatus] = useState<string | null>(null);
+  const [pageLoading, setPageLoading] = useState(false);
   
   // Messages array for proper persistence during streaming
   interface StreamMessage {
@@ -263,6 +292,7 @@ export default function QueryPage() {
           sql: result.sql,
           feedback,
           comment: comment || undefined,
+          requestId: result.requestId,
         }),
       });
       if (response.ok) {
@@ -297,6 +327,7 @@ export default function QueryPage() {
 
     setLoading(true);
     setError(null);
+    setBlockedQueryId(null);
     setResult(null);
     setGeneralAnswer(null);
     setFeedbackGiven(null);
@@ -329,15 +360,40 @@ export default function QueryPage() {
     }
   };
 
-  const executeNonStreamingQuery = async (queryToSend: string, anchorDateStr: string) => {
+  const fetchResultPage = async (page: number) => {
+    if (!result?.pagination) return;
+
+    setPageLoading(true);
     try {
-      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-      if (devUser?.username) {
-        headers['x-username'] = devUser.username;
+      const response = await fetch('/api/ask/page', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resultId: result.pagination.resultId, page }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load page');
       }
+
+      setResult(prev => prev && {
+        ...prev,
+        rows: data.rows,
+        rowCount: data.rowCount,
+        pagination: { resultId: data.resultId, page: data.page, pageSize: data.pageSize, hasMore: data.hasMore },
+      });
+      setDateTimeColumns(detectDateTimeColumns(data.rows));
+    } catch (err: any) {
+      toast({ title: 'Could not load page', description: err.message, variant: 'destructive' });
+    } finally {
+      setPageLoading(false);
+    }
+  };
+
+  const executeNonStreamingQuery = async (queryToSend: string, anchorDateStr: string) => {
+    try {
       const response = await fetch('/api/ask', {
         method: 'POST',
-        headers,
+        headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
           question: queryToSend,
           publishDate: anchorDateStr,
@@ -370,6 +426,12 @@ export default function QueryPage() {
       }
 
       if (!response.ok) {
+        if (data.isPermissionDenied) {
+          setError(data.error || 'Access denied');
+          setBlockedQueryId(data.blockId ?? null);
+          setLoading(false);
+          return;
+        }
         if (data.schemaError) {
           setError(data.error || 'Schema validation failed.');
           setLoading(false);
@@ -490,9 +552,6 @@ export default function QueryPage() {
     if (selectedPlant && selectedPlant !== 'All Plants') {
       filterParams.set('filterPlant', selectedPlant);
     }
-    if (devUser?.username) {
-      filterParams.set('username', devUser.username);
-    }
     const filterStr = filterParams.toString();
     const url = `/api/ask/stream?question=${encodeURIComponent(queryToSend)}&publishDate=${encodeURIComponent(anchorDateStr)}${filterStr ? '&' + filterStr : ''}`;
     console.log('[streaming] Creating EventSource for:', url);
@@ -527,6 +586,8 @@ export default function QueryPage() {
       const data = JSON.parse((e as MessageEvent).data);
       partialResult.rows = data.rows;
       partialResult.rowCount = data.rowCount;
+      partialResult.pagination = data.pagination;
+      partialResult.appliedFilters = data.appliedFilters;
       setShowData(true);
       
       if (data.rows.length > 0) {
@@ -559,7 +620,10 @@ export default function QueryPage() {
       partialResult.suggestions = data.suggestions;
       if (data.sql) partialResult.sql = data.sql;
       if (data.rowCount !== undefined) partialResult.rowCount = data.rowCount;
+      if (data.pagination) partialResult.pagination = data.pagination;
       if (data.dataLastUpdated) partialResult.dataLastUpdated = data.dataLastUpdated;
+      if (data.requestId) partialResult.requestId = data.requestId;
+      if (data.budgetNotice) partialResult.budgetNotice = data.budgetNotice;
       
       // Display the answer immediately
       if (data.answer) {
@@ -591,6 +655,9 @@ export default function QueryPage() {
         } else {
           setError(data.error);
         }
+        if (data.isPermissionDenied) {
+          setBlockedQueryId(data.blockId ?? null);
+        }
       } catch {
         // SSE connection error (not a JSON error event) - let onerror handle it
         console.log('[streaming] Error event parsing failed, delegating to onerror');
@@ -655,6 +722,7 @@ export default function QueryPage() {
     setQuestion('');
     setResult(null);
     setError(null);
+    setBlockedQueryId(null);
     setGeneralAnswer(null);
     setFeedbackGiven(null);
     setShowData(false);
@@ -716,6 +784,14 @@ export default function QueryPage() {
                   </SelectContent>
                 </Select>
               )}
+              <MyAccessRequests
+                refreshKey={accessRequestsKey}
+                className="gap-2 text-slate-300 hover:text-white hover:bg-slate-800"
+              />
+              {/* The development switcher manages its own session */}
+              {!devUser && (
+                <AccountMenu className="gap-2 text-slate-300 hover:text-white hover:bg-slate-800" />
+              )}
               <Link href="/dashboard" data-tour="dashboard-link">
                 <Button
                   variant="ghost"
@@ -883,10 +959,18 @@ export default function QueryPage() {
                         <SelectItem value="__all__" data-testid="option-scenario-all">
                           All Scenarios
                         </SelectItem>
-                        {filterOptions.scenarios.map((scenario) => (
-                          <SelectItem key={scenario.id} value={scenario.id} data-testid={`option-scenario-${scenario.id}`}>
-                            {scenario.id} - {scenario.name} ({scenario.type})
-                          </SelectItem>
+                        {groupScenariosByType(filterOptions.scenarios).map(([type, scenarios]) => (
+                          <SelectGroup key={type} data-testid={`group-scenario-type-${type}`}>
+                            <SelectLabel>{type}</SelectLabel>
+                            {scenarios.map((scenario) => (
+                              <SelectItem key={scenario.id} value={scenario.id} data-testid={`option-scenario-${scenario.id}`}>
+                                {scenario.id} - {scenario.name}
+                                {scenario.publishDate && (
+                                  <span className="text-muted-foreground"> · {new Date(scenario.publishDate).toLocaleDateString()}</span>
+                                )}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
                         ))}
                       </SelectContent>
                     </Select>
@@ -1049,6 +1133,13 @@ export default function QueryPage() {
             </CardHeader>
             <CardContent className="space-y-3">
               <p data-testid="text-error" className="whitespace-pre-line">{error}</p>
+              {blockedQueryId && (
+                <RequestAccessButton
+                  key={blockedQueryId}
+                  blockId={blockedQueryId}
+                  onRequested={() => setAccessRequestsKey(key => key + 1)}
+                />
+              )}
             </CardContent>
           </Card>
         )}
@@ -1368,13 +1459,59 @@ export default function QueryPage() {
                           </table>
                         </div>
                       </div>
-                      <p className="text-sm text-muted-foreground mt-3">
-                        Showing {uniqueRows.length} rows
-                      </p>
+                      <div className="flex items-center justify-between mt-3">
+                        <p className="text-sm text-muted-foreground">
+                          {result.pagination
+                            ? `Showing rows ${(result.pagination.page - 1) * result.pagination.pageSize + 1}-${(result.pagination.page - 1) * result.pagination.pageSize + result.rows.length}`
+                            : `Showing ${uniqueRows.length} rows`}
+                        </p>
+                        {result.pagination && (result.pagination.page > 1 || result.pagination.hasMore) && (
+                          <div className="flex items-center gap-2" data-testid="result-pagination">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => fetchResultPage(result.pagination!.page - 1)}
+                              disabled={pageLoading || result.pagination.page <= 1}
+                              data-testid="button-page-previous"
+                            >
+                              <ChevronLeft className="h-4 w-4 mr-1" />
+                              Previous
+                            </Button>
+                            <span className="text-sm text-muted-foreground" data-testid="text-page-number">
+                              {pageLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : `Page ${result.pagination.page}`}
+                            </span>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => fetchResultPage(result.pagination!.page + 1)}
+                              disabled={pageLoading || !result.pagination.hasMore}
+                              data-testid="button-page-next"
+                            >
+                              Next
+                              <ChevronRight className="h-4 w-4 ml-1" />
+                            </Button>
+                          </div>
+                        )}
+                      </div>
                     </div>
                   );
                 })()}
 
+                {/* Filters that couldn't be applied to some tables (no matching column) */}
+                {result.appliedFilters?.some(filter => filter.includes('not applied')) && (
+                  <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-sm" data-testid="filters-not-applied">
+                    {result.appliedFilters.filter(filter => filter.includes('not applied')).map(filter => (
+                      <p key={filter} className="text-amber-700 dark:text-amber-400">{filter}</p>
+                    ))}
+                  </div>
+                )}
+
+                {result.budgetNotice && (
+                  <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg text-sm text-amber-700 dark:text-amber-400" data-testid="llm-budget-notice">
+                    {result.budgetNotice}
+                  </div>
+                )}
+
                 {/* No results message */}
                 {result.rows.length === 0 && (
                   <div className="p-6 text-center border border-border/50 rounded-xl bg-muted/30" data-testid="no-results-message">
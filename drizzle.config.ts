@@ -1,14 +1,15 @@
 import { defineConfig } from "drizzle-kit";
 
-if (!process.env.DATABASE_URL) {
-  throw new Error("DATABASE_URL, ensure the database is provisioned");
+// DATABASE_URL is the Azure SQL analytics source; the app's own data store is separate
+if (!process.env.STORAGE_DATABASE_URL) {
+  throw new Error("STORAGE_DATABASE_URL, ensure the database is provisioned");
 }
 
 export default defineConfig({
-  out: "./migrations",
+  out: "./migrations/postgres",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
   dbCredentials: {
-    url: process.env.DATABASE_URL,
+    url: process.env.STORAGE_DATABASE_URL,
   },
 });
@@ -0,0 +1,10 @@
+import { defineConfig } from "drizzle-kit";
+
+export default defineConfig({
+  out: "./migrations/sqlite",
+  schema: "./shared/schema-sqlite.ts",
+  dialect: "sqlite",
+  dbCredentials: {
+    url: process.env.STORAGE_SQLITE_PATH || "data/query-insight.db",
+  },
+});
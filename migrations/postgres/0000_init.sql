@@ -0,0 +1,75 @@
+CREATE TABLE "feedback" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"question" text NOT NULL,
+	"sql" text NOT NULL,
+	"feedback" varchar(4) NOT NULL,
+	"comment" text,
+	"created_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "legacy_imports" (
+	"name" varchar PRIMARY KEY NOT NULL,
+	"record_count" integer NOT NULL,
+	"imported_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "popular_queries" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"question" text NOT NULL,
+	"count" integer DEFAULT 1 NOT NULL,
+	"last_used" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "popular_queries_question_unique" UNIQUE("question")
+);
+--> statement-breakpoint
+CREATE TABLE "query_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"request_id" varchar NOT NULL,
+	"route" text NOT NULL,
+	"question" text NOT NULL,
+	"tenant_id" text,
+	"user_id" text,
+	"customer_id" text,
+	"client_ip_hash" text,
+	"is_mock" boolean DEFAULT false NOT NULL,
+	"generated_sql" text,
+	"sql_hash" text,
+	"validation_ok" boolean NOT NULL,
+	"validation_reason" text,
+	"row_count" integer,
+	"llm_ms" integer,
+	"sql_ms" integer,
+	"total_ms" integer NOT NULL,
+	"error_stage" text,
+	"error_message" text,
+	"cost_check" jsonb
+);
+--> statement-breakpoint
+CREATE TABLE "user_permissions" (
+	"user_id" varchar PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"email" text,
+	"is_admin" boolean DEFAULT false NOT NULL,
+	"group_ids" jsonb,
+	"allowed_planning_areas" jsonb,
+	"allowed_scenarios" jsonb,
+	"allowed_plants" jsonb,
+	"allowed_table_access" jsonb,
+	"denied_planning_areas" jsonb,
+	"denied_scenarios" jsonb,
+	"denied_plants" jsonb,
+	"denied_table_access" jsonb,
+	"max_rows" integer,
+	"column_rules" jsonb,
+	"created_at" timestamp with time zone NOT NULL,
+	"updated_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+CREATE INDEX "query_logs_timestamp_idx" ON "query_logs" USING btree ("timestamp");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "user_permissions" ADD COLUMN "grants" jsonb;
\ No newline at end of file
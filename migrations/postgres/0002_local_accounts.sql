@@ -0,0 +1,4 @@
+ALTER TABLE "users" ADD COLUMN "must_change_password" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "password_changed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "last_login_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "created_at" timestamp DEFAULT now() NOT NULL;
\ No newline at end of file
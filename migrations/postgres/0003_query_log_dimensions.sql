@@ -0,0 +1,2 @@
+ALTER TABLE "query_logs" ADD COLUMN "selected_tables" jsonb;--> statement-breakpoint
+ALTER TABLE "query_logs" ADD COLUMN "confidence" text;
\ No newline at end of file
@@ -0,0 +1,9 @@
+ALTER TABLE "feedback" ADD COLUMN "request_id" varchar;--> statement-breakpoint
+ALTER TABLE "feedback" ADD COLUMN "user_id" text;--> statement-breakpoint
+ALTER TABLE "feedback" ADD COLUMN "triage_status" text DEFAULT 'new' NOT NULL;--> statement-breakpoint
+ALTER TABLE "feedback" ADD COLUMN "triage_notes" text;--> statement-breakpoint
+ALTER TABLE "feedback" ADD COLUMN "corrected_sql" text;--> statement-breakpoint
+ALTER TABLE "feedback" ADD COLUMN "triaged_by" text;--> statement-breakpoint
+ALTER TABLE "feedback" ADD COLUMN "triaged_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "query_logs" ADD COLUMN "filters" jsonb;--> statement-breakpoint
+CREATE INDEX "feedback_request_id_idx" ON "feedback" USING btree ("request_id");
\ No newline at end of file
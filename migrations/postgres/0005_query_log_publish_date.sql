@@ -0,0 +1 @@
+ALTER TABLE "query_logs" ADD COLUMN "publish_date" text;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "llm_usage" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"timestamp" timestamp with time zone NOT NULL,
+	"request_id" varchar NOT NULL,
+	"user_id" text,
+	"stage" text NOT NULL,
+	"model" text NOT NULL,
+	"prompt_tokens" integer NOT NULL,
+	"completion_tokens" integer NOT NULL,
+	"total_tokens" integer NOT NULL,
+	"cost_usd" double precision
+);
+--> statement-breakpoint
+CREATE INDEX "llm_usage_timestamp_idx" ON "llm_usage" USING btree ("timestamp");--> statement-breakpoint
+CREATE INDEX "llm_usage_request_id_idx" ON "llm_usage" USING btree ("request_id");
\ No newline at end of file
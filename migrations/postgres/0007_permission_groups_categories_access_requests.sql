@@ -0,0 +1,47 @@
+CREATE TABLE "access_requests" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"username" text NOT NULL,
+	"question" text NOT NULL,
+	"blocked_reason" text NOT NULL,
+	"scope" jsonb NOT NULL,
+	"comment" text,
+	"status" varchar(16) NOT NULL,
+	"created_at" timestamp with time zone NOT NULL,
+	"decided_at" timestamp with time zone,
+	"decided_by" jsonb,
+	"decision_comment" text,
+	"granted_category" text
+);
+--> statement-breakpoint
+CREATE TABLE "permission_groups" (
+	"group_id" varchar PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"allowed_planning_areas" jsonb,
+	"allowed_scenarios" jsonb,
+	"allowed_plants" jsonb,
+	"allowed_table_access" jsonb,
+	"denied_planning_areas" jsonb,
+	"denied_scenarios" jsonb,
+	"denied_plants" jsonb,
+	"denied_table_access" jsonb,
+	"max_rows" integer,
+	"column_rules" jsonb,
+	"created_at" timestamp with time zone NOT NULL,
+	"updated_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "table_access_categories" (
+	"name" varchar PRIMARY KEY NOT NULL,
+	"description" text,
+	"tables" jsonb NOT NULL,
+	"created_at" timestamp with time zone NOT NULL,
+	"updated_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "access_requests_user_id_idx" ON "access_requests" USING btree ("user_id");--> statement-breakpoint
+-- The categories used before they were configurable: Sales and Revenue both covered the order tables
+INSERT INTO "table_access_categories" ("name", "description", "tables", "created_at", "updated_at") VALUES
+	('Sales', 'Sales and purchase order tables', '["DASHt_SalesOrders","DASHt_SalesOrderLines","DASHt_PurchaseOrders","DASHt_PurchaseOrderLines"]', now(), now()),
+	('Revenue', 'Sales and purchase order tables', '["DASHt_SalesOrders","DASHt_SalesOrderLines","DASHt_PurchaseOrders","DASHt_PurchaseOrderLines"]', now(), now());
@@ -0,0 +1,75 @@
+CREATE TABLE `feedback` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`question` text NOT NULL,
+	`sql` text NOT NULL,
+	`feedback` text NOT NULL,
+	`comment` text,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `legacy_imports` (
+	`name` text PRIMARY KEY NOT NULL,
+	`record_count` integer NOT NULL,
+	`imported_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `popular_queries` (
+	`id` text PRIMARY KEY NOT NULL,
+	`question` text NOT NULL,
+	`count` integer DEFAULT 1 NOT NULL,
+	`last_used` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `popular_queries_question_unique` ON `popular_queries` (`question`);--> statement-breakpoint
+CREATE TABLE `query_logs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`timestamp` text NOT NULL,
+	`request_id` text NOT NULL,
+	`route` text NOT NULL,
+	`question` text NOT NULL,
+	`tenant_id` text,
+	`user_id` text,
+	`customer_id` text,
+	`client_ip_hash` text,
+	`is_mock` integer DEFAULT false NOT NULL,
+	`generated_sql` text,
+	`sql_hash` text,
+	`validation_ok` integer NOT NULL,
+	`validation_reason` text,
+	`row_count` integer,
+	`llm_ms` integer,
+	`sql_ms` integer,
+	`total_ms` integer NOT NULL,
+	`error_stage` text,
+	`error_message` text,
+	`cost_check` text
+);
+--> statement-breakpoint
+CREATE INDEX `query_logs_timestamp_idx` ON `query_logs` (`timestamp`);--> statement-breakpoint
+CREATE TABLE `user_permissions` (
+	`user_id` text PRIMARY KEY NOT NULL,
+	`username` text NOT NULL,
+	`email` text,
+	`is_admin` integer DEFAULT false NOT NULL,
+	`group_ids` text,
+	`allowed_planning_areas` text,
+	`allowed_scenarios` text,
+	`allowed_plants` text,
+	`allowed_table_access` text,
+	`denied_planning_areas` text,
+	`denied_scenarios` text,
+	`denied_plants` text,
+	`denied_table_access` text,
+	`max_rows` integer,
+	`column_rules` text,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` text PRIMARY KEY NOT NULL,
+	`username` text NOT NULL,
+	`password` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_username_unique` ON `users` (`username`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `user_permissions` ADD `grants` text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `users` ADD `must_change_password` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `users` ADD `password_changed_at` text;--> statement-breakpoint
+ALTER TABLE `users` ADD `last_login_at` text;--> statement-breakpoint
+ALTER TABLE `users` ADD `created_at` text DEFAULT '' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `query_logs` ADD `selected_tables` text;--> statement-breakpoint
+ALTER TABLE `query_logs` ADD `confidence` text;
\ No newline at end of file
@@ -0,0 +1,9 @@
+ALTER TABLE `feedback` ADD `request_id` text;--> statement-breakpoint
+ALTER TABLE `feedback` ADD `user_id` text;--> statement-breakpoint
+ALTER TABLE `feedback` ADD `triage_status` text DEFAULT 'new' NOT NULL;--> statement-breakpoint
+ALTER TABLE `feedback` ADD `triage_notes` text;--> statement-breakpoint
+ALTER TABLE `feedback` ADD `corrected_sql` text;--> statement-breakpoint
+ALTER TABLE `feedback` ADD `triaged_by` text;--> statement-breakpoint
+ALTER TABLE `feedback` ADD `triaged_at` text;--> statement-breakpoint
+CREATE INDEX `feedback_request_id_idx` ON `feedback` (`request_id`);--> statement-breakpoint
+ALTER TABLE `query_logs` ADD `filters` text;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `llm_usage` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`timestamp` text NOT NULL,
+	`request_id` text NOT NULL,
+	`user_id` text,
+	`stage` text NOT NULL,
+	`model` text NOT NULL,
+	`prompt_tokens` integer NOT NULL,
+	`completion_tokens` integer NOT NULL,
+	`total_tokens` integer NOT NULL,
+	`cost_usd` real
+);
+--> statement-breakpoint
+CREATE INDEX `llm_usage_timestamp_idx` ON `llm_usage` (`timestamp`);--> statement-breakpoint
+CREATE INDEX `llm_usage_request_id_idx` ON `llm_usage` (`request_id`);
\ No newline at end of file
@@ -0,0 +1,47 @@
+CREATE TABLE `access_requests` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`username` text NOT NULL,
+	`question` text NOT NULL,
+	`blocked_reason` text NOT NULL,
+	`scope` text NOT NULL,
+	`comment` text,
+	`status` text NOT NULL,
+	`created_at` text NOT NULL,
+	`decided_at` text,
+	`decided_by` text,
+	`decision_comment` text,
+	`granted_category` text
+);
+--> statement-breakpoint
+CREATE INDEX `access_requests_user_id_idx` ON `access_requests` (`user_id`);--> statement-breakpoint
+CREATE TABLE `permission_groups` (
+	`group_id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`allowed_planning_areas` text,
+	`allowed_scenarios` text,
+	`allowed_plants` text,
+	`allowed_table_access` text,
+	`denied_planning_areas` text,
+	`denied_scenarios` text,
+	`denied_plants` text,
+	`denied_table_access` text,
+	`max_rows` integer,
+	`column_rules` text,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `table_access_categories` (
+	`name` text PRIMARY KEY NOT NULL,
+	`description` text,
+	`tables` text NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+-- The categories used before they were configurable: Sales and Revenue both covered the order tables
+INSERT INTO `table_access_categories` (`name`, `description`, `tables`, `created_at`, `updated_at`) VALUES
+	('Sales', 'Sales and purchase order tables', '["DASHt_SalesOrders","DASHt_SalesOrderLines","DASHt_PurchaseOrders","DASHt_PurchaseOrderLines"]', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+	('Revenue', 'Sales and purchase order tables', '["DASHt_SalesOrders","DASHt_SalesOrderLines","DASHt_PurchaseOrders","DASHt_PurchaseOrderLines"]', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
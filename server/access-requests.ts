@@ -0,0 +1,284 @@
+/**
+ * Access Requests
+ * Lets a user ask for the access a permission-denied query needed. A blocked query is
+ * remembered for a short time under an id returned with the denial; the user turns that
+ * id into a pending request, so the requested scope always comes from the server's own
+ * enforcement result. Admins approve or deny requests; approval adds the table-access
+ * category or removes the user's column rule through createOrUpdateUserPermissions.
+ * Requests are held in memory and written through to the data store (see storage.ts).
+ */
+
+import { randomUUID } from 'crypto';
+import { AccessRequest, AccessRequestScope, AccessRequestDecision, AccessRequestStatus, UserPermissions, InsertUserPermissions } from '@shared/schema';
+import { getUserPermissions, createOrUpdateUserPermissions } from './permissions-storage';
+import { resolveEffectivePermissions } from './effective-permissions';
+import { getInaccessibleTables } from './table-access-categories';
+import { findPermissions, PermissionContext } from './query-permissions';
+import type { RequestIdentity } from './auth';
+import { initStorage, persist } from './storage';
+import { log } from './log';
+
+interface BlockedQuery {
+  blockId: string;
+  userId: string;
+  username: string;
+  question: string;
+  blockedReason: string;
+  scope: AccessRequestScope;
+  createdAt: number;
+}
+
+const BLOCKED_QUERY_TTL_MS = 30 * 60 * 1000; // 30 minutes
+const BLOCKED_QUERY_MAX_SIZE = 200;
+const blockedQueries = new Map<string, BlockedQuery>();
+
+// Requests with a decision in progress, so two admins can't decide the same request at once
+const decidingRequests = new Set<string>();
+
+let requestsCache: AccessRequest[] = [];
+
+export interface AccessRequestResult {
+  success: boolean;
+  request?: AccessRequest;
+  error?: string;
+  status?: number; // HTTP status for failures
+}
+
+export interface AccessDecisionResult extends AccessRequestResult {
+  before?: UserPermissions; // Permissions changed by an approval, for auditing
+  after?: UserPermissions;
+  warning?: string; // Approved, but the user is still restricted through a group
+}
+
+/**
+ * Load every access request from the data store. Called once at startup.
+ */
+export async function initAccessRequests(): Promise<void> {
+  const storage = await initStorage();
+  requestsCache = await storage.getAllAccessRequests();
+  log(`[access-requests] Loaded ${requestsCache.length} access requests from the ${storage.kind} store`, 'permissions');
+}
+
+/**
+ * Write a request and wait for it to land; if it fails, reload the cache from the data store
+ * and rethrow
+ */
+async function saveRequest(request: AccessRequest): Promise<void> {
+  const copy = structuredClone(request);
+  try {
+    await persist(`save access request ${copy.id}`, storage => storage.upsertAccessRequest(copy));
+  } catch (error) {
+    await initAccessRequests().catch((reloadError: any) => {
+      log(`[access-requests] Could not reload access requests: ${reloadError.message}`, 'error');
+    });
+    throw error;
+  }
+}
+
+function getRequests(): AccessRequest[] {
+  return requestsCache;
+}
+
+function pruneBlockedQueries(): void {
+  const now = Date.now();
+  for (const [blockId, blocked] of Array.from(blockedQueries)) {
+    if (now - blocked.createdAt > BLOCKED_QUERY_TTL_MS) blockedQueries.delete(blockId);
+  }
+  // Oldest first (Map keeps insertion order)
+  while (blockedQueries.size > BLOCKED_QUERY_MAX_SIZE) {
+    const oldest = blockedQueries.keys().next().value;
+    if (oldest === undefined) break;
+    blockedQueries.delete(oldest);
+  }
+}
+
+function sameScope(a: AccessRequestScope, b: AccessRequestScope): boolean {
+  return a.type === b.type && a.table.toLowerCase() === b.table.toLowerCase() &&
+    (a.type !== 'column' || b.type !== 'column' || a.column.toLowerCase() === b.column.toLowerCase());
+}
+
+/**
+ * Remember a permission-denied query so its user can request access. Returns the block id
+ * to send with the denial, or undefined when the user has no stored permissions to change.
+ */
+export function registerBlockedQuery(
+  context: PermissionContext,
+  question: string,
+  blockedReason: string,
+  scope: AccessRequestScope | undefined
+): string | undefined {
+  const permissions = scope && findPermissions(context);
+  if (!permissions) return undefined;
+
+  pruneBlockedQueries();
+  const blockId = randomUUID();
+  blockedQueries.set(blockId, {
+    blockId,
+    userId: permissions.userId,
+    username: permissions.username,
+    question,
+    blockedReason,
+    scope: scope!,
+    createdAt: Date.now(),
+  });
+  return blockId;
+}
+
+/**
+ * Turn a blocked query into a pending request. Only the user whose query was blocked can
+ * do this; an identical pending request is returned instead of creating a duplicate.
+ */
+export async function createAccessRequest(context: PermissionContext, blockId: string, comment?: string): Promise<AccessRequestResult> {
+  pruneBlockedQueries();
+  const blocked = blockedQueries.get(blockId);
+  const permissions = findPermissions(context);
+  if (!blocked || !permissions || blocked.userId !== permissions.userId) {
+    return { success: false, error: 'This blocked query has expired. Ask the question again to request access.', status: 404 };
+  }
+
+  const requests = getRequests();
+  const existing = requests.find(request =>
+    request.status === 'pending' && request.userId === blocked.userId && sameScope(request.scope, blocked.scope)
+  );
+  if (existing) {
+    return { success: true, request: existing };
+  }
+
+  const request: AccessRequest = {
+    id: randomUUID(),
+    userId: blocked.userId,
+    username: blocked.username,
+    question: blocked.question,
+    blockedReason: blocked.blockedReason,
+    scope: blocked.scope,
+    comment: comment?.trim() || undefined,
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+  };
+  requests.push(request);
+  await saveRequest(request);
+  blockedQueries.delete(blockId);
+  log(`[access-requests] ${request.username} requested ${describeAccessScope(request.scope)}`, 'permissions');
+  return { success: true, request };
+}
+
+export function describeAccessScope(scope: AccessRequestScope): string {
+  return scope.type === 'tableAccess'
+    ? `${scope.categories.join(' or ')} access (${scope.table})`
+    : `the ${scope.column} column of ${scope.table}`;
+}
+
+/**
+ * Requests newest first, optionally limited to one status or user
+ */
+export function getAccessRequests(filter: { status?: AccessRequestStatus; userId?: string } = {}): AccessRequest[] {
+  return getRequests()
+    .filter(request => (!filter.status || request.status === filter.status) && (!filter.userId || request.userId === filter.userId))
+    .slice()
+    .reverse();
+}
+
+/**
+ * The requesting user's own requests, newest first
+ */
+export function getAccessRequestsForUser(context: PermissionContext): AccessRequest[] {
+  const permissions = findPermissions(context);
+  return permissions ? getAccessRequests({ userId: permissions.userId }) : [];
+}
+
+/**
+ * The user's permissions with the requested access granted
+ */
+function grantScope(permissions: UserPermissions, scope: AccessRequestScope, category: string): InsertUserPermissions {
+  const updated: InsertUserPermissions = structuredClone(permissions);
+  if (scope.type === 'tableAccess') {
+    if (updated.allowedTableAccess !== null && !updated.allowedTableAccess.includes(category)) {
+      updated.allowedTableAccess = [...updated.allowedTableAccess, category];
+    }
+    if (updated.deniedTableAccess?.includes(category)) {
+      updated.deniedTableAccess = updated.deniedTableAccess.filter(name => name !== category);
+    }
+  } else {
+    const column = scope.column.toLowerCase();
+    const table = scope.table.replace(/^\[?publish\]?\./i, '').toLowerCase();
+    updated.columnRules = (updated.columnRules || []).filter(rule =>
+      rule.column.toLowerCase() !== column || (rule.table !== '*' && rule.table.toLowerCase() !== table)
+    );
+  }
+  return updated;
+}
+
+/**
+ * Whether the user's effective permissions (including groups) still lack the scope
+ */
+function stillRestricted(permissions: UserPermissions, scope: AccessRequestScope): boolean {
+  const effective = resolveEffectivePermissions(permissions);
+  if (effective.isAdmin) return false;
+  if (scope.type === 'tableAccess') {
+    return getInaccessibleTables(effective.allowedTableAccess).some(table => table.toLowerCase() === scope.table.toLowerCase());
+  }
+  const table = scope.table.replace(/^\[?publish\]?\./i, '').toLowerCase();
+  return (effective.columnRules || []).some(rule =>
+    rule.column.toLowerCase() === scope.column.toLowerCase() && (rule.table === '*' || rule.table.toLowerCase() === table)
+  );
+}
+
+/**
+ * Approve or deny a pending request. Approval grants the scope to the user's own
+ * permissions; restrictions inherited from groups are left alone and reported as a warning.
+ * The request is held while its decision is written, and a second decision meanwhile gets 409.
+ */
+export async function decideAccessRequest(id: string, decision: AccessRequestDecision, actor: RequestIdentity | undefined): Promise<AccessDecisionResult> {
+  const request = getRequests().find(r => r.id === id);
+  if (!request) {
+    return { success: false, error: 'Access request not found', status: 404 };
+  }
+  if (request.status !== 'pending') {
+    return { success: false, error: `Access request was already ${request.status}`, status: 409 };
+  }
+  if (decidingRequests.has(id)) {
+    return { success: false, error: 'Access request is already being decided', status: 409 };
+  }
+
+  decidingRequests.add(id);
+  try {
+    return await applyDecision(request, decision, actor);
+  } finally {
+    decidingRequests.delete(id);
+  }
+}
+
+async function applyDecision(request: AccessRequest, decision: AccessRequestDecision, actor: RequestIdentity | undefined): Promise<AccessDecisionResult> {
+  const result: AccessDecisionResult = { success: true };
+  let grantedCategory: string | undefined;
+  if (decision.status === 'approved') {
+    const permissions = getUserPermissions(request.userId);
+    if (!permissions) {
+      return { success: false, error: 'The requesting user no longer exists', status: 404 };
+    }
+
+    let category = '';
+    if (request.scope.type === 'tableAccess') {
+      category = decision.category ?? request.scope.categories[0];
+      if (!request.scope.categories.includes(category)) {
+        return { success: false, error: `${category} doesn't cover ${request.scope.table}`, status: 400 };
+      }
+      grantedCategory = category;
+    }
+
+    result.before = structuredClone(permissions);
+    result.after = await createOrUpdateUserPermissions(grantScope(permissions, request.scope, category));
+    if (stillRestricted(result.after, request.scope)) {
+      result.warning = `${request.username} is still restricted by a group; update the group to give them ${describeAccessScope(request.scope)}`;
+    }
+  }
+
+  request.status = decision.status;
+  request.decidedAt = new Date().toISOString();
+  request.decidedBy = { userId: actor?.userId, username: actor?.username };
+  request.decisionComment = decision.comment?.trim() || undefined;
+  request.grantedCategory = grantedCategory;
+  await saveRequest(request);
+  log(`[access-requests] ${actor?.username ?? actor?.userId ?? 'anonymous'} ${decision.status} ${request.username}'s request for ${describeAccessScope(request.scope)}`, 'permissions');
+  return { ...result, request };
+}
@@ -0,0 +1,192 @@
+/**
+ * Admin Audit Log
+ * Append-only record of every change made through the admin endpoints: who made it, when,
+ * and a field-level before/after diff. Entries are appended to data/admin-audit.jsonl
+ * (one JSON object per line) and never rewritten.
+ */
+
+import { appendFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import type { Request } from 'express';
+import { log } from './log';
+
+const AUDIT_FILE = join(process.cwd(), 'data', 'admin-audit.jsonl');
+
+export type AuditAction = 'create' | 'update' | 'delete';
+export const auditEntityTypes = ['user', 'group', 'category', 'account', 'feedback', 'golden_case'] as const;
+export type AuditEntityType = typeof auditEntityTypes[number];
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: { userId?: string; username?: string };
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityName?: string;
+  changes: AuditChange[];
+  note?: string; // Why the server made a change on its own, e.g. an expired grant
+}
+
+export interface AuditQuery {
+  user?: string; // Matches the actor or the changed user/group, by id or name
+  from?: string; // ISO date or datetime, inclusive
+  to?: string; // ISO date or datetime; a bare date includes the whole day
+  entityType?: AuditEntityType;
+  limit?: number;
+}
+
+const SYSTEM_ACTOR = 'system';
+
+// Bookkeeping fields that change on every save
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt']);
+
+let entriesCache: AuditEntry[] | null = null;
+
+function loadEntries(): AuditEntry[] {
+  const entries: AuditEntry[] = [];
+  try {
+    if (existsSync(AUDIT_FILE)) {
+      for (const line of readFileSync(AUDIT_FILE, 'utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          log('[audit] Skipping unreadable audit line', 'error');
+        }
+      }
+      log(`[audit] Loaded ${entries.length} audit entries from file`, 'audit');
+    }
+  } catch (error: any) {
+    log(`[audit] Error loading audit log: ${error.message}`, 'error');
+  }
+  entriesCache = entries;
+  return entries;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Field-level differences between two versions of a record (either may be missing)
+ */
+export function diffRecords(before: object | undefined, after: object | undefined): AuditChange[] {
+  const beforeRecord = (before ?? {}) as Record<string, unknown>;
+  const afterRecord = (after ?? {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]));
+
+  return fields
+    .filter(field => !IGNORED_FIELDS.has(field) && !sameValue(beforeRecord[field], afterRecord[field]))
+    .map(field => ({ field, before: beforeRecord[field] ?? null, after: afterRecord[field] ?? null }));
+}
+
+function appendEntry(
+  actor: AuditEntry['actor'],
+  entityType: AuditEntityType,
+  entityId: string,
+  before: object | undefined,
+  after: object | undefined,
+  entityName?: string,
+  note?: string
+): AuditEntry | undefined {
+  const action: AuditAction = !before ? 'create' : !after ? 'delete' : 'update';
+  const changes = diffRecords(before, after);
+  if (action === 'update' && changes.length === 0) {
+    return undefined;
+  }
+
+  const entry: AuditEntry = {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    actor,
+    action,
+    entityType,
+    entityId,
+    entityName,
+    changes,
+    note,
+  };
+
+  // Load existing entries before appending so the new one isn't read back twice
+  const entries = entriesCache ?? loadEntries();
+  try {
+    const dataDir = join(process.cwd(), 'data');
+    if (!existsSync(dataDir)) {
+      mkdirSync(dataDir, { recursive: true });
+    }
+    appendFileSync(AUDIT_FILE, JSON.stringify(entry) + '\n');
+  } catch (error: any) {
+    log(`[audit] Error writing audit entry: ${error.message}`, 'error');
+  }
+
+  entries.push(entry);
+  log(`[audit] ${entry.actor.username ?? entry.actor.userId ?? 'anonymous'} ${action}d ${entityType} ${entityName ?? entityId}`, 'audit');
+  return entry;
+}
+
+/**
+ * Append an entry for an admin change. Updates that change nothing are not recorded.
+ */
+export function recordAdminChange(
+  req: Request,
+  entityType: AuditEntityType,
+  entityId: string,
+  before: object | undefined,
+  after: object | undefined,
+  entityName?: string
+): AuditEntry | undefined {
+  return appendEntry(
+    { userId: req.identity?.userId, username: req.identity?.username },
+    entityType, entityId, before, after, entityName
+  );
+}
+
+/**
+ * Append an entry for a change the server made itself (actor "system"), with the reason
+ */
+export function recordSystemChange(
+  entityType: AuditEntityType,
+  entityId: string,
+  before: object | undefined,
+  after: object | undefined,
+  entityName: string | undefined,
+  note: string
+): AuditEntry | undefined {
+  return appendEntry({ username: SYSTEM_ACTOR }, entityType, entityId, before, after, entityName, note);
+}
+
+/**
+ * Audit entries matching the query, newest first
+ */
+export function queryAuditLog(query: AuditQuery = {}): { entries: AuditEntry[]; total: number } {
+  const entries = entriesCache ?? loadEntries();
+  const user = query.user?.trim().toLowerCase();
+  const from = query.from ? new Date(query.from).getTime() : undefined;
+  let to = query.to ? new Date(query.to).getTime() : undefined;
+  if (to !== undefined && /^\d{4}-\d{2}-\d{2}$/.test(query.to!)) {
+    to += 24 * 60 * 60 * 1000 - 1;
+  }
+
+  const matches = entries.filter(entry => {
+    if (query.entityType && entry.entityType !== query.entityType) return false;
+    const time = new Date(entry.timestamp).getTime();
+    if (from !== undefined && !Number.isNaN(from) && time < from) return false;
+    if (to !== undefined && !Number.isNaN(to) && time > to) return false;
+    if (user) {
+      const names = [entry.actor.userId, entry.actor.username, entry.entityId, entry.entityName];
+      if (!names.some(name => name?.toLowerCase().includes(user))) return false;
+    }
+    return true;
+  });
+
+  const limit = Math.min(Math.max(query.limit ?? 200, 1), 1000);
+  return { entries: matches.reverse().slice(0, limit), total: matches.length };
+}
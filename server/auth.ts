@@ -0,0 +1,499 @@
+/**
+ * Authentication
+ * Verifies who is calling. The parent app sends a signed JWT (HS256 with a shared secret or
+ * RS256 with its public key) as a Bearer token; the standalone UI exchanges a token, a local
+ * account's password (local-accounts.ts) or, in development, a user from the stored
+ * permissions for a signed session cookie, which also covers EventSource requests that
+ * can't set headers. The verified identity is attached to the request as req.identity -
+ * identity headers and query-string user ids are never trusted.
+ */
+
+import { createHash, createHmac, createPublicKey, randomBytes, timingSafeEqual, verify, type KeyObject } from 'crypto';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import type { Request, Response, NextFunction } from 'express';
+import { isUserAdmin, isUsernameAdmin } from './permissions-storage';
+import { log } from './log';
+
+export interface RequestIdentity {
+  userId: string;
+  username?: string;
+  email?: string;
+  source: 'token' | 'session';
+  expiresAt?: number; // Epoch ms; a session never outlives the token it came from
+}
+
+declare module 'http' {
+  interface IncomingMessage {
+    identity?: RequestIdentity;
+  }
+}
+
+export const SESSION_COOKIE = 'qi_session';
+
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+const DEV_KEY_FILE = join(process.cwd(), 'data', 'dev-auth-key');
+
+interface AuthConfig {
+  hmacSecret?: Buffer;
+  publicKey?: KeyObject;
+  issuer?: string;
+  audience?: string;
+  sessionSecret?: Buffer;
+}
+
+let configCache: AuthConfig | null = null;
+
+function isProduction(): boolean {
+  return process.env.NODE_ENV === 'production';
+}
+
+/**
+ * Local signing key for development, kept in data/ so sessions survive restarts
+ */
+function loadDevKey(): Buffer {
+  try {
+    if (existsSync(DEV_KEY_FILE)) {
+      return Buffer.from(readFileSync(DEV_KEY_FILE, 'utf-8').trim(), 'base64');
+    }
+    const dataDir = join(process.cwd(), 'data');
+    if (!existsSync(dataDir)) {
+      mkdirSync(dataDir, { recursive: true });
+    }
+    const key = randomBytes(32);
+    writeFileSync(DEV_KEY_FILE, key.toString('base64'));
+    log('[auth] Generated local development signing key', 'auth');
+    return key;
+  } catch (error: any) {
+    log(`[auth] Could not persist development key: ${error.message}`, 'error');
+    return randomBytes(32);
+  }
+}
+
+function getAuthConfig(): AuthConfig {
+  if (configCache) return configCache;
+
+  const config: AuthConfig = {
+    issuer: process.env.AUTH_JWT_ISSUER || undefined,
+    audience: process.env.AUTH_JWT_AUDIENCE || undefined,
+  };
+
+  if (process.env.AUTH_JWT_SECRET) {
+    config.hmacSecret = Buffer.from(process.env.AUTH_JWT_SECRET, 'utf-8');
+  }
+  if (process.env.AUTH_JWT_PUBLIC_KEY) {
+    try {
+      // Allow the PEM to be stored on one line with literal \n
+      config.publicKey = createPublicKey(process.env.AUTH_JWT_PUBLIC_KEY.replace(/\\n/g, '\n'));
+    } catch (error: any) {
+      log(`[auth] Invalid AUTH_JWT_PUBLIC_KEY: ${error.message}`, 'error');
+    }
+  }
+  if (process.env.SESSION_SECRET) {
+    config.sessionSecret = Buffer.from(process.env.SESSION_SECRET, 'utf-8');
+  }
+
+  if (!isProduction() && (!config.hmacSecret || !config.sessionSecret)) {
+    const devKey = loadDevKey();
+    if (!config.hmacSecret && !config.publicKey) {
+      config.hmacSecret = devKey;
+      log('[auth] No AUTH_JWT_SECRET or AUTH_JWT_PUBLIC_KEY set - using the local development key', 'auth');
+    }
+    config.sessionSecret = config.sessionSecret ?? devKey;
+  }
+
+  if (isProduction()) {
+    if (!config.hmacSecret && !config.publicKey) {
+      log('[auth] No AUTH_JWT_SECRET or AUTH_JWT_PUBLIC_KEY configured - identity tokens will be rejected', 'error');
+    }
+    if (!config.sessionSecret) {
+      log('[auth] No SESSION_SECRET configured - session cookies are disabled', 'error');
+    }
+  }
+
+  configCache = config;
+  return config;
+}
+
+/**
+ * Whether query endpoints reject callers without a verified identity.
+ * On by default in production; AUTH_REQUIRED=true/false overrides.
+ */
+export function isAuthRequired(): boolean {
+  if (process.env.AUTH_REQUIRED) {
+    return process.env.AUTH_REQUIRED === 'true';
+  }
+  return isProduction();
+}
+
+function base64UrlEncode(data: Buffer | string): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+function decodeJsonSegment(segment: string): any {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+}
+
+function hmacSign(secret: Buffer, data: string): Buffer {
+  return createHmac('sha256', secret).update(data).digest();
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Compare a provided secret with the configured one. Digests are compared so the comparison
+ * takes the same time whatever the lengths.
+ */
+export function secretMatches(provided: string, secret: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(secret));
+}
+
+export type TokenResult =
+  | { valid: true; identity: RequestIdentity }
+  | { valid: false; error: string };
+
+/**
+ * Map verified claims to an identity. sub is the user id stored permissions are keyed by.
+ */
+function identityFromClaims(claims: any, source: RequestIdentity['source'], expiresAt: number): RequestIdentity | undefined {
+  if (!claims || typeof claims.sub !== 'string' || claims.sub.length === 0) {
+    return undefined;
+  }
+  const username = claims.preferred_username ?? claims.unique_name ?? claims.name;
+  return {
+    userId: claims.sub,
+    username: typeof username === 'string' ? username : undefined,
+    email: typeof claims.email === 'string' ? claims.email : undefined,
+    source,
+    expiresAt,
+  };
+}
+
+/**
+ * Verify a compact JWT. Only HS256 (shared secret) and RS256 (public key) are accepted,
+ * and only when the matching key is configured; exp is required, and exp/nbf are checked with a small clock
+ * skew, and iss/aud when AUTH_JWT_ISSUER/AUTH_JWT_AUDIENCE are set.
+ */
+export function verifyIdentityToken(token: string, config: AuthConfig = getAuthConfig()): TokenResult {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return { valid: false, error: 'Malformed token' };
+  }
+  const [headerSegment, payloadSegment, signatureSegment] = parts;
+
+  let header: any;
+  let claims: any;
+  try {
+    header = decodeJsonSegment(headerSegment);
+    claims = decodeJsonSegment(payloadSegment);
+  } catch {
+    return { valid: false, error: 'Malformed token' };
+  }
+
+  const signingInput = `${headerSegment}.${payloadSegment}`;
+  const signature = Buffer.from(signatureSegment, 'base64url');
+
+  if (header?.alg === 'HS256' && config.hmacSecret) {
+    if (!safeEqual(signature, hmacSign(config.hmacSecret, signingInput))) {
+      return { valid: false, error: 'Invalid token signature' };
+    }
+  } else if (header?.alg === 'RS256' && config.publicKey) {
+    if (!verify('RSA-SHA256', Buffer.from(signingInput), config.publicKey, signature)) {
+      return { valid: false, error: 'Invalid token signature' };
+    }
+  } else {
+    return { valid: false, error: `Unsupported token algorithm: ${header?.alg ?? 'none'}` };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== 'number') {
+    return { valid: false, error: 'Token has no expiry' };
+  }
+  if (claims.exp + CLOCK_SKEW_SECONDS < now) {
+    return { valid: false, error: 'Token expired' };
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+    return { valid: false, error: 'Token not yet valid' };
+  }
+  if (config.issuer && claims.iss !== config.issuer) {
+    return { valid: false, error: 'Unexpected token issuer' };
+  }
+  if (config.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(config.audience)) {
+      return { valid: false, error: 'Unexpected token audience' };
+    }
+  }
+
+  const identity = identityFromClaims(claims, 'token', claims.exp * 1000);
+  if (!identity) {
+    return { valid: false, error: 'Token has no subject' };
+  }
+  return { valid: true, identity };
+}
+
+/**
+ * Sign an HS256 token with the configured secret (development key when none is set).
+ * Used for development sign-in and the self-check.
+ */
+export function signIdentityToken(
+  claims: Record<string, unknown>,
+  config: AuthConfig = getAuthConfig()
+): string | undefined {
+  if (!config.hmacSecret) return undefined;
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64UrlEncode(JSON.stringify(claims));
+  const signature = hmacSign(config.hmacSecret, `${header}.${payload}`).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+function sessionExpiry(identity: RequestIdentity): number {
+  return Math.min(Date.now() + SESSION_TTL_MS, identity.expiresAt ?? Infinity);
+}
+
+/**
+ * Session cookie value: base64url(JSON payload).signature, signed with SESSION_SECRET.
+ * The session never outlives the token it was created from.
+ */
+export function createSessionValue(identity: RequestIdentity, config: AuthConfig = getAuthConfig()): string | undefined {
+  if (!config.sessionSecret) return undefined;
+  const exp = sessionExpiry(identity);
+  const payload = base64UrlEncode(JSON.stringify({
+    sub: identity.userId,
+    name: identity.username,
+    email: identity.email,
+    exp,
+  }));
+  return `${payload}.${hmacSign(config.sessionSecret, payload).toString('base64url')}`;
+}
+
+export function verifySessionValue(value: string, config: AuthConfig = getAuthConfig()): RequestIdentity | undefined {
+  if (!config.sessionSecret) return undefined;
+  const [payload, signature] = value.split('.');
+  if (!payload || !signature) return undefined;
+  if (!safeEqual(Buffer.from(signature, 'base64url'), hmacSign(config.sessionSecret, payload))) {
+    return undefined;
+  }
+
+  try {
+    const claims = decodeJsonSegment(payload);
+    if (typeof claims.exp !== 'number' || claims.exp < Date.now()) return undefined;
+    return identityFromClaims(claims, 'session', claims.exp);
+  } catch {
+    return undefined;
+  }
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index < 0) continue;
+    if (part.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(index + 1).trim());
+      } catch {
+        return undefined; // Malformed escape: treat as no cookie
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a cookie-authenticated request could have come from another site's HTML form.
+ * The session cookie is SameSite=None in production, so a cross-site form POST carries it;
+ * forms can only send form or text bodies, and any other content type needs a CORS
+ * preflight, so state-changing requests signed in by cookie must be JSON. (Browsers
+ * never attach a Bearer token by themselves.)
+ */
+function isPossibleCrossSiteForm(req: Request): boolean {
+  if (!['POST', 'PUT', 'PATCH'].includes(req.method)) return false;
+  const contentType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  return contentType !== 'application/json';
+}
+
+function bearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (!header || !/^Bearer\s+/i.test(header)) return undefined;
+  return header.replace(/^Bearer\s+/i, '').trim() || undefined;
+}
+
+/**
+ * Set the session cookie. SameSite=None in production so the UI works embedded in the
+ * parent app; cookies are HttpOnly and Secure there, and authenticate() only accepts them
+ * on JSON requests when the method changes state.
+ */
+export function setSessionCookie(res: Response, identity: RequestIdentity): boolean {
+  const value = createSessionValue(identity);
+  if (!value) return false;
+  res.cookie(SESSION_COOKIE, value, {
+    httpOnly: true,
+    secure: isProduction(),
+    sameSite: isProduction() ? 'none' : 'lax',
+    maxAge: Math.max(0, sessionExpiry(identity) - Date.now()),
+    path: '/',
+  });
+  return true;
+}
+
+export function clearSessionCookie(res: Response): void {
+  res.clearCookie(SESSION_COOKIE, {
+    httpOnly: true,
+    secure: isProduction(),
+    sameSite: isProduction() ? 'none' : 'lax',
+    path: '/',
+  });
+}
+
+/**
+ * Express middleware: attach req.identity from a Bearer token or the session cookie.
+ * An invalid Bearer token is rejected with 401; a bad or expired cookie is ignored. A
+ * POST, PUT or PATCH signed in by cookie that isn't JSON is rejected with 403, as it may
+ * be a cross-site form submission.
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction): void {
+  const token = bearerToken(req);
+  if (token) {
+    const result = verifyIdentityToken(token);
+    if (!result.valid) {
+      log(`[auth] Rejected token for ${req.method} ${req.path}: ${result.error}`, 'auth');
+      res.status(401).json({ error: 'Invalid identity token' });
+      return;
+    }
+    req.identity = result.identity;
+    return next();
+  }
+
+  const session = readCookie(req, SESSION_COOKIE);
+  if (session) {
+    req.identity = verifySessionValue(session);
+    if (req.identity && isPossibleCrossSiteForm(req)) {
+      log(`[auth] Rejected non-JSON ${req.method} ${req.path} signed in by cookie`, 'auth');
+      req.identity = undefined;
+      res.status(403).json({ error: 'Requests signed in by cookie must send JSON (Content-Type: application/json)' });
+      return;
+    }
+  }
+  next();
+}
+
+/**
+ * Express middleware: reject requests without a verified identity when auth is required
+ */
+export function requireIdentity(req: Request, res: Response, next: NextFunction): void {
+  if (!req.identity && isAuthRequired()) {
+    res.status(401).json({ error: 'Sign-in required' });
+    return;
+  }
+  next();
+}
+
+/**
+ * Diagnostics and self-checks are open in development; in production they need the
+ * DIAGNOSTICS_TOKEN in the x-diagnostics-token header
+ */
+export function isDiagnosticsRequestAllowed(req: Request): boolean {
+  if (process.env.NODE_ENV !== 'production') return true;
+  const diagnosticsToken = process.env.DIAGNOSTICS_TOKEN;
+  const provided = req.headers['x-diagnostics-token'];
+  return !!diagnosticsToken && typeof provided === 'string' && secretMatches(provided, diagnosticsToken);
+}
+
+/**
+ * Whether an identity is an administrator: isAdmin in the stored permissions, or listed in
+ * ADMIN_USERS (comma-separated user ids or usernames) so the first admin can sign in
+ */
+export function isAdminIdentity(identity: RequestIdentity): boolean {
+  const bootstrapAdmins = (process.env.ADMIN_USERS || '').split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  if (bootstrapAdmins.includes(identity.userId.toLowerCase()) ||
+      (identity.username && bootstrapAdmins.includes(identity.username.toLowerCase()))) {
+    return true;
+  }
+  return isUserAdmin(identity.userId) || (!!identity.username && isUsernameAdmin(identity.username));
+}
+
+/**
+ * Express middleware: only administrators may continue. Without a verified identity the
+ * request is allowed only when auth isn't required (local development).
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!req.identity) {
+    if (isAuthRequired()) {
+      res.status(401).json({ error: 'Sign-in required' });
+      return;
+    }
+    return next();
+  }
+  if (!isAdminIdentity(req.identity)) {
+    log(`[auth] Denied admin request from ${req.identity.username ?? req.identity.userId}: ${req.method} ${req.path}`, 'auth');
+    res.status(403).json({ error: 'Administrator access required' });
+    return;
+  }
+  next();
+}
+
+/**
+ * Auth self-check
+ * Signs and verifies tokens and session cookies against a throwaway key
+ */
+export function runAuthSelfCheck(): { passed: boolean; results: string[] } {
+  const results: string[] = [];
+  let passed = true;
+
+  const check = (name: string, ok: boolean, detail?: string) => {
+    results.push(`${ok ? '✅' : '❌'} ${name}${!ok && detail ? `: ${detail}` : ''}`);
+    if (!ok) passed = false;
+  };
+
+  const config: AuthConfig = { hmacSecret: randomBytes(32), sessionSecret: randomBytes(32) };
+  const now = Math.floor(Date.now() / 1000);
+  const claims = { sub: 'user-1', preferred_username: 'alice', exp: now + 600 };
+
+  // Test 1: Valid HS256 token
+  const token = signIdentityToken(claims, config)!;
+  const valid = verifyIdentityToken(token, config);
+  check('Valid HS256 token accepted', valid.valid && valid.identity.userId === 'user-1' && valid.identity.username === 'alice',
+    JSON.stringify(valid));
+
+  // Test 2: Tampered payload
+  const [header, , signature] = token.split('.');
+  const forged = `${header}.${base64UrlEncode(JSON.stringify({ ...claims, sub: 'admin' }))}.${signature}`;
+  check('Tampered token rejected', !verifyIdentityToken(forged, config).valid);
+
+  // Test 3: alg=none
+  const unsigned = `${base64UrlEncode(JSON.stringify({ alg: 'none' }))}.${base64UrlEncode(JSON.stringify(claims))}.`;
+  check('Unsigned (alg=none) token rejected', !verifyIdentityToken(unsigned, config).valid);
+
+  // Test 4: Expired token
+  const expired = signIdentityToken({ ...claims, exp: now - 3600 }, config)!;
+  check('Expired token rejected', !verifyIdentityToken(expired, config).valid);
+
+  // Test 5: RS256 token when only a shared secret is configured
+  const rs256 = `${base64UrlEncode(JSON.stringify({ alg: 'RS256' }))}.${base64UrlEncode(JSON.stringify(claims))}.${signature}`;
+  check('RS256 token rejected without a public key', !verifyIdentityToken(rs256, config).valid);
+
+  // Test 6: Audience
+  const audienceConfig = { ...config, audience: 'query-insight' };
+  check('Token for another audience rejected',
+    !verifyIdentityToken(signIdentityToken({ ...claims, aud: 'other-app' }, config)!, audienceConfig).valid);
+
+  // Test 7: Session round trip and tampering
+  const identity: RequestIdentity = { userId: 'user-1', username: 'alice', source: 'token' };
+  const session = createSessionValue(identity, config)!;
+  check('Session cookie verified', verifySessionValue(session, config)?.userId === 'user-1');
+  const [, sessionSignature] = session.split('.');
+  const forgedSession = `${base64UrlEncode(JSON.stringify({ sub: 'admin', exp: Date.now() + 60000 }))}.${sessionSignature}`;
+  check('Forged session cookie rejected', verifySessionValue(forgedSession, config) === undefined);
+
+  // Test 8: Session bounded by token expiry
+  const shortSession = createSessionValue({ ...identity, expiresAt: Date.now() - 1000 }, config)!;
+  check('Session expires with its token', verifySessionValue(shortSession, config) === undefined);
+
+  return { passed, results };
+}
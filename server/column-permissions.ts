@@ -0,0 +1,299 @@
+/**
+ * Column Permissions
+ * Hides or masks individual columns for a user. Hidden columns can't be referenced
+ * anywhere in a query. Masked columns can be selected, but the select item is replaced
+ * with NULL before execution and shown as MASKED_VALUE in the rows; they can't be used
+ * to filter, join, group or sort. The same rules trim the schema text sent to the LLM.
+ */
+
+import { ColumnRule, ColumnRuleAction } from '@shared/schema';
+import {
+  collectTableReferences,
+  parseSql,
+  rewriteSql,
+  walkSql,
+  ColumnReference,
+  ExpressionNode,
+  QueryExpression,
+  SelectItem,
+  SelectStatement,
+  SqlEdit,
+  SqlStatement,
+  TableReference,
+} from './sql-parser';
+import { TableSchema } from './schema-introspection';
+import { tableHasColumn } from './permission-columns';
+
+export const MASKED_VALUE = '****';
+
+export interface ColumnMasking {
+  masked: string[]; // Result column names whose values are replaced with MASKED_VALUE
+  hidden: string[]; // Result column names removed from rows
+}
+
+export interface ColumnRuleResult {
+  allowed: boolean;
+  modifiedSql?: string;
+  blockedReason?: string;
+  blockedColumn?: { table: string; column: string }; // Restricted column the query needed
+  masking: ColumnMasking;
+}
+
+interface ResolvedColumn {
+  table: string;
+  column: string;
+  action: ColumnRuleAction;
+}
+
+function normalizeTableName(name: string): string {
+  return name.replace(/^\[?publish\]?\./i, '').replace(/[[\]]/g, '').toLowerCase();
+}
+
+function isPublishTable(table: TableReference): boolean {
+  return !table.isCte && (!table.schema || table.schema.toLowerCase() === 'publish');
+}
+
+/**
+ * The rule for one column of a table. A rule for the table wins over a '*' rule.
+ */
+export function getColumnRule(rules: ColumnRule[], tableName: string, column: string): ColumnRuleAction | undefined {
+  const table = normalizeTableName(tableName);
+  const name = column.toLowerCase();
+  const matching = rules.filter(rule => rule.column.toLowerCase() === name);
+  const specific = matching.find(rule => normalizeTableName(rule.table) === table);
+  if (specific) return specific.action;
+  return matching.find(rule => rule.table === '*')?.action;
+}
+
+/**
+ * Rules that apply to a table, whether written for it or for every table
+ */
+function rulesForTable(rules: ColumnRule[], tableName: string): ColumnRule[] {
+  const table = normalizeTableName(tableName);
+  return rules.filter(rule =>
+    (rule.table === '*' || normalizeTableName(rule.table) === table) &&
+    getColumnRule(rules, tableName, rule.column) === rule.action
+  );
+}
+
+function quoteIdentifier(name: string): string {
+  return `[${name.replace(/]/g, ']]')}]`;
+}
+
+function outerSelects(query: QueryExpression): SelectStatement[] {
+  return query.terms.flatMap(term => term.type === 'select' ? [term] : outerSelects(term));
+}
+
+/**
+ * Name a select item gets in the result: its alias, or the column name of a bare column
+ */
+function itemOutputName(item: SelectItem): string | undefined {
+  if (item.alias) return item.alias;
+  const { columns } = item.expression;
+  if (columns.length === 1 && columns[0].start === item.expression.start && columns[0].end === item.expression.end) {
+    return columns[0].parts[columns[0].parts.length - 1];
+  }
+  return undefined;
+}
+
+/**
+ * Apply a user's column rules to validated SQL. Queries that reference a hidden column,
+ * use a masked column outside the select list, or SELECT * from a table with rules are
+ * blocked; select items that read a masked column are replaced with NULL. Column
+ * references are matched conservatively: an unqualified name matches every table in
+ * the statement. Throws SqlSyntaxError if the SQL can't be parsed.
+ */
+export function applyColumnRules(
+  sql: string,
+  rules: ColumnRule[] | null | undefined,
+  statement: SqlStatement = parseSql(sql)
+): ColumnRuleResult {
+  if (!rules || rules.length === 0) {
+    return { allowed: true, modifiedSql: sql, masking: { masked: [], hidden: [] } };
+  }
+
+  const tables = collectTableReferences(statement).filter(isPublishTable);
+  const masked = new Set<string>();
+  const hidden = new Set<string>();
+  for (const table of tables) {
+    for (const rule of rulesForTable(rules, table.name)) {
+      (rule.action === 'hide' ? hidden : masked).add(rule.column);
+    }
+  }
+
+  if (masked.size === 0 && hidden.size === 0) {
+    return { allowed: true, modifiedSql: sql, masking: { masked: [], hidden: [] } };
+  }
+
+  const matchesQualifier = (table: TableReference, qualifier: string) =>
+    table.alias?.toLowerCase() === qualifier || table.name.toLowerCase() === qualifier;
+
+  // Strictest rule among the tables a column reference could belong to
+  const resolveColumn = (ref: ColumnReference): ResolvedColumn | undefined => {
+    const column = ref.parts[ref.parts.length - 1];
+    const qualifier = ref.parts.length > 1 ? ref.parts[ref.parts.length - 2].toLowerCase() : undefined;
+    const candidates = qualifier ? tables.filter(table => matchesQualifier(table, qualifier)) : tables;
+    let resolved: ResolvedColumn | undefined;
+    for (const table of candidates) {
+      const action = getColumnRule(rules, table.name, column);
+      if (action && (!resolved || action === 'hide')) {
+        resolved = { table: table.name, column, action };
+      }
+    }
+    return resolved;
+  };
+
+  let blockedReason: string | undefined;
+  let blockedColumn: { table: string; column: string } | undefined;
+  const block = (reason: string, resolved?: ResolvedColumn) => {
+    if (blockedReason) return;
+    blockedReason = reason;
+    blockedColumn = resolved && { table: resolved.table, column: resolved.column };
+  };
+
+  // Filtering, joining, grouping and sorting may only use unrestricted columns
+  const checkNonSelectExpression = (expression: ExpressionNode | undefined) => {
+    for (const ref of expression?.columns || []) {
+      const resolved = resolveColumn(ref);
+      if (resolved?.action === 'hide') {
+        block(`You don't have access to the ${resolved.column} column of ${resolved.table}.`, resolved);
+      } else if (resolved?.action === 'mask') {
+        block(`The ${resolved.column} column of ${resolved.table} is masked for you and can't be used to filter, join, group or sort results.`, resolved);
+      }
+    }
+  };
+
+  const edits: SqlEdit[] = [];
+  const outer = new Set(outerSelects(statement.query));
+  const maskedPositions = new Set<number>();
+
+  walkSql(statement, {
+    select: (select: SelectStatement) => {
+      const sourceTables = select.from
+        ? [select.from.source, ...select.from.joins.map(join => join.source)].filter(
+            (source): source is TableReference => source.kind === 'table' && isPublishTable(source)
+          )
+        : [];
+
+      select.items.forEach((item, index) => {
+        for (const star of item.expression.stars) {
+          const qualifier = star.qualifier?.split('.').pop()?.toLowerCase();
+          const covered = qualifier ? sourceTables.filter(table => matchesQualifier(table, qualifier)) : sourceTables;
+          const restricted = covered.find(table =>
+            rulesForTable(rules, table.name).some(rule => tableHasColumn(table.name, rule.column) !== false)
+          );
+          if (restricted) {
+            block(`Some columns of ${restricted.name} are restricted for you. Ask for the columns you need by name instead of all columns.`);
+          }
+        }
+
+        let maskedColumn: string | undefined;
+        for (const ref of item.expression.columns) {
+          const resolved = resolveColumn(ref);
+          if (resolved?.action === 'hide') {
+            block(`You don't have access to the ${resolved.column} column of ${resolved.table}.`, resolved);
+          } else if (resolved?.action === 'mask' && !maskedColumn) {
+            maskedColumn = resolved.column;
+          }
+        }
+        if (!maskedColumn) return;
+
+        const outputName = itemOutputName(item) ?? maskedColumn;
+        edits.push({ start: item.expression.start, end: item.expression.end, text: 'NULL' });
+        if (!item.alias) {
+          edits.push({ start: item.expression.end, end: item.expression.end, text: ` AS ${quoteIdentifier(outputName)}` });
+        }
+        // Names in CTEs and derived tables too, since outer queries usually select them as-is
+        masked.add(outputName);
+        if (outer.has(select)) maskedPositions.add(index);
+      });
+
+      for (const join of select.from?.joins || []) checkNonSelectExpression(join.on);
+      checkNonSelectExpression(select.where?.expression);
+      select.groupBy?.items.forEach(checkNonSelectExpression);
+      checkNonSelectExpression(select.having?.expression);
+    },
+    query: (query: QueryExpression) => {
+      query.orderBy?.items.forEach(checkNonSelectExpression);
+    },
+  });
+
+  if (blockedReason) {
+    return { allowed: false, blockedReason, blockedColumn, masking: { masked: [], hidden: [] } };
+  }
+
+  // Result columns take their names from the first SELECT of a set operation
+  const firstItems = outerSelects(statement.query)[0].items;
+  for (const index of Array.from(maskedPositions)) {
+    const item = firstItems[index];
+    const name = item && itemOutputName(item);
+    if (name) masked.add(name);
+  }
+
+  // A replaced item swallows any edits inside it (masked items of its subqueries)
+  const replaced = edits.filter(edit => edit.text === 'NULL');
+  const effectiveEdits = edits.filter(edit =>
+    !replaced.some(outerEdit => edit.start > outerEdit.start && edit.end < outerEdit.end)
+  );
+
+  return {
+    allowed: true,
+    modifiedSql: rewriteSql(sql, effectiveEdits),
+    masking: { masked: Array.from(masked), hidden: Array.from(hidden) },
+  };
+}
+
+/**
+ * Mask and drop restricted columns in result rows by name. Applied to every row set a
+ * restricted user receives, on top of the SQL rewrite.
+ */
+export function applyColumnMasking(rows: any[], masking: ColumnMasking | undefined): any[] {
+  if (!masking || (masking.masked.length === 0 && masking.hidden.length === 0)) return rows;
+
+  const masked = new Set(masking.masked.map(name => name.toLowerCase()));
+  const hidden = new Set(masking.hidden.map(name => name.toLowerCase()));
+  return rows.map(row => {
+    const visible: Record<string, any> = {};
+    for (const [key, value] of Object.entries(row)) {
+      const name = key.toLowerCase();
+      if (hidden.has(name)) continue;
+      visible[key] = masked.has(name) ? MASKED_VALUE : value;
+    }
+    return visible;
+  });
+}
+
+/**
+ * Schemas without the columns a user can't see, for the LLM prompt
+ */
+export function removeHiddenColumns(schemas: Map<string, TableSchema>, rules: ColumnRule[] | null | undefined): Map<string, TableSchema> {
+  if (!rules || rules.length === 0) return schemas;
+
+  const visible = new Map<string, TableSchema>();
+  for (const [tableName, schema] of Array.from(schemas)) {
+    visible.set(tableName, {
+      ...schema,
+      columns: schema.columns.filter(column => getColumnRule(rules, tableName, column.columnName) !== 'hide'),
+    });
+  }
+  return visible;
+}
+
+/**
+ * Prompt note listing the masked columns of the given tables, or '' when there are none
+ */
+export function describeMaskedColumns(schemas: Map<string, TableSchema>, rules: ColumnRule[] | null | undefined): string {
+  if (!rules || rules.length === 0) return '';
+
+  const maskedColumns: string[] = [];
+  for (const [tableName, schema] of Array.from(schemas)) {
+    for (const column of schema.columns) {
+      if (getColumnRule(rules, tableName, column.columnName) === 'mask') {
+        maskedColumns.push(`${tableName}.${column.columnName}`);
+      }
+    }
+  }
+  if (maskedColumns.length === 0) return '';
+
+  return `\nMASKED COLUMNS (values are hidden from this user; may be selected, but never use them in WHERE, JOIN, GROUP BY, HAVING or ORDER BY):\n  ${maskedColumns.join(', ')}`;
+}
@@ -89,6 +89,20 @@ export async function getPool(): Promise<sql.ConnectionPool> {
   return pool;
 }
 
+/**
+ * Connection counts of the pool getPool manages, or null before it has connected
+ */
+export function getPoolStats(): { size: number; available: number; borrowed: number; pending: number; max: number } | null {
+  if (!pool || !pool.connected) return null;
+  return {
+    size: pool.size,
+    available: pool.available,
+    borrowed: pool.borrowed,
+    pending: pool.pending,
+    max: config.pool?.max ?? 10,
+  };
+}
+
 export async function closePool(): Promise<void> {
   if (pool) {
     await pool.close();
@@ -101,3 +115,31 @@ export async function executeQuery(query: string): Promise<sql.IResult<any>> {
   const result = await connection.request().query(query);
   return result;
 }
+
+/**
+ * Get the estimated execution plan for a query without running it.
+ * SET SHOWPLAN_XML must be the only statement in its batch and applies to the
+ * session, so the batches run inside a transaction to pin a single connection.
+ */
+export async function getEstimatedPlanXml(query: string): Promise<string> {
+  const connection = await getPool();
+  const transaction = new sql.Transaction(connection);
+  await transaction.begin();
+
+  const request = new sql.Request(transaction);
+  try {
+    await request.batch('SET SHOWPLAN_XML ON');
+    const result = await request.batch(query);
+    const recordsets = result.recordsets as sql.IRecordSet<any>[];
+    const plans = recordsets
+      .map(recordset => recordset[0] ? String(Object.values(recordset[0])[0]) : '')
+      .filter(Boolean);
+    return plans.join('\n');
+  } finally {
+    try {
+      await new sql.Request(transaction).batch('SET SHOWPLAN_XML OFF');
+    } finally {
+      await transaction.rollback();
+    }
+  }
+}
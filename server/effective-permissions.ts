@@ -0,0 +1,150 @@
+/**
+ * Effective Permissions
+ * Merges a user's own permissions with the groups they belong to. Allowed values are
+ * the union over all sources, and a source that allows everything (null) makes the
+ * result unrestricted. For members of a group, an unset scope on the user's own record
+ * inherits from the groups instead of meaning "all". Denied values from any source are
+ * removed from the result and always win. A user's active time-bounded grants add their
+ * values to restricted lists (an unrestricted list already includes them).
+ */
+
+import { ColumnRule, EffectivePermissions, PermissionGrant, PermissionGrantType, PermissionGroup, TableAccess, UserPermissions } from '@shared/schema';
+import { getPermissionGroup } from './permission-groups-storage';
+import { getTableAccessCategoryNames } from './table-access-categories';
+import { isGrantActive } from './permission-grants';
+
+type ScopeField = 'PlanningAreas' | 'Scenarios' | 'Plants';
+
+const SCOPE_FIELDS: ScopeField[] = ['PlanningAreas', 'Scenarios', 'Plants'];
+
+const GRANT_TYPES: Record<ScopeField, PermissionGrantType> = {
+  PlanningAreas: 'planningArea',
+  Scenarios: 'scenario',
+  Plants: 'plant',
+};
+
+function union<T>(lists: Array<T[] | null | undefined>): T[] {
+  return Array.from(new Set(lists.flatMap(list => list || [])));
+}
+
+/**
+ * Allowed values for one row scope. Stored empty lists mean "unrestricted", like null.
+ */
+function mergeRowScope(
+  own: string[] | null,
+  groups: Array<string[] | null>,
+  denied: string[]
+): string[] | null {
+  const normalize = (values: string[] | null) => (values && values.length > 0 ? values : null);
+
+  let allowed: string[] | null;
+  if (groups.length === 0) {
+    allowed = normalize(own);
+  } else {
+    // The user's own list adds to their groups; an unset list inherits
+    const sources = [...groups.map(normalize), ...(normalize(own) ? [own] : [])];
+    allowed = sources.some(values => values === null) ? null : union(sources);
+  }
+
+  return allowed === null ? null : allowed.filter(value => !denied.includes(value));
+}
+
+/**
+ * Table access categories. Unlike row scopes, an empty list means no access, and
+ * denies are applied to the full category list when everything is allowed.
+ */
+function mergeTableAccess(
+  own: TableAccess[] | null,
+  groups: Array<TableAccess[] | null>,
+  denied: TableAccess[]
+): TableAccess[] | null {
+  let allowed: TableAccess[] | null;
+  if (groups.length === 0) {
+    allowed = own;
+  } else {
+    const sources = own && own.length > 0 ? [...groups, own] : groups;
+    allowed = sources.some(values => values === null) ? null : union(sources);
+  }
+
+  if (denied.length === 0) return allowed;
+  return (allowed ?? getTableAccessCategoryNames()).filter(value => !denied.includes(value));
+}
+
+/**
+ * Add granted values to a restricted allowed list; denied values are still left out
+ */
+function addGranted(
+  allowed: string[] | null,
+  grants: PermissionGrant[],
+  type: PermissionGrantType,
+  denied: string[]
+): string[] | null {
+  if (allowed === null) return null;
+  const granted = grants.filter(grant => grant.type === type && !denied.includes(grant.value)).map(grant => grant.value);
+  return granted.length > 0 ? union([allowed, granted]) : allowed;
+}
+
+/**
+ * Column rules from every source; where two rules cover the same column, hide wins
+ */
+function mergeColumnRules(sources: Array<ColumnRule[] | null | undefined>): ColumnRule[] {
+  const rules = new Map<string, ColumnRule>();
+  for (const rule of sources.flatMap(list => list || [])) {
+    const key = `${rule.table.toLowerCase()}.${rule.column.toLowerCase()}`;
+    const existing = rules.get(key);
+    if (!existing || rule.action === 'hide') rules.set(key, rule);
+  }
+  return Array.from(rules.values());
+}
+
+/**
+ * Merge a user's permissions with the given groups
+ */
+export function mergePermissions(user: UserPermissions, groups: PermissionGroup[], now: number = Date.now()): EffectivePermissions {
+  const sources: Array<UserPermissions | PermissionGroup> = [user, ...groups];
+  const activeGrants = (user.grants || []).filter(grant => isGrantActive(grant, now));
+
+  const effective: EffectivePermissions = {
+    ...user,
+    deniedPlanningAreas: [],
+    deniedScenarios: [],
+    deniedPlants: [],
+    deniedTableAccess: union(sources.map(source => source.deniedTableAccess)),
+    groups: groups.map(group => ({ groupId: group.groupId, name: group.name })),
+    activeGrants,
+  };
+
+  for (const field of SCOPE_FIELDS) {
+    const denied = union(sources.map(source => source[`denied${field}`]));
+    effective[`denied${field}`] = denied;
+    effective[`allowed${field}`] = addGranted(
+      mergeRowScope(user[`allowed${field}`], groups.map(group => group[`allowed${field}`]), denied),
+      activeGrants,
+      GRANT_TYPES[field],
+      denied
+    );
+  }
+
+  effective.allowedTableAccess = addGranted(
+    mergeTableAccess(user.allowedTableAccess, groups.map(group => group.allowedTableAccess), effective.deniedTableAccess),
+    activeGrants,
+    'tableAccess',
+    effective.deniedTableAccess
+  );
+  effective.columnRules = mergeColumnRules(sources.map(source => source.columnRules));
+
+  const groupMaxRows = groups.map(group => group.maxRows).filter((value): value is number => !!value);
+  effective.maxRows = user.maxRows ?? (groupMaxRows.length > 0 ? Math.max(...groupMaxRows) : null);
+
+  return effective;
+}
+
+/**
+ * A user's effective permissions, looking up their groups (unknown group ids are ignored)
+ */
+export function resolveEffectivePermissions(user: UserPermissions): EffectivePermissions {
+  const groups = (user.groupIds || [])
+    .map(groupId => getPermissionGroup(groupId))
+    .filter((group): group is PermissionGroup => group !== undefined);
+  return mergePermissions(user, groups);
+}
@@ -0,0 +1,129 @@
+/**
+ * Filter Options
+ * Planning areas, scenarios and plants for the query page dropdowns, limited to the values
+ * the caller can query: the option queries go through the same row-level security as
+ * their questions. Results are cached per permission scope and dropped when a newer
+ * PublishDate appears in DASHt_Planning.
+ */
+
+import { executeQuery } from './db-azure';
+import { findPermissions, applyRowLevelSecurity, getInaccessibleTablesForContext, PermissionContext } from './query-permissions';
+import { EffectivePermissions } from '@shared/schema';
+import { log } from './log';
+
+export interface ScenarioOption {
+  id: string; // NewScenarioId, e.g. "BI01-8"
+  name: string;
+  type: string;
+  publishDate: string | null; // Latest publish of this scenario
+}
+
+export interface FilterOptions {
+  planningAreas: string[];
+  scenarios: ScenarioOption[];
+  plants: string[];
+  publishDate: string | null; // Latest PublishDate the options were read at
+}
+
+// How often to look for a new publish, and the longest an entry is kept regardless
+const PUBLISH_DATE_CHECK_MS = 60 * 1000;
+const FILTER_OPTIONS_MAX_AGE_MS = 60 * 60 * 1000;
+
+const PLANNING_AREA_SQL = 'SELECT DISTINCT PlanningAreaName FROM [publish].[DASHt_Resources] WHERE PlanningAreaName IS NOT NULL ORDER BY PlanningAreaName';
+const PLANT_SQL = 'SELECT DISTINCT PlantName FROM [publish].[DASHt_Resources] WHERE PlantName IS NOT NULL ORDER BY PlantName';
+const SCENARIO_SQL = `SELECT NewScenarioId, ScenarioName, ScenarioType, MAX(PublishDate) AS PublishDate
+  FROM [publish].[DASHt_Planning]
+  WHERE NewScenarioId IS NOT NULL
+  GROUP BY NewScenarioId, ScenarioName, ScenarioType
+  ORDER BY ScenarioType, ScenarioName`;
+
+const optionsCache = new Map<string, { options: FilterOptions; timestamp: number }>();
+let latestPublish: { publishDate: string | null; checkedAt: number } | null = null;
+
+function toIsoDate(value: unknown): string | null {
+  if (!value) return null;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/**
+ * Latest PublishDate in DASHt_Planning, checked at most once a minute. A new publish clears
+ * every cached scope.
+ */
+async function getLatestPublishDate(): Promise<string | null> {
+  if (latestPublish && Date.now() - latestPublish.checkedAt < PUBLISH_DATE_CHECK_MS) {
+    return latestPublish.publishDate;
+  }
+
+  let publishDate = latestPublish?.publishDate ?? null;
+  try {
+    const result = await executeQuery('SELECT MAX(PublishDate) AS lastUpdate FROM [publish].[DASHt_Planning]');
+    publishDate = toIsoDate(result.recordset[0]?.lastUpdate);
+  } catch (error: any) {
+    log(`[filter-options] PublishDate check failed: ${error.message}`, 'filter-options');
+  }
+
+  if (latestPublish && latestPublish.publishDate !== publishDate && optionsCache.size > 0) {
+    log(`[filter-options] New publish (${publishDate}), clearing ${optionsCache.size} cached scopes`, 'filter-options');
+    optionsCache.clear();
+  }
+  latestPublish = { publishDate, checkedAt: Date.now() };
+  return publishDate;
+}
+
+/**
+ * Cache key for the parts of a user's permissions that change which options they see.
+ * Users with the same scopes share an entry; admins and users without permissions share one.
+ */
+function getScopeKey(permissions: EffectivePermissions | undefined, inaccessibleTables: string[]): string {
+  if (!permissions || permissions.isAdmin) return 'unrestricted';
+  return JSON.stringify([
+    permissions.allowedPlanningAreas, permissions.deniedPlanningAreas,
+    permissions.allowedScenarios, permissions.deniedScenarios,
+    permissions.allowedPlants, permissions.deniedPlants,
+    [...inaccessibleTables].sort(),
+  ]);
+}
+
+/**
+ * Run an option query with the user's row filters applied (none when unrestricted)
+ */
+async function queryOptions(sql: string, permissions: EffectivePermissions | undefined): Promise<any[]> {
+  const scopedSql = permissions && !permissions.isAdmin ? applyRowLevelSecurity(sql, permissions).modifiedSql : sql;
+  const result = await executeQuery(scopedSql);
+  return result?.recordset || [];
+}
+
+/**
+ * Filter options the user can query. Throws if the database can't be reached.
+ */
+export async function getFilterOptions(context: PermissionContext): Promise<FilterOptions> {
+  const permissions = findPermissions(context);
+  const inaccessible = new Set(getInaccessibleTablesForContext(context).map(table => table.toLowerCase()));
+  const key = getScopeKey(permissions, Array.from(inaccessible));
+  const publishDate = await getLatestPublishDate();
+
+  const cached = optionsCache.get(key);
+  if (cached && cached.options.publishDate === publishDate && Date.now() - cached.timestamp < FILTER_OPTIONS_MAX_AGE_MS) {
+    return cached.options;
+  }
+
+  const canReadResources = !inaccessible.has('dasht_resources');
+  const canReadPlanning = !inaccessible.has('dasht_planning');
+
+  const planningAreaRows = canReadResources ? await queryOptions(PLANNING_AREA_SQL, permissions) : [];
+  const scenarioRows = canReadPlanning ? await queryOptions(SCENARIO_SQL, permissions) : [];
+  const plantRows = canReadResources ? await queryOptions(PLANT_SQL, permissions) : [];
+
+  const options: FilterOptions = {
+    planningAreas: planningAreaRows.map(r => r.PlanningAreaName).filter(Boolean),
+    scenarios: scenarioRows
+      .map(r => ({ id: r.NewScenarioId, name: r.ScenarioName, type: r.ScenarioType, publishDate: toIsoDate(r.PublishDate) }))
+      .filter(s => s.id),
+    plants: plantRows.map(r => r.PlantName).filter(Boolean),
+    publishDate,
+  };
+
+  optionsCache.set(key, { options, timestamp: Date.now() });
+  log(`[filter-options] Cached options for ${key === 'unrestricted' ? 'unrestricted scope' : `scope of ${permissions!.username}`} (${optionsCache.size} scopes)`, 'filter-options');
+  return options;
+}
@@ -0,0 +1,210 @@
+/**
+ * Golden Cases
+ * Turns a triaged feedback item or a failed query into a regression case for
+ * tests/golden/run-jobs-report-tests.ts. A draft is prefilled from the linked query log
+ * (question, filters, publish date) and, for feedback, from the admin's corrected SQL:
+ * tables and literal predicates the corrected query has become sqlMustContain, and the
+ * ones only the generated query had become sqlMustNotContain. The admin edits the draft
+ * and saves it to tests/golden/promoted_cases.json.
+ */
+
+import { readFileSync, writeFileSync, existsSync, readdirSync, renameSync } from 'fs';
+import { join } from 'path';
+import { GoldenCaseInput, GoldenCaseSourceType, QueryLogFilters } from '@shared/schema';
+import { getFeedbackEntry, findQueryLog, QueryLogEntry } from './query-logger';
+import { parseSql, collectTableReferences, tokenizeSql } from './sql-parser';
+import { log } from './log';
+
+const GOLDEN_DIR = join(process.cwd(), 'tests', 'golden');
+export const PROMOTED_SUITE_FILE = join(GOLDEN_DIR, 'promoted_cases.json');
+
+export interface GoldenCase extends Omit<GoldenCaseInput, 'source'> {
+  source: {
+    type: GoldenCaseSourceType;
+    id: string; // Feedback id or query log requestId
+    promotedBy?: string;
+    promotedAt: string;
+  };
+}
+
+export type GoldenCaseDraft = GoldenCaseInput & {
+  generatedSql?: string | null; // What the app produced, shown next to the draft
+  correctedSql?: string;
+};
+
+export interface GoldenCaseResult {
+  success: boolean;
+  draft?: GoldenCaseDraft;
+  goldenCase?: GoldenCase;
+  error?: string;
+  status?: number; // HTTP status for failures
+}
+
+function readSuite(path: string): Array<{ id?: string }> {
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error: any) {
+    log(`[golden-cases] Error reading ${path}: ${error.message}`, 'error');
+    return [];
+  }
+}
+
+/**
+ * Cases promoted so far, oldest first
+ */
+export function getGoldenCases(): GoldenCase[] {
+  return existsSync(PROMOTED_SUITE_FILE) ? (readSuite(PROMOTED_SUITE_FILE) as GoldenCase[]) : [];
+}
+
+// Ids across every suite in tests/golden, so a promoted case never shadows a hand-written one
+function existingCaseIds(): Set<string> {
+  const ids = new Set<string>();
+  if (!existsSync(GOLDEN_DIR)) return ids;
+  for (const file of readdirSync(GOLDEN_DIR).filter(name => name.endsWith('.json'))) {
+    for (const testCase of readSuite(join(GOLDEN_DIR, file))) {
+      if (testCase.id) ids.add(testCase.id);
+    }
+  }
+  return ids;
+}
+
+function suggestId(question: string, taken: Set<string>): string {
+  const base = question.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').substring(0, 60) || 'case';
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}_${n}`;
+  return id;
+}
+
+interface SqlFragments {
+  tables: string[];
+  predicates: string[]; // Column = 'literal', written the way the hand-written cases are
+}
+
+function sqlFragments(sql: string | null | undefined): SqlFragments {
+  if (!sql) return { tables: [], predicates: [] };
+  const tables = new Set<string>();
+  const predicates = new Set<string>();
+  try {
+    for (const table of collectTableReferences(parseSql(sql))) {
+      if (!table.isCte) tables.add(table.name);
+    }
+    const tokens = tokenizeSql(sql);
+    for (let i = 1; i + 1 < tokens.length; i++) {
+      const [column, operator, value] = [tokens[i - 1], tokens[i], tokens[i + 1]];
+      if (operator.value === '=' && (column.type === 'word' || column.type === 'quoted') && value.type === 'string') {
+        predicates.add(`${column.value} = ${value.value}`);
+      }
+    }
+  } catch {
+    // Unparseable SQL just gives no suggestions
+  }
+  return { tables: Array.from(tables), predicates: Array.from(predicates) };
+}
+
+function logDetails(logEntry: QueryLogEntry | undefined): Pick<GoldenCaseInput, 'filters' | 'publishDate'> {
+  const filters: QueryLogFilters = {};
+  for (const [field, value] of Object.entries(logEntry?.filters ?? {})) {
+    if (value) filters[field as keyof QueryLogFilters] = value;
+  }
+  return {
+    filters: Object.keys(filters).length > 0 ? filters : undefined,
+    publishDate: logEntry?.publishDate,
+  };
+}
+
+/**
+ * Prefill a golden case from a feedback item (by id) or a failed query (by requestId)
+ */
+export function draftGoldenCase(type: GoldenCaseSourceType, sourceId: string): GoldenCaseResult {
+  const taken = existingCaseIds();
+
+  if (type === 'feedback') {
+    const feedback = getFeedbackEntry(parseInt(sourceId, 10));
+    if (!feedback) {
+      return { success: false, error: 'Feedback not found', status: 404 };
+    }
+    const logEntry = feedback.requestId ? findQueryLog(feedback.requestId) : undefined;
+    const generated = sqlFragments(feedback.sql);
+    const corrected = sqlFragments(feedback.triage.correctedSql);
+    const hasCorrection = corrected.tables.length > 0;
+
+    return {
+      success: true,
+      draft: {
+        id: suggestId(feedback.question, taken),
+        question: feedback.question,
+        description: (feedback.triage.notes || feedback.comment || `Thumbs-down feedback: ${feedback.question}`).substring(0, 500),
+        ...logDetails(logEntry),
+        sqlMustContain: hasCorrection ? [...corrected.tables, ...corrected.predicates] : generated.tables,
+        sqlMustNotContain: hasCorrection
+          ? [...generated.tables.filter(t => !corrected.tables.includes(t)), ...generated.predicates.filter(p => !corrected.predicates.includes(p))]
+          : [],
+        source: { type, id: String(feedback.id) },
+        generatedSql: feedback.sql,
+        correctedSql: feedback.triage.correctedSql,
+      },
+    };
+  }
+
+  const logEntry = findQueryLog(sourceId);
+  if (!logEntry) {
+    return { success: false, error: 'Query not found in the 7-day log window', status: 404 };
+  }
+  if (!logEntry.error) {
+    return { success: false, error: 'That query did not fail', status: 400 };
+  }
+  return {
+    success: true,
+    draft: {
+      id: suggestId(logEntry.question, taken),
+      question: logEntry.question,
+      description: `Failed at ${logEntry.error.stage}: ${logEntry.error.message}`.substring(0, 500),
+      ...logDetails(logEntry),
+      sqlMustContain: logEntry.selectedTables ?? [],
+      sqlMustNotContain: [],
+      source: { type, id: logEntry.requestId },
+      generatedSql: logEntry.generatedSql,
+    },
+  };
+}
+
+/**
+ * Save a reviewed case to the promoted suite. Ids must be unique across tests/golden, and
+ * each feedback item or failed query can be promoted once.
+ */
+export function promoteGoldenCase(input: GoldenCaseInput, promotedBy?: string): GoldenCaseResult {
+  if (existingCaseIds().has(input.id)) {
+    return { success: false, error: `A golden case with id ${input.id} already exists`, status: 409 };
+  }
+  const cases = getGoldenCases();
+  const duplicate = cases.find(c => c.source?.type === input.source.type && c.source.id === input.source.id);
+  if (duplicate) {
+    return { success: false, error: `Already promoted as ${duplicate.id}`, status: 409 };
+  }
+
+  const goldenCase: GoldenCase = {
+    id: input.id,
+    question: input.question,
+    description: input.description,
+    filters: input.filters,
+    publishDate: input.publishDate,
+    expected: input.expected,
+    sqlMustContain: input.sqlMustContain?.length ? input.sqlMustContain : undefined,
+    sqlMustNotContain: input.sqlMustNotContain?.length ? input.sqlMustNotContain : undefined,
+    source: { ...input.source, promotedBy, promotedAt: new Date().toISOString() },
+  };
+
+  try {
+    // Write then rename so a test run never reads a half-written suite
+    const tempFile = `${PROMOTED_SUITE_FILE}.tmp`;
+    writeFileSync(tempFile, JSON.stringify([...cases, goldenCase], null, 2) + '\n');
+    renameSync(tempFile, PROMOTED_SUITE_FILE);
+  } catch (error: any) {
+    log(`[golden-cases] Error saving ${PROMOTED_SUITE_FILE}: ${error.message}`, 'error');
+    return { success: false, error: 'Failed to save the golden case', status: 500 };
+  }
+
+  log(`[golden-cases] Promoted ${input.source.type} ${input.source.id} as ${goldenCase.id}${promotedBy ? ` by ${promotedBy}` : ''}`, 'golden-cases');
+  return { success: true, goldenCase };
+}
@@ -5,6 +5,11 @@ import { createServer } from "http";
 import { prefetchSchema } from "./quick-questions";
 import { prefetchAllModeSchemas } from "./mode-schema-cache";
 import { runTableDiscovery } from "./table-discovery";
+import { refreshPermissionColumns } from "./permission-columns";
+import { authenticate } from "./auth";
+import { initStorage } from "./storage";
+import { recordHttpMetrics } from "./metrics";
+import { log } from "./log";
 
 const app = express();
 const httpServer = createServer(app);
@@ -25,16 +30,11 @@ app.use(
 
 app.use(express.urlencoded({ extended: false }));
 
-export function log(message: string, source = "express") {
-  const formattedTime = new Date().toLocaleTimeString("en-US", {
-    hour: "numeric",
-    minute: "2-digit",
-    second: "2-digit",
-    hour12: true,
-  });
+// Attach the verified identity (Bearer token or session cookie) to API requests
+app.use("/api", authenticate);
 
-  console.log(`${formattedTime} [${source}] ${message}`);
-}
+// Request counts and latency per route for GET /metrics
+app.use(recordHttpMetrics);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -77,8 +77,21 @@ app.use((req, res, next) => {
     log(`⚠️  Mode schema prefetch failed: ${err.message}. SQL generation may not work correctly.`, 'startup');
   }
 
+  // Permissions, feedback and query logs live in the data store; don't serve without it
+  try {
+    await initStorage();
+  } catch (err: any) {
+    log(`❌ Data store unavailable: ${err.message}`, 'startup');
+    process.exit(1);
+  }
+
   await registerRoutes(httpServer, app);
 
+  // Refresh permission filter columns from live metadata (async, non-blocking; static schema until then)
+  refreshPermissionColumns().catch(err => {
+    log(`Permission column refresh failed: ${err.message}`, 'startup');
+  });
+
   // Prefetch schema for quick question validation (async, non-blocking)
   prefetchSchema().catch(err => {
     log(`Quick question schema prefetch failed: ${err.message}`, 'startup');
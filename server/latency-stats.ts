@@ -0,0 +1,166 @@
+/**
+ * Latency Statistics
+ * Percentiles of query latency for the analytics dashboard: overall p50/p90/p99 for total,
+ * LLM and SQL time, p50/p90/p99 of total time per time bucket, and per-dimension breakdowns
+ * (selected table, classifier confidence, user, tenant, route). Averages hide the slow tail,
+ * so the dashboard reports these alongside them.
+ */
+
+import type { QueryLogEntry } from './query-logger';
+import { getUserPermissions } from './permissions-storage';
+
+export interface Percentiles {
+  p50: number | null; // null when there are no samples
+  p90: number | null;
+  p99: number | null;
+}
+
+export type LatencyDimension = 'table' | 'confidence' | 'user' | 'tenant' | 'route';
+
+export interface LatencyBreakdownRow extends Percentiles {
+  key: string;
+  label: string;
+  count: number;
+  errorCount: number;
+  averageMs: number;
+}
+
+export interface LatencyBucket extends Percentiles {
+  start: string; // ISO start of the bucket
+  count: number;
+  errorCount: number;
+}
+
+export interface LatencyAnalytics {
+  percentiles: { totalMs: Percentiles; llmMs: Percentiles; sqlMs: Percentiles };
+  bucketMinutes: number;
+  overTime: LatencyBucket[];
+  breakdowns: Record<LatencyDimension, LatencyBreakdownRow[]>;
+}
+
+const MAX_BREAKDOWN_ROWS = 20;
+
+// Bucket sizes (minutes) tried in order; the first that keeps the chart at 60 points or fewer wins
+const BUCKET_SIZES = [1, 5, 10, 15, 30, 60, 180, 360, 720, 1440];
+const MAX_BUCKETS = 60;
+
+const ROUTE_LABELS: Record<string, string> = {
+  '/api/ask': 'Standard',
+  '/api/ask/stream': 'Streaming',
+};
+
+/**
+ * Nearest-rank percentile of values sorted ascending
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+function percentilesOf(values: number[]): Percentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  return { p50: percentile(sorted, 50), p90: percentile(sorted, 90), p99: percentile(sorted, 99) };
+}
+
+function notNull(values: Array<number | null>): number[] {
+  return values.filter((value): value is number => value !== null);
+}
+
+// The keys one log entry counts under; a query that selected several tables counts for each
+function dimensionKeys(entry: QueryLogEntry, dimension: LatencyDimension): string[] {
+  switch (dimension) {
+    case 'table':
+      return entry.selectedTables && entry.selectedTables.length > 0 ? entry.selectedTables : ['(unknown)'];
+    case 'confidence':
+      return [entry.confidence ?? '(unknown)'];
+    case 'user':
+      return [entry.userId ?? '(anonymous)'];
+    case 'tenant':
+      return [entry.tenantId ?? '(none)'];
+    case 'route':
+      return [entry.route];
+  }
+}
+
+function dimensionLabel(dimension: LatencyDimension, key: string): string {
+  if (dimension === 'user') return getUserPermissions(key)?.username ?? key;
+  if (dimension === 'route') return ROUTE_LABELS[key] ?? key;
+  return key;
+}
+
+function breakdown(logs: QueryLogEntry[], dimension: LatencyDimension): LatencyBreakdownRow[] {
+  const groups = new Map<string, QueryLogEntry[]>();
+  for (const entry of logs) {
+    for (const key of dimensionKeys(entry, dimension)) {
+      const group = groups.get(key);
+      if (group) group.push(entry);
+      else groups.set(key, [entry]);
+    }
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, entries]) => {
+      const totals = entries.map(entry => entry.timings.totalMs);
+      return {
+        key,
+        label: dimensionLabel(dimension, key),
+        count: entries.length,
+        errorCount: entries.filter(entry => entry.error).length,
+        averageMs: Math.round(totals.reduce((a, b) => a + b, 0) / totals.length),
+        ...percentilesOf(totals),
+      };
+    })
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+    .slice(0, MAX_BREAKDOWN_ROWS);
+}
+
+export function chooseBucketMinutes(rangeMinutes: number): number {
+  return BUCKET_SIZES.find(size => rangeMinutes / size <= MAX_BUCKETS) ?? BUCKET_SIZES[BUCKET_SIZES.length - 1];
+}
+
+/**
+ * Total-time percentiles per bucket from `from` to `to`. Empty buckets are kept (count 0,
+ * null percentiles) so the chart shows gaps instead of joining across them.
+ */
+function overTime(logs: QueryLogEntry[], from: number, to: number, bucketMinutes: number): LatencyBucket[] {
+  const bucketMs = bucketMinutes * 60 * 1000;
+  const firstStart = Math.floor(from / bucketMs) * bucketMs;
+  const buckets: QueryLogEntry[][] = [];
+  for (let start = firstStart; start <= to; start += bucketMs) buckets.push([]);
+
+  for (const entry of logs) {
+    const index = Math.floor((new Date(entry.timestamp).getTime() - firstStart) / bucketMs);
+    if (index >= 0 && index < buckets.length) buckets[index].push(entry);
+  }
+
+  return buckets.map((entries, index) => ({
+    start: new Date(firstStart + index * bucketMs).toISOString(),
+    count: entries.length,
+    errorCount: entries.filter(entry => entry.error).length,
+    ...percentilesOf(entries.map(entry => entry.timings.totalMs)),
+  }));
+}
+
+/**
+ * Latency percentiles and breakdowns for the logs in a time range
+ */
+export function buildLatencyAnalytics(logs: QueryLogEntry[], rangeMinutes: number, now: number = Date.now()): LatencyAnalytics {
+  const bucketMinutes = chooseBucketMinutes(rangeMinutes);
+  return {
+    percentiles: {
+      totalMs: percentilesOf(logs.map(entry => entry.timings.totalMs)),
+      llmMs: percentilesOf(notNull(logs.map(entry => entry.timings.llmMs))),
+      sqlMs: percentilesOf(notNull(logs.map(entry => entry.timings.sqlMs))),
+    },
+    bucketMinutes,
+    overTime: overTime(logs, now - rangeMinutes * 60 * 1000, now, bucketMinutes),
+    breakdowns: {
+      table: breakdown(logs, 'table'),
+      confidence: breakdown(logs, 'confidence'),
+      user: breakdown(logs, 'user'),
+      tenant: breakdown(logs, 'tenant'),
+      route: breakdown(logs, 'route'),
+    },
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * LLM Usage
+ * Token counts and cost of each OpenAI call, recorded against the query log requestId with
+ * the user, stage and model. Prices come from src/config/llm_prices.json. An optional
+ * per-user daily budget (LLM_DAILY_BUDGET_USD, UTC days) either degrades service once it is
+ * spent - suggestions and natural-language answers are skipped - or blocks new questions
+ * (LLM_BUDGET_ACTION). Usage is kept in memory for the analytics window and written through
+ * to the data store (see storage.ts).
+ */
+
+import { z } from 'zod';
+import pricesFile from '../src/config/llm_prices.json';
+import { getUserPermissions } from './permissions-storage';
+import { initStorage, persistInBackground } from './storage';
+import { log } from './log';
+
+export type LlmStage = 'classification' | 'sql_generation' | 'general_answer' | 'answer_summary' | 'suggestions';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmUsageEntry extends TokenUsage {
+  timestamp: string;
+  requestId: string; // Query log entry the call was made for
+  userId?: string;
+  stage: LlmStage;
+  model: string; // As reported by the API, e.g. gpt-4o-mini-2024-07-18
+  costUsd: number | null; // null when the model has no price
+}
+
+// Called by openai-client after each call; usage is missing when the API didn't report it
+export type LlmUsageRecorder = (stage: LlmStage, model: string, usage: TokenUsage | undefined) => void;
+
+export type LlmBudgetAction = 'degrade' | 'block';
+
+export interface LlmBudgetStatus {
+  budgetUsd: number | null; // null when no budget is configured
+  spentUsd: number; // Today (UTC)
+  exceeded: boolean;
+  action: LlmBudgetAction;
+}
+
+export interface LlmUsageRow {
+  key: string;
+  label: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface LlmUsageAnalytics {
+  calls: number;
+  totalTokens: number;
+  costUsd: number;
+  unpricedCalls: number; // Calls to models missing from the price table
+  byStage: LlmUsageRow[];
+  byModel: LlmUsageRow[];
+  byUser: LlmUsageRow[];
+  byDay: LlmUsageRow[]; // Oldest first, keyed by UTC date
+  budget: { dailyBudgetUsd: number | null; action: LlmBudgetAction; usersOverBudget: number };
+}
+
+const modelPriceSchema = z.object({
+  inputPerMillion: z.number().nonnegative(),
+  outputPerMillion: z.number().nonnegative(),
+});
+
+export const llmPriceTableSchema = z.object({
+  version: z.string(),
+  lastUpdated: z.string().optional(),
+  description: z.string().optional(),
+  models: z.record(modelPriceSchema),
+});
+
+export type LlmPriceTable = z.infer<typeof llmPriceTableSchema>;
+
+const priceTable: LlmPriceTable = llmPriceTableSchema.parse(pricesFile);
+
+const STAGE_LABELS: Record<LlmStage, string> = {
+  classification: 'Question classification',
+  sql_generation: 'SQL generation',
+  general_answer: 'General answers',
+  answer_summary: 'Answer summaries',
+  suggestions: 'Suggestions',
+};
+
+// Memory holds the window the analytics read; every entry stays in the store
+const usageEntries: LlmUsageEntry[] = [];
+const USAGE_MEMORY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const MAX_MEMORY_USAGE_ENTRIES = 100000;
+
+/**
+ * Load recent LLM usage from the data store. Called once at startup.
+ */
+export async function initLlmUsage(): Promise<void> {
+  const storage = await initStorage();
+  const entries = await storage.getLlmUsageSince(new Date(Date.now() - USAGE_MEMORY_WINDOW_MS).toISOString());
+  usageEntries.splice(0, usageEntries.length, ...entries.slice(-MAX_MEMORY_USAGE_ENTRIES));
+  log(`[llm-usage] Loaded ${usageEntries.length} LLM calls from the ${storage.kind} store`, 'storage');
+}
+
+function trimUsageEntries(): void {
+  const cutoff = new Date(Date.now() - USAGE_MEMORY_WINDOW_MS).toISOString();
+  let drop = Math.max(usageEntries.length - MAX_MEMORY_USAGE_ENTRIES, 0);
+  while (drop < usageEntries.length && usageEntries[drop].timestamp < cutoff) drop++;
+  if (drop > 0) usageEntries.splice(0, drop);
+}
+
+/**
+ * Price of a model: the longest price table entry the model name starts with
+ */
+export function findModelPrice(model: string): z.infer<typeof modelPriceSchema> | undefined {
+  const name = model.toLowerCase();
+  const match = Object.keys(priceTable.models)
+    .filter(key => name.startsWith(key.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? priceTable.models[match] : undefined;
+}
+
+export function computeCostUsd(model: string, usage: TokenUsage): number | null {
+  const price = findModelPrice(model);
+  if (!price) return null;
+  return (usage.promptTokens * price.inputPerMillion + usage.completionTokens * price.outputPerMillion) / 1_000_000;
+}
+
+/**
+ * Recorder for the LLM calls made while answering one request
+ */
+export function createLlmUsageRecorder(requestId: string, userId?: string): LlmUsageRecorder {
+  return (stage, model, usage) => {
+    if (!usage) {
+      log(`[llm-usage] ${model} returned no usage for ${stage} (request ${requestId})`, 'llm-usage');
+      return;
+    }
+    const entry: LlmUsageEntry = {
+      timestamp: new Date().toISOString(),
+      requestId,
+      userId,
+      stage,
+      model,
+      ...usage,
+      costUsd: computeCostUsd(model, usage),
+    };
+    usageEntries.push(entry);
+    trimUsageEntries();
+    persistInBackground('save LLM usage', storage => storage.addLlmUsage(entry));
+  };
+}
+
+/**
+ * Every LLM call made for one request, oldest first
+ */
+export function getLlmUsageForRequest(requestId: string): LlmUsageEntry[] {
+  return usageEntries.filter(entry => entry.requestId === requestId);
+}
+
+function readBudgetUsd(): number | null {
+  const value = process.env.LLM_DAILY_BUDGET_USD;
+  if (value === undefined || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+function readBudgetAction(): LlmBudgetAction {
+  return (process.env.LLM_BUDGET_ACTION || '').toLowerCase() === 'block' ? 'block' : 'degrade';
+}
+
+function startOfUtcDay(now: number): string {
+  const day = new Date(now);
+  day.setUTCHours(0, 0, 0, 0);
+  return day.toISOString();
+}
+
+function spentTodayUsd(userId: string, now: number): number {
+  const since = startOfUtcDay(now);
+  return usageEntries
+    .filter(entry => entry.userId === userId && entry.timestamp >= since)
+    .reduce((sum, entry) => sum + (entry.costUsd ?? 0), 0);
+}
+
+/**
+ * Where a user stands against the daily budget. Requests without an identity have no
+ * per-user budget.
+ */
+export function checkLlmBudget(userId: string | undefined, now: number = Date.now()): LlmBudgetStatus {
+  const budgetUsd = readBudgetUsd();
+  const action = readBudgetAction();
+  const spentUsd = userId ? spentTodayUsd(userId, now) : 0;
+  return { budgetUsd, spentUsd, exceeded: budgetUsd !== null && userId !== undefined && spentUsd >= budgetUsd, action };
+}
+
+function rollup(entries: LlmUsageEntry[], keyOf: (entry: LlmUsageEntry) => string, labelOf: (key: string) => string): LlmUsageRow[] {
+  const rows = new Map<string, LlmUsageRow>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    let row = rows.get(key);
+    if (!row) {
+      row = { key, label: labelOf(key), calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+      rows.set(key, row);
+    }
+    row.calls++;
+    row.promptTokens += entry.promptTokens;
+    row.completionTokens += entry.completionTokens;
+    row.totalTokens += entry.totalTokens;
+    row.costUsd += entry.costUsd ?? 0;
+  }
+  return Array.from(rows.values());
+}
+
+const byCost = (a: LlmUsageRow, b: LlmUsageRow) => b.costUsd - a.costUsd || b.totalTokens - a.totalTokens;
+
+/**
+ * Token and cost rollups per stage, model, user and day for the last `rangeMinutes`
+ */
+export function buildLlmUsageAnalytics(rangeMinutes: number, now: number = Date.now()): LlmUsageAnalytics {
+  const since = new Date(now - rangeMinutes * 60 * 1000).toISOString();
+  const entries = usageEntries.filter(entry => entry.timestamp >= since);
+  const dailyBudgetUsd = readBudgetUsd();
+
+  const byUser = rollup(entries, entry => entry.userId ?? '(anonymous)', key => getUserPermissions(key)?.username ?? key).sort(byCost);
+  const usersOverBudget = dailyBudgetUsd === null
+    ? 0
+    : byUser.filter(row => row.key !== '(anonymous)' && spentTodayUsd(row.key, now) >= dailyBudgetUsd).length;
+
+  return {
+    calls: entries.length,
+    totalTokens: entries.reduce((sum, entry) => sum + entry.totalTokens, 0),
+    costUsd: entries.reduce((sum, entry) => sum + (entry.costUsd ?? 0), 0),
+    unpricedCalls: entries.filter(entry => entry.costUsd === null).length,
+    byStage: rollup(entries, entry => entry.stage, key => STAGE_LABELS[key as LlmStage] ?? key).sort(byCost),
+    byModel: rollup(entries, entry => entry.model, key => key).sort(byCost),
+    byUser: byUser.slice(0, 20),
+    byDay: rollup(entries, entry => entry.timestamp.substring(0, 10), key => key).sort((a, b) => a.key.localeCompare(b.key)),
+    budget: { dailyBudgetUsd, action: readBudgetAction(), usersOverBudget },
+  };
+}
+
+export function describeBudgetExceeded(status: LlmBudgetStatus): string {
+  const spent = `$${status.spentUsd.toFixed(2)} of your $${status.budgetUsd?.toFixed(2)} daily AI budget`;
+  return status.action === 'block'
+    ? `You have used ${spent}. It resets at midnight UTC.`
+    : `You have used ${spent}, so answers are shorter and suggestions are off until midnight UTC.`;
+}
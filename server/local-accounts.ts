@@ -0,0 +1,288 @@
+/**
+ * Local Accounts
+ * Username/password sign-in for standalone deployments that don't run inside the parent app.
+ * An account belongs to a user in the stored permissions and shares their user id, so a
+ * local sign-in gets the same row-level security as a token from the parent app. Passwords
+ * are stored as salted scrypt hashes. Admins create accounts and reset passwords; a reset
+ * password must be changed at the next sign-in. Accounts are held in memory and written
+ * through to the data store (see storage.ts); account changes wait for the write.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+import { getUserPermissions } from './permissions-storage';
+import { initStorage, persist } from './storage';
+import { log } from './log';
+
+export interface LocalAccount {
+  userId: string; // Same id as the user's stored permissions
+  username: string;
+  passwordHash: string;
+  mustChangePassword: boolean;
+  passwordChangedAt?: string;
+  lastLoginAt?: string;
+  createdAt: string;
+}
+
+// What the admin endpoints return and audit - never the hash
+export type LocalAccountSummary = Omit<LocalAccount, 'passwordHash'>;
+
+export interface LocalAccountResult {
+  success: boolean;
+  account?: LocalAccountSummary;
+  error?: string;
+  status?: number; // HTTP status for failures
+}
+
+export const MIN_PASSWORD_LENGTH = 10;
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+
+// Repeated failures for one username lock it briefly, whoever is trying
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const failedAttempts = new Map<string, { count: number; firstAt: number }>();
+
+let accountsCache: LocalAccount[] = [];
+
+// Verified against when the username is unknown, so a miss takes as long as a wrong password
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * Load local accounts from the data store. Called once at startup.
+ */
+export async function initLocalAccounts(): Promise<void> {
+  const storage = await initStorage();
+  accountsCache = await storage.getAllLocalAccounts();
+  log(`[accounts] Loaded ${accountsCache.length} local accounts from the ${storage.kind} store`, 'auth');
+}
+
+function deriveKey(password: string, salt: Buffer, params: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, params, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+/**
+ * Hash a password as scrypt$N$r$p$salt$key (base64), so the cost can be raised later
+ * without invalidating existing hashes
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, key] = hash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+  const expected = Buffer.from(key, 'base64');
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64'), { N: Number(N), r: Number(r), p: Number(p) });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function validatePassword(password: unknown): string | undefined {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if (password.length > 256) {
+    return 'Password must be at most 256 characters';
+  }
+  return undefined;
+}
+
+function toSummary(account: LocalAccount): LocalAccountSummary {
+  const { passwordHash: _hash, ...summary } = account;
+  return summary;
+}
+
+function saveAccount(account: LocalAccount): Promise<void> {
+  const copy = { ...account };
+  return persist(`save local account ${copy.username}`, storage => storage.upsertLocalAccount(copy));
+}
+
+/**
+ * Wait for an account write to land. If it fails, the cache is reloaded from the data store
+ * so it matches what was kept, and the error is rethrown.
+ */
+async function commit(written: Promise<void>): Promise<void> {
+  try {
+    await written;
+  } catch (error) {
+    await initLocalAccounts().catch((reloadError: any) => {
+      log(`[accounts] Could not reload local accounts: ${reloadError.message}`, 'error');
+    });
+    throw error;
+  }
+}
+
+/**
+ * Save an admin or password change, as a result the endpoints can return
+ */
+async function commitAccount(account: LocalAccount): Promise<LocalAccountResult> {
+  try {
+    await commit(saveAccount(account));
+  } catch {
+    return { success: false, error: 'Failed to save the local account', status: 500 };
+  }
+  return { success: true, account: toSummary(account) };
+}
+
+export function getLocalAccounts(): LocalAccountSummary[] {
+  return accountsCache.map(toSummary);
+}
+
+export function getLocalAccount(userId: string): LocalAccountSummary | undefined {
+  const account = accountsCache.find(a => a.userId === userId);
+  return account ? toSummary(account) : undefined;
+}
+
+function findByUsername(username: string): LocalAccount | undefined {
+  return accountsCache.find(a => a.username.toLowerCase() === username.toLowerCase());
+}
+
+/**
+ * Create a local account for a user in the stored permissions. The admin sets the first
+ * password, which the user must change when they sign in.
+ */
+export async function createLocalAccount(userId: string, username: string, password: unknown): Promise<LocalAccountResult> {
+  const permissions = getUserPermissions(userId);
+  if (!permissions) {
+    return { success: false, error: 'User not found', status: 404 };
+  }
+  if (accountsCache.some(a => a.userId === userId)) {
+    return { success: false, error: `${permissions.username} already has a local account`, status: 409 };
+  }
+  const name = username.trim();
+  if (!name) {
+    return { success: false, error: 'Username is required', status: 400 };
+  }
+  if (findByUsername(name)) {
+    return { success: false, error: `Username ${name} is already taken`, status: 409 };
+  }
+  const passwordError = validatePassword(password);
+  if (passwordError) {
+    return { success: false, error: passwordError, status: 400 };
+  }
+
+  const now = new Date().toISOString();
+  const account: LocalAccount = {
+    userId,
+    username: name,
+    passwordHash: await hashPassword(password as string),
+    mustChangePassword: true,
+    passwordChangedAt: now,
+    createdAt: now,
+  };
+  accountsCache.push(account);
+  log(`[accounts] Created local account ${name} for user ${permissions.username}`, 'auth');
+  return commitAccount(account);
+}
+
+/**
+ * Admin password reset: set a temporary password the user must change at the next sign-in
+ */
+export async function resetLocalAccountPassword(userId: string, password: unknown): Promise<LocalAccountResult> {
+  const account = accountsCache.find(a => a.userId === userId);
+  if (!account) {
+    return { success: false, error: 'Local account not found', status: 404 };
+  }
+  const passwordError = validatePassword(password);
+  if (passwordError) {
+    return { success: false, error: passwordError, status: 400 };
+  }
+
+  account.passwordHash = await hashPassword(password as string);
+  account.mustChangePassword = true;
+  account.passwordChangedAt = new Date().toISOString();
+  failedAttempts.delete(account.username.toLowerCase());
+  log(`[accounts] Password reset for ${account.username}`, 'auth');
+  return commitAccount(account);
+}
+
+/**
+ * A signed-in user changing their own password; the current one is required
+ */
+export async function changeOwnPassword(userId: string, currentPassword: unknown, newPassword: unknown): Promise<LocalAccountResult> {
+  const account = accountsCache.find(a => a.userId === userId);
+  if (!account) {
+    return { success: false, error: 'You do not have a local account', status: 404 };
+  }
+  if (typeof currentPassword !== 'string' || !(await verifyPassword(currentPassword, account.passwordHash))) {
+    return { success: false, error: 'Current password is incorrect', status: 403 };
+  }
+  const passwordError = validatePassword(newPassword);
+  if (passwordError) {
+    return { success: false, error: passwordError, status: 400 };
+  }
+  if (newPassword === currentPassword) {
+    return { success: false, error: 'Choose a password different from the current one', status: 400 };
+  }
+
+  account.passwordHash = await hashPassword(newPassword as string);
+  account.mustChangePassword = false;
+  account.passwordChangedAt = new Date().toISOString();
+  log(`[accounts] ${account.username} changed their password`, 'auth');
+  return commitAccount(account);
+}
+
+/**
+ * Delete a user's local account; rejects (with the cache reloaded) if the delete isn't written
+ */
+export async function deleteLocalAccount(userId: string): Promise<LocalAccountSummary | undefined> {
+  const index = accountsCache.findIndex(a => a.userId === userId);
+  if (index < 0) return undefined;
+  const [removed] = accountsCache.splice(index, 1);
+  log(`[accounts] Deleted local account ${removed.username}`, 'auth');
+  await commit(persist(`delete local account ${removed.username}`, storage => storage.deleteLocalAccount(userId)));
+  return toSummary(removed);
+}
+
+function isLockedOut(key: string): boolean {
+  const attempts = failedAttempts.get(key);
+  if (!attempts) return false;
+  if (Date.now() - attempts.firstAt > LOCKOUT_MS) {
+    failedAttempts.delete(key);
+    return false;
+  }
+  return attempts.count >= MAX_FAILED_ATTEMPTS;
+}
+
+function recordFailure(key: string): void {
+  const attempts = failedAttempts.get(key);
+  if (attempts && Date.now() - attempts.firstAt <= LOCKOUT_MS) {
+    attempts.count++;
+  } else {
+    failedAttempts.set(key, { count: 1, firstAt: Date.now() });
+  }
+}
+
+/**
+ * Check a username and password. The account must still have stored permissions; the
+ * error never says whether the username exists.
+ */
+export async function authenticateLocalAccount(username: unknown, password: unknown): Promise<LocalAccountResult> {
+  if (typeof username !== 'string' || typeof password !== 'string' || !username.trim() || !password) {
+    return { success: false, error: 'Username and password are required', status: 400 };
+  }
+  const key = username.trim().toLowerCase();
+  if (isLockedOut(key)) {
+    return { success: false, error: 'Too many failed sign-in attempts. Try again later.', status: 429 };
+  }
+
+  const account = findByUsername(username.trim());
+  if (!dummyHash) dummyHash = hashPassword(randomBytes(16).toString('hex'));
+  const valid = await verifyPassword(password, account?.passwordHash ?? await dummyHash);
+  if (!account || !valid || !getUserPermissions(account.userId)) {
+    recordFailure(key);
+    log(`[accounts] Failed sign-in for ${username.trim()}`, 'auth');
+    return { success: false, error: 'Invalid username or password', status: 401 };
+  }
+
+  failedAttempts.delete(key);
+  account.lastLoginAt = new Date().toISOString();
+  // Not waited for: a sign-in doesn't fail over its last-login time (persist logs failures)
+  saveAccount(account).catch(() => undefined);
+  return { success: true, account: toSummary(account) };
+}
@@ -0,0 +1,16 @@
+/**
+ * Log
+ * Timestamped console logging tagged with its source. Kept apart from index.ts so modules
+ * can be imported (e.g. by tests) without starting the server.
+ */
+
+export function log(message: string, source = "express") {
+  const formattedTime = new Date().toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: true,
+  });
+
+  console.log(`${formattedTime} [${source}] ${message}`);
+}
@@ -0,0 +1,192 @@
+/**
+ * Metrics
+ * A small registry of counters, gauges and histograms rendered in the Prometheus text
+ * exposition format for GET /metrics: HTTP requests and latency per route, outcomes of each
+ * stage of the question pipeline, mssql pool usage, SQL cache lookups, open SSE streams and
+ * OpenAI errors. Values live in memory and reset when the server restarts, which Prometheus
+ * handles as a counter reset.
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import OpenAI from 'openai';
+import { getPoolStats } from './db-azure';
+import type { LlmStage } from './llm-usage';
+import { secretMatches } from './auth';
+
+type Labels = Record<string, string>;
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+}
+
+const families: MetricFamily[] = [];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+// Series are keyed by their label set so the same labels always hit the same series
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function createCounter(name: string, help: string) {
+  const series = new Map<string, { labels: Labels; value: number }>();
+  families.push({
+    name, help, type: 'counter',
+    render: () => Array.from(series.values()).map(s => `${name}${formatLabels(s.labels)} ${s.value}`),
+  });
+  return {
+    inc(labels: Labels = {}, value = 1): void {
+      const key = seriesKey(labels);
+      const current = series.get(key);
+      if (current) current.value += value;
+      else series.set(key, { labels, value });
+    },
+  };
+}
+
+// Gauges read their value when scraped, so they never go stale
+function createGauge(name: string, help: string, collect: () => Array<{ labels?: Labels; value: number }>) {
+  families.push({
+    name, help, type: 'gauge',
+    render: () => collect().map(s => `${name}${formatLabels(s.labels ?? {})} ${s.value}`),
+  });
+}
+
+function createHistogram(name: string, help: string, buckets: number[]) {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+  families.push({
+    name, help, type: 'histogram',
+    render: () => Array.from(series.values()).flatMap(s => [
+      ...buckets.map((le, i) => `${name}_bucket${formatLabels({ ...s.labels, le: String(le) })} ${s.counts[i]}`),
+      `${name}_bucket${formatLabels({ ...s.labels, le: '+Inf' })} ${s.count}`,
+      `${name}_sum${formatLabels(s.labels)} ${s.sum}`,
+      `${name}_count${formatLabels(s.labels)} ${s.count}`,
+    ]),
+  });
+  return {
+    observe(labels: Labels, value: number): void {
+      const key = seriesKey(labels);
+      let current = series.get(key);
+      if (!current) {
+        current = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, current);
+      }
+      // Buckets are cumulative: a value counts toward every bucket it fits under
+      buckets.forEach((le, i) => { if (value <= le) current!.counts[i]++; });
+      current.sum += value;
+      current.count++;
+    },
+  };
+}
+
+export type PipelineOutcome =
+  | 'classified'
+  | 'generated'
+  | 'generation_failed'
+  | 'validation_failed'
+  | 'column_validation_failed'
+  | 'permission_denied'
+  | 'cost_rejected'
+  | 'executed'
+  | 'execution_failed';
+
+// Questions can take tens of seconds end to end (LLM calls plus SQL), so the buckets reach a minute
+const DURATION_BUCKETS_SECONDS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const httpRequests = createCounter('query_insight_http_requests_total', 'HTTP requests to the API by route, method and status code');
+const httpDuration = createHistogram('query_insight_http_request_duration_seconds', 'Time to finish API responses by route and method (whole stream for SSE)', DURATION_BUCKETS_SECONDS);
+const pipelineOutcomes = createCounter('query_insight_pipeline_outcomes_total', 'Questions reaching each outcome of the question pipeline, by route');
+const sqlCacheLookups = createCounter('query_insight_sql_cache_lookups_total', 'Generated-SQL cache lookups by result (hit or miss)');
+const openAiErrors = createCounter('query_insight_openai_errors_total', 'Failed OpenAI calls by stage and HTTP status (none when there was no response)');
+
+let activeSseConnections = 0;
+createGauge('query_insight_sse_active_connections', 'Open /api/ask/stream connections', () => [{ value: activeSseConnections }]);
+
+createGauge('query_insight_mssql_pool_connections', 'Connections in the Azure SQL pool by state (empty until the first query connects)', () => {
+  const stats = getPoolStats();
+  if (!stats) return [];
+  return [
+    { labels: { state: 'total' }, value: stats.size },
+    { labels: { state: 'idle' }, value: stats.available },
+    { labels: { state: 'borrowed' }, value: stats.borrowed },
+    { labels: { state: 'pending' }, value: stats.pending },
+  ];
+});
+createGauge('query_insight_mssql_pool_max_connections', 'Configured maximum size of the Azure SQL pool', () => {
+  const stats = getPoolStats();
+  return stats ? [{ value: stats.max }] : [];
+});
+
+/**
+ * Express middleware counting API requests. The route label is the matched route pattern
+ * (e.g. /api/admin/permissions/:userId), not the raw path, to keep the series bounded.
+ */
+export function recordHttpMetrics(req: Request, res: Response, next: NextFunction): void {
+  if (!req.path.startsWith('/api')) return next();
+  const start = process.hrtime.bigint();
+  res.once('close', () => {
+    const route = req.route?.path ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+    httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+    httpDuration.observe({ method: req.method, route }, seconds);
+  });
+  next();
+}
+
+export function recordPipelineOutcome(route: string, outcome: PipelineOutcome): void {
+  pipelineOutcomes.inc({ route, outcome });
+}
+
+export function recordSqlCacheLookup(hit: boolean): void {
+  sqlCacheLookups.inc({ result: hit ? 'hit' : 'miss' });
+}
+
+/**
+ * Count a failed OpenAI call; anything else the caller caught (e.g. unparseable output) is ignored
+ */
+export function recordOpenAiError(stage: LlmStage, error: unknown): void {
+  if (!(error instanceof OpenAI.APIError)) return;
+  openAiErrors.inc({ stage, status: error.status ? String(error.status) : 'none' });
+}
+
+/**
+ * Count an SSE response as open until its connection closes
+ */
+export function trackSseConnection(res: Response): void {
+  activeSseConnections++;
+  res.once('close', () => { activeSseConnections--; });
+}
+
+/**
+ * Whether a scrape may read /metrics. With METRICS_TOKEN set, the request needs
+ * `Authorization: Bearer <token>`; without it, metrics are only served in development.
+ */
+export function isMetricsRequestAllowed(authorization: string | undefined): boolean {
+  const token = process.env.METRICS_TOKEN;
+  if (!token) return process.env.NODE_ENV === 'development';
+  const provided = authorization?.match(/^Bearer\s+(.+)$/i)?.[1] ?? '';
+  return secretMatches(provided, token);
+}
+
+/**
+ * Every metric in the Prometheus text format (version 0.0.4)
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const family of families) {
+    lines.push(`# HELP ${family.name} ${family.help}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    lines.push(...family.render());
+  }
+  return lines.join('\n') + '\n';
+}
@@ -5,10 +5,12 @@
  */
 
 import { getTableSchemas, TableSchema, formatSchemaForPrompt } from './schema-introspection';
-import { log } from './index';
+import { log } from './log';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 import { getRelevantColumns } from './matrix-classifier';
+import { removeHiddenColumns, describeMaskedColumns } from './column-permissions';
+import { ColumnRule } from '@shared/schema';
 
 interface SemanticCatalog {
   tables: {
@@ -90,9 +92,10 @@ export async function prefetchAllModeSchemas(): Promise<void> {
 }
 
 /**
- * Get formatted schema for specific tables (used for prompt slimming)
+ * Get formatted schema for specific tables (used for prompt slimming). Columns hidden by
+ * the user's column rules are left out and masked columns are listed in a note.
  */
-export async function getFormattedSchemaForTables(tableNames: string[], question?: string): Promise<string> {
+export async function getFormattedSchemaForTables(tableNames: string[], question?: string, columnRules?: ColumnRule[]): Promise<string> {
   const schemas = await getTableSchemas(tableNames);
   
   const filteredSchemas = new Map<string, TableSchema>();
@@ -103,11 +106,12 @@ export async function getFormattedSchemaForTables(tableNames: string[], question
     }
   }
   
-  if (question) {
-    return formatSchemaWithColumnSlimming(filteredSchemas, question);
-  }
+  const visibleSchemas = removeHiddenColumns(filteredSchemas, columnRules);
+  const formatted = question
+    ? formatSchemaWithColumnSlimming(visibleSchemas, question)
+    : formatSchemaForPrompt(visibleSchemas);
   
-  return formatSchemaForPrompt(filteredSchemas);
+  return formatted + describeMaskedColumns(visibleSchemas, columnRules);
 }
 
 /**
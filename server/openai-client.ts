@@ -1,6 +1,9 @@
 import OpenAI from 'openai';
 import { getFormattedSchemaForTables } from './mode-schema-cache';
+import { ColumnRule } from '@shared/schema';
 import { classifyQuestionWithMatrix, getBusinessTermContext } from './matrix-classifier';
+import type { LlmUsageRecorder, TokenUsage } from './llm-usage';
+import { recordSqlCacheLookup, recordOpenAiError } from './metrics';
 
 // Simple LRU cache for successful SQL queries (max 100 entries)
 const sqlCache = new Map<string, { sql: string; selectedTables: string[]; timestamp: number }>();
@@ -16,11 +19,13 @@ function getCachedSql(question: string): { sql: string; selectedTables: string[]
   const cached = sqlCache.get(key);
   if (cached && Date.now() - cached.timestamp < SQL_CACHE_TTL_MS) {
     console.log(`[openai-client] Cache hit for: "${question.substring(0, 50)}..."`);
+    recordSqlCacheLookup(true);
     return { sql: cached.sql, selectedTables: cached.selectedTables };
   }
   if (cached) {
     sqlCache.delete(key); // Expired
   }
+  recordSqlCacheLookup(false);
   return null;
 }
 
@@ -47,6 +52,20 @@ export const openai = new OpenAI({
   baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
 });
 
+// Token counts from a Chat Completions (prompt/completion) or Responses API (input/output) usage object
+function toTokenUsage(usage: {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  input_tokens?: number;
+  output_tokens?: number;
+  total_tokens?: number;
+} | null | undefined): TokenUsage | undefined {
+  if (!usage) return undefined;
+  const promptTokens = usage.prompt_tokens ?? usage.input_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? usage.output_tokens ?? 0;
+  return { promptTokens, completionTokens, totalTokens: usage.total_tokens ?? promptTokens + completionTokens };
+}
+
 const CORE_SYSTEM_PROMPT = `
 You are a SQL query generator for a manufacturing database.
 
@@ -171,6 +190,9 @@ interface GenerateOptions {
   allowedTables?: string[];
   publishDate?: string; // The effective "today" date for date-relative queries
   filters?: Filters; // Global filters for scenario and plant
+  columnRules?: ColumnRule[]; // The user's hidden and masked columns, applied to the schema text
+  excludedTables?: string[]; // Tables the user's table-access categories don't cover, left out of the prompt
+  recordUsage?: LlmUsageRecorder; // Token usage of the generation call
 }
 
 interface GenerateResult {
@@ -193,7 +215,7 @@ Example input: "show jobs"
 Example output: ["Show all overdue jobs", "Show jobs by plant", "Show jobs scheduled for today"]
 `;
 
-export async function generateSuggestions(question: string): Promise<string[]> {
+export async function generateSuggestions(question: string, recordUsage?: LlmUsageRecorder): Promise<string[]> {
   if (!apiKey) {
     return [];
   }
@@ -208,11 +230,13 @@ export async function generateSuggestions(question: string): Promise<string[]> {
       temperature: 0.7,
       max_completion_tokens: 200,
     });
+    recordUsage?.('suggestions', response.model, toTokenUsage(response.usage));
 
     const content = response.choices[0]?.message?.content?.trim() || '[]';
     const suggestions = JSON.parse(content);
     return Array.isArray(suggestions) ? suggestions.slice(0, 3) : [];
   } catch (error) {
+    recordOpenAiError('suggestions', error);
     return [];
   }
 }
@@ -222,14 +246,16 @@ export async function generateSqlFromQuestion(question: string, options: Generat
     throw new Error('OpenAI API key not configured. Please set AI_INTEGRATIONS_OPENAI_API_KEY in Replit Secrets.');
   }
 
-  // Check cache first for consistent results
-  const cached = getCachedSql(question);
+  const { publishDate, filters, columnRules = [], excludedTables = [] } = options;
+
+  // Check cache first for consistent results (cached SQL was written against the full
+  // schema, so users with column rules or excluded tables always get SQL generated for
+  // their own schema)
+  const cached = columnRules.length === 0 && excludedTables.length === 0 ? getCachedSql(question) : null;
   if (cached) {
     return { ...cached, confidence: 'high' };
   }
 
-  const { allowedTables = [], publishDate, filters } = options;
-
   // Use matrix-driven table selection (3-4 tables default, max 6)
   const classification = classifyQuestionWithMatrix(question);
   
@@ -241,15 +267,21 @@ export async function generateSqlFromQuestion(question: string, options: Generat
     ? `\nTABLE SELECTION GUIDANCE:\n${classification.contextHints.join('\n')}\n`
     : '';
   
+  // Leave out tables the user can't query so the LLM doesn't write SQL that gets blocked
+  const isExcluded = (table: string) =>
+    excludedTables.some(excluded => excluded.toLowerCase() === table.replace(/^publish\./i, '').toLowerCase());
+  const allowedTables = (options.allowedTables || []).filter(t => !isExcluded(t));
+
   // Filter selected tables to only those that exist in allowedTables (if provided)
-  let relevantTables = classification.selectedTables;
+  let relevantTables = classification.selectedTables.filter(t => !isExcluded(t));
   if (allowedTables.length > 0) {
-    relevantTables = classification.selectedTables.filter(t => 
+    const selected = relevantTables;
+    relevantTables = selected.filter(t =>
       allowedTables.some(allowed => allowed.toLowerCase() === t.toLowerCase())
     );
     // If no tables match, use the matrix selection as-is (they might be Tier 1 tables)
     if (relevantTables.length === 0) {
-      relevantTables = classification.selectedTables;
+      relevantTables = selected;
     }
   }
   
@@ -262,11 +294,11 @@ export async function generateSqlFromQuestion(question: string, options: Generat
     
     // Fetch schema for matrix-selected tables with column slimming
     if (relevantTables.length > 0) {
-      modeSchema = await getFormattedSchemaForTables(relevantTables, question);
+      modeSchema = await getFormattedSchemaForTables(relevantTables, question, columnRules);
       stats = { tableCount: relevantTables.length, columnCount: 0 };
     } else if (allowedTables.length > 0) {
       // Fall back to allowed tables schema
-      modeSchema = await getFormattedSchemaForTables(allowedTables, question);
+      modeSchema = await getFormattedSchemaForTables(allowedTables, question, columnRules);
       stats = { tableCount: allowedTables.length, columnCount: 0 };
     } else {
       modeSchema = 'All publish.DASHt_* tables available';
@@ -283,6 +315,10 @@ export async function generateSqlFromQuestion(question: string, options: Generat
     }
   }
 
+  if (excludedTables.length > 0) {
+    modeSchema += `\nUNAVAILABLE TABLES (this user has no access; never use them, even if mentioned below):\n  ${excludedTables.join(', ')}`;
+  }
+
   // Consolidated guidance for all table types
   const tableGuidance = `
 
@@ -363,8 +399,12 @@ Generate only the SQL query, no explanation. Do not include markdown formatting
     temperature: 0.1,
     max_completion_tokens: 500,
     seed: 42,
+  }).catch(error => {
+    recordOpenAiError('sql_generation', error);
+    throw error;
   });
   const llmTime = Date.now() - llmStartTime;
+  options.recordUsage?.('sql_generation', response.model, toTokenUsage(response.usage));
   
   console.log(`[openai-client] LLM generation completed in ${llmTime}ms`);
 
@@ -414,7 +454,7 @@ Only use "general" for pure definitions, concepts, or system help questions.
 Return ONLY the category string, nothing else.
 `;
 
-export async function classifyQuestion(question: string): Promise<'data_query' | 'general'> {
+export async function classifyQuestion(question: string, recordUsage?: LlmUsageRecorder): Promise<'data_query' | 'general'> {
   if (!apiKey) {
     return 'data_query'; // Default to data query if no API key
   }
@@ -429,11 +469,13 @@ export async function classifyQuestion(question: string): Promise<'data_query' |
       temperature: 0,
       max_completion_tokens: 20,
     });
+    recordUsage?.('classification', response.model, toTokenUsage(response.usage));
 
     const result = response.choices[0]?.message?.content?.trim().toLowerCase() || '';
     return result.includes('general') ? 'general' : 'data_query';
   } catch (error) {
     console.error('[openai-client] Question classification failed:', error);
+    recordOpenAiError('classification', error);
     return 'data_query'; // Default to data query on error
   }
 }
@@ -465,7 +507,7 @@ SYSTEM CAPABILITIES:
 If you don't know something specific to their data, suggest they ask a data query instead.
 `;
 
-export async function answerGeneralQuestion(question: string): Promise<string> {
+export async function answerGeneralQuestion(question: string, recordUsage?: LlmUsageRecorder): Promise<string> {
   if (!apiKey) {
     return "I'm unable to answer questions at the moment. Please check that the OpenAI API is configured.";
   }
@@ -480,10 +522,12 @@ export async function answerGeneralQuestion(question: string): Promise<string> {
       temperature: 0.7,
       max_completion_tokens: 300,
     });
+    recordUsage?.('general_answer', response.model, toTokenUsage(response.usage));
 
     return response.choices[0]?.message?.content?.trim() || "I'm not sure how to answer that. Try asking a question about your data instead.";
   } catch (error) {
     console.error('[openai-client] General question answering failed:', error);
+    recordOpenAiError('general_answer', error);
     return "I encountered an error trying to answer your question. Please try again.";
   }
 }
@@ -541,7 +585,8 @@ export async function* streamNaturalLanguageResponse(
   results: any[], 
   rowCount: number,
   actualTotalCount?: number,
-  appliedFilters?: string[]
+  appliedFilters?: string[],
+  recordUsage?: LlmUsageRecorder
 ): AsyncGenerator<string, void, unknown> {
   if (!apiKey) {
     yield `Found ${rowCount} result(s).`;
@@ -567,8 +612,10 @@ export async function* streamNaturalLanguageResponse(
         temperature: 0.3,
         max_output_tokens: 150,
       });
+      recordUsage?.('answer_summary', emptyResponse.model, toTokenUsage(emptyResponse.usage));
       yield emptyResponse.output_text?.trim() || "No matching data was found for your query.";
-    } catch {
+    } catch (error) {
+      recordOpenAiError('answer_summary', error);
       const filterMsg = appliedFilters && appliedFilters.length > 0
         ? ` with your current filters (${appliedFilters.join(', ')})`
         : '';
@@ -642,6 +689,7 @@ Provide a natural language summary of these results.`;
       // Handle completion
       if (event.type === 'response.completed') {
         console.log('[openai-client] Response stream completed');
+        recordUsage?.('answer_summary', event.response.model, toTokenUsage(event.response.usage));
       }
       
       // Handle failures
@@ -652,6 +700,7 @@ Provide a natural language summary of these results.`;
     
   } catch (error) {
     console.error('[openai-client] Streaming natural language response failed:', error);
+    recordOpenAiError('answer_summary', error);
     yield `Found ${rowCount} result(s).`;
   }
 }
@@ -660,7 +709,8 @@ export async function generateNaturalLanguageResponse(
   question: string, 
   results: any[], 
   rowCount: number,
-  actualTotalCount?: number
+  actualTotalCount?: number,
+  recordUsage?: LlmUsageRecorder
 ): Promise<string> {
   if (!apiKey) {
     return `Found ${rowCount} result(s).`;
@@ -678,8 +728,10 @@ export async function generateNaturalLanguageResponse(
         temperature: 0.3,
         max_completion_tokens: 100,
       });
+      recordUsage?.('answer_summary', emptyResponse.model, toTokenUsage(emptyResponse.usage));
       return emptyResponse.choices[0]?.message?.content?.trim() || "No matching data was found for your query.";
-    } catch {
+    } catch (error) {
+      recordOpenAiError('answer_summary', error);
       return "No matching data was found for your query. Try adjusting the date range or criteria.";
     }
   }
@@ -713,12 +765,14 @@ Provide a natural language summary of these results.`
       temperature: 0.3,
       max_completion_tokens: 800,
     });
+    recordUsage?.('answer_summary', response.model, toTokenUsage(response.usage));
 
     let answer = response.choices[0]?.message?.content?.trim() || `Found ${totalToReport} result(s).`;
     
     return answer;
   } catch (error) {
     console.error('[openai-client] Natural language response generation failed:', error);
+    recordOpenAiError('answer_summary', error);
     return `Found ${rowCount} result(s).`;
   }
 }
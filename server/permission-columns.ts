@@ -0,0 +1,138 @@
+/**
+ * Permission Columns
+ * Maps each publish table to the columns that hold its planning area, scenario and plant,
+ * so permission and global filters can be applied to any table that has them. Mappings
+ * are built from the static schema (docs/semantic/static-schema.json), refreshed from live
+ * INFORMATION_SCHEMA metadata, and adjusted by src/config/permission_columns.json for
+ * tables that store a value under another name (e.g. BlockPlant).
+ */
+
+import { z } from 'zod';
+import overridesFile from '../src/config/permission_columns.json';
+import { executeQuery } from './db-azure';
+import { getAllStaticSchemas } from './schema-introspection';
+import { log } from './log';
+
+export const PERMISSION_FIELDS = ['planningArea', 'scenario', 'plant'] as const;
+export type PermissionField = typeof PERMISSION_FIELDS[number];
+
+export type TableColumnMapping = Partial<Record<PermissionField, string>>;
+
+const permissionColumnsSchema = z.object({
+  version: z.string(),
+  lastUpdated: z.string().optional(),
+  description: z.string().optional(),
+  defaults: z.object({
+    planningArea: z.string(),
+    scenario: z.string(),
+    plant: z.string(),
+  }),
+  // Per-table column names; null marks a field the table can't be filtered on
+  overrides: z.record(z.string(), z.object({
+    planningArea: z.string().nullable().optional(),
+    scenario: z.string().nullable().optional(),
+    plant: z.string().nullable().optional(),
+  })).default({}),
+});
+
+const config = permissionColumnsSchema.parse(overridesFile);
+
+// Columns per table, keyed by lowercase table name (publish schema)
+const tableColumns = new Map<string, { name: string; columns: Set<string> }>();
+let lastRefresh: Date | null = null;
+
+function tableKey(tableName: string): string {
+  return tableName.replace(/^\[?publish\]?\./i, '').replace(/[[\]]/g, '').toLowerCase();
+}
+
+function setTableColumns(tableName: string, columns: string[]): void {
+  const name = tableName.replace(/^\[?publish\]?\./i, '').replace(/[[\]]/g, '');
+  tableColumns.set(tableKey(name), { name, columns: new Set(columns.map(column => column.toLowerCase())) });
+}
+
+/**
+ * Load column names for every table in the static schema
+ */
+function loadStaticColumns(): void {
+  for (const [tableName, schema] of Array.from(getAllStaticSchemas())) {
+    setTableColumns(tableName, schema.columns.map(column => column.columnName));
+  }
+}
+
+/**
+ * Refresh column names from INFORMATION_SCHEMA. Tables found live replace their static
+ * entries; tables the database doesn't return keep the static schema.
+ */
+export async function refreshPermissionColumns(): Promise<void> {
+  if (tableColumns.size === 0) loadStaticColumns();
+
+  try {
+    const result = await executeQuery(`
+      SELECT TABLE_NAME, COLUMN_NAME
+      FROM INFORMATION_SCHEMA.COLUMNS
+      WHERE TABLE_SCHEMA = 'publish'
+      ORDER BY TABLE_NAME, ORDINAL_POSITION
+    `);
+
+    const liveColumns = new Map<string, string[]>();
+    for (const row of result.recordset) {
+      if (!liveColumns.has(row.TABLE_NAME)) liveColumns.set(row.TABLE_NAME, []);
+      liveColumns.get(row.TABLE_NAME)!.push(row.COLUMN_NAME);
+    }
+    for (const [tableName, columns] of Array.from(liveColumns)) {
+      setTableColumns(tableName, columns);
+    }
+
+    lastRefresh = new Date();
+    log(`Permission columns refreshed from database: ${liveColumns.size} tables`, 'permission-columns');
+  } catch (error: any) {
+    log(`Permission column refresh failed, using static schema: ${error.message}`, 'permission-columns');
+  }
+}
+
+/**
+ * Filter columns for a table (name with or without the publish schema). Returns undefined
+ * for tables the schema doesn't know; fields the table can't be filtered on are absent.
+ */
+export function getTableColumnMapping(tableName: string): TableColumnMapping | undefined {
+  const key = tableKey(tableName);
+  const overrideName = Object.keys(config.overrides).find(name => name.toLowerCase() === key);
+  const override = overrideName ? config.overrides[overrideName] : undefined;
+  if (tableColumns.size === 0) loadStaticColumns();
+  const table = tableColumns.get(key);
+  if (!table && !override) return undefined;
+
+  const mapping: TableColumnMapping = {};
+  for (const field of PERMISSION_FIELDS) {
+    const overridden = override?.[field];
+    if (overridden === null) continue;
+    if (overridden !== undefined) {
+      mapping[field] = overridden;
+    } else if (table?.columns.has(config.defaults[field].toLowerCase())) {
+      mapping[field] = config.defaults[field];
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Whether a publish table has a column, or undefined when the schema doesn't know the table
+ */
+export function tableHasColumn(tableName: string, column: string): boolean | undefined {
+  if (tableColumns.size === 0) loadStaticColumns();
+  const table = tableColumns.get(tableKey(tableName));
+  return table ? table.columns.has(column.toLowerCase()) : undefined;
+}
+
+/**
+ * Current mappings for diagnostics
+ */
+export function getPermissionColumnStatus() {
+  if (tableColumns.size === 0) loadStaticColumns();
+  return {
+    lastRefresh: lastRefresh?.toISOString() || null,
+    tables: Array.from(tableColumns.values())
+      .map(table => ({ table: table.name, columns: getTableColumnMapping(table.name) || {} }))
+      .sort((a, b) => a.table.localeCompare(b.table)),
+  };
+}
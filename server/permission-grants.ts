@@ -0,0 +1,130 @@
+/**
+ * Permission Grants
+ * Time-bounded additions to a user's allowed planning areas, scenarios, plants and
+ * table-access categories. A grant counts only between its start and expiry (both optional),
+ * and mergePermissions skips the others, so expiry takes effect on the next query. A sweep
+ * every minute removes expired grants from users and records each removal in the audit log.
+ */
+
+import { PermissionGrant, PermissionGrantType, UserPermissions } from '@shared/schema';
+import { getAllUserPermissions, createOrUpdateUserPermissions } from './permissions-storage';
+import { recordSystemChange } from './admin-audit';
+import { log } from './log';
+
+export type GrantStatus = 'scheduled' | 'active' | 'expired';
+
+export interface UpcomingExpiration {
+  userId: string;
+  username: string;
+  grant: PermissionGrant;
+  status: GrantStatus;
+}
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+export const GRANT_TYPE_LABELS: Record<PermissionGrantType, string> = {
+  planningArea: 'planning area',
+  scenario: 'scenario',
+  plant: 'plant',
+  tableAccess: 'table access',
+};
+
+export function getGrantStatus(grant: PermissionGrant, now: number = Date.now()): GrantStatus {
+  if (grant.expiresAt && new Date(grant.expiresAt).getTime() <= now) return 'expired';
+  if (grant.startsAt && new Date(grant.startsAt).getTime() > now) return 'scheduled';
+  return 'active';
+}
+
+export function isGrantActive(grant: PermissionGrant, now: number = Date.now()): boolean {
+  return getGrantStatus(grant, now) === 'active';
+}
+
+export function describeGrant(grant: PermissionGrant): string {
+  const window = [
+    grant.startsAt && `from ${grant.startsAt}`,
+    grant.expiresAt && `until ${grant.expiresAt}`,
+  ].filter(Boolean).join(' ');
+  return `${GRANT_TYPE_LABELS[grant.type]} ${grant.value}${window ? ` ${window}` : ''}`;
+}
+
+/**
+ * Table-access categories named by grants, for checking they exist
+ */
+export function grantedCategories(grants: PermissionGrant[] | null | undefined): string[] {
+  return (grants || []).filter(grant => grant.type === 'tableAccess').map(grant => grant.value);
+}
+
+/**
+ * Grants as stored: timestamps in ISO form, unset bounds as null, duplicates dropped
+ */
+export function normalizeGrants(grants: PermissionGrant[] | null | undefined): PermissionGrant[] | null {
+  if (!grants || grants.length === 0) return null;
+  const toIso = (value: string | null | undefined) => (value ? new Date(value).toISOString() : null);
+  const seen = new Set<string>();
+  const normalized: PermissionGrant[] = [];
+  for (const grant of grants) {
+    const stored = { type: grant.type, value: grant.value.trim(), startsAt: toIso(grant.startsAt), expiresAt: toIso(grant.expiresAt) };
+    const key = JSON.stringify(stored);
+    if (!seen.has(key)) {
+      seen.add(key);
+      normalized.push(stored);
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Grants that are active or scheduled and expire within the window, soonest first
+ */
+export function getUpcomingExpirations(withinMs: number, now: number = Date.now()): UpcomingExpiration[] {
+  const expirations: UpcomingExpiration[] = [];
+  for (const user of getAllUserPermissions()) {
+    for (const grant of user.grants || []) {
+      if (!grant.expiresAt) continue;
+      const expiresAt = new Date(grant.expiresAt).getTime();
+      if (expiresAt > now && expiresAt - now <= withinMs) {
+        expirations.push({ userId: user.userId, username: user.username, grant, status: getGrantStatus(grant, now) });
+      }
+    }
+  }
+  return expirations.sort((a, b) => a.grant.expiresAt!.localeCompare(b.grant.expiresAt!));
+}
+
+/**
+ * Remove expired grants from every user, auditing each user changed. Returns the number
+ * of grants removed.
+ */
+export async function sweepExpiredGrants(now: number = Date.now()): Promise<number> {
+  let removed = 0;
+  for (const user of getAllUserPermissions()) {
+    const expired = (user.grants || []).filter(grant => getGrantStatus(grant, now) === 'expired');
+    if (expired.length === 0) continue;
+
+    const before: UserPermissions = structuredClone(user);
+    const remaining = (user.grants || []).filter(grant => !expired.includes(grant));
+    const after = await createOrUpdateUserPermissions({ ...before, grants: remaining.length > 0 ? remaining : null });
+    recordSystemChange('user', user.userId, before, after, user.username, `Grant expired: ${expired.map(describeGrant).join('; ')}`);
+    removed += expired.length;
+  }
+  if (removed > 0) {
+    log(`[grants] Removed ${removed} expired grant${removed === 1 ? '' : 's'}`, 'permissions');
+  }
+  return removed;
+}
+
+/**
+ * Start the background expiry sweep (runs once now, then every minute)
+ */
+export function startGrantExpirySweep(): void {
+  if (sweepTimer) return;
+  const sweep = () => {
+    sweepExpiredGrants().catch((error: any) => {
+      log(`[grants] Expiry sweep failed: ${error.message}`, 'error');
+    });
+  };
+  sweep();
+  sweepTimer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  sweepTimer.unref();
+}
@@ -0,0 +1,121 @@
+/**
+ * Permission Groups Storage
+ * Permission groups (roles), held in memory for the synchronous permission checks and written
+ * through to the data store (see storage.ts). Changes resolve once their write has landed and
+ * reject (with the cache reloaded) if it fails.
+ */
+
+import { PermissionGroup, InsertPermissionGroup } from '@shared/schema';
+import { initStorage, persist } from './storage';
+import { removeGroupFromUsers } from './permissions-storage';
+import { log } from './log';
+
+let groupsCache: PermissionGroup[] = [];
+
+/**
+ * Load every permission group from the data store. Called once at startup.
+ */
+export async function initPermissionGroups(): Promise<void> {
+  const storage = await initStorage();
+  groupsCache = await storage.getAllPermissionGroups();
+  log(`[groups] Loaded ${groupsCache.length} permission groups from the ${storage.kind} store`, 'permissions');
+}
+
+/**
+ * Wait for a write to land; if it fails, reload the cache from the data store and rethrow
+ */
+async function commit(written: Promise<void>): Promise<void> {
+  try {
+    await written;
+  } catch (error) {
+    await initPermissionGroups().catch((reloadError: any) => {
+      log(`[groups] Could not reload permission groups: ${reloadError.message}`, 'error');
+    });
+    throw error;
+  }
+}
+
+function saveGroups(groups: PermissionGroup[]): Promise<void> {
+  if (groups.length === 0) return Promise.resolve();
+  const copies = structuredClone(groups);
+  return commit(persist(`save permission groups ${copies.map(g => g.name).join(', ')}`, storage => storage.upsertPermissionGroups(copies)));
+}
+
+export function getAllPermissionGroups(): PermissionGroup[] {
+  return groupsCache;
+}
+
+export function getPermissionGroup(groupId: string): PermissionGroup | undefined {
+  return groupsCache.find(g => g.groupId === groupId);
+}
+
+export function getPermissionGroupByName(name: string): PermissionGroup | undefined {
+  return groupsCache.find(g => g.name.toLowerCase() === name.toLowerCase());
+}
+
+export async function createOrUpdatePermissionGroup(input: InsertPermissionGroup): Promise<PermissionGroup> {
+  const now = new Date().toISOString();
+  const existingIndex = groupsCache.findIndex(g => g.groupId === input.groupId);
+
+  const group: PermissionGroup = {
+    groupId: input.groupId,
+    name: input.name,
+    description: input.description,
+    allowedPlanningAreas: input.allowedPlanningAreas ?? null,
+    allowedScenarios: input.allowedScenarios ?? null,
+    allowedPlants: input.allowedPlants ?? null,
+    allowedTableAccess: input.allowedTableAccess ?? null,
+    deniedPlanningAreas: input.deniedPlanningAreas ?? null,
+    deniedScenarios: input.deniedScenarios ?? null,
+    deniedPlants: input.deniedPlants ?? null,
+    deniedTableAccess: input.deniedTableAccess ?? null,
+    maxRows: input.maxRows ?? null,
+    columnRules: input.columnRules ?? null,
+    createdAt: existingIndex >= 0 ? groupsCache[existingIndex].createdAt : now,
+    updatedAt: now,
+  };
+
+  if (existingIndex >= 0) {
+    groupsCache[existingIndex] = group;
+  } else {
+    groupsCache.push(group);
+  }
+
+  await saveGroups([group]);
+  log(`[groups] ${existingIndex >= 0 ? 'Updated' : 'Created'} permission group: ${group.name}`, 'permissions');
+  return group;
+}
+
+/**
+ * Delete a group and remove it from its members
+ */
+export async function deletePermissionGroup(groupId: string): Promise<boolean> {
+  const index = groupsCache.findIndex(g => g.groupId === groupId);
+  if (index < 0) {
+    return false;
+  }
+
+  const [removed] = groupsCache.splice(index, 1);
+  await commit(persist(`delete permission group ${removed.name}`, storage => storage.deletePermissionGroup(groupId)));
+  log(`[groups] Deleted permission group: ${removed.name}`, 'permissions');
+  await removeGroupFromUsers(groupId);
+  return true;
+}
+
+/**
+ * Drop a deleted table-access category from every group's allowed and denied lists
+ */
+export function removeTableAccessFromGroups(category: string): Promise<void> {
+  const changed = new Set<PermissionGroup>();
+  for (const group of groupsCache) {
+    if (group.allowedTableAccess?.includes(category)) {
+      group.allowedTableAccess = group.allowedTableAccess.filter(name => name !== category);
+      changed.add(group);
+    }
+    if (group.deniedTableAccess?.includes(category)) {
+      group.deniedTableAccess = group.deniedTableAccess.filter(name => name !== category);
+      changed.add(group);
+    }
+  }
+  return saveGroups(Array.from(changed));
+}
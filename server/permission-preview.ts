@@ -0,0 +1,144 @@
+/**
+ * Permission Preview
+ * Runs a question or raw SQL through the same validation, permission enforcement and global
+ * filters as /api/ask, but for a chosen user, so admins can see exactly what that user's
+ * query becomes. Nothing is written to the query log, FAQ tracking or the SQL cache.
+ */
+
+import { executeQuery } from './db-azure';
+import { validateAndModifySql } from './sql-validator';
+import { generateSqlFromQuestion } from './openai-client';
+import {
+  enforcePermissions,
+  applyGlobalFilters,
+  getRowLimit,
+  getColumnRules,
+  getInaccessibleTablesForContext,
+  PermissionContext,
+  GlobalFilters,
+} from './query-permissions';
+import { applyColumnMasking, ColumnMasking } from './column-permissions';
+
+const MAX_SAMPLE_ROWS = 50;
+
+export interface PermissionPreviewRequest {
+  question?: string;
+  sql?: string;
+  publishDate?: string;
+  filters?: GlobalFilters;
+  includeRows?: boolean;
+  sampleSize?: number;
+}
+
+export interface PermissionPreviewResult {
+  stage: 'generation' | 'validation' | 'permissions' | 'complete';
+  allowed: boolean;
+  error?: string;
+  generatedSql?: string; // SQL from the question (or the raw SQL as given)
+  validatedSql?: string; // After the validator (row limit applied)
+  permissionSql?: string; // After enforcePermissions
+  finalSql?: string; // After the global filters, i.e. what would run
+  rowLimit: number;
+  permissionFilters: string[];
+  globalFilters: string[];
+  columnMasking?: ColumnMasking;
+  blockedReason?: string;
+  blockedTable?: string;
+  inaccessibleTables: string[]; // Categorized tables the user can't query
+  sample?: { rows: any[]; rowCount: number; error?: string };
+}
+
+/**
+ * Validate, enforce and filter SQL for the user with the given row limit
+ */
+function rewriteForUser(sql: string, context: PermissionContext, filters: GlobalFilters, maxRows: number) {
+  const validation = validateAndModifySql(sql, { maxRows });
+  if (!validation.valid) {
+    return { validation };
+  }
+  const validatedSql = validation.modifiedSql || sql;
+  const permResult = enforcePermissions(validatedSql, context);
+  if (!permResult.allowed) {
+    return { validation, validatedSql, permResult };
+  }
+  const permissionSql = permResult.modifiedSql || validatedSql;
+  const globalResult = applyGlobalFilters(permissionSql, filters);
+  return { validation, validatedSql, permResult, permissionSql, globalResult };
+}
+
+/**
+ * Show what a user's question or SQL turns into, optionally with a small sample of the
+ * rows they would get back (masked the same way)
+ */
+export async function previewAsUser(
+  context: PermissionContext,
+  request: PermissionPreviewRequest
+): Promise<PermissionPreviewResult> {
+  const filters = request.filters || {};
+  const rowLimit = getRowLimit(context);
+  const result: PermissionPreviewResult = {
+    stage: 'generation',
+    allowed: false,
+    rowLimit,
+    permissionFilters: [],
+    globalFilters: [],
+    inaccessibleTables: getInaccessibleTablesForContext(context),
+  };
+
+  let sql = request.sql?.trim();
+  if (!sql) {
+    try {
+      const generated = await generateSqlFromQuestion(request.question!, {
+        publishDate: request.publishDate,
+        filters,
+        columnRules: getColumnRules(context),
+        excludedTables: result.inaccessibleTables,
+      });
+      sql = generated.sql;
+    } catch (error: any) {
+      return { ...result, error: `SQL generation failed: ${error.message}` };
+    }
+  }
+  result.generatedSql = sql;
+
+  const rewritten = rewriteForUser(sql, context, filters, rowLimit);
+  if (!rewritten.validation.valid) {
+    return { ...result, stage: 'validation', error: `SQL validation failed: ${rewritten.validation.error}` };
+  }
+  result.validatedSql = rewritten.validatedSql;
+
+  const permResult = rewritten.permResult!;
+  if (!permResult.allowed) {
+    return {
+      ...result,
+      stage: 'permissions',
+      blockedReason: permResult.blockedReason,
+      blockedTable: permResult.blockedTable,
+    };
+  }
+
+  Object.assign(result, {
+    stage: 'complete',
+    allowed: true,
+    permissionSql: rewritten.permissionSql,
+    finalSql: rewritten.globalResult!.modifiedSql,
+    permissionFilters: permResult.appliedFilters || [],
+    globalFilters: rewritten.globalResult!.appliedFilters,
+    columnMasking: permResult.columnMasking,
+  });
+
+  if (request.includeRows) {
+    // Re-run the pipeline with a small row limit rather than wrapping the final SQL
+    const sampleSize = Math.min(Math.max(request.sampleSize ?? 10, 1), MAX_SAMPLE_ROWS, rowLimit);
+    const sampleSql = rewriteForUser(sql, context, filters, sampleSize).globalResult?.modifiedSql ?? result.finalSql!;
+    try {
+      const queryResult = await executeQuery(sampleSql);
+      const rows = applyColumnMasking(queryResult.recordset, permResult.columnMasking);
+      result.sample = { rows, rowCount: rows.length };
+    } catch (error: any) {
+      result.sample = { rows: [], rowCount: 0, error: error.message };
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,395 @@
+/**
+ * Permissions Import/Export
+ * Bulk export of every user's permissions as CSV or JSON, and import of such a file back:
+ * a dry-run plan of added, changed and removed users with validation against known
+ * planning areas, scenarios, plants, groups and table-access categories, and an
+ * all-or-nothing apply written in one transaction (importUserPermissions).
+ *
+ * CSV cells hold lists separated by ";". An empty list cell means unrestricted (all
+ * allowed, or nothing denied) and "(none)" means an empty list; column rules are written
+ * as "table.column:hide" or "table.column:mask" ("*" for every table), and time-bounded
+ * grants as "type:value" with an optional "@start..expiry" (ISO datetimes, either may be empty).
+ */
+
+import Papa from 'papaparse';
+import { UserPermissions, InsertUserPermissions, ColumnRule, PermissionGrant, PermissionGrantType, userPermissionsSchema } from '@shared/schema';
+import { getAllUserPermissions, importUserPermissions } from './permissions-storage';
+import { getPermissionGroup } from './permission-groups-storage';
+import { findUnknownCategories } from './table-access-categories';
+import { diffRecords, AuditChange } from './admin-audit';
+import { normalizeGrants, grantedCategories } from './permission-grants';
+import { log } from './log';
+
+export type PermissionsFileFormat = 'csv' | 'json';
+
+const NONE = '(none)';
+
+const LIST_FIELDS = [
+  'groupIds',
+  'allowedPlanningAreas', 'allowedScenarios', 'allowedPlants', 'allowedTableAccess',
+  'deniedPlanningAreas', 'deniedScenarios', 'deniedPlants', 'deniedTableAccess',
+] as const;
+
+const CSV_COLUMNS = ['userId', 'username', 'email', 'isAdmin', ...LIST_FIELDS, 'maxRows', 'columnRules', 'grants'];
+
+// Scope fields checked against /api/filter-options values
+const NAME_FIELDS: Array<{ fields: Array<keyof InsertUserPermissions>; grantType: PermissionGrantType; option: keyof KnownFilterValues; label: string }> = [
+  { fields: ['allowedPlanningAreas', 'deniedPlanningAreas'], grantType: 'planningArea', option: 'planningAreas', label: 'planning area' },
+  { fields: ['allowedScenarios', 'deniedScenarios'], grantType: 'scenario', option: 'scenarios', label: 'scenario' },
+  { fields: ['allowedPlants', 'deniedPlants'], grantType: 'plant', option: 'plants', label: 'plant' },
+];
+
+export interface KnownFilterValues {
+  planningAreas: string[];
+  scenarios: string[]; // Scenario ids (NewScenarioId)
+  plants: string[];
+}
+
+export interface ImportIssue {
+  row: number; // CSV line or 1-based JSON array position
+  userId?: string;
+  message: string;
+}
+
+export interface ImportPlan {
+  added: Array<{ userId: string; username: string }>;
+  changed: Array<{ userId: string; username: string; changes: AuditChange[] }>;
+  removed: Array<{ userId: string; username: string }>;
+  unchanged: number;
+  errors: ImportIssue[];
+}
+
+export interface ImportOptions {
+  removeMissing?: boolean; // Delete users that aren't in the file
+}
+
+export interface AppliedImportChange {
+  userId: string;
+  username: string;
+  before?: UserPermissions;
+  after?: UserPermissions;
+}
+
+// ===== EXPORT =====
+
+function formatList(values: string[] | null | undefined): string {
+  if (values === null || values === undefined) return '';
+  return values.length === 0 ? NONE : values.join(';');
+}
+
+function formatColumnRules(rules: ColumnRule[] | null | undefined): string {
+  return (rules || []).map(rule => `${rule.table}.${rule.column}:${rule.action}`).join(';');
+}
+
+// type:value, optionally @start..expiry with either bound left empty
+function formatGrants(grants: PermissionGrant[] | null | undefined): string {
+  return (grants || []).map(grant => {
+    const window = grant.startsAt || grant.expiresAt ? `@${grant.startsAt ?? ''}..${grant.expiresAt ?? ''}` : '';
+    return `${grant.type}:${grant.value}${window}`;
+  }).join(';');
+}
+
+/**
+ * Every user's permissions as a CSV or JSON document
+ */
+export function exportUserPermissions(format: PermissionsFileFormat): string {
+  const users = getAllUserPermissions();
+  if (format === 'json') {
+    return JSON.stringify({ exportedAt: new Date().toISOString(), users }, null, 2);
+  }
+
+  const rows = users.map(user => {
+    const row: Record<string, string> = {
+      userId: user.userId,
+      username: user.username,
+      email: user.email || '',
+      isAdmin: user.isAdmin ? 'true' : 'false',
+      maxRows: user.maxRows ? String(user.maxRows) : '',
+      columnRules: formatColumnRules(user.columnRules),
+      grants: formatGrants(user.grants),
+    };
+    for (const field of LIST_FIELDS) {
+      row[field] = formatList(user[field]);
+    }
+    return row;
+  });
+  return Papa.unparse({ fields: CSV_COLUMNS, data: rows.map(row => CSV_COLUMNS.map(column => row[column])) });
+}
+
+// ===== PARSING =====
+
+function parseList(cell: string | undefined): string[] | null {
+  const value = (cell || '').trim();
+  if (!value) return null;
+  if (value === NONE) return [];
+  return value.split(';').map(item => item.trim()).filter(Boolean);
+}
+
+function parseColumnRules(cell: string | undefined): ColumnRule[] | null {
+  const value = (cell || '').trim();
+  if (!value) return null;
+  return value.split(';').map(item => item.trim()).filter(Boolean).map(item => {
+    const match = item.match(/^(.+)\.([^.:]+):(hide|mask)$/i);
+    if (!match) {
+      throw new Error(`Invalid column rule "${item}" (expected table.column:hide or table.column:mask)`);
+    }
+    return { table: match[1], column: match[2], action: match[3].toLowerCase() as ColumnRule['action'] };
+  });
+}
+
+function parseGrants(cell: string | undefined): PermissionGrant[] | null {
+  const value = (cell || '').trim();
+  if (!value) return null;
+  return value.split(';').map(item => item.trim()).filter(Boolean).map(item => {
+    const match = item.match(/^(planningArea|scenario|plant|tableAccess):([^@]+?)(?:@(.*?)\.\.(.*))?$/);
+    if (!match) {
+      throw new Error(`Invalid grant "${item}" (expected type:value or type:value@start..expiry)`);
+    }
+    return {
+      type: match[1] as PermissionGrant['type'],
+      value: match[2].trim(),
+      startsAt: match[3]?.trim() || null,
+      expiresAt: match[4]?.trim() || null,
+    };
+  });
+}
+
+function parseCsvRow(row: Record<string, string>): Record<string, unknown> {
+  const isAdmin = (row.isAdmin || '').trim().toLowerCase();
+  if (isAdmin && !['true', 'false', 'yes', 'no', '1', '0'].includes(isAdmin)) {
+    throw new Error(`Invalid isAdmin value "${row.isAdmin}"`);
+  }
+  const maxRows = (row.maxRows || '').trim();
+
+  const record: Record<string, unknown> = {
+    userId: (row.userId || '').trim(),
+    username: (row.username || '').trim(),
+    email: (row.email || '').trim() || undefined,
+    isAdmin: ['true', 'yes', '1'].includes(isAdmin),
+    maxRows: maxRows ? Number(maxRows) : null,
+    columnRules: parseColumnRules(row.columnRules),
+    grants: parseGrants(row.grants),
+  };
+  for (const field of LIST_FIELDS) {
+    record[field] = parseList(row[field]);
+  }
+  return record;
+}
+
+/**
+ * Parse a CSV or JSON permissions file into schema-checked records. A JSON file may be a
+ * bare array or an export document with a users array.
+ */
+function parsePermissionsFile(
+  content: string,
+  format: PermissionsFileFormat
+): { records: Array<{ row: number; input: InsertUserPermissions }>; errors: ImportIssue[] } {
+  const errors: ImportIssue[] = [];
+  let rawRecords: Array<{ row: number; value: unknown }> = [];
+
+  if (format === 'json') {
+    try {
+      const parsed = JSON.parse(content);
+      const users = Array.isArray(parsed) ? parsed : parsed?.users;
+      if (!Array.isArray(users)) {
+        return { records: [], errors: [{ row: 0, message: 'JSON must be an array of users or an object with a "users" array' }] };
+      }
+      rawRecords = users.map((value: unknown, index: number) => ({ row: index + 1, value }));
+    } catch (error: any) {
+      return { records: [], errors: [{ row: 0, message: `Invalid JSON: ${error.message}` }] };
+    }
+  } else {
+    const parsed = Papa.parse<Record<string, string>>(content.trim(), { header: true, skipEmptyLines: true });
+    for (const error of parsed.errors) {
+      errors.push({ row: (error.row ?? -1) + 2, message: error.message });
+    }
+    const missing = ['userId', 'username'].filter(column => !parsed.meta.fields?.includes(column));
+    if (missing.length > 0) {
+      return { records: [], errors: [{ row: 1, message: `Missing required columns: ${missing.join(', ')}` }] };
+    }
+    parsed.data.forEach((row, index) => {
+      try {
+        rawRecords.push({ row: index + 2, value: parseCsvRow(row) });
+      } catch (error: any) {
+        errors.push({ row: index + 2, userId: row.userId, message: error.message });
+      }
+    });
+  }
+
+  const records: Array<{ row: number; input: InsertUserPermissions }> = [];
+  for (const { row, value } of rawRecords) {
+    const result = userPermissionsSchema.safeParse(value);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      errors.push({
+        row,
+        userId: (value as any)?.userId,
+        message: `${issue.path.join('.') || 'record'}: ${issue.message}`,
+      });
+      continue;
+    }
+    records.push({ row, input: result.data });
+  }
+  return { records, errors };
+}
+
+// ===== PLANNING =====
+
+/**
+ * A user record as createOrUpdateUserPermissions would store it, for diffing
+ */
+function toStoredShape(input: InsertUserPermissions): Omit<UserPermissions, 'createdAt' | 'updatedAt'> {
+  return {
+    userId: input.userId,
+    username: input.username,
+    email: input.email,
+    isAdmin: input.isAdmin ?? false,
+    groupIds: input.groupIds ?? null,
+    allowedPlanningAreas: input.allowedPlanningAreas ?? null,
+    allowedScenarios: input.allowedScenarios ?? null,
+    allowedPlants: input.allowedPlants ?? null,
+    allowedTableAccess: input.allowedTableAccess ?? null,
+    maxRows: input.maxRows ?? null,
+    columnRules: input.columnRules ?? null,
+    grants: normalizeGrants(input.grants),
+    deniedPlanningAreas: input.deniedPlanningAreas ?? null,
+    deniedScenarios: input.deniedScenarios ?? null,
+    deniedPlants: input.deniedPlants ?? null,
+    deniedTableAccess: input.deniedTableAccess ?? null,
+  };
+}
+
+/**
+ * Problems with one record beyond the schema: unknown names, groups and categories
+ */
+function validateRecord(input: InsertUserPermissions, known: KnownFilterValues): string[] {
+  const messages: string[] = [];
+  for (const { fields, grantType, option, label } of NAME_FIELDS) {
+    const values = new Set(known[option]);
+    const granted = (input.grants || []).filter(grant => grant.type === grantType).map(grant => grant.value);
+    const unknown = Array.from(new Set([...fields.flatMap(field => (input[field] as string[] | null | undefined) || []), ...granted]))
+      .filter(value => !values.has(value));
+    if (unknown.length > 0) {
+      messages.push(`Unknown ${label}${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`);
+    }
+  }
+
+  const unknownCategories = findUnknownCategories([input.allowedTableAccess, input.deniedTableAccess, grantedCategories(input.grants)]);
+  if (unknownCategories.length > 0) {
+    messages.push(`Unknown table access categories: ${unknownCategories.join(', ')}`);
+  }
+
+  const unknownGroups = (input.groupIds || []).filter(groupId => !getPermissionGroup(groupId));
+  if (unknownGroups.length > 0) {
+    messages.push(`Unknown groups: ${unknownGroups.join(', ')}`);
+  }
+  return messages;
+}
+
+interface PlannedImport {
+  plan: ImportPlan;
+  upserts: InsertUserPermissions[];
+  removals: UserPermissions[];
+}
+
+function planImport(
+  content: string,
+  format: PermissionsFileFormat,
+  options: ImportOptions,
+  known: KnownFilterValues
+): PlannedImport {
+  const { records, errors } = parsePermissionsFile(content, format);
+  const existing = getAllUserPermissions();
+  const plan: ImportPlan = { added: [], changed: [], removed: [], unchanged: 0, errors };
+  const upserts: InsertUserPermissions[] = [];
+
+  const seenIds = new Set<string>();
+  const seenNames = new Map<string, string>(); // Lowercase username -> userId
+  for (const { row, input } of records) {
+    if (seenIds.has(input.userId)) {
+      errors.push({ row, userId: input.userId, message: `Duplicate userId ${input.userId}` });
+      continue;
+    }
+    seenIds.add(input.userId);
+    const nameKey = input.username.toLowerCase();
+    if (seenNames.has(nameKey)) {
+      errors.push({ row, userId: input.userId, message: `Duplicate username ${input.username}` });
+      continue;
+    }
+    seenNames.set(nameKey, input.userId);
+
+    const messages = validateRecord(input, known);
+    if (messages.length > 0) {
+      errors.push(...messages.map(message => ({ row, userId: input.userId, message })));
+      continue;
+    }
+
+    const current = existing.find(user => user.userId === input.userId);
+    if (!current) {
+      plan.added.push({ userId: input.userId, username: input.username });
+      upserts.push(input);
+      continue;
+    }
+    const changes = diffRecords(current, toStoredShape(input));
+    if (changes.length === 0) {
+      plan.unchanged++;
+    } else {
+      plan.changed.push({ userId: input.userId, username: input.username, changes });
+      upserts.push(input);
+    }
+  }
+
+  const removals = options.removeMissing ? existing.filter(user => !seenIds.has(user.userId)) : [];
+  plan.removed = removals.map(user => ({ userId: user.userId, username: user.username }));
+
+  // Usernames must stay unique among the users the file leaves untouched
+  const untouched = existing.filter(user => !seenIds.has(user.userId) && !removals.includes(user));
+  for (const { row, input } of records) {
+    const owner = untouched.find(user => user.username.toLowerCase() === input.username.toLowerCase());
+    if (owner) {
+      errors.push({ row, userId: input.userId, message: `Username ${input.username} belongs to existing user ${owner.userId}` });
+    }
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+  return { plan, upserts, removals };
+}
+
+/**
+ * Dry run: what importing the file would add, change and remove, and why it can't be applied
+ */
+export function planPermissionsImport(
+  content: string,
+  format: PermissionsFileFormat,
+  options: ImportOptions,
+  known: KnownFilterValues
+): ImportPlan {
+  return planImport(content, format, options, known).plan;
+}
+
+/**
+ * Apply an import if the whole file is valid. Nothing is changed when the plan has errors,
+ * and a failed write leaves the permissions as they were (the promise rejects).
+ */
+export async function applyPermissionsImport(
+  content: string,
+  format: PermissionsFileFormat,
+  options: ImportOptions,
+  known: KnownFilterValues
+): Promise<{ plan: ImportPlan; applied: AppliedImportChange[] }> {
+  const { plan, upserts, removals } = planImport(content, format, options, known);
+  if (plan.errors.length > 0) {
+    return { plan, applied: [] };
+  }
+
+  const snapshot = structuredClone(getAllUserPermissions());
+  const saved = await importUserPermissions(upserts, removals.map(user => user.userId));
+
+  const applied: AppliedImportChange[] = [
+    ...removals.map(user => ({ userId: user.userId, username: user.username, before: snapshot.find(u => u.userId === user.userId) })),
+    ...saved.map(after => ({ userId: after.userId, username: after.username, before: snapshot.find(u => u.userId === after.userId), after })),
+  ];
+
+  log(`[permissions-import] Imported users: ${plan.added.length} added, ${plan.changed.length} changed, ${plan.removed.length} removed`, 'permissions');
+  return { plan, applied };
+}
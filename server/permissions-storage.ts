@@ -1,77 +1,63 @@
-import { readFileSync, writeFileSync, existsSync } from 'fs';
-import { join } from 'path';
-import { UserPermissions, InsertUserPermissions, userPermissionsSchema } from '@shared/schema';
-import { log } from './index';
-
-const PERMISSIONS_FILE = join(process.cwd(), 'data', 'user-permissions.json');
+/**
+ * Permissions Storage
+ * User permissions, held in memory for the synchronous permission checks and written through
+ * to the data store (see storage.ts) one record at a time, or all at once for an import.
+ * Changes resolve once their write has landed and reject (with the cache reloaded) if it fails.
+ */
+
+import { UserPermissions, InsertUserPermissions } from '@shared/schema';
+import { initStorage, persist } from './storage';
+import { normalizeGrants } from './permission-grants';
+import { log } from './log';
 
 let permissionsCache: UserPermissions[] = [];
 
-function ensureDataDir() {
-  const dataDir = join(process.cwd(), 'data');
-  if (!existsSync(dataDir)) {
-    const { mkdirSync } = require('fs');
-    mkdirSync(dataDir, { recursive: true });
-  }
-}
-
-function loadPermissions(): UserPermissions[] {
-  try {
-    if (existsSync(PERMISSIONS_FILE)) {
-      const data = readFileSync(PERMISSIONS_FILE, 'utf-8');
-      const parsed = JSON.parse(data);
-      permissionsCache = Array.isArray(parsed) ? parsed : [];
-      log(`[permissions] Loaded ${permissionsCache.length} user permissions from file`, 'permissions');
-    } else {
-      permissionsCache = [];
-    }
-  } catch (error: any) {
-    log(`[permissions] Error loading permissions: ${error.message}`, 'error');
-    permissionsCache = [];
-  }
-  return permissionsCache;
+/**
+ * Load every user's permissions from the data store. Called once at startup.
+ */
+export async function initPermissions(): Promise<void> {
+  const storage = await initStorage();
+  permissionsCache = await storage.getAllUserPermissions();
+  log(`[permissions] Loaded ${permissionsCache.length} user permissions from the ${storage.kind} store`, 'permissions');
 }
 
-function savePermissions(): void {
+/**
+ * Wait for a write to land. If it fails, the cache is reloaded from the data store so it
+ * matches what was kept, and the error is rethrown for the admin request to report.
+ */
+async function commit(written: Promise<void>): Promise<void> {
   try {
-    ensureDataDir();
-    writeFileSync(PERMISSIONS_FILE, JSON.stringify(permissionsCache, null, 2));
-    log(`[permissions] Saved ${permissionsCache.length} user permissions to file`, 'permissions');
-  } catch (error: any) {
-    log(`[permissions] Error saving permissions: ${error.message}`, 'error');
+    await written;
+  } catch (error) {
+    await initPermissions().catch((reloadError: any) => {
+      log(`[permissions] Could not reload permissions: ${reloadError.message}`, 'error');
+    });
+    throw error;
   }
 }
 
-export function initPermissions(): void {
-  loadPermissions();
+function saveUserPermissions(permissions: UserPermissions[]): Promise<void> {
+  if (permissions.length === 0) return Promise.resolve();
+  const copies = structuredClone(permissions);
+  return commit(persist(`save permissions for ${copies.map(p => p.username).join(', ')}`, storage => storage.upsertUserPermissions(copies)));
 }
 
 export function getAllUserPermissions(): UserPermissions[] {
-  if (permissionsCache.length === 0) {
-    loadPermissions();
-  }
   return permissionsCache;
 }
 
 export function getUserPermissions(userId: string): UserPermissions | undefined {
-  if (permissionsCache.length === 0) {
-    loadPermissions();
-  }
   return permissionsCache.find(p => p.userId === userId);
 }
 
 export function getUserPermissionsByUsername(username: string): UserPermissions | undefined {
-  if (permissionsCache.length === 0) {
-    loadPermissions();
-  }
   return permissionsCache.find(p => p.username.toLowerCase() === username.toLowerCase());
 }
 
-export function createOrUpdateUserPermissions(input: InsertUserPermissions): UserPermissions {
-  if (permissionsCache.length === 0) {
-    loadPermissions();
-  }
-
+/**
+ * Add or replace a user's permissions in the cache only
+ */
+function cacheUserPermissions(input: InsertUserPermissions): UserPermissions {
   const now = new Date().toISOString();
   const existingIndex = permissionsCache.findIndex(p => p.userId === input.userId);
 
@@ -80,10 +66,18 @@ export function createOrUpdateUserPermissions(input: InsertUserPermissions): Use
     username: input.username,
     email: input.email,
     isAdmin: input.isAdmin ?? false,
+    groupIds: input.groupIds ?? null,
     allowedPlanningAreas: input.allowedPlanningAreas ?? null,
     allowedScenarios: input.allowedScenarios ?? null,
     allowedPlants: input.allowedPlants ?? null,
     allowedTableAccess: input.allowedTableAccess ?? null,
+    maxRows: input.maxRows ?? null,
+    columnRules: input.columnRules ?? null,
+    grants: normalizeGrants(input.grants),
+    deniedPlanningAreas: input.deniedPlanningAreas ?? null,
+    deniedScenarios: input.deniedScenarios ?? null,
+    deniedPlants: input.deniedPlants ?? null,
+    deniedTableAccess: input.deniedTableAccess ?? null,
     createdAt: existingIndex >= 0 ? permissionsCache[existingIndex].createdAt : now,
     updatedAt: now,
   };
@@ -95,26 +89,74 @@ export function createOrUpdateUserPermissions(input: InsertUserPermissions): Use
     permissionsCache.push(permissions);
     log(`[permissions] Created permissions for user: ${input.username}`, 'permissions');
   }
-
-  savePermissions();
   return permissions;
 }
 
-export function deleteUserPermissions(userId: string): boolean {
-  if (permissionsCache.length === 0) {
-    loadPermissions();
-  }
+export async function createOrUpdateUserPermissions(input: InsertUserPermissions): Promise<UserPermissions> {
+  const permissions = cacheUserPermissions(input);
+  await saveUserPermissions([permissions]);
+  return permissions;
+}
 
+export async function deleteUserPermissions(userId: string): Promise<boolean> {
   const index = permissionsCache.findIndex(p => p.userId === userId);
   if (index >= 0) {
     const removed = permissionsCache.splice(index, 1);
-    savePermissions();
     log(`[permissions] Deleted permissions for user: ${removed[0].username}`, 'permissions');
+    await commit(persist(`delete permissions for ${removed[0].username}`, storage => storage.deleteUserPermissions(userId)));
     return true;
   }
   return false;
 }
 
+/**
+ * Drop a deleted group from every user's memberships
+ */
+export function removeGroupFromUsers(groupId: string): Promise<void> {
+  const changed: UserPermissions[] = [];
+  for (const permissions of permissionsCache) {
+    if (permissions.groupIds?.includes(groupId)) {
+      permissions.groupIds = permissions.groupIds.filter(id => id !== groupId);
+      changed.push(permissions);
+    }
+  }
+  return saveUserPermissions(changed);
+}
+
+/**
+ * Drop a deleted table-access category from every user's allowed and denied lists
+ */
+export function removeTableAccessFromUsers(category: string): Promise<void> {
+  const changed = new Set<UserPermissions>();
+  for (const permissions of permissionsCache) {
+    if (permissions.allowedTableAccess?.includes(category)) {
+      permissions.allowedTableAccess = permissions.allowedTableAccess.filter(name => name !== category);
+      changed.add(permissions);
+    }
+    if (permissions.deniedTableAccess?.includes(category)) {
+      permissions.deniedTableAccess = permissions.deniedTableAccess.filter(name => name !== category);
+      changed.add(permissions);
+    }
+  }
+  return saveUserPermissions(Array.from(changed));
+}
+
+/**
+ * Remove and add or replace users in bulk (a permissions import). Every user's permissions
+ * are written in one transaction; if that fails, the cache is reloaded from the data store
+ * so it matches what was kept, and the error is rethrown.
+ */
+export async function importUserPermissions(
+  upserts: InsertUserPermissions[],
+  removeUserIds: string[]
+): Promise<UserPermissions[]> {
+  permissionsCache = permissionsCache.filter(p => !removeUserIds.includes(p.userId));
+  const saved = upserts.map(cacheUserPermissions);
+  const copies = structuredClone(permissionsCache);
+  await commit(persist('import user permissions', storage => storage.replaceAllUserPermissions(copies)));
+  return saved;
+}
+
 export function isUserAdmin(userId: string): boolean {
   const perms = getUserPermissions(userId);
   return perms?.isAdmin ?? false;
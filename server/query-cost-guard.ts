@@ -0,0 +1,233 @@
+/**
+ * Query Cost Guard
+ * Fetches the estimated execution plan (SHOWPLAN_XML) for generated SQL before it runs
+ * and compares estimated rows, estimated subtree cost and scans of large DASHt tables
+ * against a configurable budget. Depending on QUERY_COST_GUARD the guard is off, only
+ * warns, or rejects queries over budget.
+ */
+
+import { getEstimatedPlanXml } from './db-azure';
+import { log } from './log';
+
+export type CostGuardMode = 'off' | 'warn' | 'enforce';
+
+export interface CostGuardConfig {
+  mode: CostGuardMode;
+  maxEstimatedRows: number;
+  maxEstimatedCost: number;
+  largeTableRows: number; // Table cardinality at which a DASHt table counts as large
+  maxLargeTableScans: number;
+  timeoutMs: number;
+}
+
+export interface PlanScan {
+  operator: string; // e.g. Table Scan, Clustered Index Scan
+  table: string;
+  estimatedRows: number;
+  tableCardinality: number | null;
+}
+
+export interface QueryPlanEstimate {
+  estimatedRows: number;
+  estimatedCost: number;
+  scans: PlanScan[];
+}
+
+export interface CostGuardDecision {
+  action: 'allow' | 'warn' | 'reject' | 'skipped';
+  reasons: string[];
+  estimate?: QueryPlanEstimate;
+  largeTableScans: string[];
+  error?: string;
+  checkMs: number;
+}
+
+// Summary stored with each query log entry
+export interface CostCheckSummary {
+  action: CostGuardDecision['action'];
+  estimatedRows?: number;
+  estimatedCost?: number;
+  largeTableScans: string[];
+  reasons: string[];
+  checkMs: number;
+}
+
+const SCAN_OPERATORS = new Set(['Table Scan', 'Clustered Index Scan', 'Index Scan']);
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Read the cost guard configuration from environment variables
+ */
+export function getCostGuardConfig(): CostGuardConfig {
+  const rawMode = (process.env.QUERY_COST_GUARD || 'off').toLowerCase();
+  const mode: CostGuardMode = rawMode === 'warn' || rawMode === 'enforce' ? rawMode : 'off';
+
+  return {
+    mode,
+    maxEstimatedRows: readNumberEnv('QUERY_COST_MAX_ROWS', 1_000_000),
+    maxEstimatedCost: readNumberEnv('QUERY_COST_MAX_COST', 50),
+    largeTableRows: readNumberEnv('QUERY_COST_LARGE_TABLE_ROWS', 500_000),
+    maxLargeTableScans: readNumberEnv('QUERY_COST_MAX_LARGE_SCANS', 2),
+    timeoutMs: readNumberEnv('QUERY_COST_TIMEOUT_MS', 5000),
+  };
+}
+
+function readAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? match[1] : null;
+}
+
+function readNumberAttribute(tag: string, name: string): number | null {
+  const value = readAttribute(tag, name);
+  if (value === null) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Extract the estimate from SHOWPLAN_XML output. Statement-level estimates are summed
+ * across statements; scans are read from RelOp elements and the table they reference.
+ */
+export function parseShowplanXml(xml: string): QueryPlanEstimate {
+  const estimate: QueryPlanEstimate = { estimatedRows: 0, estimatedCost: 0, scans: [] };
+
+  for (const match of Array.from(xml.matchAll(/<StmtSimple\b[^>]*>/g))) {
+    estimate.estimatedRows += readNumberAttribute(match[0], 'StatementEstRows') ?? 0;
+    estimate.estimatedCost += readNumberAttribute(match[0], 'StatementSubTreeCost') ?? 0;
+  }
+
+  const relOps = Array.from(xml.matchAll(/<RelOp\b[^>]*>/g));
+  relOps.forEach((match, index) => {
+    const operator = readAttribute(match[0], 'PhysicalOp');
+    if (!operator || !SCAN_OPERATORS.has(operator)) return;
+
+    // The scanned object is the first <Object> before the next operator
+    const bodyStart = match.index! + match[0].length;
+    const bodyEnd = index + 1 < relOps.length ? relOps[index + 1].index! : xml.length;
+    const objectTag = xml.slice(bodyStart, bodyEnd).match(/<Object\b[^>]*>/);
+    if (!objectTag) return;
+
+    const schema = readAttribute(objectTag[0], 'Schema') ?? '';
+    const table = readAttribute(objectTag[0], 'Table') ?? '';
+    estimate.scans.push({
+      operator,
+      table: [schema, table].filter(Boolean).join('.'),
+      estimatedRows: readNumberAttribute(match[0], 'EstimateRows') ?? 0,
+      tableCardinality: readNumberAttribute(match[0], 'TableCardinality'),
+    });
+  });
+
+  return estimate;
+}
+
+/**
+ * Compare a plan estimate against the budget and list every limit it exceeds
+ */
+export function evaluatePlanBudget(
+  estimate: QueryPlanEstimate,
+  config: CostGuardConfig
+): { reasons: string[]; largeTableScans: string[] } {
+  const reasons: string[] = [];
+
+  if (estimate.estimatedRows > config.maxEstimatedRows) {
+    reasons.push(
+      `Estimated rows ${Math.round(estimate.estimatedRows).toLocaleString()} exceed the budget of ${config.maxEstimatedRows.toLocaleString()}`
+    );
+  }
+
+  if (estimate.estimatedCost > config.maxEstimatedCost) {
+    reasons.push(
+      `Estimated cost ${estimate.estimatedCost.toFixed(2)} exceeds the budget of ${config.maxEstimatedCost}`
+    );
+  }
+
+  const largeTableScans = estimate.scans
+    .filter(scan => /DASHt_/i.test(scan.table))
+    .filter(scan => (scan.tableCardinality ?? scan.estimatedRows) >= config.largeTableRows)
+    .map(scan => `${scan.operator} on ${scan.table}`);
+
+  if (largeTableScans.length > config.maxLargeTableScans) {
+    reasons.push(
+      `${largeTableScans.length} scans of large tables exceed the budget of ${config.maxLargeTableScans}: ${largeTableScans.join(', ')}`
+    );
+  }
+
+  return { reasons, largeTableScans };
+}
+
+/**
+ * Run the cost check for a query. Failures to obtain a plan never block the query;
+ * the decision is reported as 'skipped' with the error.
+ */
+export async function checkQueryCost(sql: string, config: CostGuardConfig = getCostGuardConfig()): Promise<CostGuardDecision> {
+  const startTime = Date.now();
+
+  if (config.mode === 'off') {
+    return { action: 'skipped', reasons: [], largeTableScans: [], checkMs: 0 };
+  }
+
+  try {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Plan estimate timed out after ${config.timeoutMs}ms`)), config.timeoutMs);
+    });
+    const planXml = await Promise.race([getEstimatedPlanXml(sql), timeout]).finally(() => clearTimeout(timer));
+
+    const estimate = parseShowplanXml(planXml);
+    const { reasons, largeTableScans } = evaluatePlanBudget(estimate, config);
+    const overBudget = reasons.length > 0;
+
+    return {
+      action: !overBudget ? 'allow' : config.mode === 'enforce' ? 'reject' : 'warn',
+      reasons,
+      estimate,
+      largeTableScans,
+      checkMs: Date.now() - startTime,
+    };
+  } catch (error: any) {
+    log(`Cost check skipped: ${error.message}`, 'cost-guard');
+    return {
+      action: 'skipped',
+      reasons: [],
+      largeTableScans: [],
+      error: error.message,
+      checkMs: Date.now() - startTime,
+    };
+  }
+}
+
+/**
+ * Reduce a decision to the fields kept in the query log
+ */
+export function summarizeCostDecision(decision: CostGuardDecision): CostCheckSummary {
+  return {
+    action: decision.action,
+    estimatedRows: decision.estimate?.estimatedRows,
+    estimatedCost: decision.estimate?.estimatedCost,
+    largeTableScans: decision.largeTableScans,
+    reasons: decision.error ? [decision.error] : decision.reasons,
+    checkMs: decision.checkMs,
+  };
+}
+
+/**
+ * Human-readable status message for the SSE status stage
+ */
+export function describeCostDecision(decision: CostGuardDecision): string {
+  switch (decision.action) {
+    case 'allow':
+      return 'Query cost within budget';
+    case 'warn':
+      return `Query may be expensive: ${decision.reasons.join('; ')}`;
+    case 'reject':
+      return `Query rejected by cost guard: ${decision.reasons.join('; ')}`;
+    default:
+      return 'Cost check skipped';
+  }
+}
@@ -1,11 +1,11 @@
 import crypto from 'crypto';
 import type { Request } from 'express';
-import fs from 'fs';
-import path from 'path';
-
-const FAQ_FILE = path.join(process.cwd(), 'data', 'popular-queries.json');
-const QUERY_LOG_FILE = path.join(process.cwd(), 'data', 'query-logs.json');
-const FEEDBACK_FILE = path.join(process.cwd(), 'data', 'feedback.json');
+import type { FeedbackTriageStatus, FeedbackTriageUpdate, QueryLogFilters } from '@shared/schema';
+import type { CostCheckSummary } from './query-cost-guard';
+import { buildLatencyAnalytics, type LatencyAnalytics } from './latency-stats';
+import { buildLlmUsageAnalytics, type LlmUsageAnalytics } from './llm-usage';
+import { initStorage, persist, persistInBackground } from './storage';
+import { log } from './log';
 
 interface QueryFrequencyData {
   count: number;
@@ -13,124 +13,181 @@ interface QueryFrequencyData {
   successful: boolean;
 }
 
-// Load FAQ data from file on startup
-function loadFAQData(): Map<string, QueryFrequencyData> {
-  try {
-    if (fs.existsSync(FAQ_FILE)) {
-      const data = JSON.parse(fs.readFileSync(FAQ_FILE, 'utf-8'));
-      return new Map(Object.entries(data));
-    }
-  } catch (err) {
-    console.error('Failed to load FAQ data:', err);
-  }
-  return new Map();
+export interface FeedbackTriage {
+  status: FeedbackTriageStatus;
+  notes?: string;
+  correctedSql?: string;
+  updatedBy?: string; // Admin username or user id
+  updatedAt?: string;
 }
 
-// Save FAQ data to file
-function saveFAQData(data: Map<string, QueryFrequencyData>): void {
-  try {
-    const dir = path.dirname(FAQ_FILE);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-    fs.writeFileSync(FAQ_FILE, JSON.stringify(Object.fromEntries(data), null, 2));
-  } catch (err) {
-    console.error('Failed to save FAQ data:', err);
+// Feedback entry interface
+export interface FeedbackEntry {
+  id?: number; // Store id, set once the entry has been saved
+  requestId?: string; // Query log entry this is about (missing on feedback from older versions)
+  userId?: string;
+  question: string;
+  sql: string;
+  feedback: 'up' | 'down';
+  timestamp: string;
+  comment?: string;
+  triage: FeedbackTriage;
+}
+
+// In-memory copies for the synchronous FAQ, feedback and analytics reads, loaded from the
+// data store at startup. Every change is also written to the store.
+const queryFrequency: Map<string, QueryFrequencyData> = new Map();
+const feedbackStore: FeedbackEntry[] = [];
+
+// The store keeps every query log; memory holds the recent window the analytics read
+const queryLogs: QueryLogEntry[] = [];
+const LOG_MEMORY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const MAX_MEMORY_LOG_ENTRIES = 20000;
+
+/**
+ * Load FAQ counts, feedback and the recent query logs from the data store. Called once at startup.
+ */
+export async function initQueryLogger(): Promise<void> {
+  const storage = await initStorage();
+  const [popular, feedback, logs] = await Promise.all([
+    storage.getPopularQueries(),
+    storage.getAllFeedback(),
+    storage.getQueryLogsSince(new Date(Date.now() - LOG_MEMORY_WINDOW_MS).toISOString(), MAX_MEMORY_LOG_ENTRIES),
+  ]);
+
+  queryFrequency.clear();
+  for (const entry of popular) {
+    queryFrequency.set(entry.question, { count: entry.count, lastUsed: entry.lastUsed, successful: true });
   }
+  feedbackStore.splice(0, feedbackStore.length, ...feedback);
+  queryLogs.splice(0, queryLogs.length, ...logs);
+  log(`[query-logger] Loaded ${queryFrequency.size} popular queries, ${feedbackStore.length} feedback entries and ${queryLogs.length} recent query logs`, 'storage');
 }
 
-// In-memory store for tracking query frequency (for FAQ feature) - loaded from file
-const queryFrequency: Map<string, QueryFrequencyData> = loadFAQData();
+/**
+ * Drop in-memory logs older than the window (they stay in the store)
+ */
+function trimQueryLogs(): void {
+  const cutoff = new Date(Date.now() - LOG_MEMORY_WINDOW_MS).toISOString();
+  let drop = Math.max(queryLogs.length - MAX_MEMORY_LOG_ENTRIES, 0);
+  while (drop < queryLogs.length && queryLogs[drop].timestamp < cutoff) drop++;
+  if (drop > 0) queryLogs.splice(0, drop);
+}
 
-// Feedback entry interface
-interface FeedbackEntry {
+export interface FeedbackInput {
   question: string;
   sql: string;
   feedback: 'up' | 'down';
-  timestamp: string;
   comment?: string;
+  requestId?: string;
 }
 
-// Load feedback from file on startup
-function loadFeedback(): FeedbackEntry[] {
-  try {
-    if (fs.existsSync(FEEDBACK_FILE)) {
-      const data = JSON.parse(fs.readFileSync(FEEDBACK_FILE, 'utf-8'));
-      console.log(`[query-logger] Loaded ${data.length} feedback entries from file`);
-      return data;
-    }
-  } catch (err) {
-    console.error('[query-logger] Failed to load feedback:', err);
-  }
-  return [];
+export interface FeedbackResult {
+  success: boolean;
+  entry?: FeedbackEntry;
+  error?: string;
+  status?: number; // HTTP status for failures
 }
 
-// Save feedback to file
-function saveFeedback(entries: FeedbackEntry[]): void {
-  try {
-    const dir = path.dirname(FEEDBACK_FILE);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-    fs.writeFileSync(FEEDBACK_FILE, JSON.stringify(entries, null, 2));
-  } catch (err) {
-    console.error('[query-logger] Failed to save feedback:', err);
+// Writes run in call order, so an update queued behind the insert sees the new id
+function saveFeedback(entry: FeedbackEntry, isNew: boolean): Promise<void> {
+  if (isNew) {
+    return persist('save feedback', async storage => {
+      entry.id = await storage.addFeedback(structuredClone(entry));
+    });
   }
+  const copy = structuredClone(entry);
+  return persist('update feedback', async storage => {
+    if (entry.id !== undefined) await storage.updateFeedback({ ...copy, id: entry.id });
+  });
 }
 
-// In-memory store for feedback (thumbs up/down) - loaded from file
-const feedbackStore: FeedbackEntry[] = loadFeedback();
-
-// Load query logs from file on startup
-function loadQueryLogs(): QueryLogEntry[] {
-  try {
-    if (fs.existsSync(QUERY_LOG_FILE)) {
-      const data = JSON.parse(fs.readFileSync(QUERY_LOG_FILE, 'utf-8'));
-      console.log(`[query-logger] Loaded ${data.length} query logs from file`);
-      return data;
+/**
+ * Store feedback for a query result. Feedback for a request ID replaces the caller's
+ * earlier rating of that request; the request must be the caller's own.
+ */
+export function storeFeedback(input: FeedbackInput, userId?: string): FeedbackResult {
+  if (input.requestId) {
+    const logEntry = findQueryLog(input.requestId);
+    if (logEntry?.userId && logEntry.userId !== userId) {
+      return { success: false, error: 'Feedback can only be given on your own queries', status: 403 };
+    }
+    const existing = feedbackStore.find(entry => entry.requestId === input.requestId && entry.userId === userId);
+    if (existing) {
+      existing.feedback = input.feedback;
+      existing.comment = input.comment;
+      existing.timestamp = new Date().toISOString();
+      saveFeedback(existing, false).catch(() => undefined); // Logged by persist
+      return { success: true, entry: existing };
     }
-  } catch (err) {
-    console.error('[query-logger] Failed to load query logs:', err);
   }
-  return [];
+
+  const entry: FeedbackEntry = {
+    requestId: input.requestId,
+    userId,
+    question: input.question,
+    sql: input.sql,
+    feedback: input.feedback,
+    timestamp: new Date().toISOString(),
+    comment: input.comment,
+    triage: { status: 'new' },
+  };
+  feedbackStore.push(entry);
+  saveFeedback(entry, true).catch(() => undefined); // Logged by persist
+  return { success: true, entry };
 }
 
-// Save query logs to file
-function saveQueryLogs(logs: QueryLogEntry[]): void {
-  try {
-    const dir = path.dirname(QUERY_LOG_FILE);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
+/**
+ * Feedback for the triage inbox, newest first
+ */
+export function getFeedbackInbox(filter: { status?: FeedbackTriageStatus; feedback?: 'up' | 'down'; limit?: number } = {}): {
+  entries: Array<FeedbackEntry & { queryLog?: QueryLogEntry }>;
+  counts: Record<FeedbackTriageStatus, number>;
+} {
+  const counts: Record<FeedbackTriageStatus, number> = { new: 0, investigating: 0, fixed: 0, wont_fix: 0 };
+  const matching: FeedbackEntry[] = [];
+  for (const entry of feedbackStore) {
+    if (filter.feedback && entry.feedback !== filter.feedback) continue;
+    counts[entry.triage.status]++;
+    if (entry.id !== undefined && (!filter.status || entry.triage.status === filter.status)) {
+      matching.push(entry);
     }
-    fs.writeFileSync(QUERY_LOG_FILE, JSON.stringify(logs, null, 2));
-  } catch (err) {
-    console.error('[query-logger] Failed to save query logs:', err);
   }
+
+  const entries = matching
+    .slice(-(filter.limit ?? 100))
+    .reverse()
+    .map(entry => ({ ...entry, queryLog: entry.requestId ? findQueryLog(entry.requestId) : undefined }));
+  return { entries, counts };
 }
 
-// In-memory store for detailed query logs (for analytics dashboard) - loaded from file
-const queryLogs: QueryLogEntry[] = loadQueryLogs();
-const MAX_LOG_ENTRIES = 500; // Keep last 500 entries
+export function getFeedbackEntry(id: number): FeedbackEntry | undefined {
+  return feedbackStore.find(entry => entry.id === id);
+}
 
 /**
- * Store feedback for a query result
+ * Set an admin's triage status, notes and corrected SQL on a feedback item. Resolves once
+ * the change is written; if the write fails, the previous triage is put back and it rejects.
  */
-export function storeFeedback(
-  question: string,
-  sql: string,
-  feedback: 'up' | 'down',
-  comment?: string
-): void {
-  feedbackStore.push({
-    question,
-    sql,
-    feedback,
-    timestamp: new Date().toISOString(),
-    comment,
-  });
-  
-  // Persist to file
-  saveFeedback(feedbackStore);
+export async function updateFeedbackTriage(id: number, update: FeedbackTriageUpdate, updatedBy: string | undefined): Promise<FeedbackEntry | undefined> {
+  const entry = getFeedbackEntry(id);
+  if (!entry) return undefined;
+  const previous = entry.triage;
+  entry.triage = {
+    status: update.status,
+    notes: update.notes?.trim() || undefined,
+    correctedSql: update.correctedSql?.trim() || undefined,
+    updatedBy,
+    updatedAt: new Date().toISOString(),
+  };
+  try {
+    await saveFeedback(entry, false);
+  } catch (error) {
+    entry.triage = previous;
+    throw error;
+  }
+  log(`[feedback] Feedback ${id} triaged as ${update.status}${updatedBy ? ` by ${updatedBy}` : ''}`, 'feedback');
+  return entry;
 }
 
 /**
@@ -180,21 +237,21 @@ export function trackQueryForFAQ(question: string, rowCount: number): void {
   
   const normalized = normalizeQuestion(question);
   const existing = queryFrequency.get(normalized);
+  const now = new Date().toISOString();
   
   if (existing) {
     existing.count += 1;
-    existing.lastUsed = new Date().toISOString();
+    existing.lastUsed = now;
     existing.successful = true;
   } else {
     queryFrequency.set(normalized, {
       count: 1,
-      lastUsed: new Date().toISOString(),
+      lastUsed: now,
       successful: true,
     });
   }
   
-  // Persist to file
-  saveFAQData(queryFrequency);
+  persistInBackground('save FAQ count', storage => storage.incrementPopularQuery(normalized, now));
 }
 
 /**
@@ -213,7 +270,7 @@ export function getPopularQuestions(limit: number = 10): { question: string; cou
   return entries;
 }
 
-interface QueryLogEntry {
+export interface QueryLogEntry {
   timestamp: string;
   requestId: string;
   route: string;
@@ -239,13 +296,25 @@ interface QueryLogEntry {
     stage: string;
     message: string;
   };
+  costCheck?: CostCheckSummary;
+  selectedTables?: string[]; // Tables the matrix classifier picked
+  confidence?: TableSelectionConfidence;
+  filters?: QueryLogFilters;
+  publishDate?: string; // Anchor date the question was asked with
 }
 
+export type TableSelectionConfidence = 'high' | 'medium' | 'low' | 'none';
+
 interface QueryLogContext {
   req: Request;
   question: string;
   startTime: number;
   requestId: string;
+  costCheck?: CostCheckSummary;
+  selectedTables?: string[];
+  confidence?: TableSelectionConfidence;
+  filters?: QueryLogFilters;
+  publishDate?: string;
 }
 
 interface QueryLogResult {
@@ -284,7 +353,7 @@ function hashSql(sql: string): string {
 }
 
 /**
- * Extract tenant/user context from request headers
+ * Extract tenant/user context from request headers and the verified identity
  */
 function extractContext(req: Request): {
   tenantId?: string;
@@ -303,8 +372,8 @@ function extractContext(req: Request): {
   if (req.headers['x-tenant-id']) {
     context.tenantId = req.headers['x-tenant-id'] as string;
   }
-  if (req.headers['x-user-id']) {
-    context.userId = req.headers['x-user-id'] as string;
+  if (req.identity) {
+    context.userId = req.identity.userId;
   }
   if (req.headers['x-customer-id']) {
     context.customerId = req.headers['x-customer-id'] as string;
@@ -351,15 +420,30 @@ function shouldLogSqlText(): boolean {
  * Create initial query log context at the start of a request
  * Generates a unique requestId that persists for the entire request lifecycle
  */
-export function createQueryLogContext(req: Request, question: string): QueryLogContext {
+export function createQueryLogContext(
+  req: Request,
+  question: string,
+  filters?: QueryLogFilters,
+  publishDate?: unknown,
+): QueryLogContext {
   return {
     req,
     question,
     startTime: Date.now(),
     requestId: generateRequestId(),
+    filters: filters ? normalizeFilters(filters) : undefined,
+    publishDate: typeof publishDate === 'string' && publishDate ? publishDate : undefined,
   };
 }
 
+/**
+ * Keep only the known filter fields, as strings, from request input
+ */
+function normalizeFilters(filters: QueryLogFilters): QueryLogFilters {
+  const value = (field: unknown) => (typeof field === 'string' && field ? field : null);
+  return { planningArea: value(filters.planningArea), scenarioId: value(filters.scenarioId), plant: value(filters.plant) };
+}
+
 /**
  * Log a query execution (success or failure)
  */
@@ -375,7 +459,7 @@ export function logQuery(context: QueryLogContext, result: QueryLogResult): void
   const logEntry: QueryLogEntry = {
     timestamp: new Date().toISOString(),
     requestId: context.requestId, // Use persistent requestId from context
-    route: '/api/ask',
+    route: context.req.path, // /api/ask or /api/ask/stream
     question: context.question,
     ...userContext,
     isMock: result.isMock || false,
@@ -390,6 +474,11 @@ export function logQuery(context: QueryLogContext, result: QueryLogResult): void
       sqlMs: result.sqlMs !== undefined ? result.sqlMs : null,
       totalMs,
     },
+    costCheck: context.costCheck,
+    selectedTables: context.selectedTables,
+    confidence: context.confidence,
+    filters: context.filters,
+    publishDate: context.publishDate,
   };
 
   // Handle SQL logging based on LOG_SQL_TEXT setting
@@ -415,14 +504,10 @@ export function logQuery(context: QueryLogContext, result: QueryLogResult): void
   // Output as single-line JSON for easy parsing
   console.log(JSON.stringify(logEntry));
   
-  // Store in memory for analytics (keep last MAX_LOG_ENTRIES)
+  // Keep in memory for analytics, and in the store for good
   queryLogs.push(logEntry);
-  if (queryLogs.length > MAX_LOG_ENTRIES) {
-    queryLogs.shift(); // Remove oldest entry
-  }
-  
-  // Persist to file
-  saveQueryLogs(queryLogs);
+  trimQueryLogs();
+  persistInBackground('save query log', storage => storage.addQueryLog(logEntry));
 }
 
 /**
@@ -466,6 +551,43 @@ export function logGenerationFailure(
   });
 }
 
+/**
+ * Attach the cost guard decision to the request so it is recorded with the log entry
+ */
+export function recordCostCheck(context: QueryLogContext, costCheck: CostCheckSummary): void {
+  context.costCheck = costCheck;
+}
+
+/**
+ * Attach the matrix classifier's table selection so latency can be broken down by it
+ */
+export function recordTableSelection(context: QueryLogContext, selectedTables: string[], confidence: TableSelectionConfidence): void {
+  context.selectedTables = selectedTables;
+  context.confidence = confidence;
+}
+
+/**
+ * Log a query rejected by the cost guard (estimated plan over budget)
+ */
+export function logCostRejection(
+  context: QueryLogContext,
+  generatedSql: string,
+  reason: string,
+  llmMs?: number
+): void {
+  logQuery(context, {
+    generatedSql,
+    validationOk: true,
+    rowCount: 0,
+    llmMs,
+    isMock: false,
+    error: {
+      stage: 'cost',
+      message: reason,
+    },
+  });
+}
+
 /**
  * Log a query execution failure (database error)
  */
@@ -509,7 +631,17 @@ export function logSuccess(
 }
 
 /**
- * Get analytics data for dashboard
+ * The in-memory log entry for a request ID (the last 7 days)
+ */
+export function findQueryLog(requestId: string): QueryLogEntry | undefined {
+  for (let i = queryLogs.length - 1; i >= 0; i--) {
+    if (queryLogs[i].requestId === requestId) return queryLogs[i];
+  }
+  return undefined;
+}
+
+/**
+ * Get analytics data for dashboard. The range is capped at the in-memory window (7 days).
  */
 export function getAnalytics(timeRangeMinutes: number = 60): {
   summary: {
@@ -525,14 +657,21 @@ export function getAnalytics(timeRangeMinutes: number = 60): {
   topErrors: Array<{ message: string; count: number; lastOccurred: string }>;
   recentQueries: Array<{
     timestamp: string;
+    requestId: string;
     question: string;
     success: boolean;
     latency: number;
     rowCount: number | null;
     error?: string;
   }>;
+  latency: LatencyAnalytics;
+  llmUsage: LlmUsageAnalytics;
 } {
-  const cutoffTime = new Date(Date.now() - timeRangeMinutes * 60 * 1000);
+  const rangeMinutes = Number.isFinite(timeRangeMinutes)
+    ? Math.min(Math.max(timeRangeMinutes, 1), LOG_MEMORY_WINDOW_MS / 60000)
+    : 60;
+  const now = Date.now();
+  const cutoffTime = new Date(now - rangeMinutes * 60 * 1000);
   const recentLogs = queryLogs.filter(log => new Date(log.timestamp) >= cutoffTime);
 
   // Summary statistics
@@ -606,6 +745,7 @@ export function getAnalytics(timeRangeMinutes: number = 60): {
   // Recent queries
   const recentQueries = recentLogs.slice(-20).reverse().map(log => ({
     timestamp: log.timestamp,
+    requestId: log.requestId,
     question: log.question,
     success: !log.error,
     latency: log.timings.totalMs,
@@ -626,6 +766,8 @@ export function getAnalytics(timeRangeMinutes: number = 60): {
     performanceOverTime,
     topErrors,
     recentQueries,
+    latency: buildLatencyAnalytics(recentLogs, rangeMinutes, now),
+    llmUsage: buildLlmUsageAnalytics(rangeMinutes, now),
   };
 }
 
@@ -634,6 +776,7 @@ export function getAnalytics(timeRangeMinutes: number = 60): {
  */
 export function getFailedQueries(limit: number = 50): Array<{
   timestamp: string;
+  requestId: string;
   question: string;
   generatedSql: string | null;
   errorStage: string;
@@ -646,6 +789,7 @@ export function getFailedQueries(limit: number = 50): Array<{
     .reverse()
     .map(log => ({
       timestamp: log.timestamp,
+      requestId: log.requestId,
       question: log.question,
       generatedSql: log.generatedSql,
       errorStage: log.error!.stage,
@@ -653,3 +797,24 @@ export function getFailedQueries(limit: number = 50): Array<{
       llmMs: log.timings.llmMs,
     }));
 }
+
+/**
+ * Get queries whose estimated plan went over the cost budget (warned or rejected)
+ */
+export function getExpensiveQueries(limit: number = 50): Array<{
+  timestamp: string;
+  question: string;
+  generatedSql: string | null;
+  costCheck: CostCheckSummary;
+}> {
+  return queryLogs
+    .filter(log => log.costCheck && (log.costCheck.action === 'warn' || log.costCheck.action === 'reject'))
+    .slice(-limit)
+    .reverse()
+    .map(log => ({
+      timestamp: log.timestamp,
+      question: log.question,
+      generatedSql: log.generatedSql,
+      costCheck: log.costCheck!,
+    }));
+}
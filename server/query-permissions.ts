@@ -1,6 +1,13 @@
-import { UserPermissions, TableAccess } from '@shared/schema';
+import { UserPermissions, TableAccess, TableAccessCategory, ColumnRule, EffectivePermissions, PermissionGroup, AccessRequestScope } from '@shared/schema';
 import { getUserPermissionsByUsername, getUserPermissions } from './permissions-storage';
-import { log } from './index';
+import { mergePermissions, resolveEffectivePermissions } from './effective-permissions';
+import { getValidatorPolicy } from './validator-policy';
+import { getTableAccessCategories, getTableAccessCategoryNames, getCategoriesForTable, getInaccessibleTables } from './table-access-categories';
+import { getTableColumnMapping, PermissionField } from './permission-columns';
+import { applyColumnRules, applyColumnMasking, ColumnMasking, MASKED_VALUE } from './column-permissions';
+import { collectTableReferences, parseSql, rewriteSql, walkSql, SelectStatement, SqlEdit, SqlStatement, TableReference } from './sql-parser';
+import type { Request } from 'express';
+import { log } from './log';
 
 export interface PermissionContext {
   userId?: string;
@@ -11,184 +18,177 @@ export interface PermissionEnforcementResult {
   allowed: boolean;
   modifiedSql?: string;
   blockedReason?: string;
+  blockedTable?: string; // Table the user has no table-access category for
+  accessScope?: AccessRequestScope; // What the user would need for the query, when it can be requested
   appliedFilters?: string[];
+  columnMasking?: ColumnMasking; // Result columns to mask or drop (see applyColumnMasking)
 }
 
-const SALES_REVENUE_TABLES = [
-  'DASHt_SalesOrders',
-  'DASHt_SalesOrderLines',
-  'DASHt_PurchaseOrders',
-  'DASHt_PurchaseOrderLines',
-];
-
-const PLANNING_AREA_COLUMN = 'PlanningAreaName';
-const SCENARIO_COLUMN = 'NewScenarioId';
-
-interface TableColumnMapping {
-  planningArea?: string;
-  scenario?: string;
-  plant?: string;
+interface RowFilter {
+  field: PermissionField;
+  values: string[]; // Empty = no rows allowed
+  label: string;
+  exclude?: boolean; // Rows must NOT match the values (denies on an unrestricted scope)
 }
 
-const TABLE_COLUMN_MAPPINGS: Record<string, TableColumnMapping> = {
-  'DASHt_Planning': { planningArea: 'PlanningAreaName', scenario: 'NewScenarioId', plant: 'BlockPlant' },
-  'DASHt_SalesOrders': { planningArea: 'PlanningAreaName', scenario: 'NewScenarioId' },
-  'DASHt_SalesOrderLines': { planningArea: 'PlanningAreaName', scenario: 'NewScenarioId' },
-  'DASHt_CapacityPlanning': { planningArea: 'PlanningAreaName', scenario: 'NewScenarioId', plant: 'PlantName' },
-  'DASHt_DispatchList': { planningArea: 'PlanningAreaName', scenario: 'NewScenarioId', plant: 'PlantName' },
-  'DASHt_Inventories': { planningArea: 'PlanningAreaName', scenario: 'NewScenarioId' },
-  'DASHt_ScheduleConformance': { planningArea: 'PlanningAreaName', plant: 'PlantName' },
-  'Jobs': { planningArea: 'PlanningAreaName', scenario: 'NewScenarioId', plant: 'Plant' },
+const FIELD_DESCRIPTIONS: Record<PermissionField, string> = {
+  planningArea: 'planning area',
+  scenario: 'scenario',
+  plant: 'plant',
 };
 
-function extractTableNames(sql: string): string[] {
-  const tablePattern = /(?:FROM|JOIN)\s+\[?publish\]?\.\[?(\w+)\]?/gi;
-  const tables: string[] = [];
-  let match;
-  while ((match = tablePattern.exec(sql)) !== null) {
-    tables.push(match[1]);
+/**
+ * The user's row restrictions from their effective permissions: allowed values, or
+ * denied values when the scope is otherwise unrestricted
+ */
+function getRowFilters(permissions: EffectivePermissions): RowFilter[] {
+  const scopes: Array<{ field: PermissionField; label: string; allowed: string[] | null; denied: string[] }> = [
+    { field: 'planningArea', label: 'PlanningArea', allowed: permissions.allowedPlanningAreas, denied: permissions.deniedPlanningAreas },
+    { field: 'scenario', label: 'Scenario', allowed: permissions.allowedScenarios, denied: permissions.deniedScenarios },
+    { field: 'plant', label: 'Plant', allowed: permissions.allowedPlants, denied: permissions.deniedPlants },
+  ];
+
+  const filters: RowFilter[] = [];
+  for (const { field, label, allowed, denied } of scopes) {
+    if (allowed !== null) {
+      filters.push({ field, values: allowed, label });
+    } else if (denied.length > 0) {
+      filters.push({ field, values: denied, label, exclude: true });
+    }
   }
-  return Array.from(new Set(tables));
+  return filters;
 }
 
-function getPlantColumnForTables(tables: string[]): string | null {
-  for (const table of tables) {
-    const mapping = TABLE_COLUMN_MAPPINGS[table];
-    if (mapping?.plant) {
-      return mapping.plant;
-    }
-  }
-  return null;
+/**
+ * Whether a reference points at a publish table that filters apply to (CTE references excluded)
+ */
+function isPublishTable(table: TableReference): boolean {
+  return !table.isCte && (!table.schema || table.schema.toLowerCase() === 'publish');
 }
 
-function hasColumnInTables(columnName: string, tables: string[]): boolean {
-  const columnsPerTable: Record<string, string[]> = {
-    'DASHt_Planning': ['PlanningAreaName', 'NewScenarioId', 'BlockPlant', 'ScenarioType'],
-    'DASHt_SalesOrders': ['PlanningAreaName', 'NewScenarioId', 'ScenarioType'],
-    'DASHt_SalesOrderLines': ['PlanningAreaName', 'NewScenarioId'],
-    'DASHt_CapacityPlanning': ['PlanningAreaName', 'NewScenarioId', 'PlantName'],
-    'DASHt_DispatchList': ['PlanningAreaName', 'NewScenarioId', 'PlantName'],
-    'DASHt_Inventories': ['PlanningAreaName', 'NewScenarioId'],
-    'DASHt_ScheduleConformance': ['PlanningAreaName', 'PlantName'],
-    'Jobs': ['PlanningAreaName', 'NewScenarioId', 'Plant', 'ScenarioType'],
-  };
+function quoteIdentifier(name: string): string {
+  return `[${name.replace(/]/g, ']]')}]`;
+}
+
+interface FilterTracking {
+  applied: Set<string>;
+  notApplied: Map<string, Set<string>>; // Filter label -> tables without a column for it
+}
 
-  for (const table of tables) {
-    const tableColumns = columnsPerTable[table];
-    if (tableColumns && tableColumns.includes(columnName)) {
-      return true;
+/**
+ * Predicates restricting one table reference, qualified by its alias (or its name as written).
+ * Filters the table has no column for are recorded as not applied.
+ */
+function buildTablePredicates(table: TableReference, rowFilters: RowFilter[], tracking: FilterTracking): string[] {
+  if (!isPublishTable(table)) return [];
+
+  const mapping = getTableColumnMapping(table.name) || {};
+  const qualifier = table.alias ? quoteIdentifier(table.alias) : table.text;
+  const predicates: string[] = [];
+  for (const filter of rowFilters) {
+    const column = mapping[filter.field];
+    if (!column) {
+      if (!tracking.notApplied.has(filter.label)) tracking.notApplied.set(filter.label, new Set());
+      tracking.notApplied.get(filter.label)!.add(table.name);
+      continue;
+    }
+    if (filter.values.length === 0) {
+      predicates.push('1 = 0');
+      tracking.applied.add(`${filter.label}: none`);
+      continue;
     }
+    const values = filter.values.map(v => `'${v.replace(/'/g, "''")}'`).join(', ');
+    const operator = filter.exclude ? 'NOT IN' : 'IN';
+    predicates.push(`${qualifier}.${quoteIdentifier(column)} ${operator} (${values})`);
+    tracking.applied.add(`${filter.label}: ${filter.exclude ? 'not ' : ''}${filter.values.join(', ')}`);
   }
-  return false;
+  return predicates;
 }
 
-function getTableAlias(sql: string, tableName: string): string | null {
-  const aliasPattern = new RegExp(
-    `(?:FROM|JOIN)\\s+\\[?publish\\]?\\.\\[?${tableName}\\]?(?:\\s+(?:AS\\s+)?(\\w+))?`,
-    'i'
-  );
-  const match = sql.match(aliasPattern);
-  if (match && match[1]) {
-    return match[1];
+/**
+ * Add filters to every publish table reference in the query - FROM, each JOIN, CTE
+ * bodies, derived tables and subqueries. Each SELECT gets the predicates for its own
+ * tables: LEFT JOIN tables in their ON clause (so the outer join still returns unmatched
+ * rows), every other reference in that SELECT's WHERE clause. Tables without a column
+ * for a filter are listed in appliedFilters as not filtered.
+ * Throws SqlSyntaxError if the SQL can't be parsed.
+ */
+function applyTableFilters(sql: string, rowFilters: RowFilter[]): { modifiedSql: string; appliedFilters: string[] } {
+  if (rowFilters.length === 0) {
+    return { modifiedSql: sql, appliedFilters: [] };
   }
-  return null;
-}
 
-function buildFilterClause(
-  permissions: UserPermissions,
-  tables: string[],
-  sql: string
-): { clause: string; appliedFilters: string[] } {
-  const conditions: string[] = [];
-  const appliedFilters: string[] = [];
-
-  if (permissions.allowedPlanningAreas && permissions.allowedPlanningAreas.length > 0) {
-    if (hasColumnInTables(PLANNING_AREA_COLUMN, tables)) {
-      const values = permissions.allowedPlanningAreas.map(v => `'${v.replace(/'/g, "''")}'`).join(', ');
-      const mainTable = tables.find(t => 
-        ['DASHt_Planning', 'DASHt_CapacityPlanning', 'DASHt_SalesOrders', 'DASHt_DispatchList', 'DASHt_Inventories', 'DASHt_ScheduleConformance', 'Jobs'].includes(t)
-      );
-      if (mainTable) {
-        const alias = getTableAlias(sql, mainTable);
-        const prefix = alias || `[publish].[${mainTable}]`;
-        conditions.push(`${prefix}.${PLANNING_AREA_COLUMN} IN (${values})`);
-        appliedFilters.push(`PlanningArea: ${permissions.allowedPlanningAreas.join(', ')}`);
+  const statement = parseSql(sql);
+  const edits: SqlEdit[] = [];
+  const tracking: FilterTracking = { applied: new Set(), notApplied: new Map() };
+
+  walkSql(statement, {
+    select: (select: SelectStatement) => {
+      if (!select.from) return;
+
+      const wherePredicates: string[] = [];
+      if (select.from.source.kind === 'table') {
+        wherePredicates.push(...buildTablePredicates(select.from.source, rowFilters, tracking));
       }
-    }
-  }
 
-  if (permissions.allowedScenarios && permissions.allowedScenarios.length > 0) {
-    if (hasColumnInTables(SCENARIO_COLUMN, tables)) {
-      const values = permissions.allowedScenarios.map(v => `'${v.replace(/'/g, "''")}'`).join(', ');
-      const mainTable = tables.find(t => 
-        ['DASHt_Planning', 'DASHt_CapacityPlanning', 'DASHt_SalesOrders', 'DASHt_SalesOrderLines', 'DASHt_DispatchList', 'DASHt_Inventories', 'Jobs'].includes(t)
-      );
-      if (mainTable) {
-        const alias = getTableAlias(sql, mainTable);
-        const prefix = alias || `[publish].[${mainTable}]`;
-        conditions.push(`${prefix}.${SCENARIO_COLUMN} IN (${values})`);
-        appliedFilters.push(`Scenario: ${permissions.allowedScenarios.join(', ')}`);
+      for (const join of select.from.joins) {
+        if (join.source.kind !== 'table') continue;
+        const predicates = buildTablePredicates(join.source, rowFilters, tracking);
+        if (predicates.length === 0) continue;
+
+        if (join.type === 'LEFT' && join.on) {
+          edits.push({ start: join.on.start, end: join.on.start, text: '(' });
+          edits.push({ start: join.on.end, end: join.on.end, text: `) AND ${predicates.join(' AND ')}` });
+        } else {
+          wherePredicates.push(...predicates);
+        }
       }
-    }
-  }
 
-  if (permissions.allowedPlants && permissions.allowedPlants.length > 0) {
-    const plantColumn = getPlantColumnForTables(tables);
-    if (plantColumn) {
-      const values = permissions.allowedPlants.map(v => `'${v.replace(/'/g, "''")}'`).join(', ');
-      const mainTable = tables.find(t => 
-        ['DASHt_Planning', 'DASHt_CapacityPlanning', 'DASHt_DispatchList', 'DASHt_ScheduleConformance', 'Jobs'].includes(t)
-      );
-      if (mainTable) {
-        const alias = getTableAlias(sql, mainTable);
-        const prefix = alias || `[publish].[${mainTable}]`;
-        conditions.push(`${prefix}.${plantColumn} IN (${values})`);
-        appliedFilters.push(`Plant: ${permissions.allowedPlants.join(', ')}`);
+      if (wherePredicates.length === 0) return;
+      const clause = wherePredicates.join(' AND ');
+      if (select.where) {
+        edits.push({ start: select.where.start, end: select.where.start, text: '(' });
+        edits.push({ start: select.where.end, end: select.where.end, text: `) AND ${clause}` });
+      } else {
+        edits.push({ start: select.from.end, end: select.from.end, text: ` WHERE ${clause}` });
       }
+    },
+  });
+
+  const appliedFilters = Array.from(tracking.applied);
+  for (const filter of rowFilters) {
+    const tables = tracking.notApplied.get(filter.label);
+    if (tables) {
+      appliedFilters.push(
+        `${filter.label} filter not applied to ${Array.from(tables).join(', ')} (no ${FIELD_DESCRIPTIONS[filter.field]} column)`
+      );
     }
   }
 
-  return {
-    clause: conditions.length > 0 ? conditions.join(' AND ') : '',
-    appliedFilters,
-  };
+  return { modifiedSql: rewriteSql(sql, edits), appliedFilters };
 }
 
-function injectWhereClause(sql: string, filterClause: string): string {
-  if (!filterClause) return sql;
-
-  // Use regex to handle multi-line SQL with various whitespace
-  const whereMatch = sql.match(/\bWHERE\b/i);
-  const groupByMatch = sql.match(/\bGROUP\s+BY\b/i);
-  const orderByMatch = sql.match(/\bORDER\s+BY\b/i);
-  const havingMatch = sql.match(/\bHAVING\b/i);
-
-  // If WHERE exists, add to it
-  if (whereMatch && whereMatch.index !== undefined) {
-    const insertPosition = whereMatch.index + whereMatch[0].length;
-    return sql.slice(0, insertPosition) + ` (${filterClause}) AND` + sql.slice(insertPosition);
-  }
-
-  // Find the earliest clause after FROM where we need to insert WHERE
-  let insertBefore = sql.length;
-  if (groupByMatch && groupByMatch.index !== undefined) {
-    insertBefore = Math.min(insertBefore, groupByMatch.index);
-  }
-  if (orderByMatch && orderByMatch.index !== undefined) {
-    insertBefore = Math.min(insertBefore, orderByMatch.index);
-  }
-  if (havingMatch && havingMatch.index !== undefined) {
-    insertBefore = Math.min(insertBefore, havingMatch.index);
-  }
-
-  // Insert WHERE clause before GROUP BY/ORDER BY/HAVING or at the end
-  return sql.slice(0, insertBefore).trimEnd() + ` WHERE ${filterClause} ` + sql.slice(insertBefore);
+/**
+ * Add the user's planning-area, scenario and plant restrictions to every publish table
+ * reference in the query (see applyTableFilters).
+ * Throws SqlSyntaxError if the SQL can't be parsed.
+ */
+export function applyRowLevelSecurity(
+  sql: string,
+  permissions: EffectivePermissions
+): { modifiedSql: string; appliedFilters: string[] } {
+  return applyTableFilters(sql, getRowFilters(permissions));
 }
 
+/**
+ * Check the query's tables against the user's table-access categories. A table in one or
+ * more categories needs at least one of them; uncategorized tables are always allowed.
+ */
 export function checkTableAccess(
   permissions: UserPermissions | null,
-  tables: string[]
-): { allowed: boolean; blockedTable?: string } {
+  tables: string[],
+  categories: TableAccessCategory[] = getTableAccessCategories()
+): { allowed: boolean; blockedTable?: string; requiredCategories?: string[] } {
   if (!permissions) {
     return { allowed: true };
   }
@@ -197,42 +197,58 @@ export function checkTableAccess(
     return { allowed: true };
   }
 
-  if (permissions.allowedTableAccess === null) {
+  const inaccessible = new Set(getInaccessibleTables(permissions.allowedTableAccess, categories).map(t => t.toLowerCase()));
+  const blockedTable = tables.find(table => inaccessible.has(table.toLowerCase()));
+  if (!blockedTable) {
     return { allowed: true };
   }
 
-  const salesRevenueTablesInQuery = tables.filter(t => 
-    SALES_REVENUE_TABLES.some(srt => srt.toLowerCase() === t.toLowerCase())
-  );
-
-  if (salesRevenueTablesInQuery.length === 0) {
-    return { allowed: true };
-  }
+  return {
+    allowed: false,
+    blockedTable,
+    requiredCategories: getCategoriesForTable(blockedTable, categories).map(category => category.name),
+  };
+}
 
-  const hasSalesAccess = permissions.allowedTableAccess.includes('Sales');
-  const hasRevenueAccess = permissions.allowedTableAccess.includes('Revenue');
+/**
+ * Categorized tables the requesting user can't query, so SQL generation can leave them out
+ */
+export function getInaccessibleTablesForContext(context: PermissionContext): string[] {
+  const permissions = findPermissions(context);
+  if (!permissions || permissions.isAdmin) return [];
+  return getInaccessibleTables(permissions.allowedTableAccess);
+}
 
-  if (!hasSalesAccess && !hasRevenueAccess) {
-    return { 
-      allowed: false, 
-      blockedTable: salesRevenueTablesInQuery[0] 
-    };
+/**
+ * Effective permissions (own plus group scopes) of the requesting user
+ */
+export function findPermissions(context: PermissionContext): EffectivePermissions | undefined {
+  // Identities are verified, so the username is a safe fallback when the parent app's
+  // user id isn't the one in the stored permissions
+  let permissions: UserPermissions | undefined;
+  if (context.userId) {
+    permissions = getUserPermissions(context.userId);
+  }
+  if (!permissions && context.username) {
+    permissions = getUserPermissionsByUsername(context.username);
   }
+  return permissions ? resolveEffectivePermissions(permissions) : undefined;
+}
 
-  return { allowed: true };
+/**
+ * Column rules that apply to a user (none for admins and users without permissions)
+ */
+export function getColumnRules(context: PermissionContext): ColumnRule[] {
+  const permissions = findPermissions(context);
+  if (!permissions || permissions.isAdmin) return [];
+  return permissions.columnRules || [];
 }
 
 export function enforcePermissions(
   sql: string,
   context: PermissionContext
 ): PermissionEnforcementResult {
-  let permissions: UserPermissions | undefined;
-
-  if (context.userId) {
-    permissions = getUserPermissions(context.userId);
-  } else if (context.username) {
-    permissions = getUserPermissionsByUsername(context.username);
-  }
+  const permissions = findPermissions(context);
 
   if (!permissions) {
     log(`[permissions] No permissions found for context, allowing query`, 'permissions');
@@ -244,7 +260,18 @@ export function enforcePermissions(
     return { allowed: true, modifiedSql: sql, appliedFilters: [] };
   }
 
-  const tables = extractTableNames(sql);
+  let statement: SqlStatement;
+  try {
+    statement = parseSql(sql);
+  } catch (error: any) {
+    // Fail closed: restrictions can't be applied to SQL that doesn't parse
+    log(`[permissions] Could not parse SQL for ${permissions.username}: ${error.message}`, 'permissions');
+    return { allowed: false, blockedReason: 'Unable to apply your data permissions to this query.' };
+  }
+
+  const tables = Array.from(new Set(
+    collectTableReferences(statement).filter(table => !table.isCte).map(table => table.name)
+  ));
   log(`[permissions] Tables in query: ${tables.join(', ')}`, 'permissions');
 
   const tableAccess = checkTableAccess(permissions, tables);
@@ -252,27 +279,57 @@ export function enforcePermissions(
     log(`[permissions] User ${permissions.username} blocked from table ${tableAccess.blockedTable}`, 'permissions');
     return {
       allowed: false,
-      blockedReason: `You don't have access to sales/revenue data. Please contact your administrator.`,
+      blockedReason: `You don't have access to ${tableAccess.requiredCategories!.join(' or ')} data. Please contact your administrator.`,
+      blockedTable: tableAccess.blockedTable,
+      accessScope: { type: 'tableAccess', table: tableAccess.blockedTable!, categories: tableAccess.requiredCategories! },
+    };
+  }
+
+  const columnResult = applyColumnRules(sql, permissions.columnRules, statement);
+  if (!columnResult.allowed) {
+    log(`[permissions] User ${permissions.username} blocked by column rules: ${columnResult.blockedReason}`, 'permissions');
+    return {
+      allowed: false,
+      blockedReason: columnResult.blockedReason,
+      accessScope: columnResult.blockedColumn && { type: 'column', ...columnResult.blockedColumn },
     };
   }
+  const columnSql = columnResult.modifiedSql || sql;
+  const columnMasking = columnResult.masking;
+
+  const { modifiedSql, appliedFilters } = applyRowLevelSecurity(columnSql, permissions);
 
-  const { clause, appliedFilters } = buildFilterClause(permissions, tables, sql);
-  
-  if (clause) {
-    const modifiedSql = injectWhereClause(sql, clause);
+  if (appliedFilters.length > 0 || columnSql !== sql) {
     log(`[permissions] Applied filters for ${permissions.username}: ${appliedFilters.join('; ')}`, 'permissions');
     log(`[permissions] Modified SQL: ${modifiedSql}`, 'permissions');
-    return { allowed: true, modifiedSql, appliedFilters };
   }
 
-  return { allowed: true, modifiedSql: sql, appliedFilters: [] };
+  return { allowed: true, modifiedSql, appliedFilters, columnMasking };
+}
+
+/**
+ * Row limit (page size) for a user: their own maxRows if set, otherwise the policy
+ * limit for their role (adminMaxRows for admins, maxRows for everyone else)
+ */
+export function getRowLimit(context: PermissionContext): number {
+  const policy = getValidatorPolicy();
+  const permissions = findPermissions(context);
+
+  if (permissions?.maxRows) {
+    return permissions.maxRows;
+  }
+  if (permissions?.isAdmin) {
+    return policy.adminMaxRows ?? policy.maxRows;
+  }
+  return policy.maxRows;
 }
 
-export function getPermissionsForRequest(req: any): PermissionContext {
-  const userId = req.headers['x-user-id'] as string | undefined || req.query?.userId as string | undefined;
-  const username = req.headers['x-username'] as string | undefined || req.query?.username as string | undefined;
-  
-  return { userId, username };
+/**
+ * Permission context from the verified identity (see auth.ts). Identity headers and
+ * query-string user ids are ignored.
+ */
+export function getPermissionsForRequest(req: Request): PermissionContext {
+  return { userId: req.identity?.userId, username: req.identity?.username };
 }
 
 export interface GlobalFilters {
@@ -282,48 +339,326 @@ export interface GlobalFilters {
   plant?: string | null;
 }
 
+/**
+ * Apply the user-selected dropdown filters to every publish table reference, the same
+ * way as row-level security. Unparseable SQL is returned unchanged.
+ */
 export function applyGlobalFilters(
   sql: string,
   filters: GlobalFilters
 ): { modifiedSql: string; appliedFilters: string[] } {
-  const tables = extractTableNames(sql);
-  const conditions: string[] = [];
-  const appliedFilters: string[] = [];
-
+  const rowFilters: RowFilter[] = [];
   if (filters.planningArea && filters.planningArea !== 'All Planning Areas') {
-    if (hasColumnInTables(PLANNING_AREA_COLUMN, tables)) {
-      const value = filters.planningArea.replace(/'/g, "''");
-      conditions.push(`${PLANNING_AREA_COLUMN} = '${value}'`);
-      appliedFilters.push(`Planning Area: ${filters.planningArea}`);
-    }
+    rowFilters.push({ field: 'planningArea', values: [filters.planningArea], label: 'Planning Area' });
   }
-
   if (filters.scenarioId) {
-    if (hasColumnInTables(SCENARIO_COLUMN, tables)) {
-      const value = filters.scenarioId.replace(/'/g, "''");
-      conditions.push(`${SCENARIO_COLUMN} = '${value}'`);
-      appliedFilters.push(`Scenario ID: ${filters.scenarioId}`);
+    rowFilters.push({ field: 'scenario', values: [filters.scenarioId], label: 'Scenario ID' });
+  }
+  if (filters.plant && filters.plant !== 'All Plants') {
+    rowFilters.push({ field: 'plant', values: [filters.plant], label: 'Plant' });
+  }
+
+  if (rowFilters.length === 0) {
+    return { modifiedSql: sql, appliedFilters: [] };
+  }
+
+  try {
+    const { modifiedSql, appliedFilters } = applyTableFilters(sql, rowFilters);
+    log(`[global-filters] Applied: ${appliedFilters.join('; ')}`, 'permissions');
+    log(`[global-filters] Modified SQL: ${modifiedSql}`, 'permissions');
+    return { modifiedSql, appliedFilters };
+  } catch (error: any) {
+    log(`[global-filters] Could not parse SQL, filters not applied: ${error.message}`, 'permissions');
+    return { modifiedSql: sql, appliedFilters: [] };
+  }
+}
+
+/**
+ * Self-check for row-level security: every publish table reference in multi-join,
+ * subquery and CTE SQL must get its own alias-qualified predicate, tables without a
+ * filter column must be reported, column rules must hide or mask restricted columns,
+ * group scopes must merge as a union with denies winning, and categorized tables must
+ * need one of their table-access categories
+ */
+export function runPermissionSelfCheck(): { passed: boolean; results: string[] } {
+  const results: string[] = [];
+  let passed = true;
+
+  const now = new Date().toISOString();
+  const restrictedUser: UserPermissions = {
+    userId: 'self-check',
+    username: 'self-check',
+    isAdmin: false,
+    allowedPlanningAreas: ['North'],
+    allowedScenarios: null,
+    allowedPlants: ['Plant A'],
+    allowedTableAccess: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const restricted = mergePermissions(restrictedUser, []);
+
+  const check = (name: string, sql: string, expected: string[], unexpected: string[] = []) => {
+    try {
+      const { modifiedSql } = applyRowLevelSecurity(sql, restricted);
+      const missing = expected.filter(fragment => !modifiedSql.includes(fragment));
+      const present = unexpected.filter(fragment => modifiedSql.includes(fragment));
+      parseSql(modifiedSql); // Rewritten SQL must still parse
+      if (missing.length === 0 && present.length === 0) {
+        results.push(`✅ PASS: ${name}`);
+      } else {
+        results.push(`❌ FAIL: ${name}: ${modifiedSql}`);
+        passed = false;
+      }
+    } catch (error: any) {
+      results.push(`❌ FAIL: ${name}: ${error.message}`);
+      passed = false;
     }
+  };
+
+  // Test 1: Both sides of an INNER JOIN are filtered by their aliases
+  check(
+    'INNER JOIN filters both protected tables',
+    'SELECT p.JobName, c.PlantName FROM [publish].[DASHt_Planning] p INNER JOIN [publish].[DASHt_CapacityPlanning_ResourceDemand] c ON p.ResourceId = c.ResourceId',
+    ["WHERE [p].[PlanningAreaName] IN ('North') AND [p].[BlockPlant] IN ('Plant A') AND [c].[PlanningAreaName] IN ('North') AND [c].[PlantName] IN ('Plant A')"]
+  );
+
+  // Test 2: LEFT JOIN tables are filtered in their ON clause, the FROM table in WHERE
+  check(
+    'LEFT JOIN table filtered in ON, FROM table in WHERE',
+    'SELECT p.JobName, d.Activity FROM [publish].[DASHt_Planning] AS p LEFT JOIN [publish].[DASHt_Resources] AS d ON d.JobId = p.JobId WHERE p.IsLate = 1 OR p.IsOverdue = 1',
+    [
+      "ON (d.JobId = p.JobId) AND [d].[PlanningAreaName] IN ('North') AND [d].[PlantName] IN ('Plant A')",
+      "WHERE (p.IsLate = 1 OR p.IsOverdue = 1) AND [p].[PlanningAreaName] IN ('North')",
+    ]
+  );
+
+  // Test 3: Three-way join with a table that has no filter columns - only the others are filtered
+  check(
+    'Three-way join filters each table with filter columns',
+    'SELECT j.JobName FROM [publish].[DASHt_Planning] j JOIN [publish].[Jobs] r ON r.JobId = j.JobId JOIN [publish].[DASHt_Inventories] i ON i.ItemId = j.ItemId',
+    ["[j].[PlanningAreaName] IN ('North') AND [j].[BlockPlant] IN ('Plant A') AND [i].[PlanningAreaName] IN ('North') AND [i].[PlantName] IN ('Plant A')"],
+    ['[r].']
+  );
+
+  // Test 4: Subqueries in WHERE and derived tables get their own predicates
+  check(
+    'Subquery and derived table references are filtered',
+    'SELECT x.JobName FROM (SELECT JobName, JobId FROM [publish].[DASHt_Planning]) x WHERE x.JobId IN (SELECT JobId FROM [publish].[DASHt_SalesOrders] so WHERE so.Qty > 0)',
+    [
+      "FROM [publish].[DASHt_Planning] WHERE [publish].[DASHt_Planning].[PlanningAreaName] IN ('North')",
+      "WHERE (so.Qty > 0) AND [so].[PlanningAreaName] IN ('North'))",
+    ]
+  );
+
+  // Test 5: CTE bodies are filtered; references to the CTE name are not
+  check(
+    'CTE body filtered, CTE reference left alone',
+    'WITH late AS (SELECT JobName, ResourceId FROM [publish].[DASHt_Planning] WHERE IsLate = 1) SELECT l.JobName, c.PlantName FROM late l JOIN [publish].[DASHt_CapacityPlanning_ResourceDemand] c ON c.ResourceId = l.ResourceId GROUP BY l.JobName, c.PlantName',
+    [
+      "WHERE (IsLate = 1) AND [publish].[DASHt_Planning].[PlanningAreaName] IN ('North')",
+      "ON c.ResourceId = l.ResourceId WHERE [c].[PlanningAreaName] IN ('North') AND [c].[PlantName] IN ('Plant A') GROUP BY",
+    ],
+    ['[l].']
+  );
+
+  // Test 6: Each branch of a UNION is filtered
+  check(
+    'Every UNION branch filtered',
+    'SELECT JobName FROM [publish].[DASHt_Planning] a UNION SELECT JobName FROM [publish].[DASHt_Planning] b',
+    ["[a].[PlanningAreaName] IN ('North')", "[b].[PlanningAreaName] IN ('North')"]
+  );
+
+  // Test 7: Values are escaped
+  const quoted = mergePermissions({ ...restrictedUser, allowedPlanningAreas: ["O'Brien"], allowedPlants: null }, []);
+  const test7 = applyRowLevelSecurity('SELECT JobName FROM [publish].[DASHt_Planning]', quoted);
+  if (test7.modifiedSql.includes("IN ('O''Brien')")) {
+    results.push('✅ PASS: Filter values are escaped');
+  } else {
+    results.push(`❌ FAIL: Filter values not escaped: ${test7.modifiedSql}`);
+    passed = false;
   }
 
-  if (filters.plant && filters.plant !== 'All Plants') {
-    const plantColumn = getPlantColumnForTables(tables);
-    if (plantColumn) {
-      const value = filters.plant.replace(/'/g, "''");
-      conditions.push(`${plantColumn} = '${value}'`);
-      appliedFilters.push(`Plant: ${filters.plant}`);
+  // Test 8: Tables without a column for a filter are reported, not silently skipped
+  const test8 = applyRowLevelSecurity('SELECT MaterialName FROM [publish].[DASHt_Materials] m', restricted);
+  if (
+    test8.modifiedSql.includes("[m].[PlanningAreaName] IN ('North')") &&
+    test8.appliedFilters.includes('Plant filter not applied to DASHt_Materials (no plant column)')
+  ) {
+    results.push('✅ PASS: Missing filter columns reported in appliedFilters');
+  } else {
+    results.push(`❌ FAIL: Missing filter column not reported: ${JSON.stringify(test8.appliedFilters)}`);
+    passed = false;
+  }
+
+  // Column rules: hidden columns block the query, masked columns are replaced with NULL
+  const columnRules: ColumnRule[] = [
+    { table: 'DASHt_SalesOrders', column: 'CustomerName', action: 'hide' },
+    { table: 'DASHt_SalesOrders', column: 'UnitPrice', action: 'mask' },
+    { table: '*', column: 'TotalCost', action: 'mask' },
+  ];
+  const checkColumns = (name: string, sql: string, expectAllowed: boolean, expected: string[] = []) => {
+    try {
+      const result = applyColumnRules(sql, columnRules);
+      const missing = expected.filter(fragment => !(result.modifiedSql || '').includes(fragment));
+      if (result.allowed === expectAllowed && missing.length === 0) {
+        results.push(`✅ PASS: ${name}`);
+      } else {
+        results.push(`❌ FAIL: ${name}: ${result.blockedReason || result.modifiedSql}`);
+        passed = false;
+      }
+    } catch (error: any) {
+      results.push(`❌ FAIL: ${name}: ${error.message}`);
+      passed = false;
     }
+  };
+
+  // Test 9: A hidden column can't be selected, even through an alias
+  checkColumns(
+    'Hidden column blocks the query',
+    'SELECT so.CustomerName AS Name, so.SalesOrderName FROM [publish].[DASHt_SalesOrders] so',
+    false
+  );
+
+  // Test 10: A masked column is selected as NULL under its own name
+  checkColumns(
+    'Masked columns in the select list are nulled',
+    'SELECT so.SalesOrderName, so.UnitPrice, SUM(p.TotalCost) AS Cost FROM [publish].[DASHt_SalesOrders] so JOIN [publish].[DASHt_Planning] p ON p.JobName = so.SalesOrderName GROUP BY so.SalesOrderName',
+    true,
+    ['SELECT so.SalesOrderName, NULL AS [UnitPrice], NULL AS Cost FROM']
+  );
+
+  // Test 11: Masked columns can't be filtered, grouped or sorted on
+  checkColumns(
+    'Masked column in GROUP BY blocks the query',
+    'SELECT so.SalesOrderName, so.UnitPrice FROM [publish].[DASHt_SalesOrders] so GROUP BY so.SalesOrderName, so.UnitPrice',
+    false
+  );
+  checkColumns(
+    'Masked column in WHERE blocks the query',
+    'SELECT SalesOrderName FROM [publish].[DASHt_SalesOrders] WHERE UnitPrice > 100',
+    false
+  );
+  checkColumns(
+    'Masked column in ORDER BY blocks the query',
+    'SELECT TOP (10) SalesOrderName FROM [publish].[DASHt_SalesOrders] ORDER BY UnitPrice DESC',
+    false
+  );
+
+  // Test 12: SELECT * over a table with column rules is blocked; other tables are unaffected
+  checkColumns('SELECT * on a restricted table blocks the query', 'SELECT * FROM [publish].[DASHt_SalesOrders]', false);
+  checkColumns('Unrestricted table left alone', 'SELECT * FROM [publish].[DASHt_Resources]', true, ['SELECT * FROM [publish].[DASHt_Resources]']);
+
+  // Test 13: Rows are masked and hidden columns dropped by name
+  const maskedRows = applyColumnMasking(
+    [{ SalesOrderName: 'SO-1', UnitPrice: null, CustomerName: 'Acme' }],
+    { masked: ['UnitPrice'], hidden: ['CustomerName'] }
+  );
+  if (maskedRows[0].UnitPrice === MASKED_VALUE && !('CustomerName' in maskedRows[0]) && maskedRows[0].SalesOrderName === 'SO-1') {
+    results.push('✅ PASS: Result rows masked');
+  } else {
+    results.push(`❌ FAIL: Result rows not masked: ${JSON.stringify(maskedRows)}`);
+    passed = false;
   }
 
-  if (conditions.length === 0) {
-    return { modifiedSql: sql, appliedFilters: [] };
+  // Group inheritance: allowed values are unioned, denies win
+  const group = (groupId: string, scope: Partial<PermissionGroup>): PermissionGroup => ({
+    groupId,
+    name: groupId,
+    allowedPlanningAreas: null,
+    allowedScenarios: null,
+    allowedPlants: null,
+    allowedTableAccess: null,
+    createdAt: now,
+    updatedAt: now,
+    ...scope,
+  });
+  const member: UserPermissions = { ...restrictedUser, allowedPlanningAreas: null, allowedPlants: null, groupIds: ['g1', 'g2'] };
+
+  // Test 14: Scopes from several groups are unioned; a group allowing everything wins over lists
+  const merged = mergePermissions(member, [
+    group('g1', { allowedPlants: ['Plant A'] }),
+    group('g2', { allowedPlants: ['Plant B'], allowedPlanningAreas: ['North', 'South'], deniedPlanningAreas: ['South'] }),
+  ]);
+  const test14 = applyRowLevelSecurity('SELECT JobName FROM [publish].[DASHt_Planning] p', merged);
+  if (
+    test14.modifiedSql.includes("[p].[PlanningAreaName] NOT IN ('South')") &&
+    test14.modifiedSql.includes("[p].[BlockPlant] IN ('Plant A', 'Plant B')")
+  ) {
+    results.push('✅ PASS: Group scopes unioned, denies applied to unrestricted scopes');
+  } else {
+    results.push(`❌ FAIL: Group scopes not merged: ${test14.modifiedSql}`);
+    passed = false;
+  }
+
+  // Test 15: A deny from a group removes a value the user was allowed, leaving nothing
+  const denied = mergePermissions(
+    { ...restrictedUser, groupIds: ['g1'] },
+    [group('g1', { allowedPlants: ['Plant A'], deniedPlants: ['Plant A'] })]
+  );
+  const test15 = applyRowLevelSecurity('SELECT JobName FROM [publish].[DASHt_Planning] p', denied);
+  if (test15.modifiedSql.includes('1 = 0') && denied.allowedPlants?.length === 0) {
+    results.push('✅ PASS: Explicit deny wins over allowed values');
+  } else {
+    results.push(`❌ FAIL: Deny not applied: ${test15.modifiedSql}`);
+    passed = false;
+  }
+
+  // Test 16: Table access categories are unioned, then denied categories removed
+  const tableAccess = mergePermissions(
+    { ...member, deniedTableAccess: ['Revenue'] },
+    [group('g1', { allowedTableAccess: ['Sales'] }), group('g2', { allowedTableAccess: null })]
+  );
+  const expectedAccess = getTableAccessCategoryNames().filter(name => name !== 'Revenue');
+  if (JSON.stringify(tableAccess.allowedTableAccess) === JSON.stringify(expectedAccess)) {
+    results.push('✅ PASS: Table access merged with denies');
+  } else {
+    results.push(`❌ FAIL: Table access merged incorrectly: ${JSON.stringify(tableAccess.allowedTableAccess)}`);
+    passed = false;
+  }
+
+  // Test 17: A categorized table needs one of its categories; other tables are open
+  const categories: TableAccessCategory[] = [
+    { name: 'Procurement', tables: ['DASHt_PurchaseOrders'], createdAt: now, updatedAt: now },
+    { name: 'Customer Data', tables: ['DASHt_SalesOrders', 'DASHt_PurchaseOrders'], createdAt: now, updatedAt: now },
+  ];
+  const customerOnly = { ...restrictedUser, allowedTableAccess: ['Customer Data'] };
+  const procurementOnly = { ...restrictedUser, allowedTableAccess: ['Procurement'] };
+  const sharedTable = checkTableAccess(customerOnly, ['DASHt_PurchaseOrders', 'DASHt_Planning'], categories);
+  const blockedTable = checkTableAccess(procurementOnly, ['DASHt_Planning', 'DASHt_SalesOrders'], categories);
+  if (sharedTable.allowed && !blockedTable.allowed && blockedTable.blockedTable === 'DASHt_SalesOrders' &&
+      JSON.stringify(blockedTable.requiredCategories) === JSON.stringify(['Customer Data'])) {
+    results.push('✅ PASS: Table access categories enforced');
+  } else {
+    results.push(`❌ FAIL: Table access categories: ${JSON.stringify({ sharedTable, blockedTable })}`);
+    passed = false;
+  }
+
+  // Test 18: Only grants inside their time window add access, and denies still win
+  const hour = 60 * 60 * 1000;
+  const at = Date.parse('2026-06-01T12:00:00Z');
+  const iso = (offset: number) => new Date(at + offset).toISOString();
+  const contractor = mergePermissions({
+    ...restrictedUser,
+    allowedTableAccess: [],
+    deniedPlants: ['Plant D'],
+    grants: [
+      { type: 'plant', value: 'Plant C', startsAt: iso(-hour), expiresAt: iso(hour) },
+      { type: 'plant', value: 'Plant D' },
+      { type: 'plant', value: 'Plant E', expiresAt: iso(-hour) },
+      { type: 'tableAccess', value: 'Sales', startsAt: iso(hour) },
+    ],
+  }, [], at);
+  if (
+    JSON.stringify(contractor.allowedPlants) === JSON.stringify(['Plant A', 'Plant C']) &&
+    contractor.allowedTableAccess?.length === 0 &&
+    contractor.activeGrants.length === 2
+  ) {
+    results.push('✅ PASS: Time-bounded grants applied only while active');
+  } else {
+    results.push(`❌ FAIL: Grants merged incorrectly: ${JSON.stringify({ plants: contractor.allowedPlants, tables: contractor.allowedTableAccess })}`);
+    passed = false;
   }
 
-  const filterClause = conditions.join(' AND ');
-  const modifiedSql = injectWhereClause(sql, filterClause);
-  
-  log(`[global-filters] Applied: ${appliedFilters.join('; ')}`, 'permissions');
-  log(`[global-filters] Modified SQL: ${modifiedSql}`, 'permissions');
-  
-  return { modifiedSql, appliedFilters };
+  return { passed, results };
 }
@@ -1,4 +1,4 @@
-import { log } from "./index";
+import { log } from "./log";
 import { executeQuery } from "./db-azure";
 
 /**
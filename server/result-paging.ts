@@ -0,0 +1,253 @@
+/**
+ * Result Paging
+ * Keeps the validated, permission-filtered SQL of each answered question as a short-lived
+ * result session so later pages can be fetched without re-running the LLM. Every page,
+ * the first included, is produced by the server wrapping that SQL in ORDER BY ...
+ * OFFSET/FETCH with the same total ordering, so pages never overlap or skip rows; clients
+ * only ever send a result id and a page number.
+ */
+
+import { randomUUID } from 'crypto';
+import { executeQuery } from './db-azure';
+import { parseSql, rewriteSql, QueryExpression, QueryTerm, SelectStatement, SqlEdit } from './sql-parser';
+import { isAggregateOnlyQuery } from './sql-validator';
+import { PermissionContext } from './query-permissions';
+import { applyColumnMasking, ColumnMasking } from './column-permissions';
+import { log } from './log';
+
+export interface ResultPagination {
+  resultId: string;
+  page: number; // 1-based
+  pageSize: number;
+  hasMore: boolean;
+}
+
+export interface ResultPage extends ResultPagination {
+  rows: any[];
+  rowCount: number;
+  sql: string;
+  appliedFilters: string[];
+}
+
+export interface PageFetchResult {
+  success: boolean;
+  page?: ResultPage;
+  error?: string;
+  status?: number; // HTTP status for failures
+}
+
+interface ResultSession {
+  resultId: string;
+  ownerKey: string;
+  baseSql: string; // Validated SQL with permission and global filters, no row limit
+  pageSize: number;
+  appliedFilters: string[];
+  columnMasking?: ColumnMasking;
+  question: string;
+  createdAt: number;
+}
+
+const RESULT_SESSION_TTL_MS = 30 * 60 * 1000; // 30 minutes
+const RESULT_SESSION_MAX_SIZE = 200;
+const resultSessions = new Map<string, ResultSession>();
+
+function getOwnerKey(context: PermissionContext): string {
+  return context.userId || context.username?.toLowerCase() || 'anonymous';
+}
+
+/**
+ * Outermost SELECTs of a query, following nested set-operation terms
+ */
+function outerSelects(query: QueryExpression): SelectStatement[] {
+  return query.terms.flatMap((term: QueryTerm) => term.type === 'select' ? [term] : outerSelects(term));
+}
+
+function hasNestedOrdering(query: QueryExpression): boolean {
+  return query.terms.some(term => term.type === 'query' && (term.orderBy !== undefined || hasNestedOrdering(term)));
+}
+
+// Comparable form of an ORDER BY item or select expression: no brackets, spaces or case
+function normalizeSortKey(text: string): string {
+  return text.replace(/[\[\]\s]/g, '').toLowerCase();
+}
+
+/**
+ * Ordinals of the output columns to sort on after the query's own ORDER BY, so that every
+ * row has a fixed position: all columns the ORDER BY doesn't already name (by ordinal,
+ * alias, expression or column name). Null when the columns can't be listed (SELECT *).
+ */
+function tieBreakerOrdinals(sql: string, query: QueryExpression, firstSelect: SelectStatement): number[] | null {
+  if (firstSelect.items.some(item => item.expression.stars.length > 0)) return null;
+
+  const sorted = new Set<string>();
+  for (const item of query.orderBy?.items ?? []) {
+    const key = normalizeSortKey(sql.substring(item.start, item.end));
+    sorted.add(key);
+    sorted.add(key.substring(key.lastIndexOf('.') + 1));
+  }
+
+  return firstSelect.items
+    .map((item, index) => {
+      const expression = normalizeSortKey(sql.substring(item.expression.start, item.expression.end));
+      const keys = [String(index + 1), expression, expression.substring(expression.lastIndexOf('.') + 1)];
+      if (item.alias) keys.push(normalizeSortKey(item.alias));
+      return keys.some(key => sorted.has(key)) ? null : index + 1;
+    })
+    .filter((ordinal): ordinal is number => ordinal !== null);
+}
+
+/**
+ * Build the SQL for one page of a base query, or null when the query can't be paged
+ * (aggregate-only results, its own OFFSET, TOP ... PERCENT / WITH TIES, TOP inside a set
+ * operation, SELECT * - no stable order can be built) or the page lies past a literal
+ * TOP. The query's ORDER BY is extended with every other output column so the order is
+ * total and pages don't overlap. One extra row is fetched to detect whether another
+ * page follows.
+ */
+export function buildPageSql(baseSql: string, page: number, pageSize: number): { sql: string; fetchCount: number } | null {
+  let statement;
+  try {
+    statement = parseSql(baseSql);
+  } catch {
+    return null;
+  }
+
+  const { query } = statement;
+  if (query.offsetFetch || hasNestedOrdering(query)) return null;
+
+  const selects = outerSelects(query);
+  if (selects.some(isAggregateOnlyQuery)) return null; // A single row, nothing to page
+
+  const tieBreakers = tieBreakerOrdinals(baseSql, query, selects[0]);
+  if (!tieBreakers) return null;
+
+  const offset = (page - 1) * pageSize;
+  let fetchCount = pageSize + 1;
+  const edits: SqlEdit[] = [];
+
+  const topped = selects.filter(select => select.top);
+  if (topped.length > 0) {
+    const { top } = topped[0];
+    if (selects.length > 1 || !top || top.percent || top.withTies || top.value === null) return null;
+    if (offset >= top.value) return null;
+    // T-SQL doesn't allow TOP alongside OFFSET, so the TOP count becomes the FETCH bound
+    fetchCount = Math.min(fetchCount, top.value - offset);
+    let end = top.end;
+    while (end < baseSql.length && /\s/.test(baseSql[end])) end++;
+    edits.push({ start: top.start, end, text: '' });
+  }
+
+  let orderBy = '';
+  if (query.orderBy) {
+    if (tieBreakers.length > 0) edits.push({ start: query.orderBy.end, end: query.orderBy.end, text: `, ${tieBreakers.join(', ')}` });
+  } else {
+    orderBy = ` ORDER BY ${tieBreakers.join(', ')}`;
+  }
+  edits.push({ start: query.end, end: query.end, text: `${orderBy} OFFSET ${offset} ROWS FETCH NEXT ${fetchCount} ROWS ONLY` });
+
+  return { sql: rewriteSql(baseSql, edits), fetchCount };
+}
+
+/**
+ * Cut a page result to the page size. A paged query (from buildPageSql) fetched one extra
+ * row, so the result was cut off when that row came back; SQL that couldn't be paged was
+ * only capped by its row limit, so reaching the limit is taken as cut off.
+ */
+export function takePage<T>(recordset: T[], pageSize: number, paged: boolean): { rows: T[]; cutOff: boolean } {
+  const rows = recordset.slice(0, pageSize);
+  return { rows, cutOff: recordset.length > pageSize || (!paged && rows.length === pageSize) };
+}
+
+function pruneSessions(): void {
+  const now = Date.now();
+  for (const [resultId, session] of Array.from(resultSessions.entries())) {
+    if (now - session.createdAt >= RESULT_SESSION_TTL_MS) resultSessions.delete(resultId);
+  }
+  // Evict oldest while at max size
+  while (resultSessions.size >= RESULT_SESSION_MAX_SIZE) {
+    const oldestKey = resultSessions.keys().next().value;
+    if (!oldestKey) break;
+    resultSessions.delete(oldestKey);
+  }
+}
+
+/**
+ * Store the base SQL of an answered question for paging. The first page must have been
+ * run as buildPageSql(baseSql, 1, pageSize). Returns the pagination info for the first
+ * page, or undefined when the query can't be paged.
+ */
+export function createResultSession(input: {
+  context: PermissionContext;
+  baseSql: string;
+  pageSize: number;
+  hasMore: boolean; // The first page query returned its extra row
+  appliedFilters: string[];
+  columnMasking?: ColumnMasking;
+  question: string;
+}): ResultPagination | undefined {
+  if (!buildPageSql(input.baseSql, 1, input.pageSize)) return undefined;
+
+  pruneSessions();
+  const resultId = randomUUID();
+  resultSessions.set(resultId, {
+    resultId,
+    ownerKey: getOwnerKey(input.context),
+    baseSql: input.baseSql,
+    pageSize: input.pageSize,
+    appliedFilters: input.appliedFilters,
+    columnMasking: input.columnMasking,
+    question: input.question,
+    createdAt: Date.now(),
+  });
+
+  return {
+    resultId,
+    page: 1,
+    pageSize: input.pageSize,
+    hasMore: input.hasMore && buildPageSql(input.baseSql, 2, input.pageSize) !== null,
+  };
+}
+
+/**
+ * Fetch a page of a stored result. Only the user who asked the question can page it.
+ */
+export async function fetchResultPage(resultId: string, page: number, context: PermissionContext): Promise<PageFetchResult> {
+  const session = resultSessions.get(resultId);
+  if (!session || Date.now() - session.createdAt >= RESULT_SESSION_TTL_MS) {
+    resultSessions.delete(resultId);
+    return { success: false, status: 404, error: 'Result has expired. Please ask the question again.' };
+  }
+
+  if (session.ownerKey !== getOwnerKey(context)) {
+    log(`Result ${resultId} requested by a different user`, 'paging');
+    return { success: false, status: 403, error: 'This result belongs to another user.' };
+  }
+
+  const pageSql = buildPageSql(session.baseSql, page, session.pageSize);
+  if (!pageSql) {
+    return {
+      success: true,
+      page: { resultId, page, pageSize: session.pageSize, hasMore: false, rows: [], rowCount: 0, sql: session.baseSql, appliedFilters: session.appliedFilters },
+    };
+  }
+
+  log(`Fetching page ${page} of result ${resultId}: ${pageSql.sql}`, 'paging');
+  const result = await executeQuery(pageSql.sql);
+  const { rows: pageRows, cutOff: hasMore } = takePage(result.recordset, session.pageSize, true);
+  const rows = applyColumnMasking(pageRows, session.columnMasking);
+
+  return {
+    success: true,
+    page: {
+      resultId,
+      page,
+      pageSize: session.pageSize,
+      hasMore,
+      rows,
+      rowCount: rows.length,
+      sql: pageSql.sql,
+      appliedFilters: session.appliedFilters,
+    },
+  };
+}
+
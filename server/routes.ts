@@ -3,7 +3,7 @@ import { createServer, type Server } from "http";
 import { executeQuery } from "./db-azure";
 import { validateAndModifySql, runValidatorSelfCheck, type ValidationOptions } from "./sql-validator";
 import { generateSqlFromQuestion, generateSuggestions, classifyQuestion, answerGeneralQuestion, generateNaturalLanguageResponse, streamNaturalLanguageResponse, cacheSuccessfulSql } from "./openai-client";
-import { log } from "./index";
+import { log } from "./log";
 import {
   createQueryLogContext,
   logSuccess,
@@ -16,8 +16,18 @@ import {
   storeFeedback,
   getFeedbackStats,
   getAnalytics,
+  initQueryLogger,
   getFailedQueries,
+  getExpensiveQueries,
+  recordCostCheck,
+  recordTableSelection,
+  logCostRejection,
+  getFeedbackInbox,
+  getFeedbackEntry,
+  updateFeedbackTriage,
 } from "./query-logger";
+import { compileValidatorPolicy, validatorPolicySchema } from "./validator-policy";
+import { checkQueryCost, describeCostDecision, summarizeCostDecision } from "./query-cost-guard";
 import { getValidatedQuickQuestions } from "./quick-questions";
 import { getSchemasForMode, formatSchemaForPrompt, TableSchema } from "./schema-introspection";
 import { validateSqlColumns } from "./sql-column-validator";
@@ -35,8 +45,58 @@ import {
   createOrUpdateUserPermissions,
   deleteUserPermissions,
 } from "./permissions-storage";
-import { userPermissionsSchema, tableAccessOptions } from "@shared/schema";
-import { enforcePermissions, getPermissionsForRequest, applyGlobalFilters } from "./query-permissions";
+import { userPermissionsSchema, permissionGroupSchema, tableAccessCategorySchema, accessRequestDecisionSchema, accessRequestStatuses, feedbackTriageSchema, feedbackTriageStatuses, goldenCaseSchema, goldenCaseSourceTypes } from "@shared/schema";
+import { enforcePermissions, getPermissionsForRequest, applyGlobalFilters, getRowLimit, getColumnRules, getInaccessibleTablesForContext, runPermissionSelfCheck } from "./query-permissions";
+import { applyColumnMasking } from "./column-permissions";
+import {
+  getAllPermissionGroups,
+  getPermissionGroup,
+  getPermissionGroupByName,
+  createOrUpdatePermissionGroup,
+  deletePermissionGroup,
+  initPermissionGroups,
+} from "./permission-groups-storage";
+import { resolveEffectivePermissions } from "./effective-permissions";
+import { previewAsUser } from "./permission-preview";
+import { getFilterOptions } from "./filter-options";
+import { getGoldenCases, draftGoldenCase, promoteGoldenCase } from "./golden-cases";
+import { initLlmUsage, createLlmUsageRecorder, checkLlmBudget, describeBudgetExceeded, getLlmUsageForRequest } from "./llm-usage";
+import { renderMetrics, isMetricsRequestAllowed, recordPipelineOutcome, trackSseConnection } from "./metrics";
+import { exportUserPermissions, planPermissionsImport, applyPermissionsImport, type KnownFilterValues } from "./permissions-import";
+import { buildPageSql, createResultSession, fetchResultPage, takePage } from "./result-paging";
+import { recordAdminChange, queryAuditLog, auditEntityTypes } from "./admin-audit";
+import { startGrantExpirySweep, getUpcomingExpirations, grantedCategories } from "./permission-grants";
+import {
+  initLocalAccounts,
+  getLocalAccounts,
+  getLocalAccount,
+  createLocalAccount,
+  resetLocalAccountPassword,
+  changeOwnPassword,
+  deleteLocalAccount,
+  authenticateLocalAccount,
+} from "./local-accounts";
+import { initAccessRequests, registerBlockedQuery, createAccessRequest, getAccessRequests, getAccessRequestsForUser, decideAccessRequest } from "./access-requests";
+import {
+  initTableAccessCategories,
+  getTableAccessCategories,
+  getTableAccessCategory,
+  createOrUpdateTableAccessCategory,
+  deleteTableAccessCategory,
+  findUnknownCategories,
+} from "./table-access-categories";
+import { countTotalRows } from "./total-count";
+import { refreshPermissionColumns, getPermissionColumnStatus } from "./permission-columns";
+import {
+  requireIdentity,
+  requireAdmin,
+  verifyIdentityToken,
+  setSessionCookie,
+  clearSessionCookie,
+  isAuthRequired,
+  runAuthSelfCheck,
+  isDiagnosticsRequestAllowed,
+} from "./auth";
 
 export async function registerRoutes(
   httpServer: Server,
@@ -48,6 +108,17 @@ export async function registerRoutes(
     res.json({ ok: true });
   });
 
+  // Prometheus scrape endpoint (outside /api, so identity tokens aren't checked; METRICS_TOKEN protects it)
+  app.get("/metrics", (req, res) => {
+    if (!isMetricsRequestAllowed(req.headers.authorization)) {
+      return res.status(403).json({
+        error: 'Forbidden: /metrics requires a METRICS_TOKEN bearer token outside development',
+      });
+    }
+    res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(renderMetrics());
+  });
+
   // Get runtime config (simulated date for testing)
   app.get("/api/config", (_req, res) => {
     const simulatedToday = process.env.SIMULATED_TODAY || process.env.VITE_DEV_FIXED_TODAY || null;
@@ -58,38 +129,15 @@ export async function registerRoutes(
   });
 
   // Get filter options for planning area, scenario, and plant dropdowns
-  app.get("/api/filter-options", async (_req, res) => {
+  // Dropdown values limited to what the caller's permissions let them query
+  app.get("/api/filter-options", async (req, res) => {
     try {
-      // Fetch distinct planning areas from DASHt_Resources
-      const planningAreaResult = await executeQuery(
-        "SELECT DISTINCT PlanningAreaName FROM [publish].[DASHt_Resources] WHERE PlanningAreaName IS NOT NULL ORDER BY PlanningAreaName"
-      );
-      const planningAreas = (planningAreaResult?.recordset || []).map((r: any) => r.PlanningAreaName).filter(Boolean);
-
-      // Fetch distinct scenarios with NewScenarioId, ScenarioName, and ScenarioType
-      // NewScenarioId is the unique identifier (e.g., "BI01-8")
-      const scenarioResult = await executeQuery(
-        `SELECT DISTINCT NewScenarioId, ScenarioName, ScenarioType 
-         FROM [publish].[DASHt_Planning] 
-         WHERE NewScenarioId IS NOT NULL 
-         ORDER BY ScenarioType, ScenarioName`
-      );
-      const scenarios = (scenarioResult?.recordset || []).map((r: any) => ({
-        id: r.NewScenarioId,
-        name: r.ScenarioName,
-        type: r.ScenarioType
-      })).filter((s: any) => s.id);
-
-      // Fetch distinct plants from DASHt_Resources (uses PlantName)
-      const plantResult = await executeQuery(
-        "SELECT DISTINCT PlantName FROM [publish].[DASHt_Resources] WHERE PlantName IS NOT NULL ORDER BY PlantName"
-      );
-      const plants = (plantResult?.recordset || []).map((r: any) => r.PlantName).filter(Boolean);
-
+      const options = await getFilterOptions(getPermissionsForRequest(req));
       res.json({
-        planningAreas: ["All Planning Areas", ...planningAreas],
-        scenarios: scenarios, // Array of {id, name, type} objects
-        plants: ["All Plants", ...plants]
+        planningAreas: ["All Planning Areas", ...options.planningAreas],
+        scenarios: options.scenarios, // Array of {id, name, type, publishDate} objects
+        plants: ["All Plants", ...options.plants],
+        publishDate: options.publishDate,
       });
     } catch (error: any) {
       log(`[filter-options] Error: ${error.message}`, "error");
@@ -97,13 +145,20 @@ export async function registerRoutes(
       res.json({
         planningAreas: ["All Planning Areas"],
         scenarios: [],
-        plants: ["All Plants"]
+        plants: ["All Plants"],
+        publishDate: null,
       });
     }
   });
 
-  // Validator self-check endpoint (development only)
-  app.get("/api/validator-check", (_req, res) => {
+  // Validator self-check endpoint (development only, or with DIAGNOSTICS_TOKEN)
+  app.get("/api/validator-check", (req, res) => {
+    if (!isDiagnosticsRequestAllowed(req)) {
+      return res.status(403).json({
+        error: 'Forbidden: Self-check endpoint is only available in development or with valid DIAGNOSTICS_TOKEN header',
+      });
+    }
+
     const { passed, results } = runValidatorSelfCheck();
     res.json({
       passed,
@@ -112,15 +167,74 @@ export async function registerRoutes(
     });
   });
 
+  // Row-level security self-check endpoint (development only, or with DIAGNOSTICS_TOKEN)
+  app.get("/api/permissions-check", (req, res) => {
+    if (!isDiagnosticsRequestAllowed(req)) {
+      return res.status(403).json({
+        error: 'Forbidden: Self-check endpoint is only available in development or with valid DIAGNOSTICS_TOKEN header',
+      });
+    }
+
+    const { passed, results } = runPermissionSelfCheck();
+    res.json({
+      passed,
+      results,
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // Token and session cookie self-check endpoint (development only, or with DIAGNOSTICS_TOKEN)
+  app.get("/api/auth-check", (req, res) => {
+    if (!isDiagnosticsRequestAllowed(req)) {
+      return res.status(403).json({
+        error: 'Forbidden: Self-check endpoint is only available in development or with valid DIAGNOSTICS_TOKEN header',
+      });
+    }
+
+    const { passed, results } = runAuthSelfCheck();
+    res.json({
+      passed,
+      results,
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // Run the self-check against a candidate validator policy (body = policy JSON; development
+  // only, or with DIAGNOSTICS_TOKEN)
+  app.post("/api/validator-check", (req, res) => {
+    if (!isDiagnosticsRequestAllowed(req)) {
+      return res.status(403).json({
+        error: 'Forbidden: Self-check endpoint is only available in development or with valid DIAGNOSTICS_TOKEN header',
+      });
+    }
+
+    const parseResult = validatorPolicySchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        error: "Invalid validator policy",
+        details: parseResult.error.format()
+      });
+    }
+
+    const policy = compileValidatorPolicy(parseResult.data);
+    const { passed, results } = runValidatorSelfCheck(policy);
+    res.json({
+      passed,
+      results,
+      policyVersion: policy.version,
+      timestamp: new Date().toISOString(),
+    });
+  });
+
   // Get popular questions for FAQ
   app.get("/api/popular-questions", (_req, res) => {
     const questions = getPopularQuestions(10);
     res.json({ questions });
   });
 
-  // Submit feedback for a query result
+  // Submit feedback for a query result ({ requestId } from the answer links it to the query log)
   app.post("/api/feedback", (req, res) => {
-    const { question, sql, feedback, comment } = req.body;
+    const { question, sql, feedback, comment, requestId } = req.body;
 
     if (!question || typeof question !== 'string') {
       return res.status(400).json({ error: 'Question is required' });
@@ -132,39 +246,19 @@ export async function registerRoutes(
       return res.status(400).json({ error: 'Feedback must be "up" or "down"' });
     }
 
-    storeFeedback(question, sql, feedback, comment);
+    if (requestId !== undefined && typeof requestId !== 'string') {
+      return res.status(400).json({ error: 'requestId must be a string' });
+    }
+
+    const result = storeFeedback({ question, sql, feedback, comment, requestId }, req.identity?.userId);
+    if (!result.success) {
+      return res.status(result.status ?? 400).json({ error: result.error });
+    }
     log(`Feedback received: ${feedback} for question: ${question.substring(0, 50)}...`, 'feedback');
 
     res.json({ success: true });
   });
 
-  // Get feedback statistics
-  app.get("/api/feedback/stats", (_req, res) => {
-    const stats = getFeedbackStats();
-    res.json(stats);
-  });
-
-  // Get negative feedback (thumbs down) for analysis
-  app.get("/api/feedback/negative", (req, res) => {
-    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
-    const negativeFeedback = getNegativeFeedback(limit);
-    res.json({ feedback: negativeFeedback, count: negativeFeedback.length });
-  });
-
-  // Get analytics data for dashboard
-  app.get("/api/analytics", (req, res) => {
-    const timeRange = req.query.timeRange ? parseInt(req.query.timeRange as string, 10) : 1440; // 24 hours
-    const analytics = getAnalytics(timeRange);
-    res.json(analytics);
-  });
-
-  // Get failed queries for analysis (includes full SQL and error details)
-  app.get("/api/analytics/failed-queries", (req, res) => {
-    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
-    const failedQueries = getFailedQueries(limit);
-    res.json(failedQueries);
-  });
-
   // Serve query matrix HTML for team review
   app.get("/matrix", (_req, res) => {
     try {
@@ -208,12 +302,7 @@ export async function registerRoutes(
 
   // Trigger table re-discovery (admin endpoint)
   app.post("/api/discovered-tables/refresh", async (req, res) => {
-    // Security: Only allow in development or with valid DIAGNOSTICS_TOKEN
-    const isDevelopment = process.env.NODE_ENV !== 'production';
-    const diagnosticsToken = process.env.DIAGNOSTICS_TOKEN;
-    const providedToken = req.headers['x-diagnostics-token'];
-
-    if (!isDevelopment && (!diagnosticsToken || providedToken !== diagnosticsToken)) {
+    if (!isDiagnosticsRequestAllowed(req)) {
       return res.status(403).json({
         error: 'Forbidden: Refresh endpoint requires DIAGNOSTICS_TOKEN in production',
       });
@@ -221,6 +310,7 @@ export async function registerRoutes(
 
     try {
       await runTableDiscovery();
+      await refreshPermissionColumns();
       const status = getDiscoveryStatus();
       res.json({ success: true, ...status });
     } catch (error: any) {
@@ -231,6 +321,11 @@ export async function registerRoutes(
     }
   });
 
+  // Permission filter columns per publish table (which tables each filter can restrict)
+  app.get("/api/permission-columns", (_req, res) => {
+    res.json(getPermissionColumnStatus());
+  });
+
   // Get validated quick questions for a report/mode
   // Popular queries (with results) are shown first, then static questions fill remaining slots
   app.get("/api/quick-questions/:reportId", async (req, res) => {
@@ -359,12 +454,7 @@ export async function registerRoutes(
 
   // Database diagnostics endpoint - lists and validates access to publish.DASHt_* tables
   app.get("/api/db/diagnostics", async (req, res) => {
-    // Security: Only allow in development or with valid DIAGNOSTICS_TOKEN
-    const isDevelopment = process.env.NODE_ENV !== 'production';
-    const diagnosticsToken = process.env.DIAGNOSTICS_TOKEN;
-    const providedToken = req.headers['x-diagnostics-token'];
-
-    if (!isDevelopment && (!diagnosticsToken || providedToken !== diagnosticsToken)) {
+    if (!isDiagnosticsRequestAllowed(req)) {
       return res.status(403).json({
         error: 'Forbidden: Diagnostics endpoint is only available in development or with valid DIAGNOSTICS_TOKEN header',
       });
@@ -451,8 +541,9 @@ export async function registerRoutes(
   });
 
   // Streaming natural language to SQL query endpoint (SSE via GET for proxy compatibility)
-  app.get("/api/ask/stream", async (req, res) => {
-    log(`Stream request received, headers: ${JSON.stringify(req.headers)}`, 'ask-stream');
+  app.get("/api/ask/stream", requireIdentity, async (req, res) => {
+    const { authorization, cookie, ...loggedHeaders } = req.headers;
+    log(`Stream request received, headers: ${JSON.stringify(loggedHeaders)}`, 'ask-stream');
     
     // Read params from query string (GET is more proxy-friendly for SSE)
     const publishDate = String(req.query.publishDate ?? '');
@@ -498,6 +589,7 @@ export async function registerRoutes(
     res.setHeader('Content-Encoding', 'identity');
     // Don't set Transfer-Encoding manually - let Node handle it
     res.flushHeaders();
+    trackSseConnection(res);
     
     log('SSE headers sent and flushed', 'ask-stream');
     
@@ -533,10 +625,18 @@ export async function registerRoutes(
 
     try {
       log(`Processing question (streaming): ${question}`, 'ask-stream');
-      logContext = createQueryLogContext(req, question);
+      logContext = createQueryLogContext(req, question, filters, publishDate);
+      const recordUsage = createLlmUsageRecorder(logContext.requestId, req.identity?.userId);
+      const budget = checkLlmBudget(req.identity?.userId);
+      if (budget.exceeded && budget.action === 'block') {
+        log(`Daily LLM budget used up for ${req.identity?.userId}, question blocked`, 'ask-stream');
+        sendEvent('error', { error: describeBudgetExceeded(budget), isBudgetExceeded: true });
+        return;
+      }
 
       // Classify INSIDE try so errors don't kill SSE immediately
-      const questionType = await classifyQuestion(question);
+      const questionType = await classifyQuestion(question, recordUsage);
+      recordPipelineOutcome('/api/ask/stream', 'classified');
       if (clientDisconnected) return;
       
       // Log classification result for debugging
@@ -544,7 +644,7 @@ export async function registerRoutes(
       
       if (questionType === 'general') {
         log(`General question detected (streaming): ${question}`, 'ask-stream');
-        const answer = await answerGeneralQuestion(question);
+        const answer = await answerGeneralQuestion(question, recordUsage);
         sendEvent('complete', {
           isGeneralAnswer: true,
           answer,
@@ -557,13 +657,18 @@ export async function registerRoutes(
       // Send status update to keep connection alive (no chunk text - only stream results)
       sendEvent('status', { stage: 'generating_sql', message: 'Generating SQL query...' });
 
-      // Generate SQL from natural language
+      // Generate SQL from natural language (against the schema this user may see)
+      const permContext = getPermissionsForRequest(req);
+      const columnRules = getColumnRules(permContext);
+      const excludedTables = getInaccessibleTablesForContext(permContext);
       llmStartTime = Date.now();
-      const sqlGenResult = await generateSqlFromQuestion(question, { publishDate, filters });
+      const sqlGenResult = await generateSqlFromQuestion(question, { publishDate, filters, columnRules, excludedTables, recordUsage });
       generatedSql = sqlGenResult.sql;
       const selectedTables = sqlGenResult.selectedTables;
       const confidence = sqlGenResult.confidence;
       llmMs = Date.now() - llmStartTime;
+      recordTableSelection(logContext, selectedTables, confidence);
+      recordPipelineOutcome('/api/ask/stream', 'generated');
       log(`Generated SQL (streaming): ${generatedSql}`, 'ask-stream');
       log(`Filters applied: scenarioId=${filters.scenarioId}, plant=${filters.plant}`, 'ask-stream');
 
@@ -578,25 +683,31 @@ export async function registerRoutes(
         return;
       }
 
-      // Validate and modify SQL if needed
-      const validationOptions: ValidationOptions = {};
+      // Validate and modify SQL if needed (row limit depends on the user)
+      const rowLimit = getRowLimit(permContext);
+      const validationOptions: ValidationOptions = { maxRows: rowLimit };
       const validation = validateAndModifySql(generatedSql, validationOptions);
 
       
       if (!validation.valid) {
         log(`SQL validation failed (streaming): ${validation.error}`, 'ask-stream');
         logValidationFailure(logContext, generatedSql, validation.error || 'Unknown validation error', llmMs);
+        recordPipelineOutcome('/api/ask/stream', 'validation_failed');
         sendEvent('error', { error: `SQL validation failed: ${validation.error}`, sql: generatedSql });
         return;
       }
 
       const finalSql = validation.modifiedSql || generatedSql;
+      if (validation.rowLimitChanges && validation.rowLimitChanges.length > 0) {
+        log(`Row limit enforced: ${JSON.stringify(validation.rowLimitChanges)}`, 'ask-stream');
+      }
       
       // Validate column references against schema
       const columnValidation = await validateSqlColumns(finalSql, selectedTables);
       if (!columnValidation.valid) {
         log(`Column validation failed (streaming): ${columnValidation.errors.length} errors - ${JSON.stringify(columnValidation.errors)}`, 'ask-stream');
         logValidationFailure(logContext, finalSql, `Column validation failed`, llmMs);
+        recordPipelineOutcome('/api/ask/stream', 'column_validation_failed');
         
         const firstError = columnValidation.errors[0];
         let errorMessage = firstError.message;
@@ -612,12 +723,13 @@ export async function registerRoutes(
       if (clientDisconnected) return;
 
       // Apply user permission enforcement (filter by planning area, scenario, plant)
-      const permContext = getPermissionsForRequest(req);
       const permResult = enforcePermissions(finalSql, permContext);
       
       if (!permResult.allowed) {
         log(`Permission denied: ${permResult.blockedReason}`, 'ask-stream');
-        sendEvent('error', { error: permResult.blockedReason || 'Access denied', isPermissionDenied: true });
+        recordPipelineOutcome('/api/ask/stream', 'permission_denied');
+        const blockId = registerBlockedQuery(permContext, question, permResult.blockedReason || 'Access denied', permResult.accessScope);
+        sendEvent('error', { error: permResult.blockedReason || 'Access denied', isPermissionDenied: true, blockId });
         return;
       }
       
@@ -637,48 +749,79 @@ export async function registerRoutes(
         log(`Global filters applied: ${globalFilterResult.appliedFilters.join('; ')}`, 'ask-stream');
       }
 
+      // Unlimited SQL with the same permission and global filters, for paging. Permissions are
+      // enforced on it in its own right: a denial stops the request instead of paging unchecked SQL
+      const basePermResult = enforcePermissions(validation.baseSql || finalSql, permContext);
+      if (!basePermResult.allowed || !basePermResult.modifiedSql) {
+        log(`Permission denied for paging SQL: ${basePermResult.blockedReason}`, 'ask-stream');
+        recordPipelineOutcome('/api/ask/stream', 'permission_denied');
+        const blockId = registerBlockedQuery(permContext, question, basePermResult.blockedReason || 'Access denied', basePermResult.accessScope);
+        sendEvent('error', { error: basePermResult.blockedReason || 'Access denied', isPermissionDenied: true, blockId });
+        return;
+      }
+      const pagingBaseSql = applyGlobalFilters(basePermResult.modifiedSql, filters).modifiedSql;
+
+      // Every page, the first included, runs as ORDER BY ... OFFSET/FETCH with the same total
+      // ordering; a query that can't be paged keeps the validator's row limit
+      const firstPage = buildPageSql(pagingBaseSql, 1, rowLimit);
+      if (firstPage) enforcedSql = firstPage.sql;
+
       // Send SQL to client
       sendEvent('sql', { sql: enforcedSql });
+
+      // Check the estimated plan against the cost budget (no-op when QUERY_COST_GUARD is off)
+      const costDecision = await checkQueryCost(enforcedSql);
+      if (costDecision.action !== 'skipped' || costDecision.error) {
+        recordCostCheck(logContext, summarizeCostDecision(costDecision));
+        sendEvent('status', {
+          stage: 'cost_check',
+          action: costDecision.action,
+          message: describeCostDecision(costDecision),
+          estimatedRows: costDecision.estimate?.estimatedRows,
+          estimatedCost: costDecision.estimate?.estimatedCost,
+          reasons: costDecision.reasons,
+        });
+      }
+      if (costDecision.action === 'warn') {
+        log(`Cost guard warning: ${costDecision.reasons.join('; ')}`, 'ask-stream');
+      }
+      if (costDecision.action === 'reject') {
+        const reason = costDecision.reasons.join('; ');
+        log(`Cost guard rejected query: ${reason}`, 'ask-stream');
+        logCostRejection(logContext, enforcedSql, reason, llmMs);
+        recordPipelineOutcome('/api/ask/stream', 'cost_rejected');
+        sendEvent('error', {
+          error: `This question would run an expensive query (${reason}). Try narrowing it with a filter or date range.`,
+          sql: enforcedSql,
+          isCostRejected: true,
+        });
+        return;
+      }
+
+      if (clientDisconnected) return;
+
       sendEvent('status', { stage: 'executing_sql', message: 'Running query...' });
 
-      // Execute the query
+      // Execute the query, counting the full result in parallel
+      const totalCount = countTotalRows(pagingBaseSql);
       const sqlStartTime = Date.now();
       const result = await executeQuery(enforcedSql);
       const sqlMs = Date.now() - sqlStartTime;
+      // The first page query fetches one extra row to tell whether another page follows
+      const { rows: recordset, cutOff } = takePage(result.recordset, rowLimit, firstPage !== null);
+      const rows = applyColumnMasking(recordset, permResult.columnMasking);
 
       if (clientDisconnected) return;
 
       // Log successful execution
-      logSuccess(logContext, enforcedSql, result.recordset.length, llmMs, sqlMs);
-      trackQueryForFAQ(question, result.recordset.length);
-
-      // Get actual total count if results were limited to 100
-      let actualTotalCount: number | undefined;
-      if (result.recordset.length === 100) {
-        try {
-          const fromIndex = enforcedSql.toUpperCase().indexOf(' FROM ');
-          if (fromIndex > -1) {
-            let countSql = 'SELECT COUNT(*) AS TotalCount' + enforcedSql.substring(fromIndex);
-            countSql = countSql.replace(/ORDER\s+BY\s+[^;]+/i, '');
-            const countResult = await executeQuery(countSql);
-            actualTotalCount = countResult.recordset[0]?.TotalCount;
-          }
-        } catch (countError: any) {
-          log(`Failed to get total count (streaming): ${countError.message}`, 'ask-stream');
-        }
-      }
+      logSuccess(logContext, enforcedSql, recordset.length, llmMs, sqlMs);
+      recordPipelineOutcome('/api/ask/stream', 'executed');
+      trackQueryForFAQ(question, recordset.length);
 
-      if (clientDisconnected) return;
+      // Use the total count if results were cut off at the row limit
+      const actualTotalCount = cutOff ? await totalCount : undefined;
 
-      // Send rows to client
-      sendEvent('rows', { 
-        rows: result.recordset, 
-        rowCount: result.recordset.length,
-        actualTotalCount 
-      });
-
-      // Stream the natural language response
-      sendEvent('status', { stage: 'generating_answer', message: 'Generating answer...' });
+      if (clientDisconnected) return;
 
       // Collect all applied filters for the response
       const allAppliedFilters = [
@@ -686,13 +829,38 @@ export async function registerRoutes(
         ...(globalFilterResult.appliedFilters || [])
       ];
 
-      const stream = streamNaturalLanguageResponse(
-        question, 
-        result.recordset, 
-        result.recordset.length,
+      const pagination = createResultSession({
+        context: permContext,
+        baseSql: pagingBaseSql,
+        pageSize: rowLimit,
+        hasMore: cutOff,
+        appliedFilters: allAppliedFilters,
+        columnMasking: permResult.columnMasking,
+        question,
+      });
+
+      // Send rows to client
+      sendEvent('rows', { 
+        rows, 
+        rowCount: recordset.length,
         actualTotalCount,
-        allAppliedFilters
-      );
+        pagination,
+      });
+
+      // Stream the natural language response
+      sendEvent('status', { stage: 'generating_answer', message: 'Generating answer...' });
+
+      // Over the daily LLM budget the answer is just the row count
+      const stream = budget.exceeded
+        ? [`Found ${recordset.length} result(s).`]
+        : streamNaturalLanguageResponse(
+          question,
+          rows,
+          recordset.length,
+          actualTotalCount,
+          allAppliedFilters,
+          recordUsage
+        );
 
       let fullAnswer = '';
       
@@ -727,19 +895,26 @@ export async function registerRoutes(
 
       if (clientDisconnected) return;
 
-      // Cache successful SQL (cache base SQL before filters, so filters can be reapplied on cache hits)
-      cacheSuccessfulSql(question, finalSql, selectedTables);
+      // Cache successful SQL (cache base SQL before filters, so filters can be reapplied on cache hits).
+      // SQL written for a user with column rules or excluded tables isn't shared with other users.
+      if (columnRules.length === 0 && excludedTables.length === 0) {
+        cacheSuccessfulSql(question, finalSql, selectedTables);
+      }
 
-      // Get suggestions asynchronously
-      const suggestions = await generateSuggestions(question);
+      // Get suggestions asynchronously (skipped over the daily LLM budget)
+      const suggestions = budget.exceeded ? [] : await generateSuggestions(question, recordUsage);
 
       // Send completion event
       sendEvent('complete', {
+        requestId: logContext.requestId, // For feedback on this answer
         answer: fullAnswer,
         sql: enforcedSql,
-        rowCount: result.recordset.length,
+        rowCount: recordset.length,
         actualTotalCount,
+        pagination,
+        appliedFilters: allAppliedFilters,
         suggestions: suggestions.length > 0 ? suggestions : undefined,
+        budgetNotice: budget.exceeded ? describeBudgetExceeded(budget) : undefined,
         dataLastUpdated: publishDate || null,
       });
 
@@ -753,8 +928,10 @@ export async function registerRoutes(
           const validation = validateAndModifySql(generatedSql, validationOptions);
           const failedSql = validation.modifiedSql || generatedSql;
           logExecutionFailure(logContext, failedSql, error.message || 'Failed to execute query', llmMs);
+          recordPipelineOutcome('/api/ask/stream', 'execution_failed');
         } else {
           logGenerationFailure(logContext, error.message || 'Failed to generate SQL');
+          recordPipelineOutcome('/api/ask/stream', 'generation_failed');
         }
       }
 
@@ -766,7 +943,7 @@ export async function registerRoutes(
   });
 
   // Natural language to SQL query endpoint
-  app.post("/api/ask", async (req, res) => {
+  app.post("/api/ask", requireIdentity, async (req, res) => {
     const publishDate = req.body?.publishDate;
     const question =
       req.body?.question ??
@@ -782,12 +959,22 @@ export async function registerRoutes(
       });
     }
 
+    // Create query log context (LLM usage is recorded against its requestId)
+    const logContext = createQueryLogContext(req, question, filters, publishDate);
+    const recordUsage = createLlmUsageRecorder(logContext.requestId, req.identity?.userId);
+    const budget = checkLlmBudget(req.identity?.userId);
+    if (budget.exceeded && budget.action === 'block') {
+      log(`Daily LLM budget used up for ${req.identity?.userId}, question blocked`, 'ask');
+      return res.status(429).json({ error: describeBudgetExceeded(budget), isBudgetExceeded: true });
+    }
+
     // Classify the question: is it a data query or a general/help question?
-    const questionType = await classifyQuestion(question);
+    const questionType = await classifyQuestion(question, recordUsage);
+    recordPipelineOutcome('/api/ask', 'classified');
     
     if (questionType === 'general') {
       log(`General question detected: ${question}`, 'ask');
-      const answer = await answerGeneralQuestion(question);
+      const answer = await answerGeneralQuestion(question, recordUsage);
       return res.json({
         isGeneralAnswer: true,
         answer,
@@ -795,8 +982,6 @@ export async function registerRoutes(
       });
     }
 
-    // Create query log context
-    const logContext = createQueryLogContext(req, question);
     log(`Processing question: ${question}`, 'ask');
 
     let generatedSql: string | undefined;
@@ -806,12 +991,17 @@ export async function registerRoutes(
     try {
       // Generate SQL from natural language
       // Matrix classifier selects relevant tables dynamically
+      const permContext = getPermissionsForRequest(req);
+      const columnRules = getColumnRules(permContext);
+      const excludedTables = getInaccessibleTablesForContext(permContext);
       llmStartTime = Date.now();
-      const sqlGenResult = await generateSqlFromQuestion(question, { publishDate, filters });
+      const sqlGenResult = await generateSqlFromQuestion(question, { publishDate, filters, columnRules, excludedTables, recordUsage });
       generatedSql = sqlGenResult.sql;
       const selectedTables = sqlGenResult.selectedTables;
       const confidence = sqlGenResult.confidence;
       llmMs = Date.now() - llmStartTime;
+      recordTableSelection(logContext, selectedTables, confidence);
+      recordPipelineOutcome('/api/ask', 'generated');
       log(`Generated SQL: ${generatedSql}`, 'ask');
       log(`Matrix-selected tables: ${selectedTables.join(', ')} (confidence: ${confidence})`, 'ask');
       log(`Filters applied: scenario=${filters.scenario}, plant=${filters.plant}`, 'ask');
@@ -830,7 +1020,8 @@ export async function registerRoutes(
       }
 
       // Validate and modify SQL if needed (no table allowlist - all publish.* tables are allowed)
-      const validationOptions: ValidationOptions = {};
+      const rowLimit = getRowLimit(permContext);
+      const validationOptions: ValidationOptions = { maxRows: rowLimit };
       const validation = validateAndModifySql(generatedSql, validationOptions);
       
       if (!validation.valid) {
@@ -843,6 +1034,7 @@ export async function registerRoutes(
           validation.error || 'Unknown validation error',
           llmMs
         );
+        recordPipelineOutcome('/api/ask', 'validation_failed');
 
         return res.status(400).json({
           error: `SQL validation failed: ${validation.error}`,
@@ -852,6 +1044,9 @@ export async function registerRoutes(
       }
 
       const finalSql = validation.modifiedSql || generatedSql;
+      if (validation.rowLimitChanges && validation.rowLimitChanges.length > 0) {
+        log(`Row limit enforced: ${JSON.stringify(validation.rowLimitChanges)}`, 'ask');
+      }
       
       // Validate column references against schema (use matrix-selected tables)
       const columnValidation = await validateSqlColumns(finalSql, selectedTables);
@@ -869,6 +1064,7 @@ export async function registerRoutes(
           `Column validation failed: ${columnValidation.errors.map(e => e.message).join('; ')}`,
           llmMs
         );
+        recordPipelineOutcome('/api/ask', 'column_validation_failed');
         
         // Detect scope-mismatch using semantic catalog keywords
         const questionLower = question.toLowerCase();
@@ -898,14 +1094,15 @@ export async function registerRoutes(
       }
       
       // Apply user permission enforcement (filter by planning area, scenario, plant)
-      const permContext = getPermissionsForRequest(req);
       const permResult = enforcePermissions(finalSql, permContext);
       
       if (!permResult.allowed) {
         log(`Permission denied: ${permResult.blockedReason}`, 'ask');
+        recordPipelineOutcome('/api/ask', 'permission_denied');
         return res.status(403).json({
           error: permResult.blockedReason || 'Access denied',
           isPermissionDenied: true,
+          blockId: registerBlockedQuery(permContext, question, permResult.blockedReason || 'Access denied', permResult.accessScope),
         });
       }
       
@@ -924,54 +1121,86 @@ export async function registerRoutes(
       if (globalFilterResult.appliedFilters.length > 0) {
         log(`Global filters applied: ${globalFilterResult.appliedFilters.join('; ')}`, 'ask');
       }
+
+      // Unlimited SQL with the same permission and global filters, for paging. Permissions are
+      // enforced on it in its own right: a denial stops the request instead of paging unchecked SQL
+      const basePermResult = enforcePermissions(validation.baseSql || finalSql, permContext);
+      if (!basePermResult.allowed || !basePermResult.modifiedSql) {
+        log(`Permission denied for paging SQL: ${basePermResult.blockedReason}`, 'ask');
+        recordPipelineOutcome('/api/ask', 'permission_denied');
+        return res.status(403).json({
+          error: basePermResult.blockedReason || 'Access denied',
+          isPermissionDenied: true,
+          blockId: registerBlockedQuery(permContext, question, basePermResult.blockedReason || 'Access denied', basePermResult.accessScope),
+        });
+      }
+      const pagingBaseSql = applyGlobalFilters(basePermResult.modifiedSql, filters).modifiedSql;
+
+      // Every page, the first included, runs as ORDER BY ... OFFSET/FETCH with the same total
+      // ordering; a query that can't be paged keeps the validator's row limit
+      const firstPage = buildPageSql(pagingBaseSql, 1, rowLimit);
+      if (firstPage) enforcedSql = firstPage.sql;
+
+      // Check the estimated plan against the cost budget (no-op when QUERY_COST_GUARD is off)
+      const costDecision = await checkQueryCost(enforcedSql);
+      if (costDecision.action !== 'skipped' || costDecision.error) {
+        recordCostCheck(logContext, summarizeCostDecision(costDecision));
+      }
+      if (costDecision.action === 'warn') {
+        log(`Cost guard warning: ${costDecision.reasons.join('; ')}`, 'ask');
+      }
+      if (costDecision.action === 'reject') {
+        const reason = costDecision.reasons.join('; ');
+        log(`Cost guard rejected query: ${reason}`, 'ask');
+        logCostRejection(logContext, enforcedSql, reason, llmMs);
+        recordPipelineOutcome('/api/ask', 'cost_rejected');
+        return res.status(422).json({
+          error: `This question would run an expensive query (${reason}). Try narrowing it with a filter or date range.`,
+          sql: enforcedSql,
+          isMock: false,
+          isCostRejected: true,
+          costCheck: summarizeCostDecision(costDecision),
+        });
+      }
       
       log(`Executing SQL: ${enforcedSql}`, 'ask');
 
-      // Execute the query
+      // Execute the query, counting the full result in parallel
+      const totalCount = countTotalRows(pagingBaseSql);
       const sqlStartTime = Date.now();
       const result = await executeQuery(enforcedSql);
       const sqlMs = Date.now() - sqlStartTime;
+      // The first page query fetches one extra row to tell whether another page follows
+      const { rows: recordset, cutOff } = takePage(result.recordset, rowLimit, firstPage !== null);
+      const rows = applyColumnMasking(recordset, permResult.columnMasking);
 
       // Log successful execution (use enforcedSql which is the validated/permission-filtered SQL)
       logSuccess(
         logContext,
         enforcedSql,
-        result.recordset.length,
+        recordset.length,
         llmMs,
         sqlMs
       );
+      recordPipelineOutcome('/api/ask', 'executed');
 
       // Track for FAQ popularity (only queries with results)
-      trackQueryForFAQ(question, result.recordset.length);
-
-      // Generate "did you mean?" suggestions asynchronously
-      const suggestions = await generateSuggestions(question);
-
-      // Get actual total count if results were limited to 100
-      let actualTotalCount: number | undefined;
-      if (result.recordset.length === 100) {
-        try {
-          // Build a count query from the original SQL
-          // Extract the FROM clause and everything after it
-          const fromIndex = enforcedSql.toUpperCase().indexOf(' FROM ');
-          if (fromIndex > -1) {
-            let countSql = 'SELECT COUNT(*) AS TotalCount' + enforcedSql.substring(fromIndex);
-            // Remove ORDER BY clause for count query
-            countSql = countSql.replace(/ORDER\s+BY\s+[^;]+/i, '');
-            const countResult = await executeQuery(countSql);
-            actualTotalCount = countResult.recordset[0]?.TotalCount;
-            log(`Actual total count: ${actualTotalCount} (showing first 100)`, 'ask');
-          }
-        } catch (countError: any) {
-          log(`Failed to get total count: ${countError.message}`, 'ask');
-        }
+      trackQueryForFAQ(question, recordset.length);
+
+      // Generate "did you mean?" suggestions asynchronously (skipped over the daily LLM budget)
+      const suggestions = budget.exceeded ? [] : await generateSuggestions(question, recordUsage);
+
+      // Use the total count if results were cut off at the row limit
+      const actualTotalCount = cutOff ? await totalCount : undefined;
+      if (actualTotalCount !== undefined) {
+        log(`Actual total count: ${actualTotalCount} (showing first ${rowLimit})`, 'ask');
       }
 
       // Check for empty results and find nearest dates if applicable
       let nearestDates: { before: string | null; after: string | null } | undefined;
       let invalidFilterMessage: string | undefined;
       
-      if (result.recordset.length === 0) {
+      if (recordset.length === 0) {
         const tableMatch = enforcedSql.match(/FROM\s+(\[?publish\]?\.\[?\w+\]?)/i);
         const tableName = tableMatch ? tableMatch[1].replace(/\[/g, '').replace(/\]/g, '') : null;
         
@@ -1048,28 +1277,50 @@ export async function registerRoutes(
       // If we detected an invalid filter value, use that message instead
       if (invalidFilterMessage) {
         naturalAnswer = invalidFilterMessage;
+      } else if (budget.exceeded) {
+        naturalAnswer = `Found ${recordset.length} result(s).`;
       } else {
         naturalAnswer = await generateNaturalLanguageResponse(
           question, 
-          result.recordset, 
-          result.recordset.length,
-          actualTotalCount
+          rows, 
+          recordset.length,
+          actualTotalCount,
+          recordUsage
         );
       }
 
-      // Cache successful SQL (cache base SQL before filters, so filters can be reapplied on cache hits)
-      cacheSuccessfulSql(question, finalSql, selectedTables);
+      // Cache successful SQL (cache base SQL before filters, so filters can be reapplied on cache hits).
+      // SQL written for a user with column rules or excluded tables isn't shared with other users.
+      if (columnRules.length === 0 && excludedTables.length === 0) {
+        cacheSuccessfulSql(question, finalSql, selectedTables);
+      }
+
+      const allAppliedFilters = [...(permResult.appliedFilters || []), ...globalFilterResult.appliedFilters];
+      const pagination = createResultSession({
+        context: permContext,
+        baseSql: pagingBaseSql,
+        pageSize: rowLimit,
+        hasMore: cutOff,
+        appliedFilters: allAppliedFilters,
+        columnMasking: permResult.columnMasking,
+        question,
+      });
 
       res.json({
+        requestId: logContext.requestId, // For feedback on this answer
         answer: naturalAnswer,
         sql: enforcedSql,
-        rows: result.recordset,
-        rowCount: result.recordset.length,
+        rows,
+        rowCount: recordset.length,
         actualTotalCount,
+        pagination,
+        appliedFilters: allAppliedFilters,
         isMock: false,
         suggestions: suggestions.length > 0 ? suggestions : undefined,
         nearestDates,
         invalidFilter: invalidFilterMessage ? true : undefined,
+        costWarning: costDecision.action === 'warn' ? costDecision.reasons : undefined,
+        budgetNotice: budget.exceeded ? describeBudgetExceeded(budget) : undefined,
         dataLastUpdated: publishDate || null,
       });
 
@@ -1082,6 +1333,7 @@ export async function registerRoutes(
         const validationOptions: ValidationOptions = {};
         const validation = validateAndModifySql(generatedSql, validationOptions);
         const failedSql = validation.modifiedSql || generatedSql;
+        recordPipelineOutcome('/api/ask', 'execution_failed');
         
         // Detect invalid column name errors (schema mismatch)
         const invalidColumnMatch = error.message?.match(/Invalid column name '([^']+)'/i);
@@ -1113,6 +1365,7 @@ export async function registerRoutes(
           logContext,
           error.message || 'Failed to generate SQL'
         );
+        recordPipelineOutcome('/api/ask', 'generation_failed');
       }
 
       res.status(500).json({
@@ -1122,12 +1375,214 @@ export async function registerRoutes(
     }
   });
 
+  // Fetch another page of a previous answer's results (server builds the OFFSET/FETCH SQL)
+  app.post("/api/ask/page", requireIdentity, async (req, res) => {
+    const resultId = req.body?.resultId;
+    const page = Number(req.body?.page);
+
+    if (!resultId || typeof resultId !== 'string') {
+      return res.status(400).json({ error: 'resultId is required' });
+    }
+    if (!Number.isInteger(page) || page < 1) {
+      return res.status(400).json({ error: 'page must be a positive integer' });
+    }
+
+    try {
+      const result = await fetchResultPage(resultId, page, getPermissionsForRequest(req));
+      if (!result.success) {
+        return res.status(result.status || 400).json({ error: result.error });
+      }
+      res.json(result.page);
+    } catch (error: any) {
+      log(`Error fetching result page: ${error.message}`, 'paging');
+      res.status(500).json({ error: error.message || 'Failed to fetch page' });
+    }
+  });
+
+  // ===== AUTH ENDPOINTS =====
+
+  // Current verified identity (null when signed out)
+  app.get("/api/auth/me", (req, res) => {
+    res.json({
+      identity: req.identity ?? null,
+      authRequired: isAuthRequired(),
+      hasLocalAccount: !!req.identity && !!getLocalAccount(req.identity.userId),
+    });
+  });
+
+  // Sign in with a local account ({ username, password }). An account whose password was
+  // set or reset by an admin gets 403 with mustChangePassword until the request also
+  // carries { newPassword }.
+  app.post("/api/auth/login", async (req, res) => {
+    const { username, password, newPassword } = req.body || {};
+    const result = await authenticateLocalAccount(username, password);
+    if (!result.success || !result.account) {
+      return res.status(result.status ?? 401).json({ error: result.error });
+    }
+
+    let account = result.account;
+    if (account.mustChangePassword) {
+      if (newPassword === undefined) {
+        return res.status(403).json({ error: 'Choose a new password to finish signing in', mustChangePassword: true });
+      }
+      const changed = await changeOwnPassword(account.userId, password, newPassword);
+      if (!changed.success || !changed.account) {
+        return res.status(changed.status ?? 400).json({ error: changed.error, mustChangePassword: true });
+      }
+      account = changed.account;
+    }
+
+    const permissions = getUserPermissions(account.userId);
+    const identity = { userId: account.userId, username: permissions?.username ?? account.username, email: permissions?.email, source: 'session' as const };
+    if (!setSessionCookie(res, identity)) {
+      return res.status(503).json({ error: 'Session cookies are not configured (SESSION_SECRET)' });
+    }
+    log(`[auth] Local sign-in for ${account.username}`, 'auth');
+    res.json({ identity });
+  });
+
+  // Change the signed-in user's local account password
+  app.post("/api/auth/password", requireIdentity, async (req, res) => {
+    if (!req.identity) {
+      return res.status(401).json({ error: 'Sign-in required' });
+    }
+    const { currentPassword, newPassword } = req.body || {};
+    const result = await changeOwnPassword(req.identity.userId, currentPassword, newPassword);
+    if (!result.success) {
+      return res.status(result.status ?? 400).json({ error: result.error });
+    }
+    res.json({ success: true });
+  });
+
+  // Exchange a signed identity token (Bearer header or { token } body) for a session cookie
+  app.post("/api/auth/session", (req, res) => {
+    let identity = req.identity?.source === 'token' ? req.identity : undefined;
+    if (typeof req.body?.token === 'string') {
+      const result = verifyIdentityToken(req.body.token);
+      if (!result.valid) {
+        log(`[auth] Rejected session token: ${result.error}`, 'auth');
+        return res.status(401).json({ error: 'Invalid identity token' });
+      }
+      identity = result.identity;
+    }
+
+    if (!identity) {
+      return res.status(401).json({ error: 'A signed identity token is required' });
+    }
+    if (!setSessionCookie(res, identity)) {
+      return res.status(503).json({ error: 'Session cookies are not configured (SESSION_SECRET)' });
+    }
+    log(`[auth] Session started for ${identity.username ?? identity.userId}`, 'auth');
+    res.json({ identity: { ...identity, source: 'session' } });
+  });
+
+  // Sign out of the session cookie
+  app.delete("/api/auth/session", (_req, res) => {
+    clearSessionCookie(res);
+    res.json({ success: true });
+  });
+
+  // Users offered by the development sign-in switcher
+  app.get("/api/auth/dev-users", (_req, res) => {
+    if (process.env.NODE_ENV === 'production') {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    res.json({
+      users: getAllUserPermissions().map(user => ({ userId: user.userId, username: user.username })),
+    });
+  });
+
+  // Development sign-in as a user from the stored permissions (replaces the old x-username header)
+  app.post("/api/auth/dev-login", (req, res) => {
+    if (process.env.NODE_ENV === 'production') {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    const userId = typeof req.body?.userId === 'string' ? req.body.userId : '';
+    const user = getUserPermissions(userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const identity = { userId: user.userId, username: user.username, email: user.email, source: 'session' as const };
+    if (!setSessionCookie(res, identity)) {
+      return res.status(503).json({ error: 'Session cookies are not configured (SESSION_SECRET)' });
+    }
+    res.json({ identity });
+  });
+
+  // ===== ACCESS REQUESTS =====
+
+  // Request the access a permission-denied query needed ({ blockId } from the denial)
+  app.post("/api/access-requests", requireIdentity, async (req, res) => {
+    const { blockId, comment } = req.body || {};
+    if (typeof blockId !== "string" || !blockId) {
+      return res.status(400).json({ error: "blockId is required" });
+    }
+    try {
+      const result = await createAccessRequest(getPermissionsForRequest(req), blockId, typeof comment === "string" ? comment.slice(0, 1000) : undefined);
+      if (!result.success) {
+        return res.status(result.status || 500).json({ error: result.error });
+      }
+      res.json({ request: result.request });
+    } catch (error: any) {
+      log(`[access-requests] Error creating access request: ${error.message}`, "error");
+      res.status(500).json({ error: "Failed to save the access request" });
+    }
+  });
+
+  // The signed-in user's access requests and their outcomes
+  app.get("/api/access-requests", requireIdentity, (req, res) => {
+    res.json({ requests: getAccessRequestsForUser(getPermissionsForRequest(req)) });
+  });
+
   // ===== ADMIN PERMISSIONS ENDPOINTS =====
-  // NOTE: These endpoints need authentication/authorization when integrated with parent Blazor app.
-  // Currently unprotected for development. In production, verify user identity and isAdmin flag.
-  
-  // Initialize permissions storage
-  initPermissions();
+  // Every /api/admin route requires an administrator identity (see requireAdmin);
+  // changes are written to the audit log.
+
+  // Load permissions, groups, categories, access requests, FAQ counts, feedback and recent
+  // query logs from the data store
+  await initPermissions();
+  await initPermissionGroups();
+  await initTableAccessCategories();
+  await initAccessRequests();
+  await initQueryLogger();
+  await initLocalAccounts();
+  await initLlmUsage();
+  startGrantExpirySweep();
+
+  app.use("/api/admin", requireAdmin);
+
+  // Get analytics data for dashboard
+  app.get("/api/admin/analytics", (req, res) => {
+    const timeRange = req.query.timeRange ? parseInt(req.query.timeRange as string, 10) : 1440; // 24 hours
+    const analytics = getAnalytics(timeRange);
+    res.json(analytics);
+  });
+
+  // Get failed queries for analysis (includes full SQL and error details)
+  app.get("/api/admin/analytics/failed-queries", (req, res) => {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+    const failedQueries = getFailedQueries(limit);
+    res.json(failedQueries);
+  });
+
+  // Tokens, model and cost of each LLM call made for one request
+  app.get("/api/admin/analytics/llm-usage/:requestId", (req, res) => {
+    const calls = getLlmUsageForRequest(req.params.requestId);
+    res.json({
+      requestId: req.params.requestId,
+      calls,
+      totalTokens: calls.reduce((sum, call) => sum + call.totalTokens, 0),
+      costUsd: calls.reduce((sum, call) => sum + (call.costUsd ?? 0), 0),
+    });
+  });
+
+  // Get queries whose estimated plan exceeded the cost budget
+  app.get("/api/admin/analytics/expensive-queries", (req, res) => {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+    res.json(getExpensiveQueries(limit));
+  });
 
   // Get all users with permissions (admin only)
   app.get("/api/admin/users", (_req, res) => {
@@ -1140,6 +1595,61 @@ export async function registerRoutes(
     }
   });
 
+  // Download every user's permissions as CSV or JSON (admin only)
+  app.get("/api/admin/permissions/export", (req, res) => {
+    const format = req.query.format === "json" ? "json" : "csv";
+    try {
+      const content = exportUserPermissions(format);
+      const filename = `user-permissions-${new Date().toISOString().slice(0, 10)}.${format}`;
+      res.setHeader("Content-Type", format === "json" ? "application/json" : "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(content);
+    } catch (error: any) {
+      log(`[admin] Error exporting permissions: ${error.message}`, "error");
+      res.status(500).json({ error: "Failed to export permissions" });
+    }
+  });
+
+  // Import a CSV or JSON permissions file: dry run by default, apply with dryRun: false (admin only)
+  app.post("/api/admin/permissions/import", async (req, res) => {
+    const { content, format, dryRun = true, removeMissing = false } = req.body || {};
+    if (typeof content !== "string" || content.trim().length === 0) {
+      return res.status(400).json({ error: "File content is required" });
+    }
+    if (format !== "csv" && format !== "json") {
+      return res.status(400).json({ error: "Format must be csv or json" });
+    }
+
+    // Names are validated against the same values the filter dropdowns offer
+    let known: KnownFilterValues;
+    try {
+      const options = await getFilterOptions({});
+      known = { planningAreas: options.planningAreas, scenarios: options.scenarios.map(s => s.id), plants: options.plants };
+    } catch (error: any) {
+      log(`[admin] Could not load filter options for import: ${error.message}`, "error");
+      return res.status(503).json({ error: "Could not load planning areas, scenarios and plants to validate the import" });
+    }
+
+    try {
+      const options = { removeMissing: removeMissing === true };
+      if (dryRun !== false) {
+        return res.json({ plan: planPermissionsImport(content, format, options, known), applied: false });
+      }
+
+      const { plan, applied } = await applyPermissionsImport(content, format, options, known);
+      if (plan.errors.length > 0) {
+        return res.status(400).json({ error: "Import has errors; nothing was changed", plan, applied: false });
+      }
+      for (const change of applied) {
+        recordAdminChange(req, 'user', change.userId, change.before, change.after, change.username);
+      }
+      res.json({ plan, applied: true });
+    } catch (error: any) {
+      log(`[admin] Error importing permissions: ${error.message}`, "error");
+      res.status(500).json({ error: "Failed to import permissions; nothing was changed" });
+    }
+  });
+
   // Get permissions for a specific user (admin only)
   app.get("/api/admin/permissions/:userId", (req, res) => {
     try {
@@ -1156,7 +1666,7 @@ export async function registerRoutes(
   });
 
   // Create or update user permissions (admin only)
-  app.put("/api/admin/permissions/:userId", (req, res) => {
+  app.put("/api/admin/permissions/:userId", async (req, res) => {
     try {
       const { userId } = req.params;
       const body = { ...req.body, userId };
@@ -1169,7 +1679,19 @@ export async function registerRoutes(
         });
       }
 
-      const permissions = createOrUpdateUserPermissions(parseResult.data);
+      const unknownCategories = findUnknownCategories([
+        parseResult.data.allowedTableAccess,
+        parseResult.data.deniedTableAccess,
+        grantedCategories(parseResult.data.grants),
+      ]);
+      if (unknownCategories.length > 0) {
+        return res.status(400).json({ error: `Unknown table access categories: ${unknownCategories.join(', ')}` });
+      }
+
+      const before = getUserPermissions(userId);
+      const snapshot = before && structuredClone(before);
+      const permissions = await createOrUpdateUserPermissions(parseResult.data);
+      recordAdminChange(req, 'user', userId, snapshot, permissions, permissions.username);
       res.json({ permissions });
     } catch (error: any) {
       log(`[admin] Error updating user permissions: ${error.message}`, "error");
@@ -1177,8 +1699,14 @@ export async function registerRoutes(
     }
   });
 
+  // Time-bounded grants expiring within ?days= (default 14), soonest first (admin only)
+  app.get("/api/admin/permission-grants/expiring", (req, res) => {
+    const days = Math.min(Math.max(parseInt(req.query.days as string, 10) || 14, 1), 365);
+    res.json({ days, expirations: getUpcomingExpirations(days * 24 * 60 * 60 * 1000) });
+  });
+
   // Create a new user with permissions (admin only)
-  app.post("/api/admin/permissions", (req, res) => {
+  app.post("/api/admin/permissions", async (req, res) => {
     try {
       const parseResult = userPermissionsSchema.safeParse(req.body);
       if (!parseResult.success) {
@@ -1188,13 +1716,23 @@ export async function registerRoutes(
         });
       }
 
+      const unknownCategories = findUnknownCategories([
+        parseResult.data.allowedTableAccess,
+        parseResult.data.deniedTableAccess,
+        grantedCategories(parseResult.data.grants),
+      ]);
+      if (unknownCategories.length > 0) {
+        return res.status(400).json({ error: `Unknown table access categories: ${unknownCategories.join(', ')}` });
+      }
+
       // Check if username already exists
       const existing = getUserPermissionsByUsername(parseResult.data.username);
       if (existing) {
         return res.status(409).json({ error: "Username already exists" });
       }
 
-      const permissions = createOrUpdateUserPermissions(parseResult.data);
+      const permissions = await createOrUpdateUserPermissions(parseResult.data);
+      recordAdminChange(req, 'user', permissions.userId, undefined, permissions, permissions.username);
       res.json({ permissions });
     } catch (error: any) {
       log(`[admin] Error creating user: ${error.message}`, "error");
@@ -1203,13 +1741,19 @@ export async function registerRoutes(
   });
 
   // Delete user permissions (admin only)
-  app.delete("/api/admin/permissions/:userId", (req, res) => {
+  app.delete("/api/admin/permissions/:userId", async (req, res) => {
     try {
       const { userId } = req.params;
-      const deleted = deleteUserPermissions(userId);
+      const before = getUserPermissions(userId);
+      const deleted = await deleteUserPermissions(userId);
       if (!deleted) {
         return res.status(404).json({ error: "User not found" });
       }
+      recordAdminChange(req, 'user', userId, before, undefined, before?.username);
+      const account = await deleteLocalAccount(userId);
+      if (account) {
+        recordAdminChange(req, 'account', userId, account, undefined, account.username);
+      }
       res.json({ success: true });
     } catch (error: any) {
       log(`[admin] Error deleting user: ${error.message}`, "error");
@@ -1217,13 +1761,416 @@ export async function registerRoutes(
     }
   });
 
-  // Get permission options (table access types)
+  // ===== LOCAL ACCOUNTS (admin only) =====
+
+  app.get("/api/admin/accounts", (_req, res) => {
+    res.json({ accounts: getLocalAccounts() });
+  });
+
+  // Create a local account for a user ({ userId, username, password }); the user must
+  // change the password at first sign-in
+  app.post("/api/admin/accounts", async (req, res) => {
+    const { userId, username, password } = req.body || {};
+    if (typeof userId !== 'string' || typeof username !== 'string') {
+      return res.status(400).json({ error: 'userId and username are required' });
+    }
+    const result = await createLocalAccount(userId, username, password);
+    if (!result.success || !result.account) {
+      return res.status(result.status ?? 400).json({ error: result.error });
+    }
+    recordAdminChange(req, 'account', userId, undefined, result.account, result.account.username);
+    res.status(201).json({ account: result.account });
+  });
+
+  // Reset a local account's password ({ password }); the user must change it at next sign-in
+  app.post("/api/admin/accounts/:userId/reset-password", async (req, res) => {
+    const before = getLocalAccount(req.params.userId);
+    const result = await resetLocalAccountPassword(req.params.userId, req.body?.password);
+    if (!result.success || !result.account) {
+      return res.status(result.status ?? 400).json({ error: result.error });
+    }
+    recordAdminChange(req, 'account', req.params.userId, before, result.account, result.account.username);
+    res.json({ account: result.account });
+  });
+
+  app.delete("/api/admin/accounts/:userId", async (req, res) => {
+    try {
+      const account = await deleteLocalAccount(req.params.userId);
+      if (!account) {
+        return res.status(404).json({ error: 'Local account not found' });
+      }
+      recordAdminChange(req, 'account', req.params.userId, account, undefined, account.username);
+      res.json({ success: true });
+    } catch (error: any) {
+      log(`[admin] Error deleting local account: ${error.message}`, "error");
+      res.status(500).json({ error: "Failed to delete local account" });
+    }
+  });
+
+  // Effective permissions of a user after merging their groups (admin only)
+  app.get("/api/admin/permissions/:userId/effective", (req, res) => {
+    try {
+      const permissions = getUserPermissions(req.params.userId);
+      if (!permissions) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json({ effective: resolveEffectivePermissions(permissions) });
+    } catch (error: any) {
+      log(`[admin] Error resolving effective permissions: ${error.message}`, "error");
+      res.status(500).json({ error: "Failed to resolve effective permissions" });
+    }
+  });
+
+  // Run a question or SQL through a user's permissions without executing it as them (admin only)
+  app.post("/api/admin/permissions/:userId/preview", async (req, res) => {
+    const { question, sql, publishDate, filters, includeRows, sampleSize } = req.body || {};
+    const hasQuestion = typeof question === "string" && question.trim().length > 0;
+    const hasSql = typeof sql === "string" && sql.trim().length > 0;
+    if (!hasQuestion && !hasSql) {
+      return res.status(400).json({ error: "A question or SQL is required" });
+    }
+
+    try {
+      const permissions = getUserPermissions(req.params.userId);
+      if (!permissions) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      log(`[admin] ${req.identity?.username ?? req.identity?.userId ?? "anonymous"} previewing ${hasSql ? "SQL" : "question"} as ${permissions.username}`, "admin");
+      const preview = await previewAsUser(
+        { userId: permissions.userId, username: permissions.username },
+        {
+          question: hasQuestion ? question : undefined,
+          sql: hasSql ? sql : undefined,
+          publishDate,
+          filters,
+          includeRows: includeRows === true,
+          sampleSize: typeof sampleSize === "number" ? sampleSize : undefined,
+        }
+      );
+      res.json({ preview });
+    } catch (error: any) {
+      log(`[admin] Error previewing permissions: ${error.message}`, "error");
+      res.status(500).json({ error: "Failed to preview permissions" });
+    }
+  });
+
+  // ===== PERMISSION GROUPS (admin only) =====
+
+  app.get("/api/admin/groups", (_req, res) => {
+    try {
+      res.json({ groups: getAllPermissionGroups() });
+    } catch (error: any) {
+      log(`[admin] Error fetching groups: ${error.message}`, "error");
+      res.status(500).json({ error: "Failed to fetch groups" });
+    }
+  });
+
+  app.post("/api/admin/groups", async (req, res) => {
+    try {
+      const parseResult = permissionGroupSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid group data",
+          details: parseResult.error.format()
+        });
+      }
+
+      const unknownCategories = findUnknownCategories([parseResult.data.allowedTableAccess, parseResult.data.deniedTableAccess]);
+      if (unknownCategories.length > 0) {
+        return res.status(400).json({ error: `Unknown table access categories: ${unknownCategories.join(', ')}` });
+      }
+
+      if (getPermissionGroupByName(parseResult.data.name)) {
+        return res.status(409).json({ error: "A group with this name already exists" });
+      }
+
+      const group = await createOrUpdatePermissionGroup(parseResult.data);
+      recordAdminChange(req, 'group', group.groupId, undefined, group, group.name);
+      res.json({ group });
+    } catch (error: any) {
+      log(`[admin] Error creating group: ${error.message}`, "error");
+      res.status(500).json({ error: "Failed to create group" });
+    }
+  });
+
+  app.put("/api/admin/groups/:groupId", async (req, res) => {
+    try {
+      const { groupId } = req.params;
+      const parseResult = permissionGroupSchema.safeParse({ ...req.body, groupId });
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid group data",
+          details: parseResult.error.format()
+        });
+      }
+
+      const unknownCategories = findUnknownCategories([parseResult.data.allowedTableAccess, parseResult.data.deniedTableAccess]);
+      if (unknownCategories.length > 0) {
+        return res.status(400).json({ error: `Unknown table access categories: ${unknownCategories.join(', ')}` });
+      }
+
+      const sameName = getPermissionGroupByName(parseResult.data.name);
+      if (sameName && sameName.groupId !== groupId) {
+        return res.status(409).json({ error: "A group with this name already exists" });
+      }
+
+      const before = getPermissionGroup(groupId);
+      const group = await createOrUpdatePermissionGroup(parseResult.data);
+      recordAdminChange(req, 'group', groupId, before, group, group.name);
+      res.json({ group });
+    } catch (error: any) {
+      log(`[admin] Error updating group: ${error.message}`, "error");
+      res.status(500).json({ error: "Failed to update group" });
+    }
+  });
+
+  app.delete("/api/admin/groups/:groupId", async (req, res) => {
+    try {
+      const { groupId } = req.params;
+      const before = getPermissionGroup(groupId);
+      // Members lose the group too; snapshot them so those changes are audited
+      const members = getAllUserPermissions()
+        .filter(user => user.groupIds?.includes(groupId))
+        .map(user => structuredClone(user));
+
+      const deleted = await deletePermissionGroup(groupId);
+      if (!deleted) {
+        return res.status(404).json({ error: "Group not found" });
+      }
+      recordAdminChange(req, 'group', groupId, before, undefined, before?.name);
+      for (const member of members) {
+        recordAdminChange(req, 'user', member.userId, member, getUserPermissions(member.userId), member.username);
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      log(`[admin] Error deleting group: ${error.message}`, "error");
+      res.status(500).json({ error: "Failed to delete group" });
+    }
+  });
+
+  // Audit log of admin changes, newest first (?user=&from=&to=&entityType=&limit=)
+  app.get("/api/admin/audit", (req, res) => {
+    const entityType = auditEntityTypes.find(value => value === req.query.entityType);
+    if (req.query.entityType !== undefined && !entityType) {
+      return res.status(400).json({ error: `entityType must be one of: ${auditEntityTypes.join(', ')}` });
+    }
+    const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : undefined;
+    res.json(queryAuditLog({
+      user: req.query.user ? String(req.query.user) : undefined,
+      from: req.query.from ? String(req.query.from) : undefined,
+      to: req.query.to ? String(req.query.to) : undefined,
+      entityType,
+      limit: Number.isNaN(limit) ? undefined : limit,
+    }));
+  });
+
+  // Access requests queue, pending first (admin only)
+  app.get("/api/admin/access-requests", (req, res) => {
+    const status = accessRequestStatuses.find(value => value === req.query.status);
+    const requests = getAccessRequests({ status });
+    res.json({ requests: [...requests.filter(r => r.status === "pending"), ...requests.filter(r => r.status !== "pending")] });
+  });
+
+  // Approve (granting the access to the user) or deny an access request (admin only)
+  app.post("/api/admin/access-requests/:id/decision", async (req, res) => {
+    const parseResult = accessRequestDecisionSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ error: "Invalid decision", details: parseResult.error.format() });
+    }
+
+    try {
+      const result = await decideAccessRequest(req.params.id, parseResult.data, req.identity);
+      if (!result.success) {
+        return res.status(result.status || 500).json({ error: result.error });
+      }
+      if (result.after) {
+        recordAdminChange(req, 'user', result.after.userId, result.before, result.after, result.after.username);
+      }
+      res.json({ request: result.request, warning: result.warning });
+    } catch (error: any) {
+      log(`[admin] Error deciding access request: ${error.message}`, "error");
+      res.status(500).json({ error: "Failed to decide access request" });
+    }
+  });
+
+  // ===== FEEDBACK TRIAGE (admin only) =====
+
+  // Get feedback statistics
+  app.get("/api/admin/feedback/stats", (_req, res) => {
+    const stats = getFeedbackStats();
+    res.json(stats);
+  });
+
+  // Get negative feedback (thumbs down) for analysis; entries carry who gave it and its triage
+  app.get("/api/admin/feedback/negative", (req, res) => {
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+    const negativeFeedback = getNegativeFeedback(limit);
+    res.json({ feedback: negativeFeedback, count: negativeFeedback.length });
+  });
+
+  // Feedback inbox, newest first, with the linked query log entry (?status=&feedback=up|down&limit=)
+  app.get("/api/admin/feedback", (req, res) => {
+    const status = feedbackTriageStatuses.find(value => value === req.query.status);
+    const feedback = req.query.feedback === 'up' || req.query.feedback === 'down' ? req.query.feedback : undefined;
+    const limit = req.query.limit ? parseInt(String(req.query.limit), 10) : undefined;
+    res.json(getFeedbackInbox({ status, feedback, limit: Number.isNaN(limit) ? undefined : limit }));
+  });
+
+  // Set the triage status, notes and corrected SQL of a feedback item
+  app.put("/api/admin/feedback/:id/triage", async (req, res) => {
+    const parseResult = feedbackTriageSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ error: "Invalid triage", details: parseResult.error.format() });
+    }
+    const id = parseInt(req.params.id, 10);
+    const before = getFeedbackEntry(id);
+    if (!before) {
+      return res.status(404).json({ error: "Feedback not found" });
+    }
+
+    // A corrected query must pass the same validation as generated SQL
+    const correctedSql = parseResult.data.correctedSql?.trim();
+    if (correctedSql) {
+      const validation = validateAndModifySql(correctedSql, {});
+      if (!validation.valid) {
+        return res.status(400).json({ error: `Corrected SQL is not valid: ${validation.error}` });
+      }
+    }
+
+    try {
+      const previousTriage = { ...before.triage };
+      const entry = (await updateFeedbackTriage(id, parseResult.data, req.identity?.username ?? req.identity?.userId))!;
+      recordAdminChange(req, 'feedback', String(id), previousTriage, { ...entry.triage }, entry.question.substring(0, 80));
+      res.json({ entry });
+    } catch (error: any) {
+      log(`[admin] Error triaging feedback: ${error.message}`, "error");
+      res.status(500).json({ error: "Failed to save triage" });
+    }
+  });
+
+  // ===== GOLDEN CASES (admin only) =====
+
+  // Cases promoted into tests/golden/promoted_cases.json
+  app.get("/api/admin/golden-cases", (_req, res) => {
+    res.json({ cases: getGoldenCases() });
+  });
+
+  // Prefilled case for a feedback item or failed query, for the admin to review
+  app.get("/api/admin/golden-cases/draft", (req, res) => {
+    const type = goldenCaseSourceTypes.find(value => value === req.query.source);
+    const id = typeof req.query.id === 'string' ? req.query.id : '';
+    if (!type || !id) {
+      return res.status(400).json({ error: "source (feedback or failed_query) and id are required" });
+    }
+    const result = draftGoldenCase(type, id);
+    if (!result.success) {
+      return res.status(result.status ?? 400).json({ error: result.error });
+    }
+    res.json({ draft: result.draft });
+  });
+
+  app.post("/api/admin/golden-cases", (req, res) => {
+    const parseResult = goldenCaseSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({ error: "Invalid golden case", details: parseResult.error.format() });
+    }
+    const result = promoteGoldenCase(parseResult.data, req.identity?.username ?? req.identity?.userId);
+    if (!result.success) {
+      return res.status(result.status ?? 400).json({ error: result.error });
+    }
+    recordAdminChange(req, 'golden_case', result.goldenCase!.id, undefined, result.goldenCase, result.goldenCase!.id);
+    res.json({ goldenCase: result.goldenCase });
+  });
+
+  // Get permission options (table access categories)
   app.get("/api/admin/permission-options", (_req, res) => {
     res.json({
-      tableAccessOptions: [...tableAccessOptions]
+      tableAccessOptions: getTableAccessCategories().map(category => category.name)
     });
   });
 
+  // ===== TABLE ACCESS CATEGORIES (admin only) =====
+
+  app.get("/api/admin/table-access-categories", (_req, res) => {
+    res.json({ categories: getTableAccessCategories() });
+  });
+
+  app.post("/api/admin/table-access-categories", async (req, res) => {
+    try {
+      const parseResult = tableAccessCategorySchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid category data",
+          details: parseResult.error.format()
+        });
+      }
+
+      if (getTableAccessCategory(parseResult.data.name)) {
+        return res.status(409).json({ error: "A category with this name already exists" });
+      }
+
+      const category = await createOrUpdateTableAccessCategory(parseResult.data);
+      recordAdminChange(req, 'category', category.name, undefined, category, category.name);
+      res.json({ category });
+    } catch (error: any) {
+      log(`[admin] Error creating table access category: ${error.message}`, "error");
+      res.status(500).json({ error: "Failed to create category" });
+    }
+  });
+
+  // Categories are referred to by name, so the name can't change
+  app.put("/api/admin/table-access-categories/:name", async (req, res) => {
+    try {
+      const before = getTableAccessCategory(req.params.name);
+      if (!before) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+
+      const parseResult = tableAccessCategorySchema.safeParse({ ...req.body, name: before.name });
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: "Invalid category data",
+          details: parseResult.error.format()
+        });
+      }
+
+      const category = await createOrUpdateTableAccessCategory(parseResult.data);
+      recordAdminChange(req, 'category', category.name, before, category, category.name);
+      res.json({ category });
+    } catch (error: any) {
+      log(`[admin] Error updating table access category: ${error.message}`, "error");
+      res.status(500).json({ error: "Failed to update category" });
+    }
+  });
+
+  app.delete("/api/admin/table-access-categories/:name", async (req, res) => {
+    try {
+      const before = getTableAccessCategory(req.params.name);
+      if (!before) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+
+      // Users and groups lose the category too; snapshot them so those changes are audited
+      const refersTo = (record: { allowedTableAccess: string[] | null; deniedTableAccess?: string[] | null }) =>
+        !!record.allowedTableAccess?.includes(before.name) || !!record.deniedTableAccess?.includes(before.name);
+      const users = getAllUserPermissions().filter(refersTo).map(user => structuredClone(user));
+      const groups = getAllPermissionGroups().filter(refersTo).map(group => structuredClone(group));
+
+      await deleteTableAccessCategory(before.name);
+      recordAdminChange(req, 'category', before.name, before, undefined, before.name);
+      for (const user of users) {
+        recordAdminChange(req, 'user', user.userId, user, getUserPermissions(user.userId), user.username);
+      }
+      for (const group of groups) {
+        recordAdminChange(req, 'group', group.groupId, group, getPermissionGroup(group.groupId), group.name);
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      log(`[admin] Error deleting table access category: ${error.message}`, "error");
+      res.status(500).json({ error: "Failed to delete category" });
+    }
+  });
+
   // Run validator self-check on startup in development mode
   if (process.env.NODE_ENV !== 'production') {
     log('Running validator self-check...', 'startup');
@@ -1,6 +1,6 @@
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
-import { log } from './index';
+import { log } from './log';
 
 /**
  * Schema metadata for a single table
@@ -84,6 +84,13 @@ export async function getTableSchemas(tableNames: string[]): Promise<Map<string,
   return filteredSchemas;
 }
 
+/**
+ * Get every table in the static schema file
+ */
+export function getAllStaticSchemas(): Map<string, TableSchema> {
+  return loadStaticSchema();
+}
+
 /**
  * Get schemas for all tables in a given mode
  */
@@ -1,4 +1,4 @@
-import { log } from './index';
+import { log } from './log';
 import { getTableSchemas, getTableColumns, columnExists, findClosestColumn, findClosestColumns, TableSchema } from './schema-introspection';
 
 export interface ColumnValidationResult {
@@ -0,0 +1,1229 @@
+/**
+ * T-SQL Parser
+ * Tokenizes and parses the SELECT subset of T-SQL produced by the LLM into a tree of
+ * statements, CTEs, subqueries, joins and table references. Every node keeps its
+ * source offsets so callers can rewrite the original SQL text in place.
+ */
+
+export type TokenType = 'word' | 'quoted' | 'string' | 'number' | 'variable' | 'operator';
+
+export interface Token {
+  type: TokenType;
+  value: string; // Unescaped identifier for quoted tokens, raw text otherwise
+  upper: string; // Uppercased value, used for keyword comparisons on word tokens
+  start: number;
+  end: number;
+}
+
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+export interface FunctionCall extends SourceRange {
+  name: string; // Multi-part name as written, without brackets (e.g. COUNT, dbo.fnFoo)
+  argsStart: number;
+  argsEnd: number;
+  over: boolean; // Followed by an OVER (...) window clause
+}
+
+export interface ColumnReference extends SourceRange {
+  parts: string[]; // [column], [alias, column] or [schema, table, column]
+}
+
+export interface StarReference extends SourceRange {
+  qualifier?: string;
+}
+
+export interface ExpressionNode extends SourceRange {
+  functions: FunctionCall[];
+  columns: ColumnReference[];
+  stars: StarReference[];
+  variables: string[];
+  subqueries: QueryExpression[];
+}
+
+export interface SelectItem extends SourceRange {
+  expression: ExpressionNode;
+  alias?: string;
+}
+
+export interface TopClause extends SourceRange {
+  countEnd: number; // End of "TOP (n)", before any PERCENT / WITH TIES
+  value: number | null; // Literal row count, null when TOP uses an expression
+  percent: boolean;
+  withTies: boolean;
+  expression?: ExpressionNode;
+}
+
+export interface TableReference extends SourceRange {
+  kind: 'table';
+  server?: string;
+  database?: string;
+  schema?: string;
+  name: string;
+  alias?: string;
+  isCte: boolean;
+  text: string; // Original text of the object name
+}
+
+export interface DerivedTable extends SourceRange {
+  kind: 'derived';
+  query: QueryExpression;
+  alias?: string;
+}
+
+export interface TableFunction extends SourceRange {
+  kind: 'function';
+  call: FunctionCall;
+  args: ExpressionNode[];
+  alias?: string;
+}
+
+export type TableSource = TableReference | DerivedTable | TableFunction;
+
+export type JoinType =
+  | 'INNER'
+  | 'LEFT'
+  | 'RIGHT'
+  | 'FULL'
+  | 'CROSS'
+  | 'CROSS APPLY'
+  | 'OUTER APPLY'
+  | 'COMMA';
+
+export interface JoinClause extends SourceRange {
+  type: JoinType;
+  source: TableSource;
+  on?: ExpressionNode;
+}
+
+export interface FromClause extends SourceRange {
+  source: TableSource;
+  joins: JoinClause[];
+}
+
+export interface ClauseNode extends SourceRange {
+  keywordStart: number;
+  expression: ExpressionNode;
+}
+
+export interface ListClause extends SourceRange {
+  keywordStart: number;
+  items: ExpressionNode[];
+}
+
+export interface SelectStatement extends SourceRange {
+  type: 'select';
+  topInsertAt: number; // Offset right after SELECT [ALL | DISTINCT]
+  distinct?: SourceRange;
+  top?: TopClause;
+  topBeforeDistinct: boolean; // SELECT TOP (n) DISTINCT ... (invalid T-SQL, repaired by the validator)
+  items: SelectItem[];
+  into?: SourceRange;
+  from?: FromClause;
+  where?: ClauseNode;
+  groupBy?: ListClause;
+  having?: ClauseNode;
+}
+
+export type QueryTerm = SelectStatement | QueryExpression;
+
+export interface QueryExpression extends SourceRange {
+  type: 'query';
+  terms: QueryTerm[];
+  operators: string[]; // UNION, UNION ALL, EXCEPT, INTERSECT between consecutive terms
+  parenthesized: boolean;
+  orderBy?: ListClause;
+  offsetFetch?: OffsetFetchClause;
+}
+
+export interface OffsetFetchClause extends SourceRange {
+  offset: ExpressionNode;
+  fetch?: ExpressionNode; // Row count of FETCH NEXT n ROWS ONLY
+  fetchValue: number | null; // Literal FETCH row count, null when absent or an expression
+}
+
+export interface CommonTableExpression extends SourceRange {
+  name: string;
+  columns: string[];
+  query: QueryExpression;
+}
+
+export interface SqlStatement extends SourceRange {
+  ctes: CommonTableExpression[];
+  query: QueryExpression;
+  option?: SourceRange;
+}
+
+export class SqlSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+    public readonly multipleStatements = false
+  ) {
+    super(message);
+    this.name = 'SqlSyntaxError';
+  }
+}
+
+// T-SQL reserved keywords - never column names or aliases when unquoted
+const RESERVED_KEYWORDS = new Set([
+  'ADD', 'ALL', 'ALTER', 'AND', 'ANY', 'AS', 'ASC', 'AUTHORIZATION', 'BACKUP', 'BEGIN', 'BETWEEN',
+  'BREAK', 'BROWSE', 'BULK', 'BY', 'CASCADE', 'CASE', 'CHECK', 'CHECKPOINT', 'CLOSE', 'CLUSTERED',
+  'COALESCE', 'COLLATE', 'COLUMN', 'COMMIT', 'COMPUTE', 'CONSTRAINT', 'CONTAINS', 'CONTAINSTABLE',
+  'CONTINUE', 'CONVERT', 'CREATE', 'CROSS', 'CURRENT', 'CURRENT_DATE', 'CURRENT_TIME',
+  'CURRENT_TIMESTAMP', 'CURRENT_USER', 'CURSOR', 'DATABASE', 'DBCC', 'DEALLOCATE', 'DECLARE',
+  'DEFAULT', 'DELETE', 'DENY', 'DESC', 'DISK', 'DISTINCT', 'DISTRIBUTED', 'DOUBLE', 'DROP', 'DUMP',
+  'ELSE', 'END', 'ERRLVL', 'ESCAPE', 'EXCEPT', 'EXEC', 'EXECUTE', 'EXISTS', 'EXIT', 'EXTERNAL',
+  'FETCH', 'FILE', 'FILLFACTOR', 'FOR', 'FOREIGN', 'FREETEXT', 'FREETEXTTABLE', 'FROM', 'FULL',
+  'FUNCTION', 'GOTO', 'GRANT', 'GROUP', 'HAVING', 'HOLDLOCK', 'IDENTITY', 'IDENTITY_INSERT',
+  'IDENTITYCOL', 'IF', 'IN', 'INDEX', 'INNER', 'INSERT', 'INTERSECT', 'INTO', 'IS', 'JOIN', 'KEY',
+  'KILL', 'LEFT', 'LIKE', 'LINENO', 'LOAD', 'MERGE', 'NATIONAL', 'NOCHECK', 'NONCLUSTERED', 'NOT',
+  'NULL', 'NULLIF', 'OF', 'OFF', 'OFFSETS', 'ON', 'OPEN', 'OPENDATASOURCE', 'OPENQUERY',
+  'OPENROWSET', 'OPENXML', 'OPTION', 'OR', 'ORDER', 'OUTER', 'OVER', 'PERCENT', 'PIVOT', 'PLAN',
+  'PRECISION', 'PRIMARY', 'PRINT', 'PROC', 'PROCEDURE', 'PUBLIC', 'RAISERROR', 'READ', 'READTEXT',
+  'RECONFIGURE', 'REFERENCES', 'REPLICATION', 'RESTORE', 'RESTRICT', 'RETURN', 'REVERT', 'REVOKE',
+  'RIGHT', 'ROLLBACK', 'ROWCOUNT', 'ROWGUIDCOL', 'RULE', 'SAVE', 'SCHEMA', 'SECURITYAUDIT', 'SELECT',
+  'SEMANTICKEYPHRASETABLE', 'SEMANTICSIMILARITYDETAILSTABLE', 'SEMANTICSIMILARITYTABLE',
+  'SESSION_USER', 'SET', 'SETUSER', 'SHUTDOWN', 'SOME', 'STATISTICS', 'SYSTEM_USER', 'TABLE',
+  'TABLESAMPLE', 'TEXTSIZE', 'THEN', 'TO', 'TOP', 'TRAN', 'TRANSACTION', 'TRIGGER', 'TRUNCATE',
+  'TRY_CONVERT', 'TSEQUAL', 'UNION', 'UNIQUE', 'UNPIVOT', 'UPDATE', 'UPDATETEXT', 'USE', 'USER',
+  'VALUES', 'VARYING', 'VIEW', 'WAITFOR', 'WHEN', 'WHERE', 'WHILE', 'WITH', 'WITHIN', 'WRITETEXT',
+]);
+
+// Reserved keywords that continue an expression rather than ending it
+const EXPRESSION_KEYWORDS = new Set([
+  'AND', 'OR', 'NOT', 'IS', 'IN', 'LIKE', 'BETWEEN', 'ESCAPE', 'COLLATE', 'CASE', 'WHEN', 'THEN',
+  'ELSE', 'END', 'NULL', 'EXISTS', 'ANY', 'SOME', 'ALL', 'OVER', 'WITHIN', 'CURRENT_TIMESTAMP',
+  'CURRENT_DATE', 'CURRENT_TIME', 'CURRENT_USER', 'SESSION_USER', 'SYSTEM_USER', 'USER',
+]);
+
+// Reserved keywords that are called like functions
+const RESERVED_FUNCTIONS = new Set([
+  'COALESCE', 'NULLIF', 'CONVERT', 'TRY_CONVERT', 'LEFT', 'RIGHT', 'OPENROWSET', 'OPENDATASOURCE',
+  'OPENQUERY', 'OPENXML', 'CONTAINSTABLE', 'FREETEXTTABLE', 'CONTAINS', 'FREETEXT',
+]);
+
+// Non-reserved words that end a clause (OFFSET n ROWS FETCH NEXT n ROWS ONLY, WINDOW)
+const CLAUSE_WORDS = new Set(['OFFSET', 'ROW', 'ROWS', 'ONLY', 'WINDOW']);
+
+// Non-reserved words that appear inside window frames and similar constructs, never columns
+const NON_COLUMN_WORDS = new Set([
+  'PARTITION', 'ROWS', 'RANGE', 'UNBOUNDED', 'PRECEDING', 'FOLLOWING', 'ROW', 'FIRST', 'NEXT',
+  'ONLY', 'TIES', 'BOTH', 'LEADING', 'TRAILING', 'AT', 'ZONE',
+]);
+
+// Functions whose first argument is a data type or a date part rather than a column
+const TYPE_ARGUMENT_FUNCTIONS = new Set(['CONVERT', 'TRY_CONVERT']);
+const DATEPART_FUNCTIONS = new Set([
+  'DATEADD', 'DATEDIFF', 'DATEDIFF_BIG', 'DATEPART', 'DATENAME', 'DATETRUNC', 'DATE_BUCKET',
+]);
+
+// Words that start a new statement when they follow a complete SELECT
+const STATEMENT_KEYWORDS = new Set([
+  'SELECT', 'WITH', 'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'DROP', 'CREATE', 'ALTER', 'TRUNCATE',
+  'EXEC', 'EXECUTE', 'DECLARE', 'SET', 'GRANT', 'REVOKE', 'DENY', 'USE', 'BEGIN', 'COMMIT',
+  'ROLLBACK', 'WAITFOR', 'PRINT', 'IF', 'WHILE', 'RETURN', 'BACKUP', 'RESTORE', 'DBCC', 'KILL',
+  'SHUTDOWN', 'RAISERROR', 'RECONFIGURE', 'BULK', 'OPEN', 'CLOSE', 'FETCH', 'DEALLOCATE', 'GOTO',
+]);
+
+const MULTI_CHAR_OPERATORS = ['<>', '!=', '>=', '<=', '!<', '!>', '::', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^='];
+const SINGLE_CHAR_OPERATORS = '(),.;*+-/%=<>&|^~!:';
+
+/**
+ * Skip a (possibly nested) block comment, returning the offset after it
+ */
+function skipBlockComment(sql: string, start: number): number {
+  let depth = 0;
+  let i = start;
+  while (i < sql.length) {
+    if (sql[i] === '/' && sql[i + 1] === '*') {
+      depth++;
+      i += 2;
+    } else if (sql[i] === '*' && sql[i + 1] === '/') {
+      depth--;
+      i += 2;
+      if (depth === 0) return i;
+    } else {
+      i++;
+    }
+  }
+  throw new SqlSyntaxError('Unterminated block comment', start);
+}
+
+/**
+ * Read a delimited token (string literal or quoted identifier) where the closing
+ * delimiter is escaped by doubling it. Returns the offset after the closing delimiter.
+ */
+function readDelimited(sql: string, openPos: number, close: string, description: string): number {
+  let i = openPos + 1;
+  while (i < sql.length) {
+    if (sql[i] === close) {
+      if (sql[i + 1] === close) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  throw new SqlSyntaxError(`Unterminated ${description}`, openPos);
+}
+
+/**
+ * Split T-SQL into tokens. Comments and whitespace are dropped; string literals,
+ * bracket/double-quoted identifiers and nested block comments are handled so that
+ * nothing inside them is mistaken for SQL syntax.
+ */
+export function tokenizeSql(sql: string): Token[] {
+  const tokens: Token[] = [];
+  const push = (type: TokenType, value: string, start: number, end: number) => {
+    tokens.push({ type, value, upper: value.toUpperCase(), start, end });
+  };
+
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Line comment
+    if (ch === '-' && next === '-') {
+      const eol = sql.indexOf('\n', i);
+      i = eol === -1 ? sql.length : eol + 1;
+      continue;
+    }
+
+    // Block comment (T-SQL allows nesting)
+    if (ch === '/' && next === '*') {
+      i = skipBlockComment(sql, i);
+      continue;
+    }
+
+    // String literal, optionally N-prefixed
+    if (ch === "'" || ((ch === 'N' || ch === 'n') && next === "'")) {
+      const quoteAt = ch === "'" ? i : i + 1;
+      const end = readDelimited(sql, quoteAt, "'", 'string literal');
+      push('string', sql.slice(i, end), i, end);
+      i = end;
+      continue;
+    }
+
+    // Bracket-quoted identifier
+    if (ch === '[') {
+      const end = readDelimited(sql, i, ']', 'bracketed identifier');
+      tokens.push({ type: 'quoted', value: sql.slice(i + 1, end - 1).replace(/\]\]/g, ']'), upper: '', start: i, end });
+      i = end;
+      continue;
+    }
+
+    // Double-quoted identifier (QUOTED_IDENTIFIER ON)
+    if (ch === '"') {
+      const end = readDelimited(sql, i, '"', 'quoted identifier');
+      tokens.push({ type: 'quoted', value: sql.slice(i + 1, end - 1).replace(/""/g, '"'), upper: '', start: i, end });
+      i = end;
+      continue;
+    }
+
+    // Numbers: integers, decimals, exponents and 0x binary literals
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(next ?? ''))) {
+      const match = sql.slice(i).match(/^(0x[0-9a-f]*|(\d+\.?\d*|\.\d+)(e[+-]?\d+)?)/i)!;
+      push('number', match[0], i, i + match[0].length);
+      i += match[0].length;
+      continue;
+    }
+
+    // Variables (@name) and system functions (@@name)
+    if (ch === '@') {
+      const match = sql.slice(i).match(/^@@?[\w@$#\u00C0-\uFFFF]*/)!;
+      push('variable', match[0], i, i + match[0].length);
+      i += match[0].length;
+      continue;
+    }
+
+    // Words: keywords and unquoted identifiers
+    if (/[A-Za-z_#\u00C0-\uFFFF]/.test(ch)) {
+      const match = sql.slice(i).match(/^[A-Za-z_#\u00C0-\uFFFF][\w@$#\u00C0-\uFFFF]*/)!;
+      push('word', match[0], i, i + match[0].length);
+      i += match[0].length;
+      continue;
+    }
+
+    const multi = MULTI_CHAR_OPERATORS.find(op => sql.startsWith(op, i));
+    if (multi) {
+      push('operator', multi, i, i + multi.length);
+      i += multi.length;
+      continue;
+    }
+
+    if (SINGLE_CHAR_OPERATORS.includes(ch)) {
+      push('operator', ch, i, i + 1);
+      i++;
+      continue;
+    }
+
+    throw new SqlSyntaxError(`Unexpected character '${ch}'`, i);
+  }
+
+  return tokens;
+}
+
+function emptyExpression(start: number): ExpressionNode {
+  return { start, end: start, functions: [], columns: [], stars: [], variables: [], subqueries: [] };
+}
+
+/**
+ * Recursive-descent parser over the token stream
+ */
+class Parser {
+  private pos = 0;
+  private readonly cteNames = new Set<string>();
+
+  constructor(private readonly sql: string, private readonly tokens: Token[]) {}
+
+  parse(): SqlStatement {
+    if (this.tokens.length === 0) {
+      throw new SqlSyntaxError('Query cannot be empty', 0);
+    }
+
+    const statement = this.parseStatement();
+
+    let sawSemicolon = false;
+    while (this.isOperator(this.peek(), ';')) {
+      this.next();
+      sawSemicolon = true;
+    }
+
+    const trailing = this.peek();
+    if (trailing) {
+      const startsStatement = trailing.type === 'word' && STATEMENT_KEYWORDS.has(trailing.upper);
+      if (sawSemicolon || startsStatement) {
+        throw new SqlSyntaxError('Only single statements are allowed (no multiple queries)', trailing.start, true);
+      }
+      this.fail('Unexpected token', trailing);
+    }
+
+    return statement;
+  }
+
+  // ---- token helpers ----
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos];
+    if (!token) {
+      throw new SqlSyntaxError('Unexpected end of query', this.sql.length);
+    }
+    this.pos++;
+    return token;
+  }
+
+  private lastEnd(): number {
+    return this.pos > 0 ? this.tokens[this.pos - 1].end : 0;
+  }
+
+  private isWord(token: Token | undefined, ...words: string[]): boolean {
+    return !!token && token.type === 'word' && words.includes(token.upper);
+  }
+
+  private isOperator(token: Token | undefined, op: string): boolean {
+    return !!token && token.type === 'operator' && token.value === op;
+  }
+
+  private isIdentifier(token: Token | undefined): boolean {
+    return !!token && (token.type === 'quoted' || (token.type === 'word' && !RESERVED_KEYWORDS.has(token.upper)));
+  }
+
+  private expectWord(word: string): Token {
+    const token = this.peek();
+    if (!this.isWord(token, word)) {
+      this.fail(`Expected ${word}`, token);
+    }
+    return this.next();
+  }
+
+  private expectOperator(op: string): Token {
+    const token = this.peek();
+    if (!this.isOperator(token, op)) {
+      this.fail(`Expected '${op}'`, token);
+    }
+    return this.next();
+  }
+
+  private expectIdentifier(): Token {
+    const token = this.peek();
+    if (!this.isIdentifier(token)) {
+      this.fail('Expected identifier', token);
+    }
+    return this.next();
+  }
+
+  private describe(token: Token): string {
+    return this.sql.slice(token.start, token.end);
+  }
+
+  private fail(message: string, token?: Token): never {
+    const suffix = token ? ` near '${this.describe(token)}'` : ' at end of query';
+    throw new SqlSyntaxError(`${message}${suffix}`, token?.start ?? this.sql.length);
+  }
+
+  /**
+   * Skip a balanced parenthesized group starting at the current '(' token
+   */
+  private skipParenthesized(): SourceRange {
+    const open = this.expectOperator('(');
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (this.isOperator(token, '(')) depth++;
+      else if (this.isOperator(token, ')')) depth--;
+    }
+    return { start: open.start, end: this.lastEnd() };
+  }
+
+  // ---- statements and query expressions ----
+
+  private parseStatement(): SqlStatement {
+    const start = this.peek()!.start;
+    const ctes: CommonTableExpression[] = [];
+
+    if (this.isWord(this.peek(), 'WITH')) {
+      this.next();
+      do {
+        ctes.push(this.parseCte());
+      } while (this.isOperator(this.peek(), ',') && this.next());
+    }
+
+    const first = this.peek();
+    if (!this.isWord(first, 'SELECT') && !this.isOperator(first, '(')) {
+      this.fail('Only SELECT statements (including CTEs with WITH clause) are allowed', first);
+    }
+
+    const query = this.parseQueryExpression();
+    const statement: SqlStatement = { start, end: query.end, ctes, query };
+
+    if (this.isWord(this.peek(), 'OPTION')) {
+      const optionStart = this.next().start;
+      const group = this.skipParenthesized();
+      statement.option = { start: optionStart, end: group.end };
+      statement.end = group.end;
+    }
+
+    return statement;
+  }
+
+  private parseCte(): CommonTableExpression {
+    const nameToken = this.expectIdentifier();
+    const columns: string[] = [];
+
+    if (this.isOperator(this.peek(), '(')) {
+      this.next();
+      do {
+        columns.push(this.expectIdentifier().value);
+      } while (this.isOperator(this.peek(), ',') && this.next());
+      this.expectOperator(')');
+    }
+
+    this.expectWord('AS');
+    this.expectOperator('(');
+    // Register the name before the body so recursive CTEs resolve to themselves
+    this.cteNames.add(nameToken.value.toLowerCase());
+    const query = this.parseQueryExpression();
+    this.expectOperator(')');
+
+    return { start: nameToken.start, end: this.lastEnd(), name: nameToken.value, columns, query };
+  }
+
+  private parseQueryExpression(): QueryExpression {
+    const start = this.peek()?.start ?? this.sql.length;
+    const query: QueryExpression = { type: 'query', start, end: start, terms: [], operators: [], parenthesized: false };
+
+    query.terms.push(this.parseQueryTerm());
+    while (this.isWord(this.peek(), 'UNION', 'EXCEPT', 'INTERSECT')) {
+      let operator = this.next().upper;
+      if (operator === 'UNION' && this.isWord(this.peek(), 'ALL')) {
+        this.next();
+        operator = 'UNION ALL';
+      }
+      query.operators.push(operator);
+      query.terms.push(this.parseQueryTerm());
+    }
+
+    if (this.isWord(this.peek(), 'ORDER')) {
+      query.orderBy = this.parseOrderBy();
+      if (this.isWord(this.peek(), 'OFFSET')) {
+        query.offsetFetch = this.parseOffsetFetch();
+      }
+    }
+
+    query.end = this.lastEnd();
+    return query;
+  }
+
+  private parseQueryTerm(): QueryTerm {
+    if (this.isOperator(this.peek(), '(')) {
+      this.next();
+      const inner = this.parseQueryExpression();
+      this.expectOperator(')');
+      inner.parenthesized = true;
+      return inner;
+    }
+    return this.parseSelect();
+  }
+
+  private parseOrderBy(): ListClause {
+    const keywordStart = this.expectWord('ORDER').start;
+    this.expectWord('BY');
+    const items: ExpressionNode[] = [];
+    do {
+      items.push(this.parseExpression());
+      if (this.isWord(this.peek(), 'ASC', 'DESC')) this.next();
+    } while (this.isOperator(this.peek(), ',') && this.next());
+    return { keywordStart, start: items[0].start, end: this.lastEnd(), items };
+  }
+
+  private parseOffsetFetch(): OffsetFetchClause {
+    const start = this.next().start; // OFFSET
+    const offset = this.parseExpression();
+    if (!this.isWord(this.peek(), 'ROW', 'ROWS')) this.fail('Expected ROWS', this.peek());
+    this.next();
+    const clause: OffsetFetchClause = { start, end: this.lastEnd(), offset, fetchValue: null };
+    if (this.isWord(this.peek(), 'FETCH')) {
+      this.next();
+      if (!this.isWord(this.peek(), 'FIRST', 'NEXT')) this.fail('Expected NEXT', this.peek());
+      this.next();
+      const literal = this.peek();
+      clause.fetch = this.parseExpression();
+      if (literal?.type === 'number' && clause.fetch.end === literal.end) {
+        clause.fetchValue = Number(literal.value);
+      }
+      if (!this.isWord(this.peek(), 'ROW', 'ROWS')) this.fail('Expected ROWS', this.peek());
+      this.next();
+      this.expectWord('ONLY');
+    }
+    clause.end = this.lastEnd();
+    return clause;
+  }
+
+  // ---- SELECT ----
+
+  private parseSelect(): SelectStatement {
+    const selectToken = this.expectWord('SELECT');
+    const select: SelectStatement = {
+      type: 'select',
+      start: selectToken.start,
+      end: selectToken.end,
+      topInsertAt: selectToken.end,
+      topBeforeDistinct: false,
+      items: [],
+    };
+
+    if (this.isWord(this.peek(), 'ALL', 'DISTINCT')) {
+      const token = this.next();
+      if (token.upper === 'DISTINCT') select.distinct = { start: token.start, end: token.end };
+      select.topInsertAt = token.end;
+    }
+
+    if (this.isWord(this.peek(), 'TOP')) {
+      select.top = this.parseTop();
+      if (!select.distinct && this.isWord(this.peek(), 'DISTINCT')) {
+        const token = this.next();
+        select.distinct = { start: token.start, end: token.end };
+        select.topBeforeDistinct = true;
+      }
+    }
+
+    do {
+      select.items.push(this.parseSelectItem());
+    } while (this.isOperator(this.peek(), ',') && this.next());
+
+    if (this.isWord(this.peek(), 'INTO')) {
+      const intoStart = this.next().start;
+      this.readObjectName();
+      select.into = { start: intoStart, end: this.lastEnd() };
+    }
+
+    if (this.isWord(this.peek(), 'FROM')) {
+      select.from = this.parseFrom();
+    }
+
+    if (this.isWord(this.peek(), 'WHERE')) {
+      const keywordStart = this.next().start;
+      const expression = this.parseExpression();
+      select.where = { keywordStart, start: expression.start, end: expression.end, expression };
+    }
+
+    if (this.isWord(this.peek(), 'GROUP')) {
+      const keywordStart = this.next().start;
+      this.expectWord('BY');
+      const items: ExpressionNode[] = [];
+      do {
+        items.push(this.parseExpression());
+      } while (this.isOperator(this.peek(), ',') && this.next());
+      select.groupBy = { keywordStart, start: items[0].start, end: this.lastEnd(), items };
+    }
+
+    if (this.isWord(this.peek(), 'HAVING')) {
+      const keywordStart = this.next().start;
+      const expression = this.parseExpression();
+      select.having = { keywordStart, start: expression.start, end: expression.end, expression };
+    }
+
+    select.end = this.lastEnd();
+    return select;
+  }
+
+  private parseTop(): TopClause {
+    const topToken = this.expectWord('TOP');
+    const top: TopClause = {
+      start: topToken.start,
+      end: topToken.end,
+      countEnd: topToken.end,
+      value: null,
+      percent: false,
+      withTies: false,
+    };
+
+    if (this.isOperator(this.peek(), '(')) {
+      this.next();
+      const literal = this.peek();
+      const expression = this.parseExpression();
+      this.expectOperator(')');
+      if (literal?.type === 'number' && expression.end === literal.end) {
+        top.value = Number(literal.value);
+      }
+      top.expression = expression;
+    } else {
+      const literal = this.next();
+      if (literal.type !== 'number') this.fail('Expected row count after TOP', literal);
+      top.value = Number(literal.value);
+    }
+    top.countEnd = this.lastEnd();
+
+    if (this.isWord(this.peek(), 'PERCENT')) {
+      this.next();
+      top.percent = true;
+    }
+    if (this.isWord(this.peek(), 'WITH') && this.isWord(this.peek(1), 'TIES')) {
+      this.next();
+      this.next();
+      top.withTies = true;
+    }
+
+    top.end = this.lastEnd();
+    return top;
+  }
+
+  private parseSelectItem(): SelectItem {
+    // T-SQL "Alias = expression" form
+    if ((this.isIdentifier(this.peek()) || this.peek()?.type === 'string') && this.isOperator(this.peek(1), '=')) {
+      const first = this.next();
+      this.next();
+      const expression = this.parseExpression(true);
+      return { start: first.start, end: this.lastEnd(), expression, alias: this.unquoteAlias(first) };
+    }
+
+    const expression = this.parseExpression(true);
+    const item: SelectItem = { start: expression.start, end: expression.end, expression };
+
+    if (this.isWord(this.peek(), 'AS')) {
+      this.next();
+      const aliasToken = this.peek();
+      if (!this.isIdentifier(aliasToken) && aliasToken?.type !== 'string') {
+        this.fail('Expected alias', aliasToken);
+      }
+      item.alias = this.unquoteAlias(this.next());
+    } else if (this.isIdentifier(this.peek()) || this.peek()?.type === 'string') {
+      item.alias = this.unquoteAlias(this.next());
+    }
+
+    item.end = this.lastEnd();
+    return item;
+  }
+
+  private unquoteAlias(token: Token): string {
+    return token.type === 'string' ? token.value.replace(/^N?'|'$/gi, '').replace(/''/g, "'") : token.value;
+  }
+
+  // ---- FROM and joins ----
+
+  private parseFrom(): FromClause {
+    const fromToken = this.expectWord('FROM');
+    const source = this.parseTableSource();
+    const joins: JoinClause[] = [];
+
+    while (true) {
+      const token = this.peek();
+      const joinStart = token?.start ?? 0;
+
+      if (this.isOperator(token, ',')) {
+        this.next();
+        const joined = this.parseTableSource();
+        joins.push({ type: 'COMMA', source: joined, start: joinStart, end: this.lastEnd() });
+        continue;
+      }
+
+      const type = this.parseJoinType();
+      if (!type) break;
+
+      const joined = this.parseTableSource();
+      const join: JoinClause = { type, source: joined, start: joinStart, end: this.lastEnd() };
+      if (type === 'INNER' || type === 'LEFT' || type === 'RIGHT' || type === 'FULL') {
+        this.expectWord('ON');
+        join.on = this.parseExpression();
+      }
+      join.end = this.lastEnd();
+      joins.push(join);
+    }
+
+    return { start: fromToken.start, end: this.lastEnd(), source, joins };
+  }
+
+  /**
+   * Consume a join operator if one starts at the current token
+   */
+  private parseJoinType(): JoinType | null {
+    const token = this.peek();
+    const joinHints = ['LOOP', 'HASH', 'MERGE', 'REMOTE'];
+    const consumeJoin = () => {
+      if (this.isWord(this.peek(), ...joinHints)) this.next();
+      this.expectWord('JOIN');
+    };
+
+    if (this.isWord(token, 'JOIN')) {
+      this.next();
+      return 'INNER';
+    }
+    if (this.isWord(token, 'INNER')) {
+      this.next();
+      consumeJoin();
+      return 'INNER';
+    }
+    if (this.isWord(token, 'LEFT', 'RIGHT', 'FULL') && !this.isOperator(this.peek(1), '(')) {
+      this.next();
+      if (this.isWord(this.peek(), 'OUTER')) this.next();
+      consumeJoin();
+      return token!.upper as JoinType;
+    }
+    if (this.isWord(token, 'CROSS')) {
+      this.next();
+      if (this.isWord(this.peek(), 'APPLY')) {
+        this.next();
+        return 'CROSS APPLY';
+      }
+      this.expectWord('JOIN');
+      return 'CROSS';
+    }
+    if (this.isWord(token, 'OUTER') && this.isWord(this.peek(1), 'APPLY')) {
+      this.next();
+      this.next();
+      return 'OUTER APPLY';
+    }
+    return null;
+  }
+
+  /**
+   * Read a multi-part object name such as [db].[schema].[table] or db..table
+   */
+  private readObjectName(): { parts: string[]; start: number; end: number } {
+    const first = this.expectObjectNamePart();
+    const parts = [first.value];
+    while (this.isOperator(this.peek(), '.')) {
+      this.next();
+      if (this.isOperator(this.peek(), '.')) {
+        parts.push(''); // db..table uses the default schema
+        continue;
+      }
+      parts.push(this.expectObjectNamePart().value);
+    }
+    return { parts, start: first.start, end: this.lastEnd() };
+  }
+
+  private expectObjectNamePart(): Token {
+    const token = this.peek();
+    // Reserved table-valued functions (OPENROWSET, ...) are accepted here so they can be reported by name
+    if (this.isIdentifier(token) || (token?.type === 'word' && RESERVED_FUNCTIONS.has(token.upper))) {
+      return this.next();
+    }
+    this.fail('Expected table name', token);
+  }
+
+  private parseTableSource(): TableSource {
+    const token = this.peek();
+
+    if (this.isOperator(token, '(')) {
+      if (!this.isWord(this.peek(1), 'SELECT') && !this.isOperator(this.peek(1), '(')) {
+        this.fail('Parenthesized joins are not supported', this.peek(1));
+      }
+      this.next();
+      const query = this.parseQueryExpression();
+      this.expectOperator(')');
+      const derived: DerivedTable = { kind: 'derived', query, start: token!.start, end: this.lastEnd() };
+      derived.alias = this.parseTableAlias();
+      if (this.isOperator(this.peek(), '(')) this.skipParenthesized(); // Derived column list
+      derived.end = this.lastEnd();
+      return derived;
+    }
+
+    if (token?.type === 'variable') {
+      this.fail('Table variables are not supported', token);
+    }
+
+    const name = this.readObjectName();
+
+    if (this.isOperator(this.peek(), '(')) {
+      const open = this.next();
+      const call: FunctionCall = {
+        name: name.parts.join('.'),
+        start: name.start,
+        end: 0,
+        argsStart: open.end,
+        argsEnd: 0,
+        over: false,
+      };
+      const args: ExpressionNode[] = [];
+      if (!this.isOperator(this.peek(), ')')) {
+        do {
+          args.push(this.parseExpression());
+        } while (this.isOperator(this.peek(), ',') && this.next());
+      }
+      const close = this.expectOperator(')');
+      call.argsEnd = close.start;
+      call.end = close.end;
+      const fn: TableFunction = { kind: 'function', call, args, start: name.start, end: close.end };
+      fn.alias = this.parseTableAlias();
+      fn.end = this.lastEnd();
+      return fn;
+    }
+
+    const parts = [...name.parts];
+    const table: TableReference = {
+      kind: 'table',
+      name: parts.pop()!,
+      start: name.start,
+      end: name.end,
+      isCte: false,
+      text: this.sql.slice(name.start, name.end),
+    };
+    if (parts.length > 0) table.schema = parts.pop();
+    if (parts.length > 0) table.database = parts.pop();
+    if (parts.length > 0) table.server = parts.pop();
+    if (parts.length > 0) this.fail('Object name has too many parts', token);
+    table.isCte = !table.schema && !table.database && this.cteNames.has(table.name.toLowerCase());
+
+    table.alias = this.parseTableAlias();
+
+    // Table hints: WITH (NOLOCK)
+    if (this.isWord(this.peek(), 'WITH') && this.isOperator(this.peek(1), '(')) {
+      this.next();
+      this.skipParenthesized();
+    }
+
+    table.end = this.lastEnd();
+    return table;
+  }
+
+  private parseTableAlias(): string | undefined {
+    if (this.isWord(this.peek(), 'AS')) {
+      this.next();
+      return this.expectIdentifier().value;
+    }
+    const token = this.peek();
+    if (this.isIdentifier(token) && !(token!.type === 'word' && (CLAUSE_WORDS.has(token!.upper) || token!.upper === 'APPLY'))) {
+      return this.next().value;
+    }
+    return undefined;
+  }
+
+  // ---- expressions ----
+
+  /**
+   * Scan an expression up to the next clause boundary, recording the function calls,
+   * column references, variables and subqueries it contains. With allowAlias, an
+   * identifier directly following a complete operand ends the expression (select-list alias).
+   */
+  private parseExpression(allowAlias = false): ExpressionNode {
+    const first = this.peek();
+    const startPos = this.pos;
+    const node = emptyExpression(first?.start ?? this.sql.length);
+
+    let depth = 0;
+    let prevOperand = false;
+    let expectType = false;
+    let expectDatepart = false;
+    let lastClosedCall: FunctionCall | null = null;
+    let previous: Token | undefined;
+    const openCalls: Array<FunctionCall | null> = [];
+
+    while (true) {
+      const token = this.peek();
+      if (!token) {
+        if (depth > 0) this.fail('Unbalanced parentheses');
+        break;
+      }
+
+      const wasTypePosition = expectType;
+      const wasDatepartPosition = expectDatepart;
+      expectType = false;
+      expectDatepart = false;
+      const closedCall = lastClosedCall;
+      lastClosedCall = null;
+
+      if (token.type === 'operator') {
+        if (token.value === '(') {
+          if (this.isWord(this.peek(1), 'SELECT')) {
+            this.next();
+            node.subqueries.push(this.parseQueryExpression());
+            this.expectOperator(')');
+            prevOperand = true;
+          } else {
+            this.next();
+            depth++;
+            openCalls.push(null);
+            prevOperand = false;
+          }
+        } else if (token.value === ')') {
+          if (depth === 0) break;
+          this.next();
+          depth--;
+          const call = openCalls.pop();
+          if (call) {
+            call.argsEnd = token.start;
+            call.end = token.end;
+            lastClosedCall = call;
+          }
+          prevOperand = true;
+        } else if (token.value === ',' || token.value === ';') {
+          if (depth === 0 || token.value === ';') break;
+          this.next();
+          prevOperand = false;
+        } else if (token.value === '*' && !prevOperand) {
+          this.next();
+          if (depth === 0) node.stars.push({ start: token.start, end: token.end });
+          prevOperand = true;
+        } else {
+          this.next();
+          prevOperand = false;
+        }
+        previous = token;
+        continue;
+      }
+
+      if (token.type === 'string' || token.type === 'number' || token.type === 'variable') {
+        if (prevOperand && depth === 0) {
+          if (allowAlias && token.type === 'string') break;
+          this.fail('Unexpected token', token);
+        }
+        this.next();
+        if (token.type === 'variable') node.variables.push(token.value);
+        prevOperand = true;
+        previous = token;
+        continue;
+      }
+
+      // Word or quoted identifier
+      if (token.type === 'word' && RESERVED_KEYWORDS.has(token.upper)) {
+        const isCall = RESERVED_FUNCTIONS.has(token.upper) && this.isOperator(this.peek(1), '(');
+        if (!isCall) {
+          if (depth === 0) {
+            const continuesExpression = EXPRESSION_KEYWORDS.has(token.upper) ||
+              (token.upper === 'GROUP' && this.isWord(previous, 'WITHIN'));
+            if (!continuesExpression) break;
+          }
+          this.next();
+          if (token.upper === 'OVER' && closedCall) closedCall.over = true;
+          if (token.upper === 'AS' && depth > 0) expectType = true;
+          prevOperand = token.upper === 'END' || token.upper === 'NULL' || token.upper.startsWith('CURRENT_') ||
+            token.upper.endsWith('_USER') || token.upper === 'USER';
+          previous = token;
+          continue;
+        }
+      } else if (token.type === 'word' && depth === 0 && CLAUSE_WORDS.has(token.upper)) {
+        break;
+      }
+
+      if (prevOperand && depth === 0) {
+        if (allowAlias) break;
+        this.fail('Unexpected token', token);
+      }
+
+      // Data type (CAST(x AS type), CONVERT(type, x)) or date part (DATEADD(day, ...))
+      if (wasTypePosition || wasDatepartPosition) {
+        this.next();
+        if (wasTypePosition && this.isOperator(this.peek(), '(')) this.skipParenthesized();
+        prevOperand = true;
+        previous = token;
+        continue;
+      }
+
+      if (token.type === 'word' && NON_COLUMN_WORDS.has(token.upper) && depth > 0) {
+        this.next();
+        prevOperand = false;
+        previous = token;
+        continue;
+      }
+
+      // Multi-part identifier: column, qualified star, or function name
+      const parts = [this.next().value];
+      let end = token.end;
+      let isStar = false;
+      while (this.isOperator(this.peek(), '.')) {
+        const after = this.peek(1);
+        if (this.isOperator(after, '*')) {
+          this.next();
+          end = this.next().end;
+          isStar = true;
+          break;
+        }
+        if (!after || (after.type !== 'word' && after.type !== 'quoted')) break;
+        this.next();
+        parts.push(this.next().value);
+        end = after.end;
+      }
+
+      if (isStar) {
+        if (depth === 0) node.stars.push({ start: token.start, end, qualifier: parts.join('.') });
+      } else if (this.isOperator(this.peek(), '(')) {
+        const open = this.next();
+        const call: FunctionCall = { name: parts.join('.'), start: token.start, end: 0, argsStart: open.end, argsEnd: 0, over: false };
+        node.functions.push(call);
+        openCalls.push(call);
+        depth++;
+        const upperName = call.name.toUpperCase();
+        expectType = TYPE_ARGUMENT_FUNCTIONS.has(upperName);
+        expectDatepart = DATEPART_FUNCTIONS.has(upperName);
+        prevOperand = false;
+        previous = open;
+        continue;
+      } else {
+        node.columns.push({ parts, start: token.start, end });
+      }
+
+      prevOperand = true;
+      previous = this.tokens[this.pos - 1];
+    }
+
+    if (this.pos === startPos) {
+      this.fail('Expected expression', first);
+    }
+    node.end = this.lastEnd();
+    return node;
+  }
+}
+
+/**
+ * Parse a single T-SQL SELECT statement (optionally with CTEs) into a tree.
+ * Throws SqlSyntaxError when the text is not a single well-formed statement.
+ */
+export function parseSql(sql: string, tokens: Token[] = tokenizeSql(sql)): SqlStatement {
+  return new Parser(sql, tokens).parse();
+}
+
+export interface SqlVisitor {
+  query?(query: QueryExpression, depth: number): void;
+  select?(select: SelectStatement, depth: number): void;
+  table?(table: TableReference, depth: number): void;
+  join?(join: JoinClause, depth: number): void;
+  functionCall?(call: FunctionCall, depth: number): void;
+  expression?(expression: ExpressionNode, depth: number): void;
+}
+
+/**
+ * Walk every query, select, table reference, join, function call and expression in a
+ * statement. Depth counts subquery/derived-table nesting; CTE bodies are at depth 0.
+ */
+export function walkSql(statement: SqlStatement, visitor: SqlVisitor): void {
+  const visitExpression = (expression: ExpressionNode | undefined, depth: number) => {
+    if (!expression) return;
+    visitor.expression?.(expression, depth);
+    for (const call of expression.functions) visitor.functionCall?.(call, depth);
+    for (const subquery of expression.subqueries) visitQuery(subquery, depth + 1);
+  };
+
+  const visitSource = (source: TableSource, depth: number) => {
+    if (source.kind === 'table') {
+      visitor.table?.(source, depth);
+    } else if (source.kind === 'derived') {
+      visitQuery(source.query, depth + 1);
+    } else {
+      visitor.functionCall?.(source.call, depth);
+      source.args.forEach(arg => visitExpression(arg, depth));
+    }
+  };
+
+  const visitSelect = (select: SelectStatement, depth: number) => {
+    visitor.select?.(select, depth);
+    visitExpression(select.top?.expression, depth);
+    select.items.forEach(item => visitExpression(item.expression, depth));
+    if (select.from) {
+      visitSource(select.from.source, depth);
+      for (const join of select.from.joins) {
+        visitor.join?.(join, depth);
+        visitSource(join.source, depth);
+        visitExpression(join.on, depth);
+      }
+    }
+    visitExpression(select.where?.expression, depth);
+    select.groupBy?.items.forEach(item => visitExpression(item, depth));
+    visitExpression(select.having?.expression, depth);
+  };
+
+  const visitQuery = (query: QueryExpression, depth: number) => {
+    visitor.query?.(query, depth);
+    for (const term of query.terms) {
+      if (term.type === 'select') visitSelect(term, depth);
+      else visitQuery(term, depth);
+    }
+    query.orderBy?.items.forEach(item => visitExpression(item, depth));
+  };
+
+  statement.ctes.forEach(cte => visitQuery(cte.query, 0));
+  visitQuery(statement.query, 0);
+}
+
+/**
+ * Collect every table reference in the statement, including CTE references
+ */
+export function collectTableReferences(statement: SqlStatement): TableReference[] {
+  const tables: TableReference[] = [];
+  walkSql(statement, { table: table => tables.push(table) });
+  return tables;
+}
+
+/**
+ * Return the first SELECT of a query expression (the leftmost term of a set operation)
+ */
+export function firstSelect(query: QueryExpression): SelectStatement {
+  const term = query.terms[0];
+  return term.type === 'select' ? term : firstSelect(term);
+}
+
+export interface SqlEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Apply text edits to the original SQL. Offsets refer to the unmodified text;
+ * insertions at the same offset keep the order in which they were listed.
+ */
+export function rewriteSql(sql: string, edits: SqlEdit[]): string {
+  const ordered = edits
+    .map((edit, index) => ({ edit, index }))
+    .sort((a, b) => b.edit.start - a.edit.start || b.index - a.index);
+
+  let result = sql;
+  for (const { edit } of ordered) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
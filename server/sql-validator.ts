@@ -1,118 +1,203 @@
+import {
+  collectTableReferences,
+  parseSql,
+  rewriteSql,
+  SqlSyntaxError,
+  tokenizeSql,
+  walkSql,
+  ColumnReference,
+  QueryExpression,
+  SelectStatement,
+  SqlEdit,
+  SqlStatement,
+  TableReference,
+  Token,
+  JoinType,
+} from './sql-parser';
+import { getValidatorPolicy, ValidatorPolicy, PolicyRule } from './validator-policy';
+
+export interface RowLimitChange {
+  action: 'added' | 'clamped' | 'removed' | 'reordered';
+  clause: 'TOP' | 'FETCH';
+  originalValue?: number | null; // Row count before the change (null for PERCENT or expressions)
+  value?: number; // Row count after the change (absent when removed)
+}
+
 export interface ValidationResult {
   valid: boolean;
   error?: string;
   modifiedSql?: string;
+  baseSql?: string; // Validated SQL before row limiting, used for server-side paging
+  rowLimitChanges?: RowLimitChange[];
+  rule?: PolicyRule; // Policy rule that rejected the query
 }
 
 export interface ValidationOptions {
   allowedTables?: string[];
+  policy?: ValidatorPolicy; // Defaults to src/config/validator_policy.json
+  maxRows?: number; // Per-user row limit, overrides policy.maxRows
 }
 
-// Allow DASHt_* tables and specific Tier2 tables (Jobs, Resources, etc.)
-const ALLOWED_TABLE_PATTERN = /\[?publish\]?\.\[?(DASHt_[a-zA-Z0-9_]+|Jobs|Resources|Activities|Materials|Customers|Items)\]?/i;
-const MAX_ROWS = 100;
+const AGGREGATE_FUNCTIONS = new Set([
+  'COUNT', 'COUNT_BIG', 'SUM', 'MIN', 'MAX', 'AVG', 'STDEV', 'STDEVP', 'VAR', 'VARP',
+  'STRING_AGG', 'APPROX_COUNT_DISTINCT', 'CHECKSUM_AGG',
+]);
 
 /**
- * Check if a query is aggregate-only (COUNT, SUM, MIN, MAX, AVG)
- * These queries return a single row and don't need TOP limiting
+ * Check if a SELECT is aggregate-only (COUNT, SUM, MIN, MAX, AVG, ...) with no GROUP BY.
+ * These queries return a single row and don't need TOP limiting. Aggregates may be
+ * wrapped in other expressions (e.g. COALESCE(SUM(x), 0)) as long as every column
+ * reference sits inside a non-windowed aggregate.
  */
-function isAggregateOnlyQuery(sql: string): boolean {
-  // Extract the SELECT list (between SELECT and FROM)
-  // Use [\s\S] instead of . with s flag for ES2017 compatibility
-  const selectMatch = sql.match(/SELECT\s+([\s\S]*?)\s+FROM\s+/i);
-  if (!selectMatch) return false;
-  
-  let selectList = selectMatch[1];
-  
-  // Remove TOP clause if present
-  selectList = selectList.replace(/TOP\s*\(\s*\d+\s*\)/i, '').trim();
-  // Remove DISTINCT if present
-  selectList = selectList.replace(/^DISTINCT\s+/i, '').trim();
-  
-  if (!selectList) return false;
-  
-  // Split by comma, handling nested parentheses
-  const columns: string[] = [];
-  let depth = 0;
-  let current = '';
-  for (const char of selectList) {
-    if (char === '(') depth++;
-    else if (char === ')') depth--;
-    else if (char === ',' && depth === 0) {
-      columns.push(current.trim());
-      current = '';
-      continue;
-    }
-    current += char;
-  }
-  if (current.trim()) columns.push(current.trim());
-  
-  // Check if ALL columns are aggregate functions
-  const aggregatePattern = /^(COUNT|SUM|MIN|MAX|AVG)\s*\(/i;
-  for (const col of columns) {
-    // Remove alias (AS ...)
-    const colWithoutAlias = col.replace(/\s+AS\s+\w+$/i, '').trim();
-    if (!aggregatePattern.test(colWithoutAlias)) {
-      return false;
-    }
+export function isAggregateOnlyQuery(select: SelectStatement): boolean {
+  if (select.groupBy || select.items.length === 0) return false;
+
+  let hasAggregate = false;
+  for (const { expression } of select.items) {
+    if (expression.stars.length > 0) return false;
+
+    const aggregates = expression.functions.filter(fn => AGGREGATE_FUNCTIONS.has(fn.name.toUpperCase()));
+    if (aggregates.some(fn => fn.over)) return false;
+    if (aggregates.length > 0) hasAggregate = true;
+
+    const insideAggregate = (column: ColumnReference) =>
+      aggregates.some(fn => column.start >= fn.argsStart && column.end <= fn.argsEnd);
+    if (!expression.columns.every(insideAggregate)) return false;
   }
-  
-  return true;
+
+  return hasAggregate;
 }
 
 /**
- * Extract table name from SQL query for error messages
+ * Extract all base table references from the parsed query - FROM and JOIN clauses at
+ * any nesting level (CTE bodies, derived tables, subqueries). References to CTE names
+ * are excluded since the CTE body is checked on its own.
  */
-function extractTableName(sql: string): string | null {
-  const match = sql.match(/FROM\s+(\[?publish\]?\.\[?(DASHt_[a-zA-Z0-9_]+|Jobs|Resources|Activities|Materials|Customers|Items)\]?)/i);
-  return match ? match[1] : null;
+function extractAllTableReferences(statement: SqlStatement): TableReference[] {
+  return collectTableReferences(statement).filter(table => !table.isCte);
 }
 
 /**
- * Extract all table references from SQL query (FROM clauses, JOIN clauses, subqueries, CTEs)
- * This captures tables from both FROM and JOIN statements
+ * Normalize table name by removing brackets and converting to lowercase for comparison
  */
-function extractAllTableReferences(sql: string): string[] {
-  const tables: string[] = [];
-  
-  // Pattern to match tables in FROM clauses (DASHt_* and allowed Tier2 tables)
-  const fromPattern = /FROM\s+(\[?publish\]?\.\[?(DASHt_[a-zA-Z0-9_]+|Jobs|Resources|Activities|Materials|Customers|Items)\]?)/gi;
-  let match;
-  
-  while ((match = fromPattern.exec(sql)) !== null) {
-    tables.push(match[1]);
+function normalizeTableName(tableName: string): string {
+  return tableName.replace(/\[|\]/g, '').toLowerCase();
+}
+
+/**
+ * Build a failed result that names the violated policy rule
+ */
+function policyViolation(message: string, rule: PolicyRule): ValidationResult {
+  return { valid: false, error: `${message} (policy rule: ${rule})`, rule };
+}
+
+function describeJoinType(type: JoinType): string {
+  if (type === 'COMMA') return 'Comma-separated (implicit) join';
+  if (type === 'CROSS APPLY' || type === 'OUTER APPLY') return type;
+  return `${type} JOIN`;
+}
+
+/**
+ * Offset of the next non-whitespace character, used to remove a clause together with its trailing space
+ */
+function skipWhitespace(sql: string, offset: number): number {
+  while (offset < sql.length && /\s/.test(sql[offset])) offset++;
+  return offset;
+}
+
+/**
+ * Build the edits that enforce the row limit on a SELECT:
+ * - SELECT TOP (n) DISTINCT is rewritten to the valid SELECT DISTINCT TOP (n)
+ * - Aggregate-only queries have any TOP removed
+ * - Missing TOP gets TOP (limit) after SELECT [DISTINCT]
+ * - TOP above the limit (or TOP ... PERCENT) is clamped to TOP (limit)
+ */
+function buildSelectLimitEdits(sql: string, select: SelectStatement, maxRows: number, changes: RowLimitChange[]): SqlEdit[] {
+  const { top } = select;
+  const originalValue = top && !top.percent ? top.value : null;
+
+  if (isAggregateOnlyQuery(select)) {
+    if (!top) return [];
+    changes.push({ action: 'removed', clause: 'TOP', originalValue });
+    return [{ start: top.start, end: skipWhitespace(sql, top.end), text: '' }];
   }
-  
-  // Pattern to match tables in JOIN clauses (INNER JOIN, LEFT JOIN, RIGHT JOIN, etc.)
-  // This matches: JOIN [publish].[DASHt_TableName] or JOIN publish.DASHt_TableName or Tier2 tables
-  const joinPattern = /(?:INNER\s+JOIN|LEFT\s+(?:OUTER\s+)?JOIN|RIGHT\s+(?:OUTER\s+)?JOIN|JOIN)\s+(\[?publish\]?\.\[?(DASHt_[a-zA-Z0-9_]+|Jobs|Resources|Activities|Materials|Customers|Items)\]?)/gi;
-  
-  while ((match = joinPattern.exec(sql)) !== null) {
-    tables.push(match[1]);
+
+  if (!top) {
+    changes.push({ action: 'added', clause: 'TOP', value: maxRows });
+    return [{ start: select.topInsertAt, end: select.topInsertAt, text: ` TOP (${maxRows})` }];
   }
-  
-  return tables;
+
+  const exceedsLimit = top.percent || top.value === null || top.value > maxRows;
+  const value = exceedsLimit ? maxRows : top.value!;
+
+  if (select.topBeforeDistinct && select.distinct) {
+    changes.push({ action: exceedsLimit ? 'clamped' : 'reordered', clause: 'TOP', originalValue, value });
+    return [{ start: top.start, end: select.distinct.end, text: `DISTINCT TOP (${value})` }];
+  }
+
+  if (!exceedsLimit) return [];
+
+  changes.push({ action: 'clamped', clause: 'TOP', originalValue, value });
+  if (top.percent) {
+    // Replace the whole clause so PERCENT is dropped; WITH TIES is kept
+    return [{ start: top.start, end: top.end, text: `TOP (${maxRows})${top.withTies ? ' WITH TIES' : ''}` }];
+  }
+  return [{ start: top.start, end: top.countEnd, text: `TOP (${maxRows})` }];
 }
 
 /**
- * Normalize table name by removing brackets and converting to lowercase for comparison
+ * Build the edits that enforce the row limit on the outermost query. A trailing
+ * OFFSET ... FETCH clause is limited through its FETCH count, since T-SQL does not allow
+ * TOP alongside OFFSET. Set operations (UNION, EXCEPT, INTERSECT) are limited as a whole -
+ * a TOP on each branch would let N branches return N times the limit - with OFFSET 0 ROWS
+ * FETCH NEXT (limit) after their ORDER BY, or after ORDER BY 1 when they have none. (Wrapping
+ * them in SELECT TOP ... FROM (...) fails for unnamed or duplicate columns, and a set
+ * operation can only be ordered by its output columns, so ORDER BY (SELECT NULL) won't do.)
  */
-function normalizeTableName(tableName: string): string {
-  return tableName.replace(/\[|\]/g, '').toLowerCase();
+function buildRowLimitEdits(sql: string, query: QueryExpression, maxRows: number, changes: RowLimitChange[]): SqlEdit[] {
+  const { offsetFetch } = query;
+  if (offsetFetch) {
+    if (!offsetFetch.fetch) {
+      changes.push({ action: 'added', clause: 'FETCH', value: maxRows });
+      return [{ start: offsetFetch.end, end: offsetFetch.end, text: ` FETCH NEXT ${maxRows} ROWS ONLY` }];
+    }
+    if (offsetFetch.fetchValue === null || offsetFetch.fetchValue > maxRows) {
+      changes.push({ action: 'clamped', clause: 'FETCH', originalValue: offsetFetch.fetchValue, value: maxRows });
+      return [{ start: offsetFetch.fetch.start, end: offsetFetch.fetch.end, text: String(maxRows) }];
+    }
+    return [];
+  }
+
+  if (query.terms.length > 1) {
+    changes.push({ action: 'added', clause: 'FETCH', value: maxRows });
+    const at = query.orderBy ? query.orderBy.end : query.end;
+    return [{ start: at, end: at, text: `${query.orderBy ? '' : ' ORDER BY 1'} OFFSET 0 ROWS FETCH NEXT ${maxRows} ROWS ONLY` }];
+  }
+
+  const [term] = query.terms;
+  return term.type === 'select'
+    ? buildSelectLimitEdits(sql, term, maxRows, changes)
+    : buildRowLimitEdits(sql, term, maxRows, changes);
 }
 
 /**
  * Validates and optionally modifies SQL queries to ensure safety
- * - Only SELECT statements allowed
- * - Single statement only (no semicolons)
- * - INNER/LEFT/RIGHT JOINs allowed only with allowlisted publish.DASHt_* tables
- * - CROSS JOIN blocked for safety
- * - Only queries against [publish].[DASHt_*] tables
- * - Enforces TOP (100) if missing
+ * - Query is tokenized and parsed, so string literals, comments and quoted
+ *   identifiers can't hide or fake keywords
+ * - Only a single SELECT statement allowed (CTEs included)
+ * - Rules come from the validator policy (src/config/validator_policy.json):
+ *   allowed schemas and tables, allowed/denied functions and keywords, @@ globals,
+ *   allowed join types, max join count, max subquery depth and the row limit.
+ *   Errors name the violated rule, e.g. "(policy rule: functions.denied)"
+ * - Every table reference - including those in subqueries, derived tables and
+ *   CTE bodies - is checked against the policy
+ * - Enforces TOP (maxRows) on the outermost SELECT (CTE queries included), reporting
+ *   any change in rowLimitChanges. options.maxRows overrides the policy limit
  * - Supports table allowlists for validation
  */
 export function validateAndModifySql(sql: string, options: ValidationOptions = {}): ValidationResult {
-  const { allowedTables } = options;
+  const { allowedTables, policy = getValidatorPolicy() } = options;
+  const maxRows = options.maxRows ?? policy.maxRows;
   // Strip trailing semicolon if present (AI often adds these)
   let trimmed = sql.trim();
   if (trimmed.endsWith(';')) {
@@ -124,53 +209,135 @@ export function validateAndModifySql(sql: string, options: ValidationOptions = {
     return { valid: false, error: 'Query cannot be empty' };
   }
 
-  // Check for multiple statements (semicolons in the middle indicate multiple statements)
-  if (trimmed.includes(';')) {
-    return { valid: false, error: 'Only single statements are allowed (no multiple queries)' };
+  let tokens: Token[];
+  try {
+    tokens = tokenizeSql(trimmed);
+  } catch (error) {
+    return { valid: false, error: `Unable to parse SQL: ${(error as Error).message}` };
   }
 
-  // Check if it's a SELECT statement or CTE (WITH ... SELECT) (case-insensitive)
-  if (!trimmed.match(/^\s*(SELECT|WITH)\s+/i)) {
-    return { valid: false, error: 'Only SELECT statements (including CTEs with WITH clause) are allowed' };
+  if (tokens.length === 0) {
+    return { valid: false, error: 'Query cannot be empty' };
   }
 
-  // Block dangerous operations
-  if (trimmed.match(/\bCROSS\s+JOIN\b/i)) {
-    return { valid: false, error: 'CROSS JOIN operations are not allowed for safety reasons' };
+  // Check if it's a SELECT statement or CTE (WITH ... SELECT)
+  const first = tokens[0];
+  if (first.type !== 'word' || (first.upper !== 'SELECT' && first.upper !== 'WITH')) {
+    return { valid: false, error: 'Only SELECT statements (including CTEs with WITH clause) are allowed' };
   }
 
-  // Block OPENROWSET and other external data access
-  if (trimmed.match(/\b(OPENROWSET|OPENDATASOURCE|OPENQUERY|OPENXML)\b/i)) {
-    return { valid: false, error: 'External data access functions are not allowed' };
+  // Keyword checks run on tokens, so words inside strings, comments and [quoted] names are ignored
+  const deniedKeyword = tokens.find(token => token.type === 'word' && policy.isKeywordDenied(token.upper));
+  if (deniedKeyword) {
+    return policyViolation(`Keyword ${deniedKeyword.upper} is not allowed`, 'keywords.denied');
   }
 
-  // Block system procedures
-  if (trimmed.match(/\b(xp_|sp_executesql|EXEC|EXECUTE)\b/i)) {
-    return { valid: false, error: 'System procedures and dynamic SQL execution are not allowed' };
+  if (policy.variables.denyGlobals) {
+    const globalVariable = tokens.find(token => token.type === 'variable' && token.value.startsWith('@@'));
+    if (globalVariable) {
+      return policyViolation(`Global variable ${globalVariable.value} is not allowed`, 'variables.denyGlobals');
+    }
   }
 
   // Block LIMIT syntax (PostgreSQL/MySQL) - SQL Server uses TOP
-  if (trimmed.match(/\bLIMIT\s+\d+/i)) {
+  const hasLimit = tokens.some((token, i) =>
+    token.type === 'word' && token.upper === 'LIMIT' && tokens[i + 1]?.type === 'number'
+  );
+  if (hasLimit) {
     return { valid: false, error: 'PostgreSQL/MySQL LIMIT syntax is not supported. Use SELECT TOP (N) for SQL Server instead' };
   }
 
-  // Extract all table references (from FROM and JOIN clauses)
-  const allTableRefs = extractAllTableReferences(trimmed);
+  let statement: SqlStatement;
+  try {
+    statement = parseSql(trimmed, tokens);
+  } catch (error) {
+    if (error instanceof SqlSyntaxError) {
+      if (error.multipleStatements) {
+        return { valid: false, error: 'Only single statements are allowed (no multiple queries)' };
+      }
+      return { valid: false, error: `Unable to parse SQL: ${error.message}` };
+    }
+    throw error;
+  }
+
+  // Collect joins, nesting depth, function calls and table functions in one pass
+  let hasSelectInto = false;
+  let maxDepth = 0;
+  const joinTypes: JoinType[] = [];
+  const functionNames: string[] = [];
+  const tableFunctions: string[] = [];
+  walkSql(statement, {
+    select: (select, depth) => {
+      maxDepth = Math.max(maxDepth, depth);
+      if (select.into) hasSelectInto = true;
+      if (select.from?.source.kind === 'function') tableFunctions.push(select.from.source.call.name);
+    },
+    join: join => {
+      joinTypes.push(join.type);
+      if (join.source.kind === 'function') tableFunctions.push(join.source.call.name);
+    },
+    functionCall: call => functionNames.push(call.name),
+  });
+
+  if (hasSelectInto) {
+    return { valid: false, error: 'SELECT INTO is not allowed' };
+  }
+
+  const disallowedJoin = joinTypes.find(type => !policy.joins.allowedTypes.includes(type));
+  if (disallowedJoin) {
+    return policyViolation(`${describeJoinType(disallowedJoin)} operations are not allowed`, 'joins.allowedTypes');
+  }
+
+  if (joinTypes.length > policy.joins.maxJoins) {
+    return policyViolation(
+      `Query has ${joinTypes.length} joins; at most ${policy.joins.maxJoins} are allowed`,
+      'joins.maxJoins'
+    );
+  }
+
+  if (maxDepth > policy.maxSubqueryDepth) {
+    return policyViolation(
+      `Subqueries are nested ${maxDepth} levels deep; at most ${policy.maxSubqueryDepth} are allowed`,
+      'maxSubqueryDepth'
+    );
+  }
+
+  const deniedFunction = functionNames.find(name => policy.isFunctionDenied(name));
+  if (deniedFunction) {
+    return policyViolation(`Function ${deniedFunction} is not allowed`, 'functions.denied');
+  }
+
+  const unlistedFunction = functionNames.find(name => !policy.isFunctionAllowed(name));
+  if (unlistedFunction) {
+    return policyViolation(`Function ${unlistedFunction} is not in the allowed function list`, 'functions.allowed');
+  }
+
+  if (tableFunctions.length > 0) {
+    return policyViolation(
+      `Table function ${tableFunctions[0]} is not allowed. Only queries against ${policy.tables.label} are permitted`,
+      'tables.allowedTables'
+    );
+  }
+
+  // Extract all table references (FROM and JOIN clauses at every nesting level)
+  const allTableRefs = extractAllTableReferences(statement);
   
   if (allTableRefs.length === 0) {
     return { 
       valid: false, 
-      error: 'Unable to determine table name from query. Only queries against [publish].[DASHt_*] tables are allowed' 
+      error: `Unable to determine table name from query. Only queries against ${policy.tables.label} are allowed` 
     };
   }
 
-  // Validate all table references match publish.DASHt_* pattern
+  // Validate all table references against the policy's schemas and tables
   for (const tableRef of allTableRefs) {
-    if (!ALLOWED_TABLE_PATTERN.test(tableRef)) {
-      return {
-        valid: false,
-        error: `Table ${tableRef} is not allowed. Only queries against [publish].[DASHt_*] tables are permitted`
-      };
+    const inAllowedSchema = !tableRef.server && !tableRef.database &&
+      tableRef.schema !== undefined && policy.matchesAllowedSchema(tableRef.schema);
+    if (!inAllowedSchema || !policy.matchesAllowedTable(tableRef.name)) {
+      return policyViolation(
+        `Table ${tableRef.text} is not allowed. Only queries against ${policy.tables.label} are permitted`,
+        inAllowedSchema ? 'tables.allowedTables' : 'tables.allowedSchemas'
+      );
     }
   }
 
@@ -180,72 +347,63 @@ export function validateAndModifySql(sql: string, options: ValidationOptions = {
 
     // Check each table reference against the allowlist
     for (const tableRef of allTableRefs) {
-      const normalizedRef = normalizeTableName(tableRef);
+      const normalizedRef = normalizeTableName(`${tableRef.schema}.${tableRef.name}`);
       
       if (!normalizedAllowed.includes(normalizedRef)) {
         const allowedList = allowedTables.join(', ');
         return {
           valid: false,
-          error: `Table ${tableRef} is not in the allowed list. Allowed tables: ${allowedList}.`
+          error: `Table ${tableRef.text} is not in the allowed list. Allowed tables: ${allowedList}.`
         };
       }
     }
   }
 
-  // Check for TOP clause (don't modify CTEs, they have TOP in the final SELECT)
-  let modifiedSql = trimmed;
-  const hasCTE = trimmed.match(/^\s*WITH\s+/i);
-  
-  // Fix incorrect syntax: SELECT TOP (n) DISTINCT -> SELECT DISTINCT TOP (n)
-  // T-SQL requires DISTINCT before TOP
-  const badTopDistinct = modifiedSql.match(/SELECT\s+TOP\s*\(\s*(\d+)\s*\)\s+DISTINCT\s+/i);
-  if (badTopDistinct) {
-    const topVal = Math.min(parseInt(badTopDistinct[1], 10), MAX_ROWS);
-    modifiedSql = modifiedSql.replace(
-      /SELECT\s+TOP\s*\(\s*\d+\s*\)\s+DISTINCT\s+/i,
-      `SELECT DISTINCT TOP (${topVal}) `
-    );
-  }
-  
-  // Skip TOP for aggregate-only queries (COUNT, SUM, MIN, MAX, AVG)
-  // These return a single row and don't need limiting
-  const isAggregate = isAggregateOnlyQuery(modifiedSql);
-  
-  if (isAggregate) {
-    // Remove any existing TOP from aggregate queries
-    modifiedSql = modifiedSql.replace(/SELECT\s+TOP\s*\(\s*\d+\s*\)\s+/i, 'SELECT ');
-    modifiedSql = modifiedSql.replace(/SELECT\s+DISTINCT\s+TOP\s*\(\s*\d+\s*\)\s+/i, 'SELECT DISTINCT ');
-  } else if (!hasCTE && !modifiedSql.match(/SELECT\s+(DISTINCT\s+)?TOP\s*\(\s*\d+\s*\)/i)) {
-    // Add TOP (100) after SELECT [DISTINCT] (only for non-CTE, non-aggregate queries)
-    // Handle DISTINCT: SELECT DISTINCT -> SELECT DISTINCT TOP (100)
-    if (modifiedSql.match(/SELECT\s+DISTINCT\s+/i)) {
-      modifiedSql = modifiedSql.replace(/SELECT\s+DISTINCT\s+/i, `SELECT DISTINCT TOP (${MAX_ROWS}) `);
-    } else {
-      modifiedSql = modifiedSql.replace(/SELECT\s+/i, `SELECT TOP (${MAX_ROWS}) `);
-    }
-  } else if (!hasCTE && !isAggregate) {
-    // Verify TOP value doesn't exceed limit (non-CTE, non-aggregate queries)
-    const topMatch = modifiedSql.match(/TOP\s*\(\s*(\d+)\s*\)/i);
-    if (topMatch) {
-      const topValue = parseInt(topMatch[1], 10);
-      if (topValue > MAX_ROWS) {
-        modifiedSql = modifiedSql.replace(
-          /TOP\s*\(\s*\d+\s*\)/i,
-          `TOP (${MAX_ROWS})`
-        );
+  // Enforce the row limit on the outermost query - after any CTEs, on the whole of a UNION
+  const rowLimitChanges: RowLimitChange[] = [];
+  const modifiedSql = rewriteSql(trimmed, buildRowLimitEdits(trimmed, statement.query, maxRows, rowLimitChanges));
+
+  return { valid: true, modifiedSql, baseSql: trimmed, rowLimitChanges };
+}
+
+/**
+ * Run a policy's embedded examples, checking each is accepted or rejected as declared
+ * (and, for rejections, by the declared rule)
+ */
+export function runPolicyExamples(policy: ValidatorPolicy): { passed: boolean; results: string[] } {
+  const results: string[] = [];
+  let passed = true;
+
+  for (const example of policy.examples) {
+    const result = validateAndModifySql(example.sql, { policy });
+    const label = `[policy ${policy.version}] ${example.name}`;
+
+    if (example.expect === 'valid') {
+      if (result.valid) {
+        results.push(`✅ PASS: ${label}`);
+      } else {
+        results.push(`❌ FAIL: ${label} should be accepted: ${result.error}`);
+        passed = false;
       }
+    } else if (result.valid) {
+      results.push(`❌ FAIL: ${label} should be rejected`);
+      passed = false;
+    } else if (example.rule && result.rule !== example.rule) {
+      results.push(`❌ FAIL: ${label} rejected by the wrong rule (expected ${example.rule}): ${result.error}`);
+      passed = false;
+    } else {
+      results.push(`✅ PASS: ${label}`);
     }
   }
-  // For CTEs, trust that they have proper TOP clause in the final SELECT
 
-  return { valid: true, modifiedSql };
+  return { passed, results };
 }
 
 /**
  * Development mode self-check function to verify validator works correctly
  * Run this in development to ensure validation catches common errors
  */
-export function runValidatorSelfCheck(): { passed: boolean; results: string[] } {
+export function runValidatorSelfCheck(policy: ValidatorPolicy = getValidatorPolicy()): { passed: boolean; results: string[] } {
   const results: string[] = [];
   let passed = true;
 
@@ -440,5 +598,181 @@ export function runValidatorSelfCheck(): { passed: boolean; results: string[] }
     results.push('✅ PASS: LEFT JOIN with allowlisted tables accepted');
   }
 
+  // Test 19: Semicolons and keywords inside string literals should not trip the checks
+  const test19 = validateAndModifySql("SELECT TOP 10 * FROM [publish].[DASHt_Planning] WHERE JobName = 'EXEC; DROP TABLE x'");
+  if (!test19.valid) {
+    results.push(`❌ FAIL: String literal containing ; and EXEC rejected: ${test19.error}`);
+    passed = false;
+  } else {
+    results.push('✅ PASS: String literal containing ; and EXEC accepted');
+  }
+
+  // Test 20: Keywords inside comments should be ignored
+  const test20 = validateAndModifySql('-- EXEC is never used here\nSELECT TOP 10 * FROM [publish].[DASHt_Planning] /* ; CROSS JOIN */');
+  if (!test20.valid) {
+    results.push(`❌ FAIL: Query with commented-out keywords rejected: ${test20.error}`);
+    passed = false;
+  } else {
+    results.push('✅ PASS: Commented-out keywords ignored');
+  }
+
+  // Test 21: Disallowed table hidden in a subquery should be rejected
+  const test21 = validateAndModifySql(
+    'SELECT TOP 10 * FROM [publish].[DASHt_Planning] WHERE JobId IN (SELECT JobId FROM [dbo].[Users])'
+  );
+  if (test21.valid) {
+    results.push('❌ FAIL: Disallowed table in subquery should be rejected');
+    passed = false;
+  } else if (test21.error && test21.error.includes('[dbo].[Users]')) {
+    results.push('✅ PASS: Disallowed table in subquery rejected');
+  } else {
+    results.push(`⚠️  PARTIAL: Subquery rejected but error doesn't mention [dbo].[Users]: ${test21.error}`);
+  }
+
+  // Test 22: System table hidden in a CTE body should be rejected
+  const test22 = validateAndModifySql('WITH x AS (SELECT name FROM [sys].[objects]) SELECT TOP 10 * FROM x');
+  if (test22.valid) {
+    results.push('❌ FAIL: System table inside CTE should be rejected');
+    passed = false;
+  } else {
+    results.push('✅ PASS: System table inside CTE rejected');
+  }
+
+  // Test 23: Second statement without a semicolon should be rejected
+  const test23 = validateAndModifySql('SELECT * FROM [publish].[DASHt_Planning] WHERE 1 = 1 DROP TABLE x');
+  if (test23.valid) {
+    results.push('❌ FAIL: Second statement without semicolon should be rejected');
+    passed = false;
+  } else {
+    results.push('✅ PASS: Second statement without semicolon rejected');
+  }
+
+  // Test 24: Wrapped aggregates are still aggregate-only (no TOP added)
+  const test24 = validateAndModifySql('SELECT COALESCE(SUM(RequiredQty), 0) AS Total FROM [publish].[DASHt_Materials]');
+  if (!test24.valid) {
+    results.push(`❌ FAIL: Wrapped aggregate query rejected: ${test24.error}`);
+    passed = false;
+  } else if (test24.modifiedSql && !test24.modifiedSql.includes('TOP')) {
+    results.push('✅ PASS: Wrapped aggregate query left without TOP');
+  } else {
+    results.push(`⚠️  PARTIAL: Wrapped aggregate query got a TOP clause: ${test24.modifiedSql}`);
+  }
+
+  // Test 25: CTE queries get TOP enforced on the outer SELECT
+  const test25 = validateAndModifySql(
+    'WITH late AS (SELECT JobName FROM [publish].[DASHt_Planning] WHERE IsLate = 1) SELECT DISTINCT JobName FROM late'
+  );
+  if (!test25.valid) {
+    results.push(`❌ FAIL: CTE query without TOP rejected: ${test25.error}`);
+    passed = false;
+  } else if (test25.modifiedSql?.includes('SELECT DISTINCT TOP (100) JobName FROM late') &&
+      test25.rowLimitChanges?.some(change => change.action === 'added')) {
+    results.push('✅ PASS: TOP (100) added to outer SELECT of CTE query');
+  } else {
+    results.push(`❌ FAIL: CTE outer SELECT not limited: ${test25.modifiedSql}`);
+    passed = false;
+  }
+
+  // Test 26: TOP above the limit in a CTE outer SELECT is clamped, CTE body untouched
+  const test26 = validateAndModifySql(
+    'WITH x AS (SELECT TOP (5000) JobName FROM [publish].[DASHt_Planning] ORDER BY JobName) SELECT TOP 1000 * FROM x'
+  );
+  if (!test26.valid) {
+    results.push(`❌ FAIL: CTE query with TOP 1000 rejected: ${test26.error}`);
+    passed = false;
+  } else if (test26.modifiedSql?.includes('SELECT TOP (100) * FROM x') && test26.modifiedSql.includes('TOP (5000)')) {
+    results.push('✅ PASS: CTE outer TOP 1000 clamped to TOP (100)');
+  } else {
+    results.push(`❌ FAIL: CTE outer TOP not clamped correctly: ${test26.modifiedSql}`);
+    passed = false;
+  }
+
+  // Test 27: Aggregate-only outer SELECT of a CTE is left without TOP
+  const test27 = validateAndModifySql(
+    'WITH x AS (SELECT JobName FROM [publish].[DASHt_Planning]) SELECT COUNT(*) AS JobCount FROM x'
+  );
+  if (!test27.valid) {
+    results.push(`❌ FAIL: Aggregate CTE query rejected: ${test27.error}`);
+    passed = false;
+  } else if (test27.modifiedSql && !test27.modifiedSql.includes('TOP') && test27.rowLimitChanges?.length === 0) {
+    results.push('✅ PASS: Aggregate CTE query left without TOP');
+  } else {
+    results.push(`⚠️  PARTIAL: Aggregate CTE query got a TOP clause: ${test27.modifiedSql}`);
+  }
+
+  // Test 28: A UNION is limited as a whole, not per branch
+  const test28 = validateAndModifySql(
+    'SELECT JobName FROM [publish].[DASHt_Planning] UNION ALL SELECT ResourceName FROM [publish].[DASHt_Resources]'
+  );
+  if (!test28.valid) {
+    results.push(`❌ FAIL: UNION query rejected: ${test28.error}`);
+    passed = false;
+  } else if (test28.modifiedSql === 'SELECT JobName FROM [publish].[DASHt_Planning] UNION ALL SELECT ResourceName FROM [publish].[DASHt_Resources] ORDER BY 1 OFFSET 0 ROWS FETCH NEXT 100 ROWS ONLY') {
+    results.push('✅ PASS: UNION limited as a whole with ORDER BY 1 OFFSET 0 ROWS FETCH NEXT 100 ROWS ONLY');
+  } else {
+    results.push(`❌ FAIL: UNION not limited as a whole: ${test28.modifiedSql}`);
+    passed = false;
+  }
+
+  // Test 28b: An ordered UNION is limited with FETCH after its ORDER BY
+  const test28b = validateAndModifySql(
+    'SELECT JobName FROM [publish].[DASHt_Planning] UNION SELECT ResourceName FROM [publish].[DASHt_Resources] ORDER BY JobName'
+  );
+  if (!test28b.valid) {
+    results.push(`❌ FAIL: Ordered UNION query rejected: ${test28b.error}`);
+    passed = false;
+  } else if (test28b.modifiedSql?.endsWith('ORDER BY JobName OFFSET 0 ROWS FETCH NEXT 100 ROWS ONLY') && !test28b.modifiedSql.includes('TOP')) {
+    results.push('✅ PASS: Ordered UNION limited with OFFSET 0 ROWS FETCH NEXT 100 ROWS ONLY');
+  } else {
+    results.push(`❌ FAIL: Ordered UNION not limited correctly: ${test28b.modifiedSql}`);
+    passed = false;
+  }
+
+  // Test 28c: A UNION of unnamed columns is limited without a derived table, which would
+  // need every column named
+  const test28c = validateAndModifySql(
+    'SELECT COUNT(*) FROM [publish].[DASHt_Planning] UNION ALL SELECT COUNT(*) FROM [publish].[DASHt_Resources]'
+  );
+  if (!test28c.valid) {
+    results.push(`❌ FAIL: UNION of unnamed columns rejected: ${test28c.error}`);
+    passed = false;
+  } else if (test28c.modifiedSql === 'SELECT COUNT(*) FROM [publish].[DASHt_Planning] UNION ALL SELECT COUNT(*) FROM [publish].[DASHt_Resources] ORDER BY 1 OFFSET 0 ROWS FETCH NEXT 100 ROWS ONLY') {
+    results.push('✅ PASS: UNION of unnamed columns limited without wrapping');
+  } else {
+    results.push(`❌ FAIL: UNION of unnamed columns not limited correctly: ${test28c.modifiedSql}`);
+    passed = false;
+  }
+
+  // Test 29: OFFSET without FETCH gets a FETCH limit instead of TOP
+  const test29 = validateAndModifySql(
+    'SELECT JobName FROM [publish].[DASHt_Planning] ORDER BY JobName OFFSET 20 ROWS'
+  );
+  if (!test29.valid) {
+    results.push(`❌ FAIL: OFFSET query rejected: ${test29.error}`);
+    passed = false;
+  } else if (test29.modifiedSql?.endsWith('OFFSET 20 ROWS FETCH NEXT 100 ROWS ONLY') && !test29.modifiedSql.includes('TOP')) {
+    results.push('✅ PASS: OFFSET query limited with FETCH NEXT 100 ROWS ONLY');
+  } else {
+    results.push(`❌ FAIL: OFFSET query not limited correctly: ${test29.modifiedSql}`);
+    passed = false;
+  }
+
+  // Test 30: A per-user row limit overrides the policy limit; baseSql keeps the unlimited query
+  const test30 = validateAndModifySql('SELECT JobName FROM [publish].[DASHt_Planning]', { maxRows: 250 });
+  if (!test30.valid) {
+    results.push(`❌ FAIL: Query with per-user row limit rejected: ${test30.error}`);
+    passed = false;
+  } else if (test30.modifiedSql?.includes('SELECT TOP (250) JobName') && test30.baseSql === 'SELECT JobName FROM [publish].[DASHt_Planning]') {
+    results.push('✅ PASS: Per-user row limit applied as TOP (250), baseSql left unlimited');
+  } else {
+    results.push(`❌ FAIL: Per-user row limit not applied: ${test30.modifiedSql}`);
+    passed = false;
+  }
+
+  // Policy examples (from the policy file, or a candidate policy passed in)
+  const policyCheck = runPolicyExamples(policy);
+  results.push(...policyCheck.results);
+  if (!policyCheck.passed) passed = false;
+
   return { passed, results };
 }
@@ -0,0 +1,93 @@
+/**
+ * Legacy JSON Import
+ * Copies the JSON files earlier versions wrote to data/ (user permissions, permission groups,
+ * table-access categories, access requests, feedback, FAQ counts and query logs) into the
+ * data store the first time it opens. Each file is imported
+ * in one transaction together with its legacy_imports row, so it is never imported twice;
+ * the file itself is left in place as a backup.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { IStorage, LegacyImport } from './storage';
+import { log } from './log';
+
+interface LegacyFile {
+  name: string;
+  read: (parsed: any) => { data: LegacyImport; count: number };
+}
+
+const LEGACY_FILES: LegacyFile[] = [
+  {
+    name: 'user-permissions.json',
+    read: parsed => {
+      const userPermissions = Array.isArray(parsed) ? parsed : [];
+      return { data: { userPermissions }, count: userPermissions.length };
+    },
+  },
+  {
+    name: 'permission-groups.json',
+    read: parsed => {
+      const permissionGroups = Array.isArray(parsed) ? parsed : [];
+      return { data: { permissionGroups }, count: permissionGroups.length };
+    },
+  },
+  {
+    name: 'table-access-categories.json',
+    // The file holds every category an admin kept, so it replaces the seeded defaults
+    read: parsed => {
+      const tableAccessCategories = Array.isArray(parsed) ? parsed : [];
+      return { data: { tableAccessCategories }, count: tableAccessCategories.length };
+    },
+  },
+  {
+    name: 'access-requests.json',
+    read: parsed => {
+      const accessRequests = Array.isArray(parsed) ? parsed : [];
+      return { data: { accessRequests }, count: accessRequests.length };
+    },
+  },
+  {
+    name: 'feedback.json',
+    read: parsed => {
+      const feedback = Array.isArray(parsed) ? parsed : [];
+      return { data: { feedback }, count: feedback.length };
+    },
+  },
+  {
+    name: 'popular-queries.json',
+    // Object keyed by normalized question
+    read: parsed => {
+      const popularQueries = Object.entries<any>(parsed && typeof parsed === 'object' ? parsed : {})
+        .map(([question, data]) => ({ question, count: Number(data.count) || 1, lastUsed: data.lastUsed || new Date().toISOString() }));
+      return { data: { popularQueries }, count: popularQueries.length };
+    },
+  },
+  {
+    name: 'query-logs.json',
+    read: parsed => {
+      const queryLogs = Array.isArray(parsed) ? parsed : [];
+      return { data: { queryLogs }, count: queryLogs.length };
+    },
+  },
+];
+
+/**
+ * Import each legacy file that exists and hasn't been imported yet. A file that fails to
+ * import is logged and retried on the next start.
+ */
+export async function importLegacyJsonFiles(storage: IStorage): Promise<void> {
+  const imported = new Set(await storage.getLegacyImports());
+  for (const file of LEGACY_FILES) {
+    const path = join(process.cwd(), 'data', file.name);
+    if (imported.has(file.name) || !existsSync(path)) continue;
+
+    try {
+      const { data, count } = file.read(JSON.parse(readFileSync(path, 'utf-8')));
+      await storage.importLegacyFile(file.name, data, count);
+      log(`[storage] Imported ${count} records from data/${file.name}`, 'storage');
+    } catch (error: any) {
+      log(`[storage] Failed to import data/${file.name}: ${error.message}`, 'error');
+    }
+  }
+}
@@ -0,0 +1,321 @@
+/**
+ * Postgres Data Store
+ * Production backend through drizzle and node-postgres. Connects to STORAGE_DATABASE_URL,
+ * not DATABASE_URL, which is the Azure SQL analytics source.
+ */
+
+import { join } from 'path';
+import pg from 'pg';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import { asc, desc, eq, gte, sql } from 'drizzle-orm';
+import * as schema from '@shared/schema';
+import type { UserPermissions, PermissionGroup, TableAccessCategory, AccessRequest } from '@shared/schema';
+import type { FeedbackEntry, QueryLogEntry } from './query-logger';
+import {
+  IStorage,
+  LegacyImport,
+  PopularQueryCount,
+  chunk,
+  permissionsToRow,
+  permissionsFromRow,
+  groupToRow,
+  groupFromRow,
+  categoryToRow,
+  categoryFromRow,
+  accessRequestToRow,
+  accessRequestFromRow,
+  accountToRow,
+  accountFromRow,
+  feedbackToRow,
+  feedbackFromRow,
+  queryLogToRow,
+  queryLogFromRow,
+  llmUsageToRow,
+  llmUsageFromRow,
+} from './storage';
+
+type PostgresDb = ReturnType<typeof drizzle<typeof schema>>;
+type PostgresTx = Parameters<Parameters<PostgresDb['transaction']>[0]>[0];
+
+const {
+  users, userPermissionRecords, permissionGroupRecords, tableAccessCategoryRecords, accessRequestRecords, feedbackEntries, popularQueries, queryLogEntries, llmUsageEntries, legacyImports,
+} = schema;
+
+async function upsertPermissions(db: PostgresDb | PostgresTx, permissions: UserPermissions[]): Promise<void> {
+  const rows = permissions.map(permissions => {
+    const row = permissionsToRow(permissions);
+    return { ...row, createdAt: new Date(row.createdAt), updatedAt: new Date(row.updatedAt) };
+  });
+  for (const batch of chunk(rows)) {
+    await db.insert(userPermissionRecords).values(batch).onConflictDoUpdate({
+      target: userPermissionRecords.userId,
+      set: {
+        username: sql`excluded.username`,
+        email: sql`excluded.email`,
+        isAdmin: sql`excluded.is_admin`,
+        groupIds: sql`excluded.group_ids`,
+        allowedPlanningAreas: sql`excluded.allowed_planning_areas`,
+        allowedScenarios: sql`excluded.allowed_scenarios`,
+        allowedPlants: sql`excluded.allowed_plants`,
+        allowedTableAccess: sql`excluded.allowed_table_access`,
+        deniedPlanningAreas: sql`excluded.denied_planning_areas`,
+        deniedScenarios: sql`excluded.denied_scenarios`,
+        deniedPlants: sql`excluded.denied_plants`,
+        deniedTableAccess: sql`excluded.denied_table_access`,
+        maxRows: sql`excluded.max_rows`,
+        columnRules: sql`excluded.column_rules`,
+        grants: sql`excluded.grants`,
+        createdAt: sql`excluded.created_at`,
+        updatedAt: sql`excluded.updated_at`,
+      },
+    });
+  }
+}
+
+async function upsertGroups(db: PostgresDb | PostgresTx, groups: PermissionGroup[]): Promise<void> {
+  const rows = groups.map(group => {
+    const row = groupToRow(group);
+    return { ...row, createdAt: new Date(row.createdAt), updatedAt: new Date(row.updatedAt) };
+  });
+  for (const batch of chunk(rows)) {
+    await db.insert(permissionGroupRecords).values(batch).onConflictDoUpdate({
+      target: permissionGroupRecords.groupId,
+      set: {
+        name: sql`excluded.name`,
+        description: sql`excluded.description`,
+        allowedPlanningAreas: sql`excluded.allowed_planning_areas`,
+        allowedScenarios: sql`excluded.allowed_scenarios`,
+        allowedPlants: sql`excluded.allowed_plants`,
+        allowedTableAccess: sql`excluded.allowed_table_access`,
+        deniedPlanningAreas: sql`excluded.denied_planning_areas`,
+        deniedScenarios: sql`excluded.denied_scenarios`,
+        deniedPlants: sql`excluded.denied_plants`,
+        deniedTableAccess: sql`excluded.denied_table_access`,
+        maxRows: sql`excluded.max_rows`,
+        columnRules: sql`excluded.column_rules`,
+        createdAt: sql`excluded.created_at`,
+        updatedAt: sql`excluded.updated_at`,
+      },
+    });
+  }
+}
+
+function categoryValues(category: TableAccessCategory) {
+  const row = categoryToRow(category);
+  return { ...row, createdAt: new Date(row.createdAt), updatedAt: new Date(row.updatedAt) };
+}
+
+async function replaceCategories(db: PostgresDb | PostgresTx, categories: TableAccessCategory[]): Promise<void> {
+  await db.delete(tableAccessCategoryRecords);
+  for (const batch of chunk(categories)) {
+    await db.insert(tableAccessCategoryRecords).values(batch.map(categoryValues));
+  }
+}
+
+function accessRequestValues(request: AccessRequest) {
+  const row = accessRequestToRow(request);
+  return { ...row, createdAt: new Date(row.createdAt), decidedAt: row.decidedAt ? new Date(row.decidedAt) : null };
+}
+
+async function insertAccessRequests(db: PostgresDb | PostgresTx, requests: AccessRequest[]): Promise<void> {
+  for (const batch of chunk(requests)) {
+    await db.insert(accessRequestRecords).values(batch.map(accessRequestValues)).onConflictDoNothing();
+  }
+}
+
+function feedbackValues(entry: FeedbackEntry) {
+  const row = feedbackToRow(entry);
+  return { ...row, createdAt: new Date(row.createdAt), triagedAt: row.triagedAt ? new Date(row.triagedAt) : null };
+}
+
+async function insertFeedback(db: PostgresDb | PostgresTx, entries: FeedbackEntry[]): Promise<void> {
+  for (const batch of chunk(entries)) {
+    await db.insert(feedbackEntries).values(batch.map(feedbackValues));
+  }
+}
+
+async function insertQueryLogs(db: PostgresDb | PostgresTx, entries: QueryLogEntry[]): Promise<void> {
+  for (const batch of chunk(entries, 100)) {
+    await db.insert(queryLogEntries).values(batch.map(entry => {
+      const row = queryLogToRow(entry);
+      return { ...row, timestamp: new Date(row.timestamp) };
+    }));
+  }
+}
+
+async function setPopularQueries(db: PostgresDb | PostgresTx, entries: PopularQueryCount[]): Promise<void> {
+  for (const batch of chunk(entries)) {
+    await db.insert(popularQueries)
+      .values(batch.map(entry => ({ question: entry.question, count: entry.count, lastUsed: new Date(entry.lastUsed) })))
+      .onConflictDoUpdate({
+        target: popularQueries.question,
+        set: { count: sql`excluded.count`, lastUsed: sql`excluded.last_used` },
+      });
+  }
+}
+
+/**
+ * Connect to Postgres and apply pending migrations
+ */
+export async function openPostgresStorage(connectionString: string): Promise<IStorage> {
+  const pool = new pg.Pool({ connectionString, max: 5 });
+  const db = drizzle(pool, { schema });
+  await migrate(db, { migrationsFolder: join(process.cwd(), 'migrations', 'postgres') });
+
+  return {
+    kind: 'postgres',
+
+    async getAllUserPermissions() {
+      const rows = await db.select().from(userPermissionRecords).orderBy(asc(userPermissionRecords.createdAt));
+      return rows.map(permissionsFromRow);
+    },
+
+    async upsertUserPermissions(permissions) {
+      await upsertPermissions(db, permissions);
+    },
+
+    async deleteUserPermissions(userId) {
+      await db.delete(userPermissionRecords).where(eq(userPermissionRecords.userId, userId));
+    },
+
+    async replaceAllUserPermissions(permissions) {
+      await db.transaction(async tx => {
+        await tx.delete(userPermissionRecords);
+        await upsertPermissions(tx, permissions);
+      });
+    },
+
+    async getAllPermissionGroups() {
+      const rows = await db.select().from(permissionGroupRecords).orderBy(asc(permissionGroupRecords.createdAt));
+      return rows.map(groupFromRow);
+    },
+
+    async upsertPermissionGroups(groups) {
+      await upsertGroups(db, groups);
+    },
+
+    async deletePermissionGroup(groupId) {
+      await db.delete(permissionGroupRecords).where(eq(permissionGroupRecords.groupId, groupId));
+    },
+
+    async getTableAccessCategories() {
+      const rows = await db.select().from(tableAccessCategoryRecords)
+        .orderBy(asc(tableAccessCategoryRecords.createdAt), asc(tableAccessCategoryRecords.name));
+      return rows.map(categoryFromRow);
+    },
+
+    async upsertTableAccessCategory(category) {
+      const values = categoryValues(category);
+      await db.insert(tableAccessCategoryRecords).values(values).onConflictDoUpdate({ target: tableAccessCategoryRecords.name, set: values });
+    },
+
+    async deleteTableAccessCategory(name) {
+      await db.delete(tableAccessCategoryRecords).where(eq(tableAccessCategoryRecords.name, name));
+    },
+
+    async getAllAccessRequests() {
+      const rows = await db.select().from(accessRequestRecords).orderBy(asc(accessRequestRecords.createdAt));
+      return rows.map(accessRequestFromRow);
+    },
+
+    async upsertAccessRequest(request) {
+      const values = accessRequestValues(request);
+      await db.insert(accessRequestRecords).values(values).onConflictDoUpdate({ target: accessRequestRecords.id, set: values });
+    },
+
+    async getAllLocalAccounts() {
+      const rows = await db.select().from(users).orderBy(asc(users.createdAt));
+      return rows.map(accountFromRow);
+    },
+
+    async upsertLocalAccount(account) {
+      const row = accountToRow(account);
+      const values = {
+        ...row,
+        passwordChangedAt: row.passwordChangedAt ? new Date(row.passwordChangedAt) : null,
+        lastLoginAt: row.lastLoginAt ? new Date(row.lastLoginAt) : null,
+        createdAt: new Date(row.createdAt!),
+      };
+      await db.insert(users).values(values).onConflictDoUpdate({ target: users.id, set: values });
+    },
+
+    async deleteLocalAccount(userId) {
+      await db.delete(users).where(eq(users.id, userId));
+    },
+
+    async getAllFeedback() {
+      const rows = await db.select().from(feedbackEntries).orderBy(asc(feedbackEntries.id));
+      return rows.map(feedbackFromRow);
+    },
+
+    async addFeedback(entry) {
+      const [row] = await db.insert(feedbackEntries).values(feedbackValues(entry)).returning({ id: feedbackEntries.id });
+      return row.id;
+    },
+
+    async updateFeedback(entry) {
+      await db.update(feedbackEntries).set(feedbackValues(entry)).where(eq(feedbackEntries.id, entry.id));
+    },
+
+    async getPopularQueries() {
+      const rows = await db.select().from(popularQueries);
+      return rows.map(row => ({ question: row.question, count: row.count, lastUsed: row.lastUsed.toISOString() }));
+    },
+
+    async incrementPopularQuery(question, usedAt) {
+      await db.insert(popularQueries)
+        .values({ question, count: 1, lastUsed: new Date(usedAt) })
+        .onConflictDoUpdate({
+          target: popularQueries.question,
+          set: { count: sql`${popularQueries.count} + 1`, lastUsed: new Date(usedAt) },
+        });
+    },
+
+    async getQueryLogsSince(since, limit) {
+      const rows = await db.select().from(queryLogEntries)
+        .where(gte(queryLogEntries.timestamp, new Date(since)))
+        .orderBy(desc(queryLogEntries.id))
+        .limit(limit);
+      return rows.reverse().map(queryLogFromRow);
+    },
+
+    async addQueryLog(entry) {
+      await insertQueryLogs(db, [entry]);
+    },
+
+    async getLlmUsageSince(since) {
+      const rows = await db.select().from(llmUsageEntries)
+        .where(gte(llmUsageEntries.timestamp, new Date(since)))
+        .orderBy(asc(llmUsageEntries.id));
+      return rows.map(llmUsageFromRow);
+    },
+
+    async addLlmUsage(entry) {
+      const row = llmUsageToRow(entry);
+      await db.insert(llmUsageEntries).values({ ...row, timestamp: new Date(row.timestamp) });
+    },
+
+    async getLegacyImports() {
+      const rows = await db.select({ name: legacyImports.name }).from(legacyImports);
+      return rows.map(row => row.name);
+    },
+
+    async importLegacyFile(name: string, data: LegacyImport, recordCount: number) {
+      await db.transaction(async tx => {
+        if (data.userPermissions) await upsertPermissions(tx, data.userPermissions);
+        if (data.permissionGroups) await upsertGroups(tx, data.permissionGroups);
+        if (data.tableAccessCategories) await replaceCategories(tx, data.tableAccessCategories);
+        if (data.accessRequests) await insertAccessRequests(tx, data.accessRequests);
+        if (data.feedback) await insertFeedback(tx, data.feedback);
+        if (data.popularQueries) await setPopularQueries(tx, data.popularQueries);
+        if (data.queryLogs) await insertQueryLogs(tx, data.queryLogs);
+        await tx.insert(legacyImports).values({ name, recordCount, importedAt: new Date() });
+      });
+    },
+
+    async close() {
+      await pool.end();
+    },
+  };
+}
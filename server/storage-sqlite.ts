@@ -0,0 +1,291 @@
+/**
+ * SQLite Data Store
+ * Embedded backend for local development, one database file through better-sqlite3.
+ * Statements run synchronously, so each method finishes before it returns.
+ */
+
+import { mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import Database from 'better-sqlite3';
+import { drizzle } from 'drizzle-orm/better-sqlite3';
+import { migrate } from 'drizzle-orm/better-sqlite3/migrator';
+import { asc, desc, eq, gte, sql } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+import * as schema from '@shared/schema-sqlite';
+import type { UserPermissions, PermissionGroup, TableAccessCategory, AccessRequest } from '@shared/schema';
+import type { FeedbackEntry, QueryLogEntry } from './query-logger';
+import {
+  IStorage,
+  LegacyImport,
+  PopularQueryCount,
+  chunk,
+  permissionsToRow,
+  permissionsFromRow,
+  groupToRow,
+  groupFromRow,
+  categoryToRow,
+  categoryFromRow,
+  accessRequestToRow,
+  accessRequestFromRow,
+  accountToRow,
+  accountFromRow,
+  feedbackToRow,
+  feedbackFromRow,
+  queryLogToRow,
+  queryLogFromRow,
+  llmUsageToRow,
+  llmUsageFromRow,
+} from './storage';
+
+type SqliteDb = ReturnType<typeof drizzle<typeof schema>>;
+type SqliteTx = Parameters<Parameters<SqliteDb['transaction']>[0]>[0];
+
+const {
+  users, userPermissionRecords, permissionGroupRecords, tableAccessCategoryRecords, accessRequestRecords, feedbackEntries, popularQueries, queryLogEntries, llmUsageEntries, legacyImports,
+} = schema;
+
+function upsertPermissions(db: SqliteDb | SqliteTx, permissions: UserPermissions[]): void {
+  for (const batch of chunk(permissions.map(permissionsToRow))) {
+    db.insert(userPermissionRecords).values(batch).onConflictDoUpdate({
+      target: userPermissionRecords.userId,
+      set: {
+        username: sql`excluded.username`,
+        email: sql`excluded.email`,
+        isAdmin: sql`excluded.is_admin`,
+        groupIds: sql`excluded.group_ids`,
+        allowedPlanningAreas: sql`excluded.allowed_planning_areas`,
+        allowedScenarios: sql`excluded.allowed_scenarios`,
+        allowedPlants: sql`excluded.allowed_plants`,
+        allowedTableAccess: sql`excluded.allowed_table_access`,
+        deniedPlanningAreas: sql`excluded.denied_planning_areas`,
+        deniedScenarios: sql`excluded.denied_scenarios`,
+        deniedPlants: sql`excluded.denied_plants`,
+        deniedTableAccess: sql`excluded.denied_table_access`,
+        maxRows: sql`excluded.max_rows`,
+        columnRules: sql`excluded.column_rules`,
+        grants: sql`excluded.grants`,
+        createdAt: sql`excluded.created_at`,
+        updatedAt: sql`excluded.updated_at`,
+      },
+    }).run();
+  }
+}
+
+function upsertGroups(db: SqliteDb | SqliteTx, groups: PermissionGroup[]): void {
+  for (const batch of chunk(groups.map(groupToRow))) {
+    db.insert(permissionGroupRecords).values(batch).onConflictDoUpdate({
+      target: permissionGroupRecords.groupId,
+      set: {
+        name: sql`excluded.name`,
+        description: sql`excluded.description`,
+        allowedPlanningAreas: sql`excluded.allowed_planning_areas`,
+        allowedScenarios: sql`excluded.allowed_scenarios`,
+        allowedPlants: sql`excluded.allowed_plants`,
+        allowedTableAccess: sql`excluded.allowed_table_access`,
+        deniedPlanningAreas: sql`excluded.denied_planning_areas`,
+        deniedScenarios: sql`excluded.denied_scenarios`,
+        deniedPlants: sql`excluded.denied_plants`,
+        deniedTableAccess: sql`excluded.denied_table_access`,
+        maxRows: sql`excluded.max_rows`,
+        columnRules: sql`excluded.column_rules`,
+        createdAt: sql`excluded.created_at`,
+        updatedAt: sql`excluded.updated_at`,
+      },
+    }).run();
+  }
+}
+
+function replaceCategories(db: SqliteDb | SqliteTx, categories: TableAccessCategory[]): void {
+  db.delete(tableAccessCategoryRecords).run();
+  for (const batch of chunk(categories.map(categoryToRow))) {
+    db.insert(tableAccessCategoryRecords).values(batch).run();
+  }
+}
+
+function insertAccessRequests(db: SqliteDb | SqliteTx, requests: AccessRequest[]): void {
+  for (const batch of chunk(requests.map(accessRequestToRow))) {
+    db.insert(accessRequestRecords).values(batch).onConflictDoNothing().run();
+  }
+}
+
+function insertFeedback(db: SqliteDb | SqliteTx, entries: FeedbackEntry[]): void {
+  for (const batch of chunk(entries)) {
+    db.insert(feedbackEntries).values(batch.map(feedbackToRow)).run();
+  }
+}
+
+function insertQueryLogs(db: SqliteDb | SqliteTx, entries: QueryLogEntry[]): void {
+  for (const batch of chunk(entries, 100)) {
+    db.insert(queryLogEntries).values(batch.map(queryLogToRow)).run();
+  }
+}
+
+function setPopularQueries(db: SqliteDb | SqliteTx, entries: PopularQueryCount[]): void {
+  for (const batch of chunk(entries)) {
+    db.insert(popularQueries)
+      .values(batch.map(entry => ({ id: randomUUID(), question: entry.question, count: entry.count, lastUsed: entry.lastUsed })))
+      .onConflictDoUpdate({
+        target: popularQueries.question,
+        set: { count: sql`excluded.count`, lastUsed: sql`excluded.last_used` },
+      })
+      .run();
+  }
+}
+
+/**
+ * Open (creating if needed) and migrate the SQLite database at the given path
+ */
+export function openSqliteStorage(path: string): IStorage {
+  mkdirSync(dirname(path), { recursive: true });
+  const client = new Database(path);
+  client.pragma('journal_mode = WAL');
+  const db = drizzle(client, { schema });
+  migrate(db, { migrationsFolder: join(process.cwd(), 'migrations', 'sqlite') });
+
+  return {
+    kind: 'sqlite',
+
+    async getAllUserPermissions() {
+      return db.select().from(userPermissionRecords).orderBy(asc(userPermissionRecords.createdAt)).all().map(permissionsFromRow);
+    },
+
+    async upsertUserPermissions(permissions) {
+      upsertPermissions(db, permissions);
+    },
+
+    async deleteUserPermissions(userId) {
+      db.delete(userPermissionRecords).where(eq(userPermissionRecords.userId, userId)).run();
+    },
+
+    async replaceAllUserPermissions(permissions) {
+      db.transaction(tx => {
+        tx.delete(userPermissionRecords).run();
+        upsertPermissions(tx, permissions);
+      });
+    },
+
+    async getAllPermissionGroups() {
+      return db.select().from(permissionGroupRecords).orderBy(asc(permissionGroupRecords.createdAt)).all().map(groupFromRow);
+    },
+
+    async upsertPermissionGroups(groups) {
+      upsertGroups(db, groups);
+    },
+
+    async deletePermissionGroup(groupId) {
+      db.delete(permissionGroupRecords).where(eq(permissionGroupRecords.groupId, groupId)).run();
+    },
+
+    async getTableAccessCategories() {
+      return db.select().from(tableAccessCategoryRecords)
+        .orderBy(asc(tableAccessCategoryRecords.createdAt), asc(tableAccessCategoryRecords.name))
+        .all()
+        .map(categoryFromRow);
+    },
+
+    async upsertTableAccessCategory(category) {
+      const row = categoryToRow(category);
+      db.insert(tableAccessCategoryRecords).values(row).onConflictDoUpdate({ target: tableAccessCategoryRecords.name, set: row }).run();
+    },
+
+    async deleteTableAccessCategory(name) {
+      db.delete(tableAccessCategoryRecords).where(eq(tableAccessCategoryRecords.name, name)).run();
+    },
+
+    async getAllAccessRequests() {
+      return db.select().from(accessRequestRecords).orderBy(asc(accessRequestRecords.createdAt)).all().map(accessRequestFromRow);
+    },
+
+    async upsertAccessRequest(request) {
+      const row = accessRequestToRow(request);
+      db.insert(accessRequestRecords).values(row).onConflictDoUpdate({ target: accessRequestRecords.id, set: row }).run();
+    },
+
+    async getAllLocalAccounts() {
+      return db.select().from(users).orderBy(asc(users.createdAt)).all().map(accountFromRow);
+    },
+
+    async upsertLocalAccount(account) {
+      const row = accountToRow(account);
+      db.insert(users).values(row).onConflictDoUpdate({ target: users.id, set: row }).run();
+    },
+
+    async deleteLocalAccount(userId) {
+      db.delete(users).where(eq(users.id, userId)).run();
+    },
+
+    async getAllFeedback() {
+      return db.select().from(feedbackEntries).orderBy(asc(feedbackEntries.id)).all().map(feedbackFromRow);
+    },
+
+    async addFeedback(entry) {
+      return db.insert(feedbackEntries).values(feedbackToRow(entry)).returning({ id: feedbackEntries.id }).get().id;
+    },
+
+    async updateFeedback(entry) {
+      db.update(feedbackEntries).set(feedbackToRow(entry)).where(eq(feedbackEntries.id, entry.id)).run();
+    },
+
+    async getPopularQueries() {
+      return db.select().from(popularQueries).all()
+        .map(row => ({ question: row.question, count: row.count, lastUsed: row.lastUsed }));
+    },
+
+    async incrementPopularQuery(question, usedAt) {
+      db.insert(popularQueries)
+        .values({ id: randomUUID(), question, count: 1, lastUsed: usedAt })
+        .onConflictDoUpdate({
+          target: popularQueries.question,
+          set: { count: sql`${popularQueries.count} + 1`, lastUsed: usedAt },
+        })
+        .run();
+    },
+
+    async getQueryLogsSince(since, limit) {
+      return db.select().from(queryLogEntries)
+        .where(gte(queryLogEntries.timestamp, since))
+        .orderBy(desc(queryLogEntries.id))
+        .limit(limit)
+        .all()
+        .reverse()
+        .map(queryLogFromRow);
+    },
+
+    async addQueryLog(entry) {
+      insertQueryLogs(db, [entry]);
+    },
+
+    async getLlmUsageSince(since) {
+      return db.select().from(llmUsageEntries)
+        .where(gte(llmUsageEntries.timestamp, since))
+        .orderBy(asc(llmUsageEntries.id))
+        .all()
+        .map(llmUsageFromRow);
+    },
+
+    async addLlmUsage(entry) {
+      db.insert(llmUsageEntries).values(llmUsageToRow(entry)).run();
+    },
+
+    async getLegacyImports() {
+      return db.select({ name: legacyImports.name }).from(legacyImports).all().map(row => row.name);
+    },
+
+    async importLegacyFile(name: string, data: LegacyImport, recordCount: number) {
+      db.transaction(tx => {
+        if (data.userPermissions) upsertPermissions(tx, data.userPermissions);
+        if (data.permissionGroups) upsertGroups(tx, data.permissionGroups);
+        if (data.tableAccessCategories) replaceCategories(tx, data.tableAccessCategories);
+        if (data.accessRequests) insertAccessRequests(tx, data.accessRequests);
+        if (data.feedback) insertFeedback(tx, data.feedback);
+        if (data.popularQueries) setPopularQueries(tx, data.popularQueries);
+        if (data.queryLogs) insertQueryLogs(tx, data.queryLogs);
+        tx.insert(legacyImports).values({ name, recordCount, importedAt: new Date().toISOString() }).run();
+      });
+    },
+
+    async close() {
+      client.close();
+    },
+  };
+}
@@ -1,38 +1,467 @@
-import { type User, type InsertUser } from "@shared/schema";
-import { randomUUID } from "crypto";
+/**
+ * Data Store
+ * Persistence for user permissions, permission groups, table-access categories, access requests,
+ * local accounts, feedback, FAQ counts (popular queries), query logs and LLM token usage.
+ * Postgres through drizzle when STORAGE_DATABASE_URL is set, otherwise an embedded SQLite
+ * database for local development (STORAGE_SQLITE_PATH, default data/query-insight.db).
+ * Opening the store runs the migrations in migrations/<dialect> and the one-time import of
+ * the JSON files earlier versions kept in data/.
+ *
+ * The modules that own this data keep it in memory for their synchronous reads and write
+ * each change through with persist(), which runs writes one at a time in call order.
+ */
 
-// modify the interface with any CRUD methods
-// you might need
+import { join } from 'path';
+import type { UserPermissions, PermissionGroup, TableAccessCategory, AccessRequest, AccessRequestStatus } from '@shared/schema';
+import type {
+  users, userPermissionRecords, permissionGroupRecords, tableAccessCategoryRecords, accessRequestRecords,
+  feedbackEntries, queryLogEntries, llmUsageEntries,
+} from '@shared/schema-sqlite';
+import type { FeedbackEntry, QueryLogEntry } from './query-logger';
+import type { LocalAccount } from './local-accounts';
+import type { LlmUsageEntry, LlmStage } from './llm-usage';
+import { importLegacyJsonFiles } from './storage-legacy-import';
+import { log } from './log';
+
+export interface PopularQueryCount {
+  question: string; // Normalized question text
+  count: number;
+  lastUsed: string;
+}
+
+// Records read from one legacy JSON file, imported together with its legacy_imports row
+export interface LegacyImport {
+  userPermissions?: UserPermissions[];
+  permissionGroups?: PermissionGroup[];
+  tableAccessCategories?: TableAccessCategory[]; // Replace the categories the migration seeded
+  accessRequests?: AccessRequest[];
+  feedback?: FeedbackEntry[];
+  popularQueries?: PopularQueryCount[];
+  queryLogs?: QueryLogEntry[];
+}
 
 export interface IStorage {
-  getUser(id: string): Promise<User | undefined>;
-  getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  readonly kind: 'postgres' | 'sqlite';
+
+  getAllUserPermissions(): Promise<UserPermissions[]>;
+  upsertUserPermissions(permissions: UserPermissions[]): Promise<void>;
+  deleteUserPermissions(userId: string): Promise<void>;
+  replaceAllUserPermissions(permissions: UserPermissions[]): Promise<void>;
+
+  getAllPermissionGroups(): Promise<PermissionGroup[]>; // Oldest first
+  upsertPermissionGroups(groups: PermissionGroup[]): Promise<void>;
+  deletePermissionGroup(groupId: string): Promise<void>;
+
+  getTableAccessCategories(): Promise<TableAccessCategory[]>; // Oldest first
+  upsertTableAccessCategory(category: TableAccessCategory): Promise<void>;
+  deleteTableAccessCategory(name: string): Promise<void>;
+
+  getAllAccessRequests(): Promise<AccessRequest[]>; // Oldest first
+  upsertAccessRequest(request: AccessRequest): Promise<void>;
+
+  getAllLocalAccounts(): Promise<LocalAccount[]>;
+  upsertLocalAccount(account: LocalAccount): Promise<void>;
+  deleteLocalAccount(userId: string): Promise<void>;
+
+  getAllFeedback(): Promise<FeedbackEntry[]>; // Oldest first
+  addFeedback(entry: FeedbackEntry): Promise<number>; // Returns the new id
+  updateFeedback(entry: FeedbackEntry & { id: number }): Promise<void>;
+
+  getPopularQueries(): Promise<PopularQueryCount[]>;
+  incrementPopularQuery(question: string, usedAt: string): Promise<void>;
+
+  getQueryLogsSince(since: string, limit: number): Promise<QueryLogEntry[]>; // Newest `limit`, oldest first
+  addQueryLog(entry: QueryLogEntry): Promise<void>;
+
+  getLlmUsageSince(since: string): Promise<LlmUsageEntry[]>; // Oldest first
+  addLlmUsage(entry: LlmUsageEntry): Promise<void>;
+
+  getLegacyImports(): Promise<string[]>;
+  importLegacyFile(name: string, data: LegacyImport, recordCount: number): Promise<void>;
+
+  close(): Promise<void>;
 }
 
-export class MemStorage implements IStorage {
-  private users: Map<string, User>;
+const DEFAULT_SQLITE_PATH = join(process.cwd(), 'data', 'query-insight.db');
 
-  constructor() {
-    this.users = new Map();
-  }
+let storagePromise: Promise<IStorage> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
 
-  async getUser(id: string): Promise<User | undefined> {
-    return this.users.get(id);
+async function openStorage(): Promise<IStorage> {
+  let storage: IStorage;
+  if (process.env.STORAGE_DATABASE_URL) {
+    const { openPostgresStorage } = await import('./storage-postgres');
+    storage = await openPostgresStorage(process.env.STORAGE_DATABASE_URL);
+  } else {
+    const { openSqliteStorage } = await import('./storage-sqlite');
+    storage = openSqliteStorage(process.env.STORAGE_SQLITE_PATH || DEFAULT_SQLITE_PATH);
   }
+  log(`[storage] Using ${storage.kind} data store`, 'storage');
+  await importLegacyJsonFiles(storage);
+  return storage;
+}
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
-    );
+/**
+ * Open the data store (once): connect, migrate and import legacy JSON files
+ */
+export function initStorage(): Promise<IStorage> {
+  if (!storagePromise) {
+    storagePromise = openStorage().catch(error => {
+      storagePromise = null; // Let a later call retry
+      throw error;
+    });
   }
+  return storagePromise;
+}
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = randomUUID();
-    const user: User = { ...insertUser, id };
-    this.users.set(id, user);
-    return user;
-  }
+/**
+ * Queue a write to the data store. Writes run one at a time in the order they were queued,
+ * so a later change to the same record always lands last. Failures are logged; the returned
+ * promise also rejects with them, for callers that must not report success before the write
+ * has landed. Writes nobody waits for go through persistInBackground instead.
+ */
+export function persist(description: string, write: (storage: IStorage) => Promise<void>): Promise<void> {
+  const written = writeQueue.then(async () => {
+    try {
+      await write(await initStorage());
+    } catch (error: any) {
+      log(`[storage] Failed to ${description}: ${error.message}`, 'error');
+      throw error;
+    }
+  });
+  writeQueue = written.catch(() => undefined);
+  return written;
+}
+
+/**
+ * Queue a write nobody waits for (logs, counters). A failure is only logged.
+ */
+export function persistInBackground(description: string, write: (storage: IStorage) => Promise<void>): void {
+  persist(description, write).catch(() => undefined);
+}
+
+/**
+ * Resolves once every queued write has finished
+ */
+export function flushStorage(): Promise<void> {
+  return writeQueue;
+}
+
+// Rows as both backends read them; Postgres returns timestamps as Dates, SQLite as ISO text
+type Timestamp = string | Date;
+type PermissionsRow = Omit<typeof userPermissionRecords.$inferSelect, 'createdAt' | 'updatedAt'> & { createdAt: Timestamp; updatedAt: Timestamp };
+type GroupRow = Omit<typeof permissionGroupRecords.$inferSelect, 'createdAt' | 'updatedAt'> & { createdAt: Timestamp; updatedAt: Timestamp };
+type CategoryRow = Omit<typeof tableAccessCategoryRecords.$inferSelect, 'createdAt' | 'updatedAt'> & { createdAt: Timestamp; updatedAt: Timestamp };
+type AccessRequestRow = Omit<typeof accessRequestRecords.$inferSelect, 'createdAt' | 'decidedAt'> & { createdAt: Timestamp; decidedAt: Timestamp | null };
+type AccountRow = Omit<typeof users.$inferSelect, 'passwordChangedAt' | 'lastLoginAt' | 'createdAt'> & {
+  passwordChangedAt: Timestamp | null;
+  lastLoginAt: Timestamp | null;
+  createdAt: Timestamp;
+};
+type FeedbackRow = Omit<typeof feedbackEntries.$inferSelect, 'createdAt' | 'triagedAt'> & { createdAt: Timestamp; triagedAt: Timestamp | null };
+type QueryLogRow = Omit<typeof queryLogEntries.$inferSelect, 'timestamp'> & { timestamp: Timestamp };
+type LlmUsageRow = Omit<typeof llmUsageEntries.$inferSelect, 'timestamp'> & { timestamp: Timestamp };
+
+function toIso(value: Timestamp): string {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+export function permissionsToRow(permissions: UserPermissions): typeof userPermissionRecords.$inferInsert {
+  return {
+    userId: permissions.userId,
+    username: permissions.username,
+    email: permissions.email ?? null,
+    isAdmin: permissions.isAdmin,
+    groupIds: permissions.groupIds ?? null,
+    allowedPlanningAreas: permissions.allowedPlanningAreas,
+    allowedScenarios: permissions.allowedScenarios,
+    allowedPlants: permissions.allowedPlants,
+    allowedTableAccess: permissions.allowedTableAccess,
+    deniedPlanningAreas: permissions.deniedPlanningAreas ?? null,
+    deniedScenarios: permissions.deniedScenarios ?? null,
+    deniedPlants: permissions.deniedPlants ?? null,
+    deniedTableAccess: permissions.deniedTableAccess ?? null,
+    maxRows: permissions.maxRows ?? null,
+    columnRules: permissions.columnRules ?? null,
+    grants: permissions.grants ?? null,
+    createdAt: permissions.createdAt,
+    updatedAt: permissions.updatedAt,
+  };
+}
+
+export function permissionsFromRow(row: PermissionsRow): UserPermissions {
+  return {
+    userId: row.userId,
+    username: row.username,
+    email: row.email ?? undefined,
+    isAdmin: row.isAdmin,
+    groupIds: row.groupIds,
+    allowedPlanningAreas: row.allowedPlanningAreas,
+    allowedScenarios: row.allowedScenarios,
+    allowedPlants: row.allowedPlants,
+    allowedTableAccess: row.allowedTableAccess,
+    maxRows: row.maxRows,
+    columnRules: row.columnRules,
+    grants: row.grants,
+    deniedPlanningAreas: row.deniedPlanningAreas,
+    deniedScenarios: row.deniedScenarios,
+    deniedPlants: row.deniedPlants,
+    deniedTableAccess: row.deniedTableAccess,
+    createdAt: toIso(row.createdAt),
+    updatedAt: toIso(row.updatedAt),
+  };
 }
 
-export const storage = new MemStorage();
+export function groupToRow(group: PermissionGroup): typeof permissionGroupRecords.$inferInsert {
+  return {
+    groupId: group.groupId,
+    name: group.name,
+    description: group.description ?? null,
+    allowedPlanningAreas: group.allowedPlanningAreas,
+    allowedScenarios: group.allowedScenarios,
+    allowedPlants: group.allowedPlants,
+    allowedTableAccess: group.allowedTableAccess,
+    deniedPlanningAreas: group.deniedPlanningAreas ?? null,
+    deniedScenarios: group.deniedScenarios ?? null,
+    deniedPlants: group.deniedPlants ?? null,
+    deniedTableAccess: group.deniedTableAccess ?? null,
+    maxRows: group.maxRows ?? null,
+    columnRules: group.columnRules ?? null,
+    createdAt: group.createdAt,
+    updatedAt: group.updatedAt,
+  };
+}
+
+export function groupFromRow(row: GroupRow): PermissionGroup {
+  return {
+    groupId: row.groupId,
+    name: row.name,
+    description: row.description ?? undefined,
+    allowedPlanningAreas: row.allowedPlanningAreas,
+    allowedScenarios: row.allowedScenarios,
+    allowedPlants: row.allowedPlants,
+    allowedTableAccess: row.allowedTableAccess,
+    deniedPlanningAreas: row.deniedPlanningAreas,
+    deniedScenarios: row.deniedScenarios,
+    deniedPlants: row.deniedPlants,
+    deniedTableAccess: row.deniedTableAccess,
+    maxRows: row.maxRows,
+    columnRules: row.columnRules,
+    createdAt: toIso(row.createdAt),
+    updatedAt: toIso(row.updatedAt),
+  };
+}
+
+export function categoryToRow(category: TableAccessCategory): typeof tableAccessCategoryRecords.$inferInsert {
+  return {
+    name: category.name,
+    description: category.description ?? null,
+    tables: category.tables,
+    createdAt: category.createdAt,
+    updatedAt: category.updatedAt,
+  };
+}
+
+export function categoryFromRow(row: CategoryRow): TableAccessCategory {
+  return {
+    name: row.name,
+    description: row.description ?? undefined,
+    tables: row.tables,
+    createdAt: toIso(row.createdAt),
+    updatedAt: toIso(row.updatedAt),
+  };
+}
+
+export function accessRequestToRow(request: AccessRequest): typeof accessRequestRecords.$inferInsert {
+  return {
+    id: request.id,
+    userId: request.userId,
+    username: request.username,
+    question: request.question,
+    blockedReason: request.blockedReason,
+    scope: request.scope,
+    comment: request.comment ?? null,
+    status: request.status,
+    createdAt: request.createdAt,
+    decidedAt: request.decidedAt ?? null,
+    decidedBy: request.decidedBy ?? null,
+    decisionComment: request.decisionComment ?? null,
+    grantedCategory: request.grantedCategory ?? null,
+  };
+}
+
+export function accessRequestFromRow(row: AccessRequestRow): AccessRequest {
+  const request: AccessRequest = {
+    id: row.id,
+    userId: row.userId,
+    username: row.username,
+    question: row.question,
+    blockedReason: row.blockedReason,
+    scope: row.scope,
+    status: row.status as AccessRequestStatus,
+    createdAt: toIso(row.createdAt),
+  };
+  if (row.comment) request.comment = row.comment;
+  if (row.decidedAt) request.decidedAt = toIso(row.decidedAt);
+  if (row.decidedBy) request.decidedBy = row.decidedBy;
+  if (row.decisionComment) request.decisionComment = row.decisionComment;
+  if (row.grantedCategory) request.grantedCategory = row.grantedCategory;
+  return request;
+}
+
+export function accountToRow(account: LocalAccount): typeof users.$inferInsert {
+  return {
+    id: account.userId,
+    username: account.username,
+    password: account.passwordHash,
+    mustChangePassword: account.mustChangePassword,
+    passwordChangedAt: account.passwordChangedAt ?? null,
+    lastLoginAt: account.lastLoginAt ?? null,
+    createdAt: account.createdAt,
+  };
+}
+
+export function accountFromRow(row: AccountRow): LocalAccount {
+  return {
+    userId: row.id,
+    username: row.username,
+    passwordHash: row.password,
+    mustChangePassword: row.mustChangePassword,
+    passwordChangedAt: row.passwordChangedAt ? toIso(row.passwordChangedAt) : undefined,
+    lastLoginAt: row.lastLoginAt ? toIso(row.lastLoginAt) : undefined,
+    createdAt: toIso(row.createdAt),
+  };
+}
+
+export function feedbackToRow(entry: FeedbackEntry): Omit<typeof feedbackEntries.$inferInsert, 'id'> {
+  return {
+    question: entry.question,
+    sql: entry.sql,
+    feedback: entry.feedback,
+    comment: entry.comment ?? null,
+    createdAt: entry.timestamp,
+    requestId: entry.requestId ?? null,
+    userId: entry.userId ?? null,
+    triageStatus: entry.triage?.status ?? 'new', // Legacy JSON entries have no triage
+    triageNotes: entry.triage?.notes ?? null,
+    correctedSql: entry.triage?.correctedSql ?? null,
+    triagedBy: entry.triage?.updatedBy ?? null,
+    triagedAt: entry.triage?.updatedAt ?? null,
+  };
+}
+
+export function feedbackFromRow(row: FeedbackRow): FeedbackEntry {
+  const entry: FeedbackEntry = {
+    id: row.id,
+    question: row.question,
+    sql: row.sql,
+    feedback: row.feedback as FeedbackEntry['feedback'],
+    timestamp: toIso(row.createdAt),
+    comment: row.comment ?? undefined,
+    triage: {
+      status: row.triageStatus as FeedbackEntry['triage']['status'],
+      notes: row.triageNotes ?? undefined,
+      correctedSql: row.correctedSql ?? undefined,
+      updatedBy: row.triagedBy ?? undefined,
+      updatedAt: row.triagedAt ? toIso(row.triagedAt) : undefined,
+    },
+  };
+  if (row.requestId) entry.requestId = row.requestId;
+  if (row.userId) entry.userId = row.userId;
+  return entry;
+}
+
+export function queryLogToRow(entry: QueryLogEntry): Omit<typeof queryLogEntries.$inferInsert, 'id'> {
+  return {
+    timestamp: entry.timestamp,
+    requestId: entry.requestId,
+    route: entry.route,
+    question: entry.question,
+    tenantId: entry.tenantId ?? null,
+    userId: entry.userId ?? null,
+    customerId: entry.customerId ?? null,
+    clientIpHash: entry.clientIpHash ?? null,
+    isMock: entry.isMock,
+    generatedSql: entry.generatedSql,
+    sqlHash: entry.sqlHash ?? null,
+    validationOk: entry.validationOutcome.ok,
+    validationReason: entry.validationOutcome.reason ?? null,
+    rowCount: entry.rowCount,
+    llmMs: entry.timings.llmMs,
+    sqlMs: entry.timings.sqlMs,
+    totalMs: entry.timings.totalMs,
+    errorStage: entry.error?.stage ?? null,
+    errorMessage: entry.error?.message ?? null,
+    costCheck: entry.costCheck ?? null,
+    selectedTables: entry.selectedTables ?? null,
+    confidence: entry.confidence ?? null,
+    filters: entry.filters ?? null,
+    publishDate: entry.publishDate ?? null,
+  };
+}
+
+export function queryLogFromRow(row: QueryLogRow): QueryLogEntry {
+  const entry: QueryLogEntry = {
+    timestamp: toIso(row.timestamp),
+    requestId: row.requestId,
+    route: row.route,
+    question: row.question,
+    isMock: row.isMock,
+    generatedSql: row.generatedSql,
+    validationOutcome: { ok: row.validationOk, reason: row.validationReason ?? undefined },
+    rowCount: row.rowCount,
+    timings: { llmMs: row.llmMs, sqlMs: row.sqlMs, totalMs: row.totalMs },
+  };
+  if (row.tenantId) entry.tenantId = row.tenantId;
+  if (row.userId) entry.userId = row.userId;
+  if (row.customerId) entry.customerId = row.customerId;
+  if (row.clientIpHash) entry.clientIpHash = row.clientIpHash;
+  if (row.sqlHash) entry.sqlHash = row.sqlHash;
+  if (row.errorStage) entry.error = { stage: row.errorStage, message: row.errorMessage ?? '' };
+  if (row.costCheck) entry.costCheck = row.costCheck as QueryLogEntry['costCheck'];
+  if (row.selectedTables) entry.selectedTables = row.selectedTables;
+  if (row.confidence) entry.confidence = row.confidence as QueryLogEntry['confidence'];
+  if (row.filters) entry.filters = row.filters;
+  if (row.publishDate) entry.publishDate = row.publishDate;
+  return entry;
+}
+
+export function llmUsageToRow(entry: LlmUsageEntry): Omit<typeof llmUsageEntries.$inferInsert, 'id'> {
+  return {
+    timestamp: entry.timestamp,
+    requestId: entry.requestId,
+    userId: entry.userId ?? null,
+    stage: entry.stage,
+    model: entry.model,
+    promptTokens: entry.promptTokens,
+    completionTokens: entry.completionTokens,
+    totalTokens: entry.totalTokens,
+    costUsd: entry.costUsd,
+  };
+}
+
+export function llmUsageFromRow(row: LlmUsageRow): LlmUsageEntry {
+  const entry: LlmUsageEntry = {
+    timestamp: toIso(row.timestamp),
+    requestId: row.requestId,
+    stage: row.stage as LlmStage,
+    model: row.model,
+    promptTokens: row.promptTokens,
+    completionTokens: row.completionTokens,
+    totalTokens: row.totalTokens,
+    costUsd: row.costUsd,
+  };
+  if (row.userId) entry.userId = row.userId;
+  return entry;
+}
+
+/**
+ * Split rows into batches small enough for one multi-row INSERT
+ */
+export function chunk<T>(rows: T[], size: number = 200): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) {
+    chunks.push(rows.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -0,0 +1,135 @@
+/**
+ * Table Access Categories
+ * Admin-defined groups of sensitive tables ("Sales", "Procurement", "Customer Data", ...).
+ * A table that belongs to a category can only be queried by users granted at least one of
+ * the categories containing it; tables outside every category are open to all users.
+ * Held in memory for the synchronous permission checks and written through to the data store
+ * (see storage.ts); the migration that created the table seeds the original Sales and
+ * Revenue categories. Changes resolve once their write has landed and reject (with the cache
+ * reloaded) if it fails.
+ */
+
+import { TableAccessCategory, InsertTableAccessCategory } from '@shared/schema';
+import { initStorage, persist } from './storage';
+import { removeTableAccessFromUsers } from './permissions-storage';
+import { removeTableAccessFromGroups } from './permission-groups-storage';
+import { log } from './log';
+
+let categoriesCache: TableAccessCategory[] = [];
+
+function normalizeTableName(name: string): string {
+  return name.replace(/^\[?publish\]?\./i, '').replace(/[[\]]/g, '').toLowerCase();
+}
+
+/**
+ * Load every category from the data store. Called once at startup.
+ */
+export async function initTableAccessCategories(): Promise<void> {
+  const storage = await initStorage();
+  categoriesCache = await storage.getTableAccessCategories();
+  log(`[table-access] Loaded ${categoriesCache.length} table access categories from the ${storage.kind} store`, 'permissions');
+}
+
+/**
+ * Wait for a write to land; if it fails, reload the cache from the data store and rethrow
+ */
+async function commit(written: Promise<void>): Promise<void> {
+  try {
+    await written;
+  } catch (error) {
+    await initTableAccessCategories().catch((reloadError: any) => {
+      log(`[table-access] Could not reload table access categories: ${reloadError.message}`, 'error');
+    });
+    throw error;
+  }
+}
+
+export function getTableAccessCategories(): TableAccessCategory[] {
+  return categoriesCache;
+}
+
+export function getTableAccessCategory(name: string): TableAccessCategory | undefined {
+  return getTableAccessCategories().find(c => c.name.toLowerCase() === name.toLowerCase());
+}
+
+export function getTableAccessCategoryNames(): string[] {
+  return getTableAccessCategories().map(c => c.name);
+}
+
+/**
+ * Names in the list that aren't defined categories (for validating saved permissions)
+ */
+export function findUnknownCategories(names: Array<string[] | null | undefined>): string[] {
+  const known = new Set(getTableAccessCategoryNames());
+  return Array.from(new Set(names.flatMap(list => list || []).filter(name => !known.has(name))));
+}
+
+export async function createOrUpdateTableAccessCategory(input: InsertTableAccessCategory): Promise<TableAccessCategory> {
+  const categories = getTableAccessCategories();
+  const now = new Date().toISOString();
+  const existingIndex = categories.findIndex(c => c.name.toLowerCase() === input.name.toLowerCase());
+
+  const category: TableAccessCategory = {
+    name: existingIndex >= 0 ? categories[existingIndex].name : input.name,
+    description: input.description,
+    tables: Array.from(new Set(input.tables.map(table => table.replace(/^\[?publish\]?\./i, '').replace(/[[\]]/g, '')))),
+    createdAt: existingIndex >= 0 ? categories[existingIndex].createdAt : now,
+    updatedAt: now,
+  };
+
+  if (existingIndex >= 0) {
+    categories[existingIndex] = category;
+  } else {
+    categories.push(category);
+  }
+
+  const copy = structuredClone(category);
+  await commit(persist(`save table access category ${copy.name}`, storage => storage.upsertTableAccessCategory(copy)));
+  log(`[table-access] ${existingIndex >= 0 ? 'Updated' : 'Created'} category: ${category.name}`, 'permissions');
+  return category;
+}
+
+/**
+ * Delete a category and remove it from every user and group that refers to it, so a new
+ * category with the same name doesn't inherit old grants
+ */
+export async function deleteTableAccessCategory(name: string): Promise<boolean> {
+  const categories = getTableAccessCategories();
+  const index = categories.findIndex(c => c.name.toLowerCase() === name.toLowerCase());
+  if (index < 0) {
+    return false;
+  }
+
+  const [removed] = categories.splice(index, 1);
+  await commit(persist(`delete table access category ${removed.name}`, storage => storage.deleteTableAccessCategory(removed.name)));
+  log(`[table-access] Deleted category: ${removed.name}`, 'permissions');
+  await removeTableAccessFromGroups(removed.name);
+  await removeTableAccessFromUsers(removed.name);
+  return true;
+}
+
+/**
+ * Categories that contain a table
+ */
+export function getCategoriesForTable(
+  tableName: string,
+  categories: TableAccessCategory[] = getTableAccessCategories()
+): TableAccessCategory[] {
+  const table = normalizeTableName(tableName);
+  return categories.filter(category => category.tables.some(t => normalizeTableName(t) === table));
+}
+
+/**
+ * Categorized tables a user can't query given their allowed categories (null = all allowed)
+ */
+export function getInaccessibleTables(
+  allowedCategories: string[] | null,
+  categories: TableAccessCategory[] = getTableAccessCategories()
+): string[] {
+  if (allowedCategories === null) return [];
+  const allowed = new Set(allowedCategories);
+  const tables = new Set(categories.flatMap(category => category.tables));
+  return Array.from(tables).filter(table =>
+    !getCategoriesForTable(table, categories).some(category => allowed.has(category.name))
+  );
+}
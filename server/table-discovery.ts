@@ -4,7 +4,7 @@
  */
 
 import { executeQuery } from "./db-azure";
-import { log } from "./index";
+import { log } from "./log";
 
 export interface DiscoveredTable {
   name: string;
@@ -0,0 +1,160 @@
+/**
+ * Total Count
+ * Counts the full result of a validated query so answers can say "showing 100 of N".
+ * The statement (minus TOP, ORDER BY and OFFSET/FETCH) is wrapped as a CTE and counted,
+ * which keeps GROUP BY, DISTINCT, set operations and the query's own CTEs intact. Counts
+ * are cached per SQL hash and bounded by a timeout so a slow count never delays an answer.
+ */
+
+import crypto from 'crypto';
+import { executeQuery } from './db-azure';
+import { parseSql, rewriteSql, QueryExpression, SelectStatement, SqlEdit } from './sql-parser';
+import { isAggregateOnlyQuery } from './sql-validator';
+import { log } from './log';
+
+const COUNT_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const COUNT_CACHE_MAX_SIZE = 500;
+const countCache = new Map<string, { count: number; timestamp: number }>();
+
+const COUNT_SOURCE_NAME = 'count_source';
+
+function getCountTimeoutMs(): number {
+  const parsed = Number(process.env.TOTAL_COUNT_TIMEOUT_MS);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 3000;
+}
+
+function skipWhitespace(sql: string, offset: number): number {
+  while (offset < sql.length && /\s/.test(sql[offset])) offset++;
+  return offset;
+}
+
+function outerSelects(query: QueryExpression): SelectStatement[] {
+  return query.terms.flatMap(term => term.type === 'select' ? [term] : outerSelects(term));
+}
+
+/**
+ * Edits that drop row limiting and ordering from a query: TOP on every outer SELECT,
+ * and ORDER BY / OFFSET / FETCH on the query and its parenthesized terms
+ */
+function buildUnlimitEdits(sql: string, query: QueryExpression): SqlEdit[] {
+  const edits: SqlEdit[] = [];
+
+  if (query.orderBy) {
+    const start = query.orderBy.keywordStart;
+    const end = query.offsetFetch?.end ?? query.orderBy.end;
+    edits.push({ start, end, text: '' });
+  }
+
+  for (const term of query.terms) {
+    if (term.type === 'query') {
+      edits.push(...buildUnlimitEdits(sql, term));
+    } else if (term.top) {
+      edits.push({ start: term.top.start, end: skipWhitespace(sql, term.top.end), text: '' });
+    }
+  }
+
+  return edits;
+}
+
+/**
+ * Build the count statement for a validated query, or null when a count isn't needed
+ * (aggregate-only queries return a single row) or the SQL can't be parsed.
+ *
+ * A plain SELECT has its select list replaced by a constant, since only its row count
+ * matters. DISTINCT and set operations keep their columns; they are named through the
+ * CTE column list so unnamed expressions and duplicate names stay valid.
+ */
+export function buildCountSql(sql: string): string | null {
+  let statement;
+  try {
+    statement = parseSql(sql);
+  } catch {
+    return null;
+  }
+
+  const { query } = statement;
+  const selects = outerSelects(query);
+  if (selects.length === 1 && isAggregateOnlyQuery(selects[0])) return null;
+
+  const edits = buildUnlimitEdits(sql, query);
+  let columnList = '';
+
+  if (query.terms.length === 1 && query.terms[0].type === 'select' && !query.terms[0].distinct) {
+    const { items } = query.terms[0];
+    edits.push({ start: items[0].start, end: items[items.length - 1].end, text: '1 AS counted_row' });
+  } else {
+    const { items } = selects[0];
+    const hasStar = selects.some(select => select.items.some(item => item.expression.stars.length > 0));
+    if (!hasStar) {
+      columnList = ` (${items.map((_, index) => `c${index + 1}`).join(', ')})`;
+    }
+  }
+
+  // Edits are relative to the whole statement; shift them onto the query text
+  const querySql = rewriteSql(
+    sql.slice(query.start, query.end),
+    edits.map(edit => ({ ...edit, start: edit.start - query.start, end: edit.end - query.start }))
+  ).trim();
+
+  const withPrefix = statement.ctes.length > 0
+    ? `${sql.slice(statement.start, query.start).trimEnd()}, `
+    : 'WITH ';
+  const option = statement.option ? ` ${sql.slice(statement.option.start, statement.option.end)}` : '';
+
+  return `${withPrefix}${COUNT_SOURCE_NAME}${columnList} AS (${querySql}) SELECT COUNT_BIG(*) AS TotalCount FROM ${COUNT_SOURCE_NAME}${option}`;
+}
+
+function hashSql(sql: string): string {
+  return crypto.createHash('sha256').update(sql).digest('hex');
+}
+
+function cacheCount(key: string, count: number): void {
+  // Evict oldest if at max size
+  if (countCache.size >= COUNT_CACHE_MAX_SIZE) {
+    const oldestKey = countCache.keys().next().value;
+    if (oldestKey) countCache.delete(oldestKey);
+  }
+  countCache.set(key, { count, timestamp: Date.now() });
+}
+
+/**
+ * Count the total rows of a validated, permission-filtered query (without its row limit).
+ * Start it before running the main query so both run in parallel. The promise never
+ * rejects: it resolves to undefined when no count is needed, the count fails, or it
+ * takes longer than TOTAL_COUNT_TIMEOUT_MS (a late count still fills the cache).
+ */
+export function countTotalRows(sql: string, timeoutMs: number = getCountTimeoutMs()): Promise<number | undefined> {
+  const countSql = buildCountSql(sql);
+  if (!countSql) return Promise.resolve(undefined);
+
+  const key = hashSql(countSql);
+  const cached = countCache.get(key);
+  if (cached && Date.now() - cached.timestamp < COUNT_CACHE_TTL_MS) {
+    return Promise.resolve(cached.count);
+  }
+  if (cached) {
+    countCache.delete(key); // Expired
+  }
+
+  const count = executeQuery(countSql)
+    .then(result => {
+      const total = Number(result.recordset[0]?.TotalCount);
+      if (!Number.isFinite(total)) return undefined;
+      cacheCount(key, total);
+      return total;
+    })
+    .catch((error: any) => {
+      log(`Failed to get total count: ${error.message}`, 'total-count');
+      return undefined;
+    });
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<undefined>(resolve => {
+    timer = setTimeout(() => {
+      log(`Total count timed out after ${timeoutMs}ms`, 'total-count');
+      resolve(undefined);
+    }, timeoutMs);
+  });
+
+  return Promise.race([count, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,113 @@
+/**
+ * Validator Policy
+ * Loads the declarative SQL validator policy (src/config/validator_policy.json): allowed
+ * schemas and tables, allowed/denied functions and keywords, join rules, nesting limits
+ * and the row limit. Each rule has a stable id that validation errors quote.
+ */
+
+import { z } from 'zod';
+import policyFile from '../src/config/validator_policy.json';
+
+export const POLICY_JOIN_TYPES = ['INNER', 'LEFT', 'RIGHT', 'FULL', 'CROSS', 'CROSS APPLY', 'OUTER APPLY', 'COMMA'] as const;
+
+export const policyExampleSchema = z.object({
+  name: z.string(),
+  sql: z.string(),
+  expect: z.enum(['valid', 'invalid']),
+  rule: z.string().optional(),
+});
+
+export const validatorPolicySchema = z.object({
+  version: z.string(),
+  lastUpdated: z.string().optional(),
+  description: z.string().optional(),
+  maxRows: z.number().int().positive(),
+  adminMaxRows: z.number().int().positive().optional(), // Row limit for admins, defaults to maxRows
+  tables: z.object({
+    label: z.string(),
+    allowedSchemas: z.array(z.string()).min(1),
+    allowedTables: z.array(z.string()).min(1),
+  }),
+  functions: z.object({
+    allowed: z.array(z.string()).default([]), // Empty = any function that is not denied
+    denied: z.array(z.string()).default([]),
+  }),
+  keywords: z.object({
+    denied: z.array(z.string()).default([]),
+  }),
+  variables: z.object({
+    denyGlobals: z.boolean().default(true),
+  }),
+  joins: z.object({
+    allowedTypes: z.array(z.enum(POLICY_JOIN_TYPES)),
+    maxJoins: z.number().int().nonnegative(),
+  }),
+  maxSubqueryDepth: z.number().int().nonnegative(),
+  examples: z.array(policyExampleSchema).default([]),
+});
+
+export type ValidatorPolicyDefinition = z.infer<typeof validatorPolicySchema>;
+export type PolicyExample = z.infer<typeof policyExampleSchema>;
+
+// Rule ids quoted in validation errors
+export type PolicyRule =
+  | 'tables.allowedSchemas'
+  | 'tables.allowedTables'
+  | 'functions.allowed'
+  | 'functions.denied'
+  | 'keywords.denied'
+  | 'variables.denyGlobals'
+  | 'joins.allowedTypes'
+  | 'joins.maxJoins'
+  | 'maxSubqueryDepth';
+
+/**
+ * Policy with name patterns compiled for matching
+ */
+export interface ValidatorPolicy extends ValidatorPolicyDefinition {
+  matchesAllowedSchema(schema: string): boolean;
+  matchesAllowedTable(table: string): boolean;
+  isFunctionDenied(name: string): boolean;
+  isFunctionAllowed(name: string): boolean;
+  isKeywordDenied(word: string): boolean;
+}
+
+/**
+ * Compile a name pattern where * matches any run of characters (case-insensitive)
+ */
+function compilePattern(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+function compilePatterns(patterns: string[]): (value: string) => boolean {
+  const compiled = patterns.map(compilePattern);
+  return (value: string) => compiled.some(regex => regex.test(value));
+}
+
+/**
+ * Validate a policy definition and compile its patterns
+ */
+export function compileValidatorPolicy(definition: unknown): ValidatorPolicy {
+  const parsed = validatorPolicySchema.parse(definition);
+  const deniedKeywords = new Set(parsed.keywords.denied.map(word => word.toUpperCase()));
+  const allowedFunctions = compilePatterns(parsed.functions.allowed);
+
+  return {
+    ...parsed,
+    matchesAllowedSchema: compilePatterns(parsed.tables.allowedSchemas),
+    matchesAllowedTable: compilePatterns(parsed.tables.allowedTables),
+    isFunctionDenied: compilePatterns(parsed.functions.denied),
+    isFunctionAllowed: name => parsed.functions.allowed.length === 0 || allowedFunctions(name),
+    isKeywordDenied: word => deniedKeywords.has(word.toUpperCase()),
+  };
+}
+
+const defaultPolicy = compileValidatorPolicy(policyFile);
+
+/**
+ * Get the policy loaded from src/config/validator_policy.json
+ */
+export function getValidatorPolicy(): ValidatorPolicy {
+  return defaultPolicy;
+}
@@ -0,0 +1,151 @@
+import { sqliteTable, text, integer, real, index } from "drizzle-orm/sqlite-core";
+import type { AccessRequestScope, ColumnRule, PermissionGrant, QueryLogFilters } from "./schema";
+
+// SQLite mirror of the data store tables in shared/schema.ts, for the embedded backend used
+// in local development. Timestamps are ISO strings; lists are JSON text.
+
+export const users = sqliteTable("users", {
+  id: text("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  mustChangePassword: integer("must_change_password", { mode: "boolean" }).notNull().default(false),
+  passwordChangedAt: text("password_changed_at"),
+  lastLoginAt: text("last_login_at"),
+  createdAt: text("created_at").notNull().default(""), // Always set on insert; the default only satisfies ALTER TABLE
+});
+
+export const popularQueries = sqliteTable("popular_queries", {
+  id: text("id").primaryKey(),
+  question: text("question").notNull().unique(),
+  count: integer("count").notNull().default(1),
+  lastUsed: text("last_used").notNull(),
+});
+
+export const userPermissionRecords = sqliteTable("user_permissions", {
+  userId: text("user_id").primaryKey(),
+  username: text("username").notNull(),
+  email: text("email"),
+  isAdmin: integer("is_admin", { mode: "boolean" }).notNull().default(false),
+  groupIds: text("group_ids", { mode: "json" }).$type<string[]>(),
+  allowedPlanningAreas: text("allowed_planning_areas", { mode: "json" }).$type<string[]>(),
+  allowedScenarios: text("allowed_scenarios", { mode: "json" }).$type<string[]>(),
+  allowedPlants: text("allowed_plants", { mode: "json" }).$type<string[]>(),
+  allowedTableAccess: text("allowed_table_access", { mode: "json" }).$type<string[]>(),
+  deniedPlanningAreas: text("denied_planning_areas", { mode: "json" }).$type<string[]>(),
+  deniedScenarios: text("denied_scenarios", { mode: "json" }).$type<string[]>(),
+  deniedPlants: text("denied_plants", { mode: "json" }).$type<string[]>(),
+  deniedTableAccess: text("denied_table_access", { mode: "json" }).$type<string[]>(),
+  maxRows: integer("max_rows"),
+  columnRules: text("column_rules", { mode: "json" }).$type<ColumnRule[]>(),
+  grants: text("grants", { mode: "json" }).$type<PermissionGrant[]>(),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+});
+
+export const feedbackEntries = sqliteTable("feedback", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  question: text("question").notNull(),
+  sql: text("sql").notNull(),
+  feedback: text("feedback").notNull(),
+  comment: text("comment"),
+  createdAt: text("created_at").notNull(),
+  requestId: text("request_id"),
+  userId: text("user_id"),
+  triageStatus: text("triage_status").notNull().default("new"),
+  triageNotes: text("triage_notes"),
+  correctedSql: text("corrected_sql"),
+  triagedBy: text("triaged_by"),
+  triagedAt: text("triaged_at"),
+}, (table) => [index("feedback_request_id_idx").on(table.requestId)]);
+
+export const queryLogEntries = sqliteTable("query_logs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  timestamp: text("timestamp").notNull(),
+  requestId: text("request_id").notNull(),
+  route: text("route").notNull(),
+  question: text("question").notNull(),
+  tenantId: text("tenant_id"),
+  userId: text("user_id"),
+  customerId: text("customer_id"),
+  clientIpHash: text("client_ip_hash"),
+  isMock: integer("is_mock", { mode: "boolean" }).notNull().default(false),
+  generatedSql: text("generated_sql"),
+  sqlHash: text("sql_hash"),
+  validationOk: integer("validation_ok", { mode: "boolean" }).notNull(),
+  validationReason: text("validation_reason"),
+  rowCount: integer("row_count"),
+  llmMs: integer("llm_ms"),
+  sqlMs: integer("sql_ms"),
+  totalMs: integer("total_ms").notNull(),
+  errorStage: text("error_stage"),
+  errorMessage: text("error_message"),
+  costCheck: text("cost_check", { mode: "json" }),
+  selectedTables: text("selected_tables", { mode: "json" }).$type<string[]>(),
+  confidence: text("confidence"),
+  filters: text("filters", { mode: "json" }).$type<QueryLogFilters>(),
+  publishDate: text("publish_date"),
+}, (table) => [index("query_logs_timestamp_idx").on(table.timestamp)]);
+
+export const llmUsageEntries = sqliteTable("llm_usage", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  timestamp: text("timestamp").notNull(),
+  requestId: text("request_id").notNull(),
+  userId: text("user_id"),
+  stage: text("stage").notNull(),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull(),
+  completionTokens: integer("completion_tokens").notNull(),
+  totalTokens: integer("total_tokens").notNull(),
+  costUsd: real("cost_usd"),
+}, (table) => [
+  index("llm_usage_timestamp_idx").on(table.timestamp),
+  index("llm_usage_request_id_idx").on(table.requestId),
+]);
+
+export const permissionGroupRecords = sqliteTable("permission_groups", {
+  groupId: text("group_id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  allowedPlanningAreas: text("allowed_planning_areas", { mode: "json" }).$type<string[]>(),
+  allowedScenarios: text("allowed_scenarios", { mode: "json" }).$type<string[]>(),
+  allowedPlants: text("allowed_plants", { mode: "json" }).$type<string[]>(),
+  allowedTableAccess: text("allowed_table_access", { mode: "json" }).$type<string[]>(),
+  deniedPlanningAreas: text("denied_planning_areas", { mode: "json" }).$type<string[]>(),
+  deniedScenarios: text("denied_scenarios", { mode: "json" }).$type<string[]>(),
+  deniedPlants: text("denied_plants", { mode: "json" }).$type<string[]>(),
+  deniedTableAccess: text("denied_table_access", { mode: "json" }).$type<string[]>(),
+  maxRows: integer("max_rows"),
+  columnRules: text("column_rules", { mode: "json" }).$type<ColumnRule[]>(),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+});
+
+export const tableAccessCategoryRecords = sqliteTable("table_access_categories", {
+  name: text("name").primaryKey(),
+  description: text("description"),
+  tables: text("tables", { mode: "json" }).$type<string[]>().notNull(),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+});
+
+export const accessRequestRecords = sqliteTable("access_requests", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  username: text("username").notNull(),
+  question: text("question").notNull(),
+  blockedReason: text("blocked_reason").notNull(),
+  scope: text("scope", { mode: "json" }).$type<AccessRequestScope>().notNull(),
+  comment: text("comment"),
+  status: text("status").notNull(),
+  createdAt: text("created_at").notNull(),
+  decidedAt: text("decided_at"),
+  decidedBy: text("decided_by", { mode: "json" }).$type<{ userId?: string; username?: string }>(),
+  decisionComment: text("decision_comment"),
+  grantedCategory: text("granted_category"),
+}, (table) => [index("access_requests_user_id_idx").on(table.userId)]);
+
+export const legacyImports = sqliteTable("legacy_imports", {
+  name: text("name").primaryKey(),
+  recordCount: integer("record_count").notNull(),
+  importedAt: text("imported_at").notNull(),
+});
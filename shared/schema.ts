@@ -1,12 +1,16 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, serial, index, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password").notNull(), // scrypt hash (server/local-accounts.ts), never the password itself
+  mustChangePassword: boolean("must_change_password").notNull().default(false),
+  passwordChangedAt: timestamp("password_changed_at"),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -31,21 +35,235 @@ export const insertPopularQuerySchema = createInsertSchema(popularQueries).omit(
 export type InsertPopularQuery = z.infer<typeof insertPopularQuerySchema>;
 export type PopularQuery = typeof popularQueries.$inferSelect;
 
+// Application data store tables (server/storage.ts). shared/schema-sqlite.ts mirrors them
+// for the embedded SQLite backend; keep the two in step and regenerate both migrations.
+
+export const userPermissionRecords = pgTable("user_permissions", {
+  userId: varchar("user_id").primaryKey(),
+  username: text("username").notNull(),
+  email: text("email"),
+  isAdmin: boolean("is_admin").notNull().default(false),
+  groupIds: jsonb("group_ids").$type<string[]>(),
+  allowedPlanningAreas: jsonb("allowed_planning_areas").$type<string[]>(),
+  allowedScenarios: jsonb("allowed_scenarios").$type<string[]>(),
+  allowedPlants: jsonb("allowed_plants").$type<string[]>(),
+  allowedTableAccess: jsonb("allowed_table_access").$type<string[]>(),
+  deniedPlanningAreas: jsonb("denied_planning_areas").$type<string[]>(),
+  deniedScenarios: jsonb("denied_scenarios").$type<string[]>(),
+  deniedPlants: jsonb("denied_plants").$type<string[]>(),
+  deniedTableAccess: jsonb("denied_table_access").$type<string[]>(),
+  maxRows: integer("max_rows"),
+  columnRules: jsonb("column_rules").$type<ColumnRule[]>(),
+  grants: jsonb("grants").$type<PermissionGrant[]>(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+});
+
+export const feedbackEntries = pgTable("feedback", {
+  id: serial("id").primaryKey(),
+  question: text("question").notNull(),
+  sql: text("sql").notNull(),
+  feedback: varchar("feedback", { length: 4 }).notNull(), // 'up' | 'down'
+  comment: text("comment"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  requestId: varchar("request_id"), // Query log entry the feedback is about
+  userId: text("user_id"),
+  triageStatus: text("triage_status").notNull().default("new"),
+  triageNotes: text("triage_notes"),
+  correctedSql: text("corrected_sql"),
+  triagedBy: text("triaged_by"),
+  triagedAt: timestamp("triaged_at", { withTimezone: true }),
+}, (table) => [index("feedback_request_id_idx").on(table.requestId)]);
+
+export const queryLogEntries = pgTable("query_logs", {
+  id: serial("id").primaryKey(),
+  timestamp: timestamp("timestamp", { withTimezone: true }).notNull(),
+  requestId: varchar("request_id").notNull(),
+  route: text("route").notNull(),
+  question: text("question").notNull(),
+  tenantId: text("tenant_id"),
+  userId: text("user_id"),
+  customerId: text("customer_id"),
+  clientIpHash: text("client_ip_hash"),
+  isMock: boolean("is_mock").notNull().default(false),
+  generatedSql: text("generated_sql"),
+  sqlHash: text("sql_hash"),
+  validationOk: boolean("validation_ok").notNull(),
+  validationReason: text("validation_reason"),
+  rowCount: integer("row_count"),
+  llmMs: integer("llm_ms"),
+  sqlMs: integer("sql_ms"),
+  totalMs: integer("total_ms").notNull(),
+  errorStage: text("error_stage"),
+  errorMessage: text("error_message"),
+  costCheck: jsonb("cost_check"),
+  selectedTables: jsonb("selected_tables").$type<string[]>(),
+  confidence: text("confidence"),
+  filters: jsonb("filters").$type<QueryLogFilters>(),
+  publishDate: text("publish_date"), // Anchor date for relative dates, as sent with the question
+}, (table) => [index("query_logs_timestamp_idx").on(table.timestamp)]);
+
+// Filters the user picked on the query page, as sent with the question
+export interface QueryLogFilters {
+  planningArea?: string | null;
+  scenarioId?: string | null;
+  plant?: string | null;
+}
+
+// Tokens used by one LLM call, recorded against the query log requestId
+export const llmUsageEntries = pgTable("llm_usage", {
+  id: serial("id").primaryKey(),
+  timestamp: timestamp("timestamp", { withTimezone: true }).notNull(),
+  requestId: varchar("request_id").notNull(),
+  userId: text("user_id"),
+  stage: text("stage").notNull(),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull(),
+  completionTokens: integer("completion_tokens").notNull(),
+  totalTokens: integer("total_tokens").notNull(),
+  costUsd: doublePrecision("cost_usd"), // null when the model has no price
+}, (table) => [
+  index("llm_usage_timestamp_idx").on(table.timestamp),
+  index("llm_usage_request_id_idx").on(table.requestId),
+]);
+
+// Permission groups (see PermissionGroup); members refer to them by group_id
+export const permissionGroupRecords = pgTable("permission_groups", {
+  groupId: varchar("group_id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  allowedPlanningAreas: jsonb("allowed_planning_areas").$type<string[]>(),
+  allowedScenarios: jsonb("allowed_scenarios").$type<string[]>(),
+  allowedPlants: jsonb("allowed_plants").$type<string[]>(),
+  allowedTableAccess: jsonb("allowed_table_access").$type<string[]>(),
+  deniedPlanningAreas: jsonb("denied_planning_areas").$type<string[]>(),
+  deniedScenarios: jsonb("denied_scenarios").$type<string[]>(),
+  deniedPlants: jsonb("denied_plants").$type<string[]>(),
+  deniedTableAccess: jsonb("denied_table_access").$type<string[]>(),
+  maxRows: integer("max_rows"),
+  columnRules: jsonb("column_rules").$type<ColumnRule[]>(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+});
+
+// Table-access categories (see TableAccessCategory); the migration seeds Sales and Revenue
+export const tableAccessCategoryRecords = pgTable("table_access_categories", {
+  name: varchar("name").primaryKey(),
+  description: text("description"),
+  tables: jsonb("tables").$type<string[]>().notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+});
+
+// Access requests (see AccessRequest)
+export const accessRequestRecords = pgTable("access_requests", {
+  id: varchar("id").primaryKey(),
+  userId: varchar("user_id").notNull(),
+  username: text("username").notNull(),
+  question: text("question").notNull(),
+  blockedReason: text("blocked_reason").notNull(),
+  scope: jsonb("scope").$type<AccessRequestScope>().notNull(),
+  comment: text("comment"),
+  status: varchar("status", { length: 16 }).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  decidedAt: timestamp("decided_at", { withTimezone: true }),
+  decidedBy: jsonb("decided_by").$type<{ userId?: string; username?: string }>(),
+  decisionComment: text("decision_comment"),
+  grantedCategory: text("granted_category"),
+}, (table) => [index("access_requests_user_id_idx").on(table.userId)]);
+
+// JSON files from data/ already copied into the store (one-time import)
+export const legacyImports = pgTable("legacy_imports", {
+  name: varchar("name").primaryKey(),
+  recordCount: integer("record_count").notNull(),
+  importedAt: timestamp("imported_at", { withTimezone: true }).notNull(),
+});
+
 // User Permissions schema for admin management
-// Note: This will be stored in JSON files until integrated with parent Blazor app
+// Stored in the user_permissions table until integrated with parent Blazor app
 
-export const tableAccessOptions = ['Sales', 'Revenue'] as const;
-export type TableAccess = typeof tableAccessOptions[number];
+// Name of a table-access category (see TableAccessCategory)
+export type TableAccess = string;
+
+// Admin-defined group of sensitive tables. A table in any category can only be queried by
+// users granted one of the categories that contain it; other tables are open to everyone.
+export interface TableAccessCategory {
+  name: string; // Unique, and what user and group permissions refer to
+  description?: string;
+  tables: string[]; // Publish table names without schema
+  createdAt: string;
+  updatedAt: string;
+}
 
-export interface UserPermissions {
+export const tableAccessCategorySchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  description: z.string().optional(),
+  tables: z.array(z.string().min(1)),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export type InsertTableAccessCategory = z.infer<typeof tableAccessCategorySchema>;
+
+// hide = the column can't be used in queries; mask = it can be selected but its values are replaced
+export const columnRuleActions = ['hide', 'mask'] as const;
+export type ColumnRuleAction = typeof columnRuleActions[number];
+
+export interface ColumnRule {
+  table: string; // Publish table name without schema, or '*' for every table
+  column: string;
+  action: ColumnRuleAction;
+}
+
+export const columnRuleSchema = z.object({
+  table: z.string().min(1),
+  column: z.string().min(1),
+  action: z.enum(columnRuleActions),
+});
+
+// Values denied to a user or group. Denies from any source win over allowed values.
+export interface PermissionDenies {
+  deniedPlanningAreas?: string[] | null;
+  deniedScenarios?: string[] | null;
+  deniedPlants?: string[] | null;
+  deniedTableAccess?: TableAccess[] | null;
+}
+
+// Temporary access on top of a user's scopes (contractors, auditors). A grant adds its value
+// to the matching allowed list between its start and expiry; denies still win.
+export const permissionGrantTypes = ['planningArea', 'scenario', 'plant', 'tableAccess'] as const;
+export type PermissionGrantType = typeof permissionGrantTypes[number];
+
+export interface PermissionGrant {
+  type: PermissionGrantType;
+  value: string; // Planning area, scenario id, plant or table-access category
+  startsAt?: string | null; // ISO datetime; unset = in effect from now
+  expiresAt?: string | null; // ISO datetime; unset = never expires
+}
+
+export const permissionGrantSchema = z.object({
+  type: z.enum(permissionGrantTypes),
+  value: z.string().trim().min(1),
+  startsAt: z.string().datetime({ offset: true }).nullable().optional(),
+  expiresAt: z.string().datetime({ offset: true }).nullable().optional(),
+}).refine(
+  grant => !grant.startsAt || !grant.expiresAt || new Date(grant.startsAt) < new Date(grant.expiresAt),
+  { message: 'A grant must expire after it starts', path: ['expiresAt'] }
+);
+
+export interface UserPermissions extends PermissionDenies {
   userId: string;
   username: string;
   email?: string;
   isAdmin: boolean;
-  allowedPlanningAreas: string[] | null; // null = all allowed
-  allowedScenarios: string[] | null; // null = all allowed
-  allowedPlants: string[] | null; // null = all allowed
+  groupIds?: string[] | null; // Permission groups the user belongs to
+  allowedPlanningAreas: string[] | null; // null = all allowed (or inherited from groups)
+  allowedScenarios: string[] | null; // null = all allowed (or inherited from groups)
+  allowedPlants: string[] | null; // null = all allowed (or inherited from groups)
   allowedTableAccess: TableAccess[] | null; // null = all allowed, empty = none
+  maxRows?: number | null; // Rows per page of query results, null = policy default
+  columnRules?: ColumnRule[] | null; // null or empty = every column visible
+  grants?: PermissionGrant[] | null; // Time-bounded additions to the allowed lists
   createdAt: string;
   updatedAt: string;
 }
@@ -58,9 +276,138 @@ export const userPermissionsSchema = z.object({
   allowedPlanningAreas: z.array(z.string()).nullable(),
   allowedScenarios: z.array(z.string()).nullable(),
   allowedPlants: z.array(z.string()).nullable(),
-  allowedTableAccess: z.array(z.enum(tableAccessOptions)).nullable(),
+  allowedTableAccess: z.array(z.string()).nullable(),
+  maxRows: z.number().int().min(1).max(1000).nullable().optional(),
+  columnRules: z.array(columnRuleSchema).nullable().optional(),
+  grants: z.array(permissionGrantSchema).nullable().optional(),
+  groupIds: z.array(z.string()).nullable().optional(),
+  deniedPlanningAreas: z.array(z.string()).nullable().optional(),
+  deniedScenarios: z.array(z.string()).nullable().optional(),
+  deniedPlants: z.array(z.string()).nullable().optional(),
+  deniedTableAccess: z.array(z.string()).nullable().optional(),
   createdAt: z.string().optional(),
   updatedAt: z.string().optional(),
 });
 
 export type InsertUserPermissions = z.infer<typeof userPermissionsSchema>;
+
+// Permission groups (roles) carry scopes that every member inherits
+export interface PermissionGroup extends PermissionDenies {
+  groupId: string;
+  name: string;
+  description?: string;
+  allowedPlanningAreas: string[] | null; // null = all allowed
+  allowedScenarios: string[] | null; // null = all allowed
+  allowedPlants: string[] | null; // null = all allowed
+  allowedTableAccess: TableAccess[] | null; // null = all allowed, empty = none
+  maxRows?: number | null;
+  columnRules?: ColumnRule[] | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const permissionGroupSchema = z.object({
+  groupId: z.string(),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  allowedPlanningAreas: z.array(z.string()).nullable(),
+  allowedScenarios: z.array(z.string()).nullable(),
+  allowedPlants: z.array(z.string()).nullable(),
+  allowedTableAccess: z.array(z.string()).nullable(),
+  deniedPlanningAreas: z.array(z.string()).nullable().optional(),
+  deniedScenarios: z.array(z.string()).nullable().optional(),
+  deniedPlants: z.array(z.string()).nullable().optional(),
+  deniedTableAccess: z.array(z.string()).nullable().optional(),
+  maxRows: z.number().int().min(1).max(1000).nullable().optional(),
+  columnRules: z.array(columnRuleSchema).nullable().optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export type InsertPermissionGroup = z.infer<typeof permissionGroupSchema>;
+
+// A user's permissions after merging their groups. Unlike stored permissions, an empty
+// allowed list means nothing is allowed; denied values apply when allowed is null.
+export interface EffectivePermissions extends UserPermissions {
+  deniedPlanningAreas: string[];
+  deniedScenarios: string[];
+  deniedPlants: string[];
+  deniedTableAccess: TableAccess[];
+  groups: Array<{ groupId: string; name: string }>;
+  activeGrants: PermissionGrant[]; // Grants in effect, already added to the allowed lists
+}
+
+// What a permission-denied query needed: a table-access category for a blocked table, or a
+// column the user's column rules hide or mask
+export type AccessRequestScope =
+  | { type: 'tableAccess'; table: string; categories: TableAccess[] }
+  | { type: 'column'; table: string; column: string };
+
+export const accessRequestStatuses = ['pending', 'approved', 'denied'] as const;
+export type AccessRequestStatus = typeof accessRequestStatuses[number];
+
+// A user's request for the access a blocked query needed, decided by an admin
+export interface AccessRequest {
+  id: string;
+  userId: string;
+  username: string;
+  question: string;
+  blockedReason: string;
+  scope: AccessRequestScope;
+  comment?: string; // From the requester
+  status: AccessRequestStatus;
+  createdAt: string;
+  decidedAt?: string;
+  decidedBy?: { userId?: string; username?: string };
+  decisionComment?: string;
+  grantedCategory?: TableAccess; // Category added on approval of a tableAccess request
+}
+
+export const accessRequestDecisionSchema = z.object({
+  status: z.enum(['approved', 'denied']),
+  comment: z.string().max(1000).optional(),
+  category: z.string().optional(), // Which of the scope's categories to grant (default: the first)
+});
+
+export type AccessRequestDecision = z.infer<typeof accessRequestDecisionSchema>;
+
+export const feedbackTriageStatuses = ['new', 'investigating', 'fixed', 'wont_fix'] as const;
+export type FeedbackTriageStatus = typeof feedbackTriageStatuses[number];
+
+// An admin's triage of a feedback item; correctedSql is what the query should have been
+export const feedbackTriageSchema = z.object({
+  status: z.enum(feedbackTriageStatuses),
+  notes: z.string().max(4000).optional(),
+  correctedSql: z.string().max(20000).optional(),
+});
+
+export type FeedbackTriageUpdate = z.infer<typeof feedbackTriageSchema>;
+
+export const goldenCaseSourceTypes = ['feedback', 'failed_query'] as const;
+export type GoldenCaseSourceType = typeof goldenCaseSourceTypes[number];
+
+// A regression case promoted from feedback or a failed query, run by
+// tests/golden/run-jobs-report-tests.ts. Needs at least one assertion.
+export const goldenCaseSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]{1,80}$/, "Use up to 80 lowercase letters, digits and underscores"),
+  question: z.string().trim().min(1).max(2000),
+  description: z.string().trim().min(1).max(500),
+  filters: z.object({
+    planningArea: z.string().nullable().optional(),
+    scenarioId: z.string().nullable().optional(),
+    plant: z.string().nullable().optional(),
+  }).optional(),
+  publishDate: z.string().regex(/^\d{4}-\d{2}-\d{2}/, "Use a YYYY-MM-DD date").optional(),
+  expected: z.union([z.number(), z.string().min(1)]).optional(),
+  sqlMustContain: z.array(z.string().trim().min(1)).optional(),
+  sqlMustNotContain: z.array(z.string().trim().min(1)).optional(),
+  source: z.object({
+    type: z.enum(goldenCaseSourceTypes),
+    id: z.string().min(1),
+  }),
+}).refine(
+  (c) => c.expected !== undefined || (c.sqlMustContain?.length ?? 0) > 0 || (c.sqlMustNotContain?.length ?? 0) > 0,
+  { message: "Add an expected value or at least one SQL assertion", path: ["sqlMustContain"] },
+);
+
+export type GoldenCaseInput = z.infer<typeof goldenCaseSchema>;
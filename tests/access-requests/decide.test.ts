@@ -0,0 +1,80 @@
+/**
+ * Access request decision tests
+ * A request is decided once: a second decision that arrives while the first is still being
+ * written is refused, so a request can't be approved and then recorded as denied.
+ * Run with `npm test`.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const dir = mkdtempSync(join(tmpdir(), 'query-insight-access-requests-'));
+process.env.STORAGE_SQLITE_PATH = join(dir, 'test.db');
+delete process.env.STORAGE_DATABASE_URL;
+
+const { initStorage, flushStorage } = await import('../../server/storage');
+const { initPermissions, createOrUpdateUserPermissions, getUserPermissions } = await import('../../server/permissions-storage');
+const { initPermissionGroups } = await import('../../server/permission-groups-storage');
+const { initTableAccessCategories } = await import('../../server/table-access-categories');
+const { initAccessRequests, registerBlockedQuery, createAccessRequest, decideAccessRequest, getAccessRequests } = await import('../../server/access-requests');
+
+const admin = { userId: 'admin-1', username: 'admin', source: 'token' as const };
+const context = { userId: 'user-1', username: 'alice' };
+
+async function pendingRequest(): Promise<string> {
+  const blockId = registerBlockedQuery(context, 'What did each job cost?', 'Column Cost is hidden', { type: 'column', table: '[publish].[DASHt_Planning]', column: 'Cost' });
+  assert.ok(blockId);
+  const created = await createAccessRequest(context, blockId);
+  assert.ok(created.success, created.error);
+  return created.request!.id;
+}
+
+describe('decideAccessRequest', () => {
+  before(async () => {
+    await initPermissions();
+    await initPermissionGroups();
+    await initTableAccessCategories();
+    await initAccessRequests();
+    await createOrUpdateUserPermissions({
+      userId: 'user-1',
+      username: 'alice',
+      isAdmin: false,
+      allowedPlanningAreas: null,
+      allowedScenarios: null,
+      allowedPlants: null,
+      allowedTableAccess: null,
+      columnRules: [{ table: '*', column: 'Cost', action: 'hide' }],
+    });
+  });
+
+  after(async () => {
+    await flushStorage();
+    await (await initStorage()).close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('refuses a second decision while the first is being written', async () => {
+    const id = await pendingRequest();
+    const [approval, denial] = await Promise.all([
+      decideAccessRequest(id, { status: 'approved' }, admin),
+      decideAccessRequest(id, { status: 'denied' }, admin),
+    ]);
+
+    assert.equal(approval.success, true, approval.error);
+    assert.equal(denial.success, false);
+    assert.equal(denial.status, 409);
+    assert.equal(getAccessRequests().find(r => r.id === id)?.status, 'approved');
+    assert.deepEqual(getUserPermissions('user-1')?.columnRules, []);
+  });
+
+  it('refuses to decide a request twice', async () => {
+    const id = await pendingRequest();
+    assert.equal((await decideAccessRequest(id, { status: 'denied' }, admin)).success, true);
+    const again = await decideAccessRequest(id, { status: 'approved' }, admin);
+    assert.equal(again.status, 409);
+    assert.match(again.error!, /already denied/);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Local account tests
+ * Passwords are stored as salted scrypt hashes that verify only the same password; sign-in
+ * needs an account whose user still has stored permissions, and repeated failures lock the
+ * username until an admin resets the password. Run with `npm test`.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const dir = mkdtempSync(join(tmpdir(), 'query-insight-accounts-'));
+process.env.STORAGE_SQLITE_PATH = join(dir, 'test.db');
+delete process.env.STORAGE_DATABASE_URL;
+
+const { initStorage, flushStorage } = await import('../../server/storage');
+const { initPermissions, createOrUpdateUserPermissions, deleteUserPermissions } = await import('../../server/permissions-storage');
+const accounts = await import('../../server/local-accounts');
+
+const PASSWORD = 'correct horse battery';
+
+async function addUser(userId: string, username: string): Promise<void> {
+  await createOrUpdateUserPermissions({
+    userId,
+    username,
+    isAdmin: false,
+    allowedPlanningAreas: null,
+    allowedScenarios: null,
+    allowedPlants: null,
+    allowedTableAccess: null,
+  });
+}
+
+describe('password hashing', () => {
+  it('verifies only the password that was hashed', async () => {
+    const hash = await accounts.hashPassword(PASSWORD);
+    assert.match(hash, /^scrypt\$16384\$8\$1\$[^$]+\$[^$]+$/);
+    assert.equal(await accounts.verifyPassword(PASSWORD, hash), true);
+    assert.equal(await accounts.verifyPassword('correct horse battery!', hash), false);
+  });
+
+  it('salts every hash and rejects malformed ones', async () => {
+    assert.notEqual(await accounts.hashPassword(PASSWORD), await accounts.hashPassword(PASSWORD));
+    assert.equal(await accounts.verifyPassword(PASSWORD, 'plain-text'), false);
+    assert.equal(await accounts.verifyPassword(PASSWORD, 'bcrypt$10$abc$def'), false);
+  });
+
+  it('requires a password of reasonable length', () => {
+    assert.match(accounts.validatePassword('short')!, /at least 10 characters/);
+    assert.match(accounts.validatePassword('x'.repeat(257))!, /at most 256/);
+    assert.equal(accounts.validatePassword(undefined), `Password must be at least ${accounts.MIN_PASSWORD_LENGTH} characters`);
+    assert.equal(accounts.validatePassword(PASSWORD), undefined);
+  });
+});
+
+describe('local account sign-in', () => {
+  before(async () => {
+    await initPermissions();
+    await accounts.initLocalAccounts();
+    await addUser('user-1', 'alice');
+    await addUser('user-2', 'bob');
+  });
+
+  after(async () => {
+    await flushStorage();
+    await (await initStorage()).close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates an account that must change its first password, without exposing the hash', async () => {
+    const created = await accounts.createLocalAccount('user-1', 'Alice', PASSWORD);
+    assert.equal(created.success, true, created.error);
+    assert.equal(created.account?.mustChangePassword, true);
+    assert.equal('passwordHash' in created.account!, false);
+    assert.equal((await accounts.createLocalAccount('user-2', 'alice', PASSWORD)).status, 409);
+    assert.equal((await accounts.createLocalAccount('missing', 'carol', PASSWORD)).status, 404);
+  });
+
+  it('signs in with a case-insensitive username and the right password', async () => {
+    const signedIn = await accounts.authenticateLocalAccount('ALICE', PASSWORD);
+    assert.equal(signedIn.success, true, signedIn.error);
+    assert.equal(signedIn.account?.userId, 'user-1');
+    assert.ok(signedIn.account?.lastLoginAt);
+  });
+
+  it('gives the same answer for an unknown username and a wrong password', async () => {
+    const unknown = await accounts.authenticateLocalAccount('nobody', PASSWORD);
+    const wrong = await accounts.authenticateLocalAccount('alice', 'wrong password');
+    assert.deepEqual([unknown.status, unknown.error], [wrong.status, wrong.error]);
+    assert.equal(wrong.status, 401);
+  });
+
+  it('locks a username after repeated failures until its password is reset', async () => {
+    const created = await accounts.createLocalAccount('user-2', 'bob', PASSWORD);
+    assert.equal(created.success, true, created.error);
+    for (let attempt = 0; attempt < 5; attempt++) {
+      assert.equal((await accounts.authenticateLocalAccount('bob', 'wrong password')).status, 401);
+    }
+    assert.equal((await accounts.authenticateLocalAccount('bob', PASSWORD)).status, 429);
+    assert.equal((await accounts.authenticateLocalAccount('alice', PASSWORD)).success, true);
+
+    assert.equal((await accounts.resetLocalAccountPassword('user-2', 'temporary password')).success, true);
+    assert.equal((await accounts.authenticateLocalAccount('bob', PASSWORD)).status, 401);
+    const signedIn = await accounts.authenticateLocalAccount('bob', 'temporary password');
+    assert.equal(signedIn.success, true, signedIn.error);
+    assert.equal(signedIn.account?.mustChangePassword, true);
+  });
+
+  it('refuses sign-in once the user no longer has stored permissions', async () => {
+    await deleteUserPermissions('user-1');
+    assert.equal((await accounts.authenticateLocalAccount('alice', PASSWORD)).status, 401);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Request authentication tests
+ * The authenticate middleware reads the identity from a Bearer token or the session cookie;
+ * a cookie it can't read is ignored rather than failing the request, and a state-changing
+ * request signed in by cookie must be JSON so a cross-site form can't make it. Diagnostics
+ * need DIAGNOSTICS_TOKEN in production. Run with `npm test`.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+
+process.env.AUTH_JWT_SECRET = 'test-token-secret';
+process.env.SESSION_SECRET = 'test-session-secret';
+
+const { authenticate, createSessionValue, isDiagnosticsRequestAllowed, secretMatches, SESSION_COOKIE } = await import('../../server/auth');
+
+interface Outcome {
+  identity?: Request['identity'];
+  status?: number;
+  body?: any;
+  nextCalled: boolean;
+}
+
+function run(input: { method?: string; headers?: Record<string, string> }): Outcome {
+  const req = { method: input.method ?? 'GET', path: '/api/test', headers: input.headers ?? {} } as unknown as Request;
+  const outcome: Outcome = { nextCalled: false };
+  const res = {
+    status(code: number) { outcome.status = code; return this; },
+    json(body: any) { outcome.body = body; return this; },
+  } as unknown as Response;
+  authenticate(req, res, () => { outcome.nextCalled = true; });
+  outcome.identity = req.identity;
+  return outcome;
+}
+
+const session = createSessionValue({ userId: 'user-1', username: 'alice', source: 'token' })!;
+
+describe('authenticate', () => {
+  it('reads the identity from the session cookie', () => {
+    const outcome = run({ headers: { cookie: `theme=dark; ${SESSION_COOKIE}=${encodeURIComponent(session)}` } });
+    assert.equal(outcome.nextCalled, true);
+    assert.equal(outcome.identity?.userId, 'user-1');
+    assert.equal(outcome.identity?.source, 'session');
+  });
+
+  it('ignores a malformed cookie value instead of failing the request', () => {
+    const outcome = run({ headers: { cookie: `${SESSION_COOKIE}=%E0%A4%A` } });
+    assert.equal(outcome.nextCalled, true);
+    assert.equal(outcome.identity, undefined);
+  });
+
+  it('rejects an invalid Bearer token', () => {
+    const outcome = run({ headers: { authorization: 'Bearer not.a.token' } });
+    assert.equal(outcome.nextCalled, false);
+    assert.equal(outcome.status, 401);
+  });
+});
+
+describe('authenticate cross-site form protection', () => {
+  const cookie = `${SESSION_COOKIE}=${encodeURIComponent(session)}`;
+
+  it('rejects form and text POSTs signed in by cookie', () => {
+    for (const contentType of ['application/x-www-form-urlencoded', 'multipart/form-data; boundary=x', 'text/plain']) {
+      const outcome = run({ method: 'POST', headers: { cookie, 'content-type': contentType } });
+      assert.equal(outcome.nextCalled, false, contentType);
+      assert.equal(outcome.status, 403, contentType);
+      assert.equal(outcome.identity, undefined, contentType);
+    }
+    assert.equal(run({ method: 'POST', headers: { cookie } }).status, 403);
+  });
+
+  it('accepts JSON writes and reads signed in by cookie', () => {
+    const json = run({ method: 'PUT', headers: { cookie, 'content-type': 'application/json; charset=utf-8' } });
+    assert.equal(json.nextCalled, true);
+    assert.equal(json.identity?.userId, 'user-1');
+    assert.equal(run({ method: 'GET', headers: { cookie } }).nextCalled, true);
+    assert.equal(run({ method: 'DELETE', headers: { cookie } }).nextCalled, true);
+  });
+
+  it('leaves requests without a session cookie alone', () => {
+    const outcome = run({ method: 'POST', headers: { 'content-type': 'application/x-www-form-urlencoded' } });
+    assert.equal(outcome.nextCalled, true);
+    assert.equal(outcome.identity, undefined);
+  });
+});
+
+describe('isDiagnosticsRequestAllowed', () => {
+  const request = (headers: Record<string, string>) => ({ headers }) as unknown as Request;
+
+  function withEnv(env: Record<string, string | undefined>, check: () => void): void {
+    const saved = Object.fromEntries(Object.keys(env).map(key => [key, process.env[key]]));
+    const apply = (values: Record<string, string | undefined>) => {
+      for (const [key, value] of Object.entries(values)) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+    };
+    apply(env);
+    try {
+      check();
+    } finally {
+      apply(saved);
+    }
+  }
+
+  it('allows every request outside production', () => {
+    withEnv({ NODE_ENV: 'development', DIAGNOSTICS_TOKEN: undefined }, () => {
+      assert.equal(isDiagnosticsRequestAllowed(request({})), true);
+    });
+  });
+
+  it('requires the DIAGNOSTICS_TOKEN header in production', () => {
+    withEnv({ NODE_ENV: 'production', DIAGNOSTICS_TOKEN: 'diag-secret' }, () => {
+      assert.equal(isDiagnosticsRequestAllowed(request({})), false);
+      assert.equal(isDiagnosticsRequestAllowed(request({ 'x-diagnostics-token': 'diag-secre' })), false);
+      assert.equal(isDiagnosticsRequestAllowed(request({ 'x-diagnostics-token': 'diag-secret' })), true);
+    });
+    withEnv({ NODE_ENV: 'production', DIAGNOSTICS_TOKEN: undefined }, () => {
+      assert.equal(isDiagnosticsRequestAllowed(request({ 'x-diagnostics-token': '' })), false);
+    });
+  });
+
+  it('compares secrets of any length', () => {
+    assert.equal(secretMatches('abc', 'abc'), true);
+    assert.equal(secretMatches('abc', 'abcd'), false);
+    assert.equal(secretMatches('', 'abc'), false);
+  });
+});
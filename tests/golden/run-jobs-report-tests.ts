@@ -3,15 +3,23 @@ import fs from "fs";
 interface TestCase {
   id: string;
   question: string;
-  expected?: number;
+  expected?: number | string;
   sqlMustContain?: string[];
   sqlMustNotContain?: string[];
   description: string;
+  filters?: { planningArea?: string | null; scenarioId?: string | null; plant?: string | null };
+  publishDate?: string; // Anchor date for relative dates ("this week"), as the question was asked
+  source?: { type: string; id: string }; // Set on cases promoted from the dashboard
 }
 
-const cases: TestCase[] = JSON.parse(
-  fs.readFileSync("tests/golden/jobs_report_cases.json", "utf8")
-);
+// Suites to run: paths given on the command line, or the hand-written suite plus the
+// cases promoted from feedback and failed queries (tests/golden/promoted_cases.json)
+const DEFAULT_SUITES = ["tests/golden/jobs_report_cases.json", "tests/golden/promoted_cases.json"];
+const suites = process.argv.length > 2
+  ? process.argv.slice(2)
+  : DEFAULT_SUITES.filter(path => fs.existsSync(path));
+
+const cases: TestCase[] = suites.flatMap(path => JSON.parse(fs.readFileSync(path, "utf8")));
 
 async function run() {
   let passed = 0;
@@ -22,11 +30,12 @@ async function run() {
     console.log(`TEST: ${tc.id}`);
     console.log(`Q: ${tc.question}`);
     console.log(`Description: ${tc.description}`);
+    if (tc.source) console.log(`Promoted from: ${tc.source.type} ${tc.source.id}`);
 
     const res = await fetch("http://localhost:5000/api/ask", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ question: tc.question })
+      body: JSON.stringify({ question: tc.question, filters: tc.filters, publishDate: tc.publishDate })
     });
 
     const data = await res.json();
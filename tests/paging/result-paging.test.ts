@@ -0,0 +1,72 @@
+/**
+ * Result paging tests
+ * Every page, the first included, is built with the same total order; a literal TOP bounds
+ * the pages; queries without a stable order aren't paged; and a page is cut off when its
+ * extra row comes back. Run with `npm test`.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildPageSql, takePage } from '../../server/result-paging';
+
+const PLANNING = 'FROM [publish].[DASHt_Planning]';
+
+function orderOf(pageSql: string): string {
+  return pageSql.substring(pageSql.indexOf('ORDER BY'), pageSql.indexOf(' OFFSET'));
+}
+
+describe('buildPageSql', () => {
+  it('orders by every output column when the query has no ORDER BY', () => {
+    const page = buildPageSql(`SELECT JobName, Qty ${PLANNING}`, 1, 20);
+    assert.equal(page?.sql, `SELECT JobName, Qty ${PLANNING} ORDER BY 1, 2 OFFSET 0 ROWS FETCH NEXT 21 ROWS ONLY`);
+    assert.equal(page?.fetchCount, 21);
+  });
+
+  it('uses the same order, with tie-breakers, for the first and later pages', () => {
+    const sql = `SELECT JobName, Qty ${PLANNING} ORDER BY Qty DESC`;
+    const first = buildPageSql(sql, 1, 20)!.sql;
+    const second = buildPageSql(sql, 2, 20)!.sql;
+    assert.equal(orderOf(first), 'ORDER BY Qty DESC, 1');
+    assert.equal(orderOf(second), orderOf(first));
+    assert.ok(second.endsWith('OFFSET 20 ROWS FETCH NEXT 21 ROWS ONLY'), second);
+  });
+
+  it('turns a literal TOP into the FETCH bound and stops paging past it', () => {
+    const sql = `SELECT TOP 50 JobName, Qty ${PLANNING} ORDER BY JobName`;
+    assert.equal(buildPageSql(sql, 1, 20)?.sql, `SELECT JobName, Qty ${PLANNING} ORDER BY JobName, 2 OFFSET 0 ROWS FETCH NEXT 21 ROWS ONLY`);
+    assert.equal(buildPageSql(sql, 3, 20)?.fetchCount, 10);
+    assert.equal(buildPageSql(sql, 4, 20), null);
+  });
+
+  it('orders a set operation as a whole', () => {
+    const page = buildPageSql(`SELECT JobName ${PLANNING} UNION SELECT JobName FROM [publish].[DASHt_Resources]`, 2, 20);
+    assert.ok(page?.sql.endsWith('[publish].[DASHt_Resources] ORDER BY 1 OFFSET 20 ROWS FETCH NEXT 21 ROWS ONLY'), page?.sql);
+  });
+
+  it('does not page queries without a stable order or with a single row', () => {
+    for (const sql of [
+      `SELECT * ${PLANNING}`,
+      `SELECT COUNT(*) ${PLANNING}`,
+      `SELECT TOP 10 PERCENT JobName ${PLANNING}`,
+      `SELECT JobName ${PLANNING} ORDER BY JobName OFFSET 5 ROWS`,
+      'not sql',
+    ]) {
+      assert.equal(buildPageSql(sql, 1, 20), null, sql);
+    }
+  });
+});
+
+describe('takePage', () => {
+  const rows = (count: number) => Array.from({ length: count }, (_, i) => ({ i }));
+
+  it('reports a paged result as cut off only when the extra row came back', () => {
+    assert.deepEqual(takePage(rows(21), 20, true), { rows: rows(20), cutOff: true });
+    assert.deepEqual(takePage(rows(20), 20, true), { rows: rows(20), cutOff: false });
+    assert.deepEqual(takePage(rows(3), 20, true), { rows: rows(3), cutOff: false });
+  });
+
+  it('reports an unpaged result as cut off when it reached the row limit', () => {
+    assert.equal(takePage(rows(20), 20, false).cutOff, true);
+    assert.equal(takePage(rows(19), 20, false).cutOff, false);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * SQL parser tests
+ * The tokenizer keeps literals and quoted identifiers whole and drops comments; the parser
+ * finds every table reference (CTEs, joins, subqueries), splits set operations, keeps source
+ * offsets for in-place rewrites and rejects anything but one well-formed statement.
+ * Run with `npm test`.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { tokenizeSql, parseSql, collectTableReferences, firstSelect, rewriteSql, SqlSyntaxError } from '../../server/sql-parser';
+
+function tokens(sql: string): Array<[string, string]> {
+  return tokenizeSql(sql).map(token => [token.type, token.value]);
+}
+
+describe('tokenizeSql', () => {
+  it('unescapes quoted identifiers and keeps string literals whole', () => {
+    assert.deepEqual(tokens("SELECT [Job]]Name], 'it''s -- no' AS s"), [
+      ['word', 'SELECT'],
+      ['quoted', 'Job]Name'],
+      ['operator', ','],
+      ['string', "'it''s -- no'"],
+      ['word', 'AS'],
+      ['word', 's'],
+    ]);
+  });
+
+  it('drops line and nested block comments', () => {
+    assert.deepEqual(tokens('SELECT /* a /* nested */ b */ @x -- trailing\n= 1.5'), [
+      ['word', 'SELECT'],
+      ['variable', '@x'],
+      ['operator', '='],
+      ['number', '1.5'],
+    ]);
+  });
+
+  it('records source offsets and uppercased keywords', () => {
+    const [select, column] = tokenizeSql('select JobName');
+    assert.equal(select.upper, 'SELECT');
+    assert.deepEqual([column.start, column.end], [7, 14]);
+  });
+
+  it('rejects unterminated literals and identifiers', () => {
+    assert.throws(() => tokenizeSql("SELECT 'abc"), (error: SqlSyntaxError) => error.position === 7 && /Unterminated string/.test(error.message));
+    assert.throws(() => tokenizeSql('SELECT * FROM [x'), /Unterminated bracketed identifier/);
+  });
+});
+
+describe('parseSql', () => {
+  it('collects table references from CTEs, joins and subqueries', () => {
+    const statement = parseSql(
+      'WITH c AS (SELECT JobName, Id FROM [publish].[DASHt_Planning]) ' +
+      'SELECT c.JobName, r.ResourceName FROM c JOIN [publish].[DASHt_Resources] r ON r.Id = c.Id ' +
+      'WHERE r.Id IN (SELECT Id FROM publish.DASHt_Plants)'
+    );
+    assert.deepEqual(statement.ctes.map(cte => cte.name), ['c']);
+    assert.deepEqual(
+      collectTableReferences(statement).map(table => [table.name, table.isCte, table.alias]),
+      [['DASHt_Planning', false, undefined], ['c', true, undefined], ['DASHt_Resources', false, 'r'], ['DASHt_Plants', false, undefined]]
+    );
+    assert.deepEqual(firstSelect(statement.query).from?.joins.map(join => join.type), ['INNER']);
+  });
+
+  it('splits a set operation into its terms and keeps its ORDER BY on the whole', () => {
+    const { query } = parseSql('SELECT JobName FROM [publish].[DASHt_Planning] UNION ALL SELECT ResourceName FROM [publish].[DASHt_Resources] ORDER BY 1');
+    assert.equal(query.terms.length, 2);
+    assert.deepEqual(query.operators, ['UNION ALL']);
+    assert.ok(query.orderBy);
+  });
+
+  it('keeps offsets that rewriteSql can edit in place', () => {
+    const sql = 'SELECT JobName FROM [publish].[DASHt_Planning]';
+    const select = firstSelect(parseSql(sql).query);
+    const table = collectTableReferences(parseSql(sql))[0];
+    assert.equal(sql.slice(table.start, table.end), '[publish].[DASHt_Planning]');
+    assert.equal(
+      rewriteSql(sql, [{ start: select.topInsertAt, end: select.topInsertAt, text: ' TOP (5)' }, { start: table.end, end: table.end, text: ' p' }]),
+      'SELECT TOP (5) JobName FROM [publish].[DASHt_Planning] p'
+    );
+  });
+
+  it('rejects multiple statements and malformed SQL', () => {
+    assert.throws(() => parseSql('SELECT 1; SELECT 2'), (error: SqlSyntaxError) => error.multipleStatements);
+    assert.throws(() => parseSql('SELECT FROM [publish].[DASHt_Planning]'), SqlSyntaxError);
+  });
+});
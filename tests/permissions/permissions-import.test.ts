@@ -0,0 +1,133 @@
+/**
+ * Permissions import/export tests
+ * An export imports back unchanged in either format; the plan reports added, changed and
+ * removed users and every invalid row by its line; and an import with errors applies nothing.
+ * Run with `npm test`.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const dir = mkdtempSync(join(tmpdir(), 'query-insight-import-'));
+process.env.STORAGE_SQLITE_PATH = join(dir, 'test.db');
+delete process.env.STORAGE_DATABASE_URL;
+
+const { initStorage, flushStorage } = await import('../../server/storage');
+const { initPermissions, createOrUpdateUserPermissions, getUserPermissions } = await import('../../server/permissions-storage');
+const { initPermissionGroups } = await import('../../server/permission-groups-storage');
+const { initTableAccessCategories } = await import('../../server/table-access-categories');
+const { exportUserPermissions, planPermissionsImport, applyPermissionsImport } = await import('../../server/permissions-import');
+
+const known = { planningAreas: ['North', 'South'], scenarios: ['1'], plants: ['Plant A', 'Plant B'] };
+const HEADER = 'userId,username,allowedPlanningAreas,allowedPlants,allowedTableAccess,columnRules';
+
+describe('permissions import', () => {
+  before(async () => {
+    await initPermissions();
+    await initPermissionGroups();
+    await initTableAccessCategories();
+    await createOrUpdateUserPermissions({
+      userId: 'user-1',
+      username: 'alice',
+      email: 'alice@example.com',
+      isAdmin: false,
+      allowedPlanningAreas: ['North'],
+      allowedScenarios: null,
+      allowedPlants: [],
+      allowedTableAccess: ['Sales'],
+      deniedPlants: ['Plant B'],
+      maxRows: 250,
+      columnRules: [{ table: '*', column: 'Cost', action: 'mask' }],
+      grants: [{ type: 'plant', value: 'Plant A', startsAt: null, expiresAt: '2030-01-01T00:00:00.000Z' }],
+    });
+    await createOrUpdateUserPermissions({
+      userId: 'user-2',
+      username: 'bob',
+      isAdmin: true,
+      allowedPlanningAreas: null,
+      allowedScenarios: null,
+      allowedPlants: null,
+      allowedTableAccess: null,
+    });
+  });
+
+  after(async () => {
+    await flushStorage();
+    await (await initStorage()).close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('imports its own export back without changes', () => {
+    for (const format of ['csv', 'json'] as const) {
+      const plan = planPermissionsImport(exportUserPermissions(format), format, { removeMissing: true }, known);
+      assert.deepEqual(plan.errors, [], format);
+      assert.deepEqual([plan.added, plan.changed, plan.removed, plan.unchanged], [[], [], [], 2], format);
+    }
+  });
+
+  it('writes unrestricted and empty lists differently', () => {
+    const csv = exportUserPermissions('csv');
+    const alice = csv.split(/\r?\n/).find(line => line.startsWith('user-1,'))!;
+    assert.ok(alice.includes(',North,,(none),Sales,'), alice);
+    assert.ok(alice.includes('*.Cost:mask'), alice);
+    assert.ok(alice.includes('plant:Plant A@..2030-01-01T00:00:00.000Z'), alice);
+  });
+
+  it('plans added, changed and removed users', () => {
+    const csv = [HEADER, 'user-1,alice,South,,,', 'user-3,carol,North,Plant A,Revenue,DASHt_Planning.Cost:hide'].join('\n');
+    const plan = planPermissionsImport(csv, 'csv', { removeMissing: true }, known);
+    assert.deepEqual(plan.errors, []);
+    assert.deepEqual(plan.added, [{ userId: 'user-3', username: 'carol' }]);
+    assert.deepEqual(plan.changed.map(change => change.userId), ['user-1']);
+    assert.ok(plan.changed[0].changes.some(change => change.field === 'allowedPlanningAreas'));
+    assert.deepEqual(plan.removed, [{ userId: 'user-2', username: 'bob' }]);
+  });
+
+  it('reports each invalid row by its line', () => {
+    const csv = [
+      HEADER,
+      'user-3,carol,West,,,',
+      'user-4,dave,,,Payroll,',
+      'user-5,erin,,,,Cost',
+      'user-3,carol2,,,,',
+      'user-6,BOB,,,,',
+    ].join('\n');
+    const errors = planPermissionsImport(csv, 'csv', {}, known).errors.map(error => [error.row, error.message]);
+    assert.deepEqual(errors, [
+      [2, 'Unknown planning area: West'],
+      [3, 'Unknown table access categories: Payroll'],
+      [4, 'Invalid column rule "Cost" (expected table.column:hide or table.column:mask)'],
+      [5, 'Duplicate userId user-3'],
+      [6, 'Username BOB belongs to existing user user-2'],
+    ]);
+  });
+
+  it('rejects a file without the required columns or a users array', () => {
+    assert.equal(planPermissionsImport('name\nalice', 'csv', {}, known).errors[0].message, 'Missing required columns: userId, username');
+    assert.match(planPermissionsImport('{"people": []}', 'json', {}, known).errors[0].message, /"users" array/);
+  });
+
+  it('applies nothing when the file has errors', async () => {
+    const csv = [HEADER, 'user-1,alice,South,,,', 'user-3,carol,West,,,'].join('\n');
+    const { plan, applied } = await applyPermissionsImport(csv, 'csv', {}, known);
+    assert.equal(plan.errors.length, 1);
+    assert.deepEqual(applied, []);
+    assert.deepEqual(getUserPermissions('user-1')?.allowedPlanningAreas, ['North']);
+  });
+
+  it('applies a valid file and reports the before and after of each user', async () => {
+    const csv = [HEADER, 'user-1,alice,South,,,', 'user-3,carol,North,Plant A,Revenue,DASHt_Planning.Cost:hide'].join('\n');
+    const { applied } = await applyPermissionsImport(csv, 'csv', { removeMissing: true }, known);
+    assert.deepEqual(applied.map(change => [change.userId, !!change.before, !!change.after]), [
+      ['user-2', true, false],
+      ['user-1', true, true],
+      ['user-3', false, true],
+    ]);
+    assert.deepEqual(getUserPermissions('user-1')?.allowedPlanningAreas, ['South']);
+    assert.deepEqual(getUserPermissions('user-3')?.columnRules, [{ table: 'DASHt_Planning', column: 'Cost', action: 'hide' }]);
+    assert.equal(getUserPermissions('user-2'), undefined);
+  });
+});
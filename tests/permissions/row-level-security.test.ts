@@ -0,0 +1,161 @@
+/**
+ * Row-level security tests
+ * Every publish table reference in multi-join SQL gets the user's planning-area and plant
+ * restrictions: FROM and JOIN tables, APPLY and scalar subqueries, CTE bodies and each
+ * branch of a set operation. Run with `npm test`.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { UserPermissions } from '@shared/schema';
+import { applyRowLevelSecurity } from '../../server/query-permissions';
+import { mergePermissions } from '../../server/effective-permissions';
+import { parseSql } from '../../server/sql-parser';
+
+const now = new Date().toISOString();
+
+function permissionsFor(overrides: Partial<UserPermissions>) {
+  return mergePermissions({
+    userId: 'rls-test',
+    username: 'rls-test',
+    isAdmin: false,
+    allowedPlanningAreas: ['North'],
+    allowedScenarios: null,
+    allowedPlants: ['Plant A'],
+    allowedTableAccess: null,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  }, []);
+}
+
+const restricted = permissionsFor({});
+
+const PLANNING = "[p].[PlanningAreaName] IN ('North') AND [p].[BlockPlant] IN ('Plant A')";
+const RESOURCES = "[d].[PlanningAreaName] IN ('North') AND [d].[PlantName] IN ('Plant A')";
+
+/**
+ * Rewrite the SQL for the restricted user and check the result still parses
+ */
+function secure(sql: string, permissions = restricted): string {
+  const { modifiedSql } = applyRowLevelSecurity(sql, permissions);
+  assert.doesNotThrow(() => parseSql(modifiedSql), `Rewritten SQL must parse: ${modifiedSql}`);
+  return modifiedSql;
+}
+
+function assertContains(sql: string, ...fragments: string[]): void {
+  for (const fragment of fragments) {
+    assert.ok(sql.includes(fragment), `Expected "${fragment}" in: ${sql}`);
+  }
+}
+
+describe('applyRowLevelSecurity joins', () => {
+  it('filters both sides of an INNER JOIN in WHERE', () => {
+    const sql = secure('SELECT p.JobName, d.Activity FROM [publish].[DASHt_Planning] p INNER JOIN [publish].[DASHt_Resources] d ON d.JobId = p.JobId');
+    assertContains(sql, `ON d.JobId = p.JobId WHERE ${PLANNING} AND ${RESOURCES}`);
+  });
+
+  it('filters a LEFT JOIN table in its ON clause so unmatched rows are kept', () => {
+    const sql = secure('SELECT p.JobName, d.Activity FROM [publish].[DASHt_Planning] p LEFT JOIN [publish].[DASHt_Resources] d ON d.JobId = p.JobId WHERE p.IsLate = 1');
+    assertContains(sql, `ON (d.JobId = p.JobId) AND ${RESOURCES} WHERE (p.IsLate = 1) AND ${PLANNING}`);
+  });
+
+  it('filters both sides of a RIGHT JOIN in WHERE', () => {
+    const sql = secure('SELECT p.JobName, d.Activity FROM [publish].[DASHt_Planning] p RIGHT JOIN [publish].[DASHt_Resources] d ON d.JobId = p.JobId');
+    assertContains(sql, `WHERE ${PLANNING} AND ${RESOURCES}`);
+  });
+
+  it('filters both sides of a FULL OUTER JOIN and a CROSS JOIN', () => {
+    const full = secure('SELECT p.JobName FROM [publish].[DASHt_Planning] p FULL OUTER JOIN [publish].[DASHt_Resources] d ON d.JobId = p.JobId');
+    assertContains(full, `WHERE ${PLANNING} AND ${RESOURCES}`);
+    const cross = secure('SELECT p.JobName FROM [publish].[DASHt_Planning] p CROSS JOIN [publish].[DASHt_Resources] d');
+    assertContains(cross, `CROSS JOIN [publish].[DASHt_Resources] d WHERE ${PLANNING} AND ${RESOURCES}`);
+  });
+
+  it('filters tables inside CROSS APPLY and OUTER APPLY subqueries', () => {
+    for (const apply of ['CROSS APPLY', 'OUTER APPLY']) {
+      const sql = secure(`SELECT p.JobName, x.Activity FROM [publish].[DASHt_Planning] p ${apply} (SELECT TOP 1 d.Activity FROM [publish].[DASHt_Resources] d WHERE d.JobId = p.JobId) x`);
+      assertContains(sql, `WHERE (d.JobId = p.JobId) AND ${RESOURCES}) x WHERE ${PLANNING}`);
+    }
+  });
+
+  it('leaves tables without filter columns alone in a three-way join', () => {
+    const sql = secure('SELECT p.JobName FROM [publish].[DASHt_Planning] p JOIN [publish].[Jobs] j ON j.JobId = p.JobId JOIN [publish].[DASHt_Resources] d ON d.JobId = p.JobId');
+    assertContains(sql, `WHERE ${PLANNING} AND ${RESOURCES}`);
+    assert.ok(!sql.includes('[j].'), `Jobs has no filter columns: ${sql}`);
+  });
+});
+
+describe('applyRowLevelSecurity nested queries', () => {
+  it('filters CTE bodies, including joins inside them, but not references to the CTE', () => {
+    const sql = secure('WITH late AS (SELECT JobId FROM [publish].[DASHt_Planning] WHERE IsLate = 1), busy AS (SELECT l.JobId FROM late l JOIN [publish].[DASHt_Resources] d ON d.JobId = l.JobId) SELECT * FROM busy');
+    assertContains(
+      sql,
+      "WHERE (IsLate = 1) AND [publish].[DASHt_Planning].[PlanningAreaName] IN ('North')",
+      `ON d.JobId = l.JobId WHERE ${RESOURCES})`,
+    );
+    assert.ok(!sql.includes('[l].') && !sql.includes('[busy].'), `CTE references must not be filtered: ${sql}`);
+  });
+
+  it('filters derived tables and IN, EXISTS and scalar subqueries', () => {
+    const derived = secure('SELECT x.JobName FROM (SELECT JobName, JobId FROM [publish].[DASHt_Planning]) x WHERE x.JobId IN (SELECT d.JobId FROM [publish].[DASHt_Resources] d)');
+    assertContains(
+      derived,
+      "FROM [publish].[DASHt_Planning] WHERE [publish].[DASHt_Planning].[PlanningAreaName] IN ('North')",
+      `FROM [publish].[DASHt_Resources] d WHERE ${RESOURCES})`,
+    );
+
+    const exists = secure('SELECT p.JobName FROM [publish].[DASHt_Planning] p WHERE EXISTS (SELECT 1 FROM [publish].[DASHt_Resources] d WHERE d.JobId = p.JobId)');
+    assertContains(exists, `WHERE (d.JobId = p.JobId) AND ${RESOURCES})) AND ${PLANNING}`);
+
+    const scalar = secure('SELECT (SELECT COUNT(*) FROM [publish].[DASHt_Resources] d WHERE d.JobId = p.JobId) AS Demands FROM [publish].[DASHt_Planning] p');
+    assertContains(scalar, `WHERE (d.JobId = p.JobId) AND ${RESOURCES}) AS Demands FROM [publish].[DASHt_Planning] p WHERE ${PLANNING}`);
+  });
+
+  it('filters every branch of UNION, UNION ALL and INTERSECT', () => {
+    const sql = secure('SELECT p.JobName FROM [publish].[DASHt_Planning] p UNION SELECT d.JobName FROM [publish].[DASHt_Resources] d UNION ALL SELECT c.JobName FROM [publish].[DASHt_Planning] c INTERSECT SELECT p.JobName FROM [publish].[DASHt_Planning] p');
+    assertContains(
+      sql,
+      `FROM [publish].[DASHt_Planning] p WHERE ${PLANNING} UNION`,
+      `FROM [publish].[DASHt_Resources] d WHERE ${RESOURCES} UNION ALL`,
+      "FROM [publish].[DASHt_Planning] c WHERE [c].[PlanningAreaName] IN ('North')",
+    );
+    assert.ok(sql.endsWith(`INTERSECT SELECT p.JobName FROM [publish].[DASHt_Planning] p WHERE ${PLANNING}`), sql);
+  });
+
+  it('filters joins inside a UNION branch', () => {
+    const sql = secure('SELECT p.JobName FROM [publish].[DASHt_Planning] p UNION SELECT p.JobName FROM [publish].[DASHt_Planning] p LEFT JOIN [publish].[DASHt_Resources] d ON d.JobId = p.JobId');
+    assertContains(sql, `UNION SELECT p.JobName FROM [publish].[DASHt_Planning] p LEFT JOIN [publish].[DASHt_Resources] d ON (d.JobId = p.JobId) AND ${RESOURCES} WHERE ${PLANNING}`);
+  });
+});
+
+describe('applyRowLevelSecurity scopes', () => {
+  it('denies every row when denies remove all of the allowed values', () => {
+    const sql = secure(
+      'SELECT p.JobName FROM [publish].[DASHt_Planning] p JOIN [publish].[DASHt_Resources] d ON d.JobId = p.JobId',
+      permissionsFor({ allowedPlanningAreas: ['North'], deniedPlanningAreas: ['North'], allowedPlants: null }),
+    );
+    assertContains(sql, 'WHERE 1 = 0 AND 1 = 0');
+  });
+
+  it('excludes denied values with NOT IN on an unrestricted scope', () => {
+    const { modifiedSql, appliedFilters } = applyRowLevelSecurity(
+      'SELECT p.JobName FROM [publish].[DASHt_Planning] p',
+      permissionsFor({ allowedPlanningAreas: null, deniedPlanningAreas: ['South'], allowedPlants: null }),
+    );
+    assertContains(modifiedSql, "WHERE [p].[PlanningAreaName] NOT IN ('South')");
+    assert.deepEqual(appliedFilters, ['PlanningArea: not South']);
+  });
+
+  it('escapes quotes in allowed values', () => {
+    const sql = secure('SELECT p.JobName FROM [publish].[DASHt_Planning] p', permissionsFor({ allowedPlanningAreas: ["O'Hare"], allowedPlants: null }));
+    assertContains(sql, "[p].[PlanningAreaName] IN ('O''Hare')");
+  });
+
+  it('leaves SQL unchanged for users without restrictions', () => {
+    const sql = 'SELECT p.JobName FROM [publish].[DASHt_Planning] p JOIN [publish].[DASHt_Resources] d ON d.JobId = p.JobId';
+    const { modifiedSql, appliedFilters } = applyRowLevelSecurity(sql, permissionsFor({ allowedPlanningAreas: null, allowedPlants: null }));
+    assert.equal(modifiedSql, sql);
+    assert.deepEqual(appliedFilters, []);
+  });
+});
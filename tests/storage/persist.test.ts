@@ -0,0 +1,55 @@
+/**
+ * Write-through queue tests
+ * persist() rejects with a failed write for callers that wait for it; persistInBackground()
+ * only logs it, so a failed log or counter write can't surface as an unhandled rejection.
+ * Run with `npm test`.
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const dir = mkdtempSync(join(tmpdir(), 'query-insight-storage-'));
+process.env.STORAGE_SQLITE_PATH = join(dir, 'test.db');
+delete process.env.STORAGE_DATABASE_URL;
+
+const storage = await import('../../server/storage');
+
+function failingWrite(): Promise<void> {
+  return Promise.reject(new Error('disk full'));
+}
+
+describe('persist', () => {
+  let unhandled: unknown[] = [];
+  const onUnhandled = (reason: unknown) => { unhandled.push(reason); };
+
+  before(() => { process.on('unhandledRejection', onUnhandled); });
+  after(async () => {
+    process.off('unhandledRejection', onUnhandled);
+    await (await storage.initStorage()).close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('rejects with the error of a failed write', async () => {
+    await assert.rejects(storage.persist('test write', failingWrite), /disk full/);
+  });
+
+  it('keeps running queued writes after a failure', async () => {
+    const order: string[] = [];
+    const failed = storage.persist('first', async () => { order.push('first'); throw new Error('disk full'); });
+    const second = storage.persist('second', async () => { order.push('second'); });
+    await assert.rejects(failed);
+    await second;
+    assert.deepEqual(order, ['first', 'second']);
+  });
+
+  it('does not leave a rejection unhandled for background writes', async () => {
+    unhandled = [];
+    storage.persistInBackground('test background write', failingWrite);
+    await storage.flushStorage();
+    await new Promise(resolve => setImmediate(resolve));
+    assert.deepEqual(unhandled, []);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * SQL validator tests
+ * Row limits on the outermost query: TOP on a single SELECT, FETCH on OFFSET queries and on
+ * set operations as a whole; plus the validator's own self-check. Run with `npm test`.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateAndModifySql, runValidatorSelfCheck } from '../../server/sql-validator';
+import { parseSql } from '../../server/sql-parser';
+
+function limited(sql: string, maxRows = 100): string {
+  const result = validateAndModifySql(sql, { maxRows });
+  assert.ok(result.valid, `Expected valid: ${result.error}`);
+  assert.doesNotThrow(() => parseSql(result.modifiedSql!), `Limited SQL must parse: ${result.modifiedSql}`);
+  return result.modifiedSql!;
+}
+
+describe('validateAndModifySql row limits', () => {
+  it('adds TOP to a single SELECT and clamps a larger TOP', () => {
+    assert.equal(limited('SELECT JobName FROM [publish].[DASHt_Planning]'), 'SELECT TOP (100) JobName FROM [publish].[DASHt_Planning]');
+    assert.equal(limited('SELECT TOP 5000 JobName FROM [publish].[DASHt_Planning]'), 'SELECT TOP (100) JobName FROM [publish].[DASHt_Planning]');
+  });
+
+  it('limits a set operation as a whole without a derived table', () => {
+    const union = 'SELECT JobName FROM [publish].[DASHt_Planning] UNION ALL SELECT ResourceName FROM [publish].[DASHt_Resources]';
+    assert.equal(limited(union, 50), `${union} ORDER BY 1 OFFSET 0 ROWS FETCH NEXT 50 ROWS ONLY`);
+  });
+
+  it('limits a set operation of unnamed columns', () => {
+    const counts = 'SELECT COUNT(*) FROM [publish].[DASHt_Planning] UNION ALL SELECT COUNT(*) FROM [publish].[DASHt_Resources]';
+    const sql = limited(counts);
+    assert.equal(sql, `${counts} ORDER BY 1 OFFSET 0 ROWS FETCH NEXT 100 ROWS ONLY`);
+    assert.ok(!/\) AS \w+$/.test(sql), `Must not wrap in a derived table: ${sql}`);
+  });
+
+  it('keeps the ORDER BY of an ordered set operation and fetches after it', () => {
+    const sql = limited('SELECT JobName FROM [publish].[DASHt_Planning] EXCEPT SELECT JobName FROM [publish].[DASHt_Resources] ORDER BY JobName');
+    assert.ok(sql.endsWith('EXCEPT SELECT JobName FROM [publish].[DASHt_Resources] ORDER BY JobName OFFSET 0 ROWS FETCH NEXT 100 ROWS ONLY'), sql);
+  });
+
+  it('limits OFFSET queries through FETCH', () => {
+    assert.ok(limited('SELECT JobName FROM [publish].[DASHt_Planning] ORDER BY JobName OFFSET 20 ROWS').endsWith('OFFSET 20 ROWS FETCH NEXT 100 ROWS ONLY'));
+    assert.ok(limited('SELECT JobName FROM [publish].[DASHt_Planning] ORDER BY JobName OFFSET 0 ROWS FETCH NEXT 900 ROWS ONLY').endsWith('FETCH NEXT 100 ROWS ONLY'));
+  });
+});
+
+describe('runValidatorSelfCheck', () => {
+  it('passes every check', () => {
+    const { passed, results } = runValidatorSelfCheck();
+    assert.ok(passed, results.filter(line => !line.startsWith('✅')).join('\n'));
+  });
+});